@@ -9,6 +9,10 @@ import * as CityAPI from './city-api';
 const ADVISOR_INTERVAL_MS = 30000; // 30 seconds
 const MIN_BUILDINGS_FOR_ADVICE = 1;
 const MIN_TIME_BETWEEN_ADVICE_MS = 60000; // 60 seconds
+/** Simulation steps of history the advice looks back on (5 minutes at normal speed) */
+const TREND_STEPS = 300;
+/** Metrics whose trend is shown to the advisor */
+const TREND_METRICS = ['population', 'happiness', 'employment', 'powered', 'treasury', 'requestsExpired', 'disasters'];
 
 export class Advisor {
   private gemini: GeminiService;
@@ -53,12 +57,15 @@ export class Advisor {
     this.isAnalyzing = true;
 
     try {
-      const screenshot = CityAPI.getScreenshot();
+      const overlay = pickOverlay();
+      const screenshot = CityAPI.getScreenshot(overlay);
       if (!screenshot) return;
 
       const prompt = `You are analyzing this city as an AI advisor.
+The screenshot shows the ${overlay} overlay: tiles are coloured from red (low) to green (high).
 Current stats: ${state.buildingCount} buildings, population ${state.population}, simTime ${state.simTime}.
 Building breakdown: ${JSON.stringify(countByType(state.buildings))}.
+Trends over the last ${TREND_STEPS} simulation seconds: ${describeTrends()}.
 
 Give ONE brief, actionable suggestion (1-2 sentences) to improve the city.
 Focus on the most impactful issue (missing power, no roads, unbalanced zones, etc).
@@ -75,6 +82,26 @@ Do NOT use any tools. Just give advice.`;
   }
 }
 
+/** The map overlay that shows the city's most pressing problem best */
+function pickOverlay(): string {
+  if ((window as any).game?.city?.activeDisaster) return 'damage';
+  const { factors } = CityAPI.getHappiness();
+  if (factors.power < 100) return 'power';
+  if (factors.traffic < 0) return 'traffic';
+  if (factors.pollution <= -3) return 'pollution';
+  const employment = CityAPI.getHistory('employment', -1).metrics?.employment?.last ?? 100;
+  if (employment < 80) return 'jobs';
+  return 'land-value';
+}
+
+/** One line summarising how the key metrics changed recently, e.g. "happiness 62→55 (-7)" */
+function describeTrends(): string {
+  const history = CityAPI.getHistory(TREND_METRICS.join(','), -TREND_STEPS);
+  const trends = Object.entries(history.metrics ?? {}).map(([metric, m]: [string, any]) =>
+    `${metric} ${m.first}→${m.last} (${m.change >= 0 ? '+' : ''}${m.change})`);
+  return trends.length > 0 ? trends.join(', ') : 'not recorded yet';
+}
+
 function countByType(buildings: Array<{ type: string }>): Record<string, number> {
   const counts: Record<string, number> = {};
   for (const b of buildings) {
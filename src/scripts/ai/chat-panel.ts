@@ -1,7 +1,8 @@
 /**
  * Chat UI panel for interacting with the AI Mayor.
- * Renders messages, handles input, displays tool execution progress.
+ * Renders messages, handles input, displays tool execution progress and plan cards.
  */
+import type { Plan } from './city-api';
 
 export type SendMessageFn = (message: string) => Promise<void>;
 
@@ -13,6 +14,19 @@ interface ChatMessage {
 
 export type MicToggleFn = () => Promise<void>;
 
+/** Handles a slash command typed in the chat. Returns the reply to show. */
+export type ChatCommandFn = (args: string) => string;
+
+/** What the buttons of a plan card do */
+export interface PlanCardActions {
+  onApprove: () => void;
+  onModify: () => void;
+  onReject: () => void;
+}
+
+/** Most refused tiles listed on a plan card */
+const MAX_PLAN_ERRORS_SHOWN = 5;
+
 export class ChatPanel {
   private messagesEl: HTMLElement;
   private inputEl: HTMLInputElement;
@@ -21,7 +35,10 @@ export class ChatPanel {
   private quickBtns: NodeListOf<Element>;
   private sendMessageFn: SendMessageFn | null = null;
   private micToggleFn: MicToggleFn | null = null;
+  private commands = new Map<string, ChatCommandFn>();
   private isProcessing = false;
+  /** Card of the plan awaiting approval, if any */
+  private planCard: HTMLElement | null = null;
 
   constructor() {
     this.messagesEl = document.getElementById('chat-messages')!;
@@ -41,6 +58,11 @@ export class ChatPanel {
     this.micToggleFn = fn;
   }
 
+  /** Register a slash command (e.g. "undo" for "/undo") that runs without the AI. */
+  registerCommand(name: string, fn: ChatCommandFn): void {
+    this.commands.set(name, fn);
+  }
+
   updateVoiceStatus(status: 'idle' | 'connecting' | 'listening' | 'speaking'): void {
     this.micBtn.classList.remove('voice-connecting', 'voice-listening', 'voice-speaking');
     if (status !== 'idle') {
@@ -85,9 +107,24 @@ export class ChatPanel {
     this.inputEl.value = '';
     this.addMessage('user', text);
 
+    if (this.runCommand(text)) return;
     await this.processMessage(text);
   }
 
+  /** Run a registered slash command. Returns false if the text is not one. */
+  private runCommand(text: string): boolean {
+    const match = text.match(/^\/(\S+)\s*(.*)$/);
+    const command = match && this.commands.get(match[1].toLowerCase());
+    if (!command) return false;
+
+    try {
+      this.addMessage('system', command(match[2]));
+    } catch (err: any) {
+      this.addMessage('system', `Error: ${err.message}`);
+    }
+    return true;
+  }
+
   private async handleQuickAction(action: string): Promise<void> {
     if (this.isProcessing) return;
 
@@ -176,6 +213,95 @@ export class ChatPanel {
     this.scrollToBottom();
   }
 
+  /**
+   * Show a proposed plan as a card with Approve / Modify / Reject buttons.
+   * A card that was still open is closed as replaced.
+   */
+  showPlanCard(plan: Plan, actions: PlanCardActions): void {
+    this.closePlanCard('置き換え済み');
+
+    const el = document.createElement('div');
+    el.className = 'chat-plan-card';
+
+    const title = document.createElement('div');
+    title.className = 'plan-card-title';
+    title.textContent = `📐 ${plan.name}`;
+    el.appendChild(title);
+
+    if (plan.description) {
+      const description = document.createElement('div');
+      description.className = 'plan-card-description';
+      description.textContent = plan.description;
+      el.appendChild(description);
+    }
+
+    const summary = document.createElement('div');
+    summary.className = 'plan-card-summary';
+    summary.textContent = `建設 ${plan.buildableCount}マス ・ 費用 $${plan.totalCost} ／ 財源 $${plan.treasury}`;
+    el.appendChild(summary);
+
+    const refused = plan.tiles.filter((tile) => tile.error);
+    if (refused.length > 0) {
+      const errors = document.createElement('ul');
+      errors.className = 'plan-card-errors';
+      for (const tile of refused.slice(0, MAX_PLAN_ERRORS_SHOWN)) {
+        const item = document.createElement('li');
+        item.textContent = `X${tile.x}Y${tile.y} ${tile.type}: ${tile.error}`;
+        errors.appendChild(item);
+      }
+      if (refused.length > MAX_PLAN_ERRORS_SHOWN) {
+        const item = document.createElement('li');
+        item.textContent = `…他 ${refused.length - MAX_PLAN_ERRORS_SHOWN}マス`;
+        errors.appendChild(item);
+      }
+      el.appendChild(errors);
+    }
+
+    const buttons = document.createElement('div');
+    buttons.className = 'plan-card-buttons';
+    const addButton = (label: string, className: string, action: () => void) => {
+      const btn = document.createElement('button');
+      btn.className = `plan-card-btn ${className}`;
+      btn.textContent = label;
+      btn.addEventListener('click', action);
+      buttons.appendChild(btn);
+    };
+    addButton('承認', 'plan-card-approve', () => {
+      this.closePlanCard('✅ 承認済み');
+      actions.onApprove();
+    });
+    addButton('修正', 'plan-card-modify', () => actions.onModify());
+    addButton('却下', 'plan-card-reject', () => {
+      this.closePlanCard('却下済み');
+      actions.onReject();
+    });
+    el.appendChild(buttons);
+
+    this.planCard = el;
+    this.messagesEl.appendChild(el);
+    this.scrollToBottom();
+  }
+
+  /** Disable the buttons of the open plan card and label it with the outcome. */
+  closePlanCard(status = '終了'): void {
+    if (!this.planCard) return;
+    this.planCard.querySelectorAll('button').forEach((btn) => {
+      btn.disabled = true;
+    });
+    const label = document.createElement('div');
+    label.className = 'plan-card-status';
+    label.textContent = status;
+    this.planCard.appendChild(label);
+    this.planCard.classList.add('plan-card-closed');
+    this.planCard = null;
+  }
+
+  /** Put text in the input box for the player to finish. */
+  prefillInput(text: string): void {
+    this.inputEl.value = text;
+    this.inputEl.focus();
+  }
+
   private showTypingIndicator(): void {
     let indicator = document.getElementById('typing-indicator');
     if (!indicator) {
@@ -221,7 +347,8 @@ export class ChatPanel {
       `- 「スターターの街を作って」\n` +
       `- 「北側に住宅地を追加して」\n` +
       `- 「幸福度をチェックして」\n\n` +
-      `市民のリクエストに応えて幸福度を上げてください！`
+      `市民のリクエストに応えて幸福度を上げてください！\n` +
+      `\`/scenario\` で目標と制限時間のあるシナリオに挑戦できます。`
     );
   }
 }
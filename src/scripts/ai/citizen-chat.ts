@@ -1,14 +1,13 @@
 /**
- * Citizen Chat Dialog - Click a citizen to open a conversation powered by Gemini.
- * Each citizen has a unique personality based on their state, age, and workplace.
- * Voice is provided by CitizenVoice (Gemini Live API native audio).
+ * Citizen Chat Dialog - Click a citizen to open a conversation powered by the AI provider.
+ * Each citizen has a unique personality based on their state, age, and workplace,
+ * and remembers earlier conversations and requests through their CitizenProfile.
+ * Voice is provided by CitizenVoice (live audio, when the provider supports it).
  */
-import { GoogleGenAI } from '@google/genai';
-import type { Content } from '@google/genai';
 import * as CityAPI from './city-api';
+import type { CitizenProfile, CitizenProfileStore } from './citizen-profiles';
 import type { CitizenVoice } from './citizen-voice';
-
-const MODEL_ID = 'gemini-3-flash-preview';
+import type { ChatMessage, LLMProvider } from './providers';
 
 interface CitizenInfo {
   id: string;
@@ -20,15 +19,16 @@ interface CitizenInfo {
 }
 
 export class CitizenChatDialog {
-  private ai: GoogleGenAI | null = null;
+  private provider: LLMProvider | null = null;
   private dialogEl: HTMLElement;
   private messagesEl: HTMLElement;
   private inputEl: HTMLInputElement;
   private nameEl: HTMLElement;
-  private chatHistory: Content[] = [];
+  private chatHistory: ChatMessage[] = [];
   private currentCitizen: CitizenInfo | null = null;
   private isProcessing = false;
   private voice: CitizenVoice | null = null;
+  private profiles: CitizenProfileStore | null = null;
 
   constructor() {
     this.dialogEl = this.createDOM();
@@ -41,8 +41,8 @@ export class CitizenChatDialog {
     this.setupEvents();
   }
 
-  initialize(apiKey: string): void {
-    this.ai = new GoogleGenAI({ apiKey });
+  initialize(provider: LLMProvider): void {
+    this.provider = provider;
   }
 
   /** Set the CitizenVoice instance for audio playback */
@@ -50,7 +50,12 @@ export class CitizenChatDialog {
     this.voice = voice;
   }
 
-  /** Speak text aloud using Gemini Live API citizen voice. Can be called externally. */
+  /** Set the store that keeps each citizen's memories between chats */
+  setProfiles(profiles: CitizenProfileStore): void {
+    this.profiles = profiles;
+  }
+
+  /** Speak text aloud using the live citizen voice. Can be called externally. */
   async speakAsCitizen(text: string): Promise<void> {
     if (this.voice) {
       await this.voice.speak(text);
@@ -100,7 +105,8 @@ export class CitizenChatDialog {
     this.dialogEl.style.display = '';
 
     // Show greeting based on state
-    const greeting = this.getGreeting(citizen);
+    const profile = this.profiles?.getProfile(citizen) ?? null;
+    const greeting = this.getGreeting(citizen, profile);
     this.addBubble('citizen', greeting);
     this.speakAsCitizen(greeting);
 
@@ -108,12 +114,28 @@ export class CitizenChatDialog {
   }
 
   close(): void {
+    if (this.currentCitizen) {
+      this.profiles?.recordConversation(this.currentCitizen, this.chatHistory);
+    }
     this.dialogEl.style.display = 'none';
     this.currentCitizen = null;
     this.chatHistory = [];
   }
 
-  private getGreeting(citizen: CitizenInfo): string {
+  private getGreeting(citizen: CitizenInfo, profile: CitizenProfile | null): string {
+    // A citizen who filed a request remembers how it ended
+    const filed = profile?.requests.filter(r => r.role === 'filed' && r.outcome !== 'open') ?? [];
+    const last = filed[filed.length - 1];
+    if (last?.outcome === 'fulfilled') {
+      return `Oh, Mayor! Thanks again for sorting out that ${last.type} problem for me.`;
+    }
+    if (last) {
+      return `Mayor... I'm still waiting on that ${last.type} problem I told you about.`;
+    }
+    if (profile && profile.conversations.length > 0) {
+      return `Good to see you again, Mayor! It's me, ${citizen.name}.`;
+    }
+
     switch (citizen.state) {
       case 'unemployed':
         return `Hi, I'm ${citizen.name}. Been looking for work around here but no luck so far...`;
@@ -129,6 +151,7 @@ export class CitizenChatDialog {
   }
 
   private buildSystemPrompt(citizen: CitizenInfo): string {
+    const profile = this.profiles?.getProfile(citizen);
     const cityState = CityAPI.getCityState();
     const workplaceInfo = citizen.workplace
       ? `You work at a ${citizen.workplace.type} building.`
@@ -144,6 +167,7 @@ ${citizen.state === 'unemployed' ? '- You are frustrated about not having a job.
 ${citizen.state === 'employed' ? '- You enjoy your work but sometimes complain about the commute. You appreciate the city infrastructure.' : ''}
 ${citizen.state === 'school' ? '- You are a young student. You talk about school, friends, and fun things in the neighborhood.' : ''}
 ${citizen.state === 'retired' ? '- You are nostalgic and wise. You comment on how the city has grown and share life advice.' : ''}
+${profile ? `\nAbout you:\n${this.profiles!.describe(profile)}` : ''}
 
 Rules:
 - Stay in character as this citizen at all times
@@ -151,6 +175,7 @@ Rules:
 - Speak casually like a real person
 - You can mention other citizens or city features
 - If asked about city problems, share your perspective as a resident
+- Remember your earlier conversations and requests, and let your mood show
 - Respond in the same language the user uses (English or Japanese)`;
   }
 
@@ -161,7 +186,7 @@ Rules:
     this.inputEl.value = '';
     this.addBubble('user', text);
 
-    if (!this.ai) {
+    if (!this.provider) {
       this.addBubble('citizen', 'Sorry, the AI service is not available right now.');
       return;
     }
@@ -171,18 +196,12 @@ Rules:
     this.chatHistory.push({ role: 'user', parts: [{ text }] });
 
     try {
-      const response = await this.ai.models.generateContent({
-        model: MODEL_ID,
-        contents: this.chatHistory,
-        config: {
-          systemInstruction: this.buildSystemPrompt(this.currentCitizen),
-        },
+      const response = await this.provider.chat({
+        system: this.buildSystemPrompt(this.currentCitizen),
+        messages: this.chatHistory,
       });
 
-      const reply = response.candidates?.[0]?.content?.parts
-        ?.filter((p: any) => p.text)
-        .map((p: any) => p.text)
-        .join('') || '...';
+      const reply = response.text || '...';
 
       this.chatHistory.push({ role: 'model', parts: [{ text: reply }] });
       this.addBubble('citizen', reply);
@@ -0,0 +1,295 @@
+/**
+ * Citizen Profiles — what each citizen remembers about life in the city.
+ * A profile is kept per `Citizen.id` and holds a personality, family links to
+ * the people they live with, a mood history, past conversations with the
+ * mayor and the requests they filed or joined. Profiles are created the first
+ * time a citizen talks to the mayor or complains, and feed both the citizen
+ * chat prompt and the request engine's evaluation.
+ */
+import config from '../config.js';
+import type { ChatMessage } from './providers';
+import type { CitizenRequest } from './request-engine';
+
+/** How a citizen takes good and bad news */
+export type Outlook = 'optimistic' | 'realistic' | 'pessimistic';
+
+export interface Personality {
+  /** Words describing the citizen, e.g. "chatty" */
+  traits: string[];
+  /** Topics the citizen likes to talk about */
+  interests: string[];
+  outlook: Outlook;
+}
+
+export type FamilyRelation = 'partner' | 'parent' | 'child' | 'sibling' | 'housemate';
+
+/** Another citizen living in the same home */
+export interface FamilyLink {
+  citizenId: string;
+  name: string;
+  /** What the other citizen is to this one */
+  relation: FamilyRelation;
+}
+
+export interface MoodEntry {
+  /** When the mood changed (`city.simTimeMs`) */
+  at: number;
+  /** Mood after the change (0-100) */
+  mood: number;
+  reason: string;
+}
+
+export interface ConversationRecord {
+  /** When the conversation ended (`city.simTimeMs`) */
+  at: number;
+  messages: { speaker: 'mayor' | 'citizen'; text: string }[];
+}
+
+/** A request the citizen filed or joined, and how it ended */
+export interface RequestRecord {
+  requestId: string;
+  type: CitizenRequest['type'];
+  role: 'filed' | 'supported';
+  /** When the citizen complained (`city.simTimeMs`) */
+  at: number;
+  /** 'unresolved' when the mayor called it done but the problem was still there */
+  outcome: 'open' | 'fulfilled' | 'unresolved' | 'expired';
+}
+
+export interface CitizenProfile {
+  citizenId: string;
+  name: string;
+  personality: Personality;
+  family: FamilyLink[];
+  /** Current mood (0-100) */
+  mood: number;
+  /** Mood changes, oldest first */
+  moods: MoodEntry[];
+  /** Conversations with the mayor, oldest first */
+  conversations: ConversationRecord[];
+  /** Requests the citizen filed or joined, oldest first */
+  requests: RequestRecord[];
+}
+
+/** Saved state of the store */
+export interface CitizenProfileState {
+  profiles: CitizenProfile[];
+}
+
+const TRAITS = [
+  'chatty', 'shy', 'grumpy', 'cheerful', 'curious', 'practical',
+  'sarcastic', 'kind-hearted', 'stubborn', 'ambitious', 'laid-back', 'worried',
+];
+
+const INTERESTS = [
+  'gardening', 'cooking', 'baseball', 'trains', 'fishing', 'music',
+  'local history', 'video games', 'shopping', 'cycling', 'reading', 'photography',
+];
+
+const OUTLOOKS: Outlook[] = ['optimistic', 'realistic', 'pessimistic'];
+
+/** Multiplier applied to happiness gains and losses, by outlook */
+const OUTLOOK_EFFECT: Record<Outlook, { gain: number; loss: number }> = {
+  optimistic: { gain: 1.2, loss: 0.8 },
+  realistic: { gain: 1, loss: 1 },
+  pessimistic: { gain: 0.8, loss: 1.2 },
+};
+
+/** Mood change for each thing that can happen to a citizen's request */
+const MOOD_CHANGES: Record<RequestRecord['role'] | Exclude<RequestRecord['outcome'], 'open'>, number> = {
+  filed: -10,
+  supported: -5,
+  fulfilled: 15,
+  unresolved: -5,
+  expired: -15,
+};
+
+/** Happiness gain lost for each earlier request of the citizen that expired */
+const BROKEN_PROMISE_PENALTY = 2;
+
+const MAX_MOODS = 30;
+const MAX_CONVERSATIONS = 5;
+/** Messages kept from each conversation */
+const MAX_CONVERSATION_MESSAGES = 12;
+const MAX_REQUESTS = 20;
+/** Messages of earlier conversations quoted in the chat prompt */
+const PROMPT_MESSAGES = 6;
+
+export class CitizenProfileStore {
+  private city: any;
+  private profiles = new Map<string, CitizenProfile>();
+
+  constructor(city: any) {
+    this.city = city;
+  }
+
+  /**
+   * The profile of a citizen, created on first use. The family links are
+   * refreshed from the citizen's current home every time.
+   */
+  getProfile(citizen: any): CitizenProfile {
+    let profile = this.profiles.get(citizen.id);
+    if (!profile) {
+      profile = {
+        citizenId: citizen.id,
+        name: citizen.name,
+        personality: this.generatePersonality(citizen.id),
+        family: [],
+        mood: Math.round(this.city.happiness ?? 50),
+        moods: [],
+        conversations: [],
+        requests: [],
+      };
+      this.profiles.set(citizen.id, profile);
+    }
+    profile.family = this.findFamily(citizen);
+    return profile;
+  }
+
+  /** The profile of a citizen by id, or null if they have none yet. */
+  findProfile(citizenId: string | null): CitizenProfile | null {
+    return citizenId ? this.profiles.get(citizenId) ?? null : null;
+  }
+
+  /** Remember a conversation with the mayor. Ignored if the mayor said nothing. */
+  recordConversation(citizen: any, messages: ChatMessage[]): void {
+    if (!messages.some((m) => m.role === 'user')) return;
+    const profile = this.getProfile(citizen);
+    profile.conversations.push({
+      at: this.city.simTimeMs,
+      messages: messages.slice(-MAX_CONVERSATION_MESSAGES).map((m) => ({
+        speaker: m.role === 'user' ? 'mayor' : 'citizen',
+        text: m.parts.map((p) => ('text' in p ? p.text : '')).join(''),
+      })),
+    });
+    profile.conversations = profile.conversations.slice(-MAX_CONVERSATIONS);
+  }
+
+  /** Remember that a citizen filed or joined a request. */
+  recordRequest(citizen: any, request: CitizenRequest, role: RequestRecord['role']): void {
+    const profile = this.getProfile(citizen);
+    if (profile.requests.some((r) => r.requestId === request.id)) return;
+    profile.requests.push({ requestId: request.id, type: request.type, role, at: this.city.simTimeMs, outcome: 'open' });
+    profile.requests = profile.requests.slice(-MAX_REQUESTS);
+    this.changeMood(profile, MOOD_CHANGES[role], `${role === 'filed' ? 'Asked' : 'Joined a request'} for help (${request.type})`);
+  }
+
+  /** Tell every citizen involved in a request how it ended. */
+  recordOutcome(request: CitizenRequest, outcome: Exclude<RequestRecord['outcome'], 'open'>): void {
+    for (const profile of this.profiles.values()) {
+      const record = profile.requests.find((r) => r.requestId === request.id);
+      if (!record || record.outcome !== 'open') continue;
+      record.outcome = outcome;
+      this.changeMood(profile, MOOD_CHANGES[outcome], `Request ${outcome} (${request.type})`);
+    }
+  }
+
+  /**
+   * Adjust the happiness change of an evaluated request to the personality
+   * and history of the citizen who filed it: optimists are pleased more
+   * easily, and every earlier request of theirs that expired makes them
+   * slower to trust the mayor. Returns the delta unchanged for citizens
+   * without a profile.
+   */
+  adjustHappinessDelta(request: CitizenRequest, delta: number): number {
+    const profile = this.findProfile(request.citizenId);
+    if (!profile) return delta;
+
+    const effect = OUTLOOK_EFFECT[profile.personality.outlook];
+    if (delta <= 0) return Math.round(delta * effect.loss);
+
+    const brokenPromises = profile.requests.filter(
+      (r) => r.role === 'filed' && r.outcome === 'expired' && r.requestId !== request.id).length;
+    const gain = Math.round(delta * effect.gain);
+    return Math.max(Math.ceil(gain / 2), gain - brokenPromises * BROKEN_PROMISE_PENALTY);
+  }
+
+  /** Describe a profile for a citizen's chat prompt, one fact per line. */
+  describe(profile: CitizenProfile): string {
+    const { traits, interests, outlook } = profile.personality;
+    const lines = [
+      `Personality: ${traits.join(', ')}; ${outlook} outlook. You like ${interests.join(' and ')}.`,
+      profile.family.length > 0
+        ? `You live with: ${profile.family.map((f) => `${f.name} (your ${f.relation})`).join(', ')}.`
+        : 'You live alone.',
+      `Your mood: ${profile.mood}/100` +
+        (profile.moods.length > 0 ? ` (last change: ${profile.moods[profile.moods.length - 1].reason})` : ''),
+    ];
+
+    for (const r of profile.requests) {
+      const how = r.role === 'filed' ? 'You asked the mayor' : 'You joined a neighbor asking the mayor';
+      lines.push(`${how} about ${r.type} (${r.requestId}): ${r.outcome}.`);
+    }
+
+    const last = profile.conversations[profile.conversations.length - 1];
+    if (last) {
+      lines.push(`You have talked with the mayor ${profile.conversations.length} time(s) before. Last time:`);
+      for (const m of last.messages.slice(-PROMPT_MESSAGES)) {
+        lines.push(`  ${m.speaker === 'mayor' ? 'Mayor' : 'You'}: ${m.text}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /** Profiles of every citizen the store knows about. */
+  getProfiles(): CitizenProfile[] {
+    return [...this.profiles.values()];
+  }
+
+  /** Forget every citizen, e.g. when a new city is started. */
+  reset(): void {
+    this.profiles.clear();
+  }
+
+  /** Capture the profiles so they can be written into a save game. */
+  serialize(): CitizenProfileState {
+    return { profiles: this.getProfiles().map((p) => structuredClone(p)) };
+  }
+
+  /** Replace the profiles with ones loaded from a save game. */
+  restore(state: CitizenProfileState | null): void {
+    this.profiles = new Map((state?.profiles ?? []).map((p) => [p.citizenId, structuredClone(p)]));
+    console.log(`[CitizenProfiles] Restored ${this.profiles.size} profiles`);
+  }
+
+  // ── Private ──
+
+  /** A personality that is always the same for the same citizen in the same city */
+  private generatePersonality(citizenId: string): Personality {
+    const rng = this.city.rng.derive(`citizen:${citizenId}`);
+    const pickTwo = (list: string[]) => {
+      const first = rng.pick(list);
+      const second = rng.pick(list.filter((item) => item !== first));
+      return [first, second];
+    };
+    return { traits: pickTwo(TRAITS), interests: pickTwo(INTERESTS), outlook: rng.pick(OUTLOOKS) };
+  }
+
+  /** The other residents of the citizen's home, related by their ages */
+  private findFamily(citizen: any): FamilyLink[] {
+    const residents: any[] = citizen.residence?.residents?.list ?? [];
+    return residents
+      .filter((other) => other.id !== citizen.id)
+      .map((other) => ({ citizenId: other.id, name: other.name, relation: relate(citizen, other) }));
+  }
+
+  private changeMood(profile: CitizenProfile, change: number, reason: string): void {
+    const effect = OUTLOOK_EFFECT[profile.personality.outlook];
+    const scaled = Math.round(change * (change > 0 ? effect.gain : effect.loss));
+    profile.mood = Math.max(0, Math.min(100, profile.mood + scaled));
+    profile.moods.push({ at: this.city.simTimeMs, mood: profile.mood, reason });
+    profile.moods = profile.moods.slice(-MAX_MOODS);
+  }
+}
+
+/** What `other` is to `citizen`. Symmetric, so both sides of a link agree */
+function relate(citizen: any, other: any): FamilyRelation {
+  const gap = other.age - citizen.age;
+  if (gap >= config.citizen.generationGap) return 'parent';
+  if (gap <= -config.citizen.generationGap) return 'child';
+  const adult = (c: any) => c.age >= config.citizen.minWorkingAge;
+  if (adult(citizen) && adult(other)) return 'partner';
+  if (!adult(citizen) && !adult(other)) return 'sibling';
+  return 'housemate';
+}
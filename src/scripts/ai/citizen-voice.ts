@@ -1,12 +1,10 @@
 /**
- * Citizen Voice — Gemini Live API session dedicated to speaking citizen text aloud.
+ * Citizen Voice — live audio session dedicated to speaking citizen text aloud.
  * Keeps a persistent connection and converts text to native AI audio.
+ * Stays silent when the provider has no live audio.
  */
-import { GoogleGenAI, Modality, Session } from '@google/genai';
-import type { LiveServerMessage } from '@google/genai';
 import { waitForSilence, setCitizenSpeaking } from './speech-coordinator';
-
-const LIVE_MODEL = 'gemini-2.5-flash-native-audio-latest';
+import type { LiveSession, LLMProvider } from './providers';
 
 const SYSTEM_INSTRUCTION = `You are the voice of a city citizen in a city-building game.
 Your ONLY job is to read aloud the text the user sends you.
@@ -16,8 +14,8 @@ Use the same language as the input text.
 Keep it short — just read what is given.`;
 
 export class CitizenVoice {
-  private ai: GoogleGenAI | null = null;
-  private session: Session | null = null;
+  private provider: LLMProvider | null = null;
+  private session: LiveSession | null = null;
   private playbackQueue: Float32Array[] = [];
   private isPlaying = false;
   private isConnected = false;
@@ -25,12 +23,12 @@ export class CitizenVoice {
   private turnResolve: (() => void) | null = null;
   private playbackDoneResolve: (() => void) | null = null;
 
-  initialize(apiKey: string): void {
-    this.ai = new GoogleGenAI({ apiKey });
+  initialize(provider: LLMProvider): void {
+    this.provider = provider;
   }
 
   async speak(text: string): Promise<void> {
-    if (!this.ai) return;
+    if (!this.provider?.connectLive) return;
 
     // Clear own state, then wait for mayor to finish
     setCitizenSpeaking(false);
@@ -52,10 +50,7 @@ export class CitizenVoice {
         this.turnResolve = resolve;
       });
 
-      this.session.sendClientContent({
-        turns: [{ role: 'user', parts: [{ text }] }],
-        turnComplete: true,
-      });
+      this.session.sendText(text);
 
       await turnDone;
 
@@ -93,16 +88,16 @@ export class CitizenVoice {
   }
 
   private async doConnect(): Promise<void> {
-    if (!this.ai) return;
+    if (!this.provider?.connectLive) return;
 
     try {
-      this.session = await this.ai.live.connect({
-        model: LIVE_MODEL,
+      this.session = await this.provider.connectLive({
+        system: SYSTEM_INSTRUCTION,
         callbacks: {
-          onopen: () => console.log('[CitizenVoice] Connected'),
-          onmessage: (msg: LiveServerMessage) => this.handleMessage(msg),
-          onerror: (e: ErrorEvent) => console.error('[CitizenVoice] Error:', e.message || e),
-          onclose: () => {
+          onAudio: (data) => this.enqueueAudio(data),
+          onTurnComplete: () => this.handleTurnComplete(),
+          onError: (e) => console.error('[CitizenVoice] Error:', e),
+          onClose: () => {
             console.log('[CitizenVoice] Disconnected');
             this.isConnected = false;
             this.session = null;
@@ -111,11 +106,8 @@ export class CitizenVoice {
             if (this.playbackDoneResolve) { this.playbackDoneResolve(); this.playbackDoneResolve = null; }
           },
         },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: SYSTEM_INSTRUCTION,
-        },
       });
+      console.log('[CitizenVoice] Connected');
       this.isConnected = true;
     } catch (err) {
       console.error('[CitizenVoice] Connection failed:', err);
@@ -123,27 +115,11 @@ export class CitizenVoice {
     }
   }
 
-  private handleMessage(msg: LiveServerMessage): void {
-    if (!msg.serverContent) return;
-
-    const parts = msg.serverContent.modelTurn?.parts;
-    if (parts) {
-      for (const part of parts) {
-        if ((part as any).inlineData?.data) {
-          const audioData = (part as any).inlineData;
-          if (audioData.mimeType?.includes('audio')) {
-            this.enqueueAudio(audioData.data);
-          }
-        }
-      }
-    }
-
-    if (msg.serverContent.turnComplete) {
-      this.drainPlaybackQueue();
-      if (this.turnResolve) {
-        this.turnResolve();
-        this.turnResolve = null;
-      }
+  private handleTurnComplete(): void {
+    this.drainPlaybackQueue();
+    if (this.turnResolve) {
+      this.turnResolve();
+      this.turnResolve = null;
     }
   }
 
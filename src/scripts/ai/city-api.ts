@@ -1,9 +1,44 @@
 /**
  * Common City API layer used by both Gemini (browser) and Claude Code (HTTP API).
- * Provides validated operations on the city: place, bulldoze, zone, layout, export.
+ * Provides validated operations on the city: place, bulldoze, zone, layout, line drawing, plan preview, export, save/load, scenarios, budget, game speed, history, map overlays, citizen profiles, demographics, civic services, parks and landmarks, pollution.
+ * Every placement and demolition is recorded in the undo journal.
  */
+import { LandmarkTypes } from '../sim/buildings/buildingType.js';
+import { TerrainBuildRules, getTerrainRestriction } from '../sim/terrain.js';
+import { findLinePath } from '../sim/linePlanner.js';
+import { HeatmapType, HeatmapLegend, getHeatmapValue } from '../sim/heatmaps.js';
+import { GAME_SPEEDS } from '../sim/simClock.js';
+import config from '../config.js';
+import {
+  SAVE_VERSION, SaveGame, migrateSave, writeSlot, readSlot, listSlots,
+  nextAutosaveSlot, latestAutosaveSlot,
+} from './save-game';
+import { Journal } from './journal';
+import { SCENARIOS, getScenario } from './scenarios';
+import { METRICS } from './stats-recorder';
 
-const VALID_TYPES = ['residential', 'commercial', 'industrial', 'road', 'power-plant', 'power-line'];
+const VALID_TYPES = [
+  'residential', 'commercial', 'industrial', 'road',
+  'power-plant', 'solar-power-plant', 'nuclear-power-plant', 'power-line',
+  'school', 'hospital', 'police-station', 'fire-station',
+  'park', 'tree', 'fountain', 'ferris-wheel', 'stadium', 'statue',
+];
+
+/** Allowed map dimensions (tiles per side) */
+const MIN_CITY_SIZE = config.map.minSize;
+const MAX_CITY_SIZE = config.map.maxSize;
+
+/** Map layers that can be drawn over the city (see OverlayType) */
+const OVERLAY_TYPES: string[] = ['none', 'traffic', ...Object.values(HeatmapType)];
+
+/** Lowest-value tiles listed by showOverlay */
+const OVERLAY_LOWEST_TILES = 8;
+
+/** Most points of one metric returned by getHistory; longer series are thinned out */
+const MAX_HISTORY_POINTS = 120;
+
+/** Building types that can be drawn as a line with drawLine */
+const LINE_TYPES = ['road', 'power-line'];
 
 interface BuildingEntry {
   type: string;
@@ -17,7 +52,10 @@ export interface CityLayout {
   name?: string;
   description?: string;
   version?: number;
+  /** Side length of a square map (older layouts) */
   size?: number;
+  width?: number;
+  height?: number;
   buildings: BuildingEntry[];
 }
 
@@ -25,6 +63,9 @@ function getCity(): any {
   return (window as any).game?.city;
 }
 
+/** Undo/redo history of every mutation made through this API */
+const journal = new Journal(getCity);
+
 function getRenderer(): any {
   return (window as any).game?.renderer;
 }
@@ -33,12 +74,38 @@ function validateCoords(x: number, y: number): string | null {
   const city = getCity();
   if (!city) return 'City not initialized';
   if (typeof x !== 'number' || typeof y !== 'number') return 'x and y must be numbers';
-  if (x < 0 || y < 0 || x >= city.size || y >= city.size) {
-    return `Coordinates (${x},${y}) out of bounds. City size is ${city.size}x${city.size} (0-${city.size - 1})`;
+  if (x < 0 || y < 0 || x >= city.width || y >= city.height) {
+    return `Coordinates (${x},${y}) out of bounds. City size is ${city.width}x${city.height} (x: 0-${city.width - 1}, y: 0-${city.height - 1})`;
   }
   return null;
 }
 
+function validateDimensions(width: number, height: number): string | null {
+  for (const [name, value] of [['width', width], ['height', height]] as const) {
+    if (!Number.isInteger(value) || value < MIN_CITY_SIZE || value > MAX_CITY_SIZE) {
+      return `${name} must be an integer between ${MIN_CITY_SIZE} and ${MAX_CITY_SIZE}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Describe the coordinate system of the current map for AI prompts.
+ */
+export function describeGrid(): string {
+  const city = getCity();
+  const w = city?.width ?? 8;
+  const h = city?.height ?? 8;
+  const cx = Math.floor(w / 2);
+  const cy = Math.floor(h / 2);
+  return [
+    `The city is a ${w}x${h} grid (${w} columns, ${h} rows) with compass directions and labeled coordinates:`,
+    `- Columns: X0 (West) → X${w - 1} (East), where X0=0, X1=1, ..., X${w - 1}=${w - 1}`,
+    `- Rows: Y0 (North) → Y${h - 1} (South), where Y0=0, Y1=1, ..., Y${h - 1}=${h - 1}`,
+    `- Example: "X0Y0" = northwest corner (0,0), "X${w - 1}Y${h - 1}" = southeast corner (${w - 1},${h - 1}), "X${cx}Y${cy}" = center (${cx},${cy})`,
+  ].join('\n');
+}
+
 function validateType(type: string): string | null {
   if (!VALID_TYPES.includes(type)) {
     return `Invalid building type "${type}". Valid types: ${VALID_TYPES.join(', ')}`;
@@ -56,44 +123,77 @@ export function getCityState(): any {
     'commercial': 'C',
     'industrial': 'I',
     'power-plant': 'P',
+    'solar-power-plant': 'S',
+    'nuclear-power-plant': 'N',
     'power-line': 'L',
+    'school': 'E',
+    'hospital': '+',
+    'police-station': 'K',
+    'fire-station': 'F',
+    'park': 'G',
+    'tree': 'T',
+    'fountain': 'O',
+    'ferris-wheel': 'W',
+    'stadium': 'D',
+    'statue': 'A',
+  };
+  // Empty tiles show their terrain
+  const TERRAIN_CHAR: Record<string, string> = {
+    'grass': '.',
+    'sand': ':',
+    'water': '~',
+    'hill': '^',
+    'mountain': 'M',
   };
 
+  const terrainCounts: Record<string, number> = {};
   const buildings: BuildingEntry[] = [];
   // Build grid with compass annotations
-  // x = columns X0-X7 (W→E), y = rows Y0-Y7 (N→S)
+  // x = columns X0..X(width-1) (W→E), y = rows Y0..Y(height-1) (N→S)
+  // Every cell is as wide as the longest column label so they line up
+  const cellWidth = `X${city.width - 1}`.length;
+  const rowLabelWidth = `Y${city.height - 1}`.length;
+  const cell = (text: string) => text.padEnd(cellWidth);
   const gridLines: string[] = [];
-  const colHeader = Array.from({ length: city.size }, (_, i) => `X${i}`).join(' ');
-  gridLines.push(`       W → E`);
-  gridLines.push(`    ${colHeader}`);
-
-  for (let y = 0; y < city.size; y++) {
-    const prefix = y === 0 ? 'N' : y === city.size - 1 ? 'S' : ' ';
-    let row = `${prefix} Y${y} `;
-    for (let x = 0; x < city.size; x++) {
+  const colHeader = Array.from({ length: city.width }, (_, i) => cell(`X${i}`)).join(' ');
+  const margin = ' '.repeat(rowLabelWidth + 3);
+  gridLines.push(`${margin}W → E`);
+  gridLines.push(`${margin}${colHeader}`);
+
+  for (let y = 0; y < city.height; y++) {
+    const prefix = y === 0 ? 'N' : y === city.height - 1 ? 'S' : ' ';
+    const cells: string[] = [];
+    for (let x = 0; x < city.width; x++) {
       const tile = city.getTile(x, y);
+      terrainCounts[tile.terrain] = (terrainCounts[tile.terrain] ?? 0) + 1;
       if (tile?.damaged) {
         if (tile.building) buildings.push({ type: tile.building.type, x, y });
-        row += 'X ';
+        cells.push(cell('X'));
       } else if (tile?.building) {
         buildings.push({ type: tile.building.type, x, y });
-        row += (TYPE_CHAR[tile.building.type] || '?') + ' ';
+        cells.push(cell(TYPE_CHAR[tile.building.type] || '?'));
       } else {
-        row += '. ';
+        cells.push(cell(TERRAIN_CHAR[tile.terrain] ?? '.'));
       }
     }
-    gridLines.push(row);
+    gridLines.push(`${prefix} ${`Y${y}`.padEnd(rowLabelWidth)} ${cells.join(' ')}`);
   }
 
   return {
     name: city.name,
-    size: city.size,
+    width: city.width,
+    height: city.height,
+    seed: city.rng.seed,
     population: city.population,
     simTime: city.simTime,
     grid: gridLines.join('\n'),
-    gridLegend: '. = empty, R = road, H = residential, C = commercial, I = industrial, P = power-plant, L = power-line, X = damaged',
+    gridLegend: 'R = road (bridge on water), H = residential, C = commercial, I = industrial, P = power-plant (coal), S = solar-power-plant, N = nuclear-power-plant, L = power-line, E = school, + = hospital, K = police-station, F = fire-station, G = park, T = tree, O = fountain, W = ferris-wheel, D = stadium, A = statue, X = damaged. ' +
+      'Empty tiles show terrain: . = grass, : = sand, ~ = water, ^ = hill, M = mountain. ' +
+      `Columns X0-X${city.width - 1} run west to east, rows Y0-Y${city.height - 1} run north to south.`,
     buildings,
     buildingCount: buildings.length,
+    terrain: terrainCounts,
+    buildRules: TerrainBuildRules,
   };
 }
 
@@ -109,12 +209,15 @@ export function placeBuilding(x: number, y: number, type: string): any {
   if (tile?.damaged) {
     return { success: false, error: `Tile (${x},${y}) is damaged and cannot be modified until recovered` };
   }
-  if (tile?.building) {
-    return { success: false, error: `Tile (${x},${y}) already has a building: ${tile.building.type}` };
+  const placementErr = city.getPlacementError(x, y, type);
+  if (placementErr) {
+    return { success: false, error: placementErr, terrain: tile.terrain };
   }
 
+  const cost = city.budget.getBuildCost(city, x, y, type);
   city.placeBuilding(x, y, type);
-  return { success: true, x, y, type };
+  journal.record(`place_building ${type} (${x},${y})`, { kind: 'place', x, y, type, cost, month: city.budget.month });
+  return { success: true, x, y, type, terrain: tile.terrain, cost, treasury: Math.floor(city.budget.treasury) };
 }
 
 export function bulldoze(x: number, y: number): any {
@@ -131,6 +234,7 @@ export function bulldoze(x: number, y: number): any {
   }
 
   const removed = tile.building.type;
+  journal.record(`bulldoze ${removed} (${x},${y})`, { kind: 'bulldoze', x, y, building: tile.building.serialize() });
   city.bulldoze(x, y);
   return { success: true, x, y, removedType: removed };
 }
@@ -143,25 +247,42 @@ export function zoneArea(x1: number, y1: number, x2: number, y2: number, type: s
   if (!city) return { success: false, error: 'City not initialized' };
 
   const minX = Math.max(0, Math.min(x1, x2));
-  const maxX = Math.min(city.size - 1, Math.max(x1, x2));
+  const maxX = Math.min(city.width - 1, Math.max(x1, x2));
   const minY = Math.max(0, Math.min(y1, y2));
-  const maxY = Math.min(city.size - 1, Math.max(y1, y2));
+  const maxY = Math.min(city.height - 1, Math.max(y1, y2));
 
+  const fundsBefore = city.budget.treasury;
   let placed = 0;
   let skipped = 0;
-  for (let x = minX; x <= maxX; x++) {
-    for (let y = minY; y <= maxY; y++) {
-      const tile = city.getTile(x, y);
-      if (tile && !tile.building) {
-        city.placeBuilding(x, y, type);
-        placed++;
-      } else {
-        skipped++;
+  let damaged = 0;
+  let unaffordable = 0;
+  journal.runBatch(`zone_area ${type} (${minX},${minY})-(${maxX},${maxY})`, () => {
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        // Damaged tiles cannot be modified until they recover
+        if (city.getTile(x, y).damaged) {
+          skipped++;
+          damaged++;
+        } else if (!city.getPlacementError(x, y, type)) {
+          recordPlacement(city, x, y, type);
+          placed++;
+        } else {
+          skipped++;
+          if (isUnaffordable(city, x, y, type)) unaffordable++;
+        }
       }
     }
-  }
+  });
 
-  return { success: true, placed, skipped, area: { x1: minX, y1: minY, x2: maxX, y2: maxY }, type };
+  return {
+    success: true,
+    placed,
+    skipped,
+    damaged: damaged || undefined,
+    area: { x1: minX, y1: minY, x2: maxX, y2: maxY },
+    type,
+    ...describeSpending(city, fundsBefore, unaffordable),
+  };
 }
 
 export function applyLayout(layout: CityLayout): any {
@@ -172,10 +293,14 @@ export function applyLayout(layout: CityLayout): any {
     return { success: false, error: 'Layout must have a "buildings" array' };
   }
 
+  const fundsBefore = city.budget.treasury;
   let placed = 0;
   let skipped = 0;
+  let damaged = 0;
+  let unaffordable = 0;
   const errors: string[] = [];
 
+  journal.beginBatch(`apply_layout ${layout.name || 'unnamed'}`);
   for (const entry of layout.buildings) {
     const typeErr = validateType(entry.type);
     if (typeErr) {
@@ -200,37 +325,555 @@ export function applyLayout(layout: CityLayout): any {
           skipped++;
           continue;
         }
-        const tile = city.getTile(x, y);
-        if (tile && !tile.building) {
-          city.placeBuilding(x, y, entry.type);
+        // Damaged tiles cannot be modified until they recover
+        if (city.getTile(x, y).damaged) {
+          skipped++;
+          damaged++;
+        } else if (!city.getPlacementError(x, y, entry.type)) {
+          recordPlacement(city, x, y, entry.type);
           placed++;
         } else {
           skipped++;
+          if (isUnaffordable(city, x, y, entry.type)) unaffordable++;
         }
       }
     }
   }
+  journal.endBatch();
 
   return {
     success: true,
     placed,
     skipped,
+    damaged: damaged || undefined,
     errors: errors.length > 0 ? errors : undefined,
     layoutName: layout.name || 'unnamed',
+    ...describeSpending(city, fundsBefore, unaffordable),
   };
 }
 
+/**
+ * Draws a road or power line through a list of waypoints (at least the two
+ * ends). Each leg takes the shortest path around buildings and unbuildable
+ * terrain, preferring straight and L-shaped lines. Tiles that already carry
+ * the type are kept, and a waypoint on another building (e.g. a power plant)
+ * is connected to but not built on. The whole line is one undo step.
+ */
+export function drawLine(type: string, points: { x: number; y: number }[]): any {
+  const city = getCity();
+  if (!city) return { success: false, error: 'City not initialized' };
+  if (!LINE_TYPES.includes(type)) {
+    return { success: false, error: `Only ${LINE_TYPES.join(' and ')} can be drawn as a line, not "${type}"` };
+  }
+  if (!Array.isArray(points) || points.length < 2) {
+    return { success: false, error: 'A line needs at least two points (the start and the end)' };
+  }
+  for (const point of points) {
+    const coordErr = validateCoords(point?.x, point?.y);
+    if (coordErr) return { success: false, error: coordErr };
+  }
+
+  // Route every leg before building, so an impossible line builds nothing
+  const path: { x: number; y: number }[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const leg = findLinePath(city, from, to, type);
+    if (!leg) {
+      return {
+        success: false,
+        error: `No ${type} path from (${from.x},${from.y}) to (${to.x},${to.y}): buildings or terrain block every route`,
+      };
+    }
+    path.push(...(path.length > 0 ? leg.slice(1) : leg));
+  }
+
+  const fundsBefore = city.budget.treasury;
+  const placedTiles: { x: number; y: number }[] = [];
+  const skippedTiles: { x: number; y: number; reason: string }[] = [];
+  const connectedTo: { x: number; y: number; type: string }[] = [];
+  let existing = 0;
+  let unaffordable = 0;
+  journal.runBatch(`draw_${type} (${points[0].x},${points[0].y})-(${points[points.length - 1].x},${points[points.length - 1].y})`, () => {
+    for (const { x, y } of path) {
+      const tile = city.getTile(x, y);
+      if (tile.building?.type === type) {
+        existing++;
+        continue;
+      }
+      // Only waypoints can hold another building; the line ends next to it
+      if (tile.building && !tile.damaged) {
+        connectedTo.push({ x, y, type: tile.building.type });
+        continue;
+      }
+      if (tile.damaged) {
+        skippedTiles.push({ x, y, reason: 'damaged' });
+        continue;
+      }
+      const placementErr = city.getPlacementError(x, y, type);
+      if (placementErr) {
+        if (isUnaffordable(city, x, y, type)) unaffordable++;
+        skippedTiles.push({ x, y, reason: placementErr });
+        continue;
+      }
+      recordPlacement(city, x, y, type);
+      placedTiles.push({ x, y });
+    }
+  });
+
+  return {
+    success: true,
+    type,
+    placed: placedTiles.length,
+    placedTiles,
+    alreadyPresent: existing,
+    connectedTo: connectedTo.length > 0 ? connectedTo : undefined,
+    skipped: skippedTiles.length,
+    skippedTiles: skippedTiles.length > 0 ? skippedTiles : undefined,
+    path,
+    ...describeSpending(city, fundsBefore, unaffordable),
+  };
+}
+
+/** Reads the waypoints of a draw request: `points`, or the from/to ends. */
+function linePoints(body: any): { x: number; y: number }[] {
+  if (Array.isArray(body?.points)) return body.points;
+  return [{ x: body?.from_x, y: body?.from_y }, { x: body?.to_x, y: body?.to_y }];
+}
+
+/** Place a building that is known to be placeable and record it in the journal. */
+function recordPlacement(city: any, x: number, y: number, type: string): void {
+  const cost = city.budget.getBuildCost(city, x, y, type);
+  city.placeBuilding(x, y, type);
+  journal.record(`place_building ${type} (${x},${y})`, { kind: 'place', x, y, type, cost, month: city.budget.month });
+}
+
+/** True if an otherwise buildable tile was refused because the treasury is short. */
+function isUnaffordable(city: any, x: number, y: number, type: string): boolean {
+  const tile = city.getTile(x, y);
+  if (!tile || tile.building || getTerrainRestriction(tile.terrain, type)) return false;
+  return !city.budget.canAfford(city.budget.getBuildCost(city, x, y, type));
+}
+
+/** Summarize what a batch of construction cost and how many tiles were refused for lack of funds. */
+function describeSpending(city: any, fundsBefore: number, unaffordable: number): any {
+  return {
+    cost: Math.round(fundsBefore - city.budget.treasury),
+    treasury: Math.floor(city.budget.treasury),
+    unaffordable: unaffordable > 0 ? unaffordable : undefined,
+    warning: unaffordable > 0
+      ? `Not enough funds: ${unaffordable} tile(s) were not built. Check get_budget before building more.`
+      : undefined,
+  };
+}
+
+/** One tile of a proposed plan, with what it costs or why it cannot be built. */
+export interface PlanTile {
+  x: number;
+  y: number;
+  type: string;
+  cost: number;
+  error?: string;
+}
+
+/** A construction plan awaiting the player's approval. */
+export interface Plan {
+  id: string;
+  name: string;
+  description?: string;
+  buildings: BuildingEntry[];
+  tiles: PlanTile[];
+  /** Cost of the tiles that can be built */
+  totalCost: number;
+  buildableCount: number;
+  errorCount: number;
+  treasury: number;
+}
+
+type PlanListener = (plan: Plan | null) => void;
+
+/** The plan shown as ghost tiles, if any. Only one plan is open at a time. */
+let pendingPlan: Plan | null = null;
+let planCount = 0;
+let planListener: PlanListener | null = null;
+
+/** Called whenever a plan is proposed, approved or rejected (null when none is open). */
+export function setPlanListener(fn: PlanListener): void {
+  planListener = fn;
+}
+
+function setPendingPlan(plan: Plan | null): void {
+  pendingPlan = plan;
+  (window as any).game?.setPlan(plan?.tiles ?? null);
+  planListener?.(plan);
+}
+
+/**
+ * Checks every tile of a layout without building anything. Tiles are
+ * checked in the order `applyLayout` builds them, so a tile that the
+ * treasury would no longer cover by then is reported as unaffordable.
+ */
+function previewLayout(city: any, buildings: BuildingEntry[]): PlanTile[] {
+  const tiles: PlanTile[] = [];
+  const planned = new Set<string>();
+  const plannedLandmarks = new Set<string>();
+  let spent = 0;
+
+  for (const entry of buildings) {
+    const typeErr = validateType(entry.type);
+    const minX = Math.min(entry.x, entry.to_x ?? entry.x);
+    const maxX = Math.max(entry.x, entry.to_x ?? entry.x);
+    const minY = Math.min(entry.y, entry.to_y ?? entry.y);
+    const maxY = Math.max(entry.y, entry.to_y ?? entry.y);
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        const tile = city.getTile(x, y);
+        let error = typeErr ?? validateCoords(x, y);
+        if (!error && planned.has(`${x},${y}`)) {
+          error = `Tile (${x},${y}) is already in the plan`;
+        } else if (!error && tile.damaged) {
+          error = `Tile (${x},${y}) is damaged and cannot be modified until recovered`;
+        } else if (!error && plannedLandmarks.has(entry.type)) {
+          error = `The plan already has a ${entry.type}; landmarks are one per city`;
+        } else if (!error) {
+          error = city.getPlacementError(x, y, entry.type);
+        }
+
+        const cost = error ? 0 : city.budget.getBuildCost(city, x, y, entry.type);
+        if (!error && !city.budget.canAfford(spent + cost)) {
+          error = `Not enough funds for ${entry.type} at (${x},${y}): the plan needs $${spent + cost}, treasury has $${Math.floor(city.budget.treasury)}`;
+        }
+        if (!error) {
+          spent += cost;
+          planned.add(`${x},${y}`);
+          if (LandmarkTypes.includes(entry.type)) plannedLandmarks.add(entry.type);
+        }
+        tiles.push({ x, y, type: entry.type, cost: error ? 0 : cost, ...(error ? { error } : {}) });
+      }
+    }
+  }
+  return tiles;
+}
+
+function describePlan(plan: Plan): any {
+  return {
+    planId: plan.id,
+    name: plan.name,
+    totalCost: plan.totalCost,
+    treasury: plan.treasury,
+    buildableCount: plan.buildableCount,
+    errorCount: plan.errorCount,
+    tiles: plan.tiles,
+  };
+}
+
+/**
+ * Shows a layout as ghost tiles for the player to approve, with the cost
+ * and any validation error of each tile. Nothing is built until the plan
+ * is approved. Replaces the plan that was open before.
+ */
+export function proposePlan(layout: CityLayout): any {
+  const city = getCity();
+  if (!city) return { success: false, error: 'City not initialized' };
+  if (!layout.buildings || !Array.isArray(layout.buildings) || layout.buildings.length === 0) {
+    return { success: false, error: 'Plan must have a non-empty "buildings" array' };
+  }
+
+  const tiles = previewLayout(city, layout.buildings);
+  const buildable = tiles.filter((tile) => !tile.error);
+  const plan: Plan = {
+    id: `plan-${++planCount}`,
+    name: layout.name || 'unnamed',
+    description: layout.description,
+    buildings: layout.buildings,
+    tiles,
+    totalCost: buildable.reduce((sum, tile) => sum + tile.cost, 0),
+    buildableCount: buildable.length,
+    errorCount: tiles.length - buildable.length,
+    treasury: Math.floor(city.budget.treasury),
+  };
+  setPendingPlan(plan);
+
+  return {
+    success: true,
+    ...describePlan(plan),
+    message: 'The plan is shown to the player as ghost tiles with Approve / Modify / Reject buttons. Wait for their choice; do not build it yourself.',
+  };
+}
+
+/** The plan awaiting approval, if any. */
+export function getPlan(): any {
+  return pendingPlan ? { plan: describePlan(pendingPlan) } : { plan: null };
+}
+
+/**
+ * Builds the open plan. Tiles are checked again first, since the city may
+ * have changed since the plan was proposed, and only buildable tiles are
+ * passed to `applyLayout`, so the whole plan is undone as one step.
+ */
+export function approvePlan(planId?: string): any {
+  const city = getCity();
+  if (!city) return { success: false, error: 'City not initialized' };
+  if (!pendingPlan) return { success: false, error: 'No plan is awaiting approval' };
+  if (planId && planId !== pendingPlan.id) {
+    return { success: false, error: `Plan ${planId} is no longer open (current plan: ${pendingPlan.id})` };
+  }
+
+  const plan = pendingPlan;
+  const tiles = previewLayout(city, plan.buildings);
+  const result = applyLayout({
+    name: plan.name,
+    buildings: tiles
+      .filter((tile) => !tile.error)
+      .map(({ x, y, type }) => ({ x, y, type })),
+  });
+  setPendingPlan(null);
+
+  const refused = tiles.filter((tile) => tile.error);
+  return {
+    ...result,
+    planId: plan.id,
+    skipped: result.skipped + refused.length,
+    refusedTiles: refused.length > 0 ? refused : undefined,
+  };
+}
+
+/** Discards the open plan without building anything. */
+export function rejectPlan(planId?: string): any {
+  if (!pendingPlan) return { success: false, error: 'No plan is awaiting approval' };
+  if (planId && planId !== pendingPlan.id) {
+    return { success: false, error: `Plan ${planId} is no longer open (current plan: ${pendingPlan.id})` };
+  }
+  const id = pendingPlan.id;
+  setPendingPlan(null);
+  return { success: true, planId: id };
+}
+
 export function exportLayout(): CityLayout {
   const state = getCityState();
   return {
     name: state.name || 'Exported City',
     description: `Exported at simTime ${state.simTime}`,
     version: 1,
-    size: state.size,
+    width: state.width,
+    height: state.height,
     buildings: state.buildings,
   };
 }
 
+/**
+ * Start over with an empty map of the given dimensions.
+ * Citizen request history and citizen profiles are cleared as well.
+ */
+export function newCity(width: number, height: number = width, name?: string, seed?: number): any {
+  const city = getCity();
+  if (!city) return { success: false, error: 'City not initialized' };
+
+  const dimErr = validateDimensions(width, height);
+  if (dimErr) return { success: false, error: dimErr };
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    return { success: false, error: 'seed must be an integer' };
+  }
+
+  city.reset(width, height, name ?? city.name, seed);
+  (window as any).requestEngine?.reset();
+  (window as any).scenarioRunner?.reset();
+  (window as any).statsRecorder?.clear();
+  (window as any).citizenProfiles?.reset();
+  journal.clear();
+  if (pendingPlan) setPendingPlan(null);
+
+  return { success: true, name: city.name, width, height, seed: city.rng.seed };
+}
+
+/**
+ * Change the map dimensions while keeping the city.
+ * Buildings outside the new bounds are removed.
+ */
+export function resizeCity(width: number, height: number = width): any {
+  const city = getCity();
+  if (!city) return { success: false, error: 'City not initialized' };
+
+  const dimErr = validateDimensions(width, height);
+  if (dimErr) return { success: false, error: dimErr };
+
+  let removed = 0;
+  for (let x = 0; x < city.width; x++) {
+    for (let y = 0; y < city.height; y++) {
+      if ((x >= width || y >= height) && city.getTile(x, y)?.building) removed++;
+    }
+  }
+
+  const previous = { width: city.width, height: city.height };
+  city.resize(width, height);
+  // Journal entries may point outside the new bounds
+  journal.clear();
+  if (pendingPlan) setPendingPlan(null);
+
+  return { success: true, previous, width, height, removedBuildings: removed };
+}
+
+/**
+ * Capture the full simulation state and request history.
+ * If a slot name is given, the save is also written to localStorage.
+ */
+export function saveGame(slot?: string): any {
+  const city = getCity();
+  if (!city) return { success: false, error: 'City not initialized' };
+
+  const save: SaveGame = {
+    version: SAVE_VERSION,
+    savedAt: new Date().toISOString(),
+    city: city.serialize(),
+    requestEngine: (window as any).requestEngine?.serialize() ?? null,
+    scenario: (window as any).scenarioRunner?.serialize() ?? null,
+    citizenProfiles: (window as any).citizenProfiles?.serialize() ?? null,
+  };
+
+  if (slot) {
+    const err = writeSlot(slot, save);
+    if (err) return { success: false, error: err };
+  }
+
+  return { success: true, slot, save };
+}
+
+/**
+ * Load a save, either from a localStorage slot (`{ slot }`) or from save data
+ * passed directly (`{ save }`). Older save versions are migrated first.
+ */
+export function loadGame(body: { slot?: string; save?: any }): any {
+  const city = getCity();
+  if (!city) return { success: false, error: 'City not initialized' };
+
+  let data = body.save;
+  if (body.slot) {
+    data = readSlot(body.slot);
+    if (!data) return { success: false, error: `Save slot "${body.slot}" is empty` };
+  }
+  if (!data) return { success: false, error: 'Provide either "slot" or "save"' };
+
+  let save: SaveGame;
+  try {
+    save = migrateSave(data);
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+
+  city.deserialize(save.city);
+  journal.clear();
+  if (pendingPlan) setPendingPlan(null);
+  if (save.requestEngine) {
+    (window as any).requestEngine?.restore(save.requestEngine);
+  }
+  (window as any).scenarioRunner?.restore(save.scenario);
+  (window as any).statsRecorder?.clear();
+  (window as any).citizenProfiles?.restore(save.citizenProfiles);
+
+  return {
+    success: true,
+    slot: body.slot,
+    name: city.name,
+    width: city.width,
+    height: city.height,
+    simTime: city.simTime,
+    population: city.population,
+    savedAt: save.savedAt,
+  };
+}
+
+/** List the save slots stored in localStorage. */
+export function listSaves(): any {
+  return { slots: listSlots() };
+}
+
+/** Write the game to the oldest autosave slot. */
+export function autosave(): any {
+  const result = saveGame(nextAutosaveSlot());
+  return { success: result.success, slot: result.slot, error: result.error };
+}
+
+/** Load the most recent autosave, if there is one. */
+export function loadLatestAutosave(): any {
+  const slot = latestAutosaveSlot();
+  if (!slot) return { success: false, error: 'No autosave found' };
+  return loadGame({ slot });
+}
+
+/** The scenarios that can be played, with their objectives and time limits. */
+export function listScenarios(): any {
+  return {
+    scenarios: Object.values(SCENARIOS).map((scenario) => ({
+      id: scenario.id,
+      name: scenario.name,
+      description: scenario.description,
+      width: scenario.layout.width ?? scenario.layout.size,
+      height: scenario.layout.height ?? scenario.layout.size,
+      timeLimit: scenario.timeLimit,
+      objectives: scenario.objectives.map((o) => o.label),
+    })),
+  };
+}
+
+/**
+ * Replace the city with a scenario's starting layout and start its clock.
+ * The layout is built for free; the treasury starts at the scenario's funds.
+ */
+export function startScenario(id: string): any {
+  const city = getCity();
+  if (!city) return { success: false, error: 'City not initialized' };
+  const scenario = getScenario(id);
+  if (!scenario) {
+    return { success: false, error: `Unknown scenario "${id}". Available: ${Object.keys(SCENARIOS).join(', ')}` };
+  }
+
+  const { layout } = scenario;
+  const width = layout.width ?? layout.size ?? 8;
+  const created = newCity(width, layout.height ?? width, scenario.name, scenario.seed);
+  if (!created.success) return created;
+
+  // The starting layout is free: build it with unlimited funds, then set the treasury
+  city.budget.unlimitedFunds = true;
+  let built;
+  try {
+    built = applyLayout(layout);
+  } finally {
+    city.budget.unlimitedFunds = false;
+  }
+  journal.clear();
+  city.budget.deserialize({ treasury: scenario.startingFunds });
+  (window as any).scenarioRunner?.start(scenario);
+
+  return {
+    success: true,
+    scenarioId: scenario.id,
+    name: scenario.name,
+    width,
+    height: city.height,
+    placed: built.placed,
+    skipped: built.skipped || undefined,
+    treasury: scenario.startingFunds,
+    timeLimit: scenario.timeLimit,
+    objectives: scenario.objectives.map((o) => o.label),
+  };
+}
+
+/** Objectives of the scenario being played, with progress, time left and score. */
+export function getObjectives(): any {
+  const runner = (window as any).scenarioRunner;
+  if (!runner) return { error: 'Scenario runner not initialized' };
+
+  const status = runner.getStatus();
+  if (!status) {
+    return {
+      scenario: null,
+      hint: `No scenario is being played (free play). Available scenarios: ${Object.keys(SCENARIOS).join(', ')}`,
+    };
+  }
+  return { scenario: status };
+}
+
 export function getHappiness(): any {
   const city = getCity();
   if (!city) return { error: 'City not initialized' };
@@ -241,8 +884,8 @@ export function getHappiness(): any {
   let totalBuildings = 0;
   let poweredBuildings = 0;
 
-  for (let x = 0; x < city.size; x++) {
-    for (let y = 0; y < city.size; y++) {
+  for (let x = 0; x < city.width; x++) {
+    for (let y = 0; y < city.height; y++) {
       const tile = city.getTile(x, y);
       if (!tile?.building) continue;
       const b = tile.building;
@@ -250,7 +893,7 @@ export function getHappiness(): any {
       if (b.powered) poweredBuildings++;
       if (b.type === 'residential') {
         const residents = b.residents?.count ?? 0;
-        const employedRes = b.residents?.list?.filter((c: any) => c.job)?.length ?? 0;
+        const employedRes = b.residents?.list?.filter((c: any) => c.workplace)?.length ?? 0;
         totalResidents += residents;
         employed += employedRes;
       }
@@ -266,20 +909,541 @@ export function getHappiness(): any {
       power: totalBuildings > 0 ? Math.round((poweredBuildings / totalBuildings) * 100) : 0,
       density: pop > 0 ? 'populated' : 'empty',
       pendingRequests,
+      taxes: Math.round(city.budget.happinessModifier * 10) / 10,
+      traffic: Math.round(city.traffic.happinessModifier * 10) / 10,
+      amenities: Math.round(city.desirability.happinessModifier * 10) / 10,
+      pollution: Math.round(city.pollution.happinessModifier * 10) / 10,
+    },
+  };
+}
+
+/**
+ * Who lives in the city: citizens by state (idle children, school, employed,
+ * unemployed, retired), their average age, and the births, deaths and moves
+ * since the city was founded.
+ */
+export function getDemographics(): any {
+  const city = getCity();
+  if (!city) return { error: 'City not initialized' };
+  return city.demographics.getSummary(city);
+}
+
+/**
+ * Schools, hospitals, police stations and fire stations: for each type, how
+ * many residents are served and how many go without, and the staff,
+ * capacity and coverage radius of every civic building.
+ */
+export function getServices(): any {
+  const city = getCity();
+  if (!city) return { error: 'City not initialized' };
+  return city.coverage.getSummary(city);
+}
+
+/**
+ * Parks, trees, fountains and landmarks: where each one is, how far it
+ * reaches and how much more desirable it makes the tiles around it, which
+ * landmarks can still be built, and the happiness they bring the residents.
+ */
+export function getAmenities(): any {
+  const city = getCity();
+  if (!city) return { error: 'City not initialized' };
+  return city.desirability.getSummary(city);
+}
+
+/**
+ * Air and ground pollution: the factories and power plants that emit it,
+ * the most polluted homes, and how it affects the health and happiness of
+ * the residents.
+ */
+export function getPollution(): any {
+  const city = getCity();
+  if (!city) return { error: 'City not initialized' };
+  return city.pollution.getSummary(city);
+}
+
+/**
+ * How the city's statistics changed over time. `from` and `to` are
+ * simulation steps; a negative `from` counts back from now, so -300 is the
+ * last 5 minutes at normal speed. With `metric` (one name or several
+ * separated by commas) the samples of those metrics are returned, otherwise
+ * how every metric changed over the period.
+ */
+export function getHistory(metric?: string, from?: number | string, to?: number | string): any {
+  const city = getCity();
+  const recorder = (window as any).statsRecorder;
+  if (!city || !recorder) return { success: false, error: 'Stats recorder not initialized' };
+
+  // Query parameters of GET /api/history arrive as strings
+  const start = from === undefined || from === '' ? -Infinity : Number(from);
+  const end = to === undefined || to === '' ? Infinity : Number(to);
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    return { success: false, error: 'from and to must be numbers (simulation steps)' };
+  }
+  const fromStep = start < 0 ? city.simTime + start : start;
+
+  const names = metric ? String(metric).split(',').map((name) => name.trim()) : METRICS;
+  const unknown = names.filter((name) => !METRICS.includes(name));
+  if (unknown.length > 0) {
+    return { success: false, error: `Unknown metric: ${unknown.join(', ')}. Available: ${METRICS.join(', ')}` };
+  }
+
+  const metrics: Record<string, any> = {};
+  for (const name of names) {
+    const series = recorder.getSeries(name, fromStep, end);
+    if (series.length === 0) continue;
+    const values = series.map(([, value]: [number, number]) => value);
+    const first = values[0];
+    const last = values[values.length - 1];
+    metrics[name] = {
+      first,
+      last,
+      min: Math.min(...values),
+      max: Math.max(...values),
+      change: Math.round((last - first) * 10) / 10,
+    };
+    if (metric) {
+      const stride = Math.ceil(series.length / MAX_HISTORY_POINTS);
+      metrics[name].points = series.filter((_: any, i: number) => i % stride === 0 || i === series.length - 1);
+    }
+  }
+
+  const range = recorder.getRange();
+  return {
+    simTime: city.simTime,
+    recorded: range,
+    from: range ? Math.max(fromStep, range.from) : null,
+    to: range ? Math.min(end, range.to) : null,
+    metrics,
+    hint: 'Times are simulation steps (seconds at normal speed). points are [step, value]. Compare the change of happiness with employment, powered, damagedTiles, disasters, requestsExpired and treasury to explain it.',
+  };
+}
+
+/**
+ * Treasury, tax rates, build costs and the monthly ledger.
+ * `lastMonth` is the most recent completed month, `thisMonth` is in progress.
+ */
+export function getBudget(): any {
+  const city = getCity();
+  if (!city) return { error: 'City not initialized' };
+
+  const budget = city.budget;
+  let monthlyTax = 0;
+  let monthlyUpkeep = 0;
+  for (let x = 0; x < city.width; x++) {
+    for (let y = 0; y < city.height; y++) {
+      const building = city.getTile(x, y).building;
+      if (!building) continue;
+      monthlyTax += budget.getMonthlyTax(building);
+      monthlyUpkeep += config.budget.upkeep[building.type] ?? 0;
+    }
+  }
+
+  const summarize = (ledger: any) => {
+    if (!ledger) return null;
+    const income = Object.values(ledger.income as Record<string, number>).reduce((a, b) => a + b, 0);
+    const expenses = ledger.expenses.upkeep + ledger.expenses.construction;
+    return {
+      month: ledger.month,
+      income: roundValues(ledger.income),
+      expenses: roundValues(ledger.expenses),
+      net: Math.round(income - expenses),
+    };
+  };
+
+  return {
+    treasury: Math.floor(budget.treasury),
+    month: budget.month,
+    taxRates: { ...budget.taxRates },
+    taxRateRange: { min: config.budget.minTaxRate, max: config.budget.maxTaxRate, default: config.budget.defaultTaxRate },
+    taxHappinessEffect: Math.round(budget.happinessModifier * 10) / 10,
+    projected: {
+      taxIncome: Math.round(monthlyTax),
+      upkeep: Math.round(monthlyUpkeep),
+      net: Math.round(monthlyTax - monthlyUpkeep),
     },
+    thisMonth: summarize(budget.ledger),
+    lastMonth: summarize(budget.history[budget.history.length - 1]),
+    buildCosts: { ...config.budget.buildCost, bridge: config.budget.buildCost.road * config.budget.bridgeCostMultiplier },
+    upkeepCosts: { ...config.budget.upkeep },
+  };
+}
+
+function roundValues(values: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, Math.round(value)]));
+}
+
+/** Change the tax rate (%) of one zone type. High taxes lower happiness. */
+export function setTaxRate(zone: string, rate: number): any {
+  const city = getCity();
+  if (!city) return { success: false, error: 'City not initialized' };
+
+  const error = city.budget.setTaxRate(zone, rate);
+  if (error) return { success: false, error };
+
+  return {
+    success: true,
+    zone,
+    rate,
+    taxRates: { ...city.budget.taxRates },
+    taxHappinessEffect: Math.round(city.budget.happinessModifier * 10) / 10,
+  };
+}
+
+/**
+ * Find the shortest road route between two tiles. Either end may be a building
+ * (trips start and end on any road within road access distance) or a road.
+ */
+export function findRoute(fromX: number, fromY: number, toX: number, toY: number): any {
+  const fromErr = validateCoords(fromX, fromY);
+  if (fromErr) return { success: false, error: fromErr };
+  const toErr = validateCoords(toX, toY);
+  if (toErr) return { success: false, error: toErr };
+
+  const city = getCity();
+  const route = city.findRoute({ x: fromX, y: fromY }, { x: toX, y: toY });
+  if (!route) {
+    return {
+      success: true,
+      reachable: false,
+      from: { x: fromX, y: fromY },
+      to: { x: toX, y: toY },
+      hint: 'No road connects these locations. Both ends need a road within 3 tiles, and the roads must be connected.',
+    };
+  }
+
+  return {
+    success: true,
+    reachable: true,
+    from: { x: fromX, y: fromY },
+    to: { x: toX, y: toY },
+    length: Math.round(route.length * 10) / 10,
+    roadTiles: route.tiles,
+  };
+}
+
+/**
+ * Connected power grids: each grid's plants, supply, demand, whether it is in
+ * a rolling brownout, and the line or building that limits delivery.
+ */
+export function getPowerGrid(): any {
+  const city = getCity();
+  if (!city) return { error: 'City not initialized' };
+
+  const service = city.powerService;
+  const grids = service.grids.map((grid: any) => ({
+    ...grid,
+    delivered: Math.round(grid.delivered),
+    surplus: grid.supply - grid.demand,
+  }));
+
+  let hint: string | undefined;
+  if (grids.length === 0) {
+    hint = 'There are no power plants. Build one with road access, then connect buildings to it.';
+  } else if (grids.some((grid: any) => grid.brownout)) {
+    hint = 'Demand exceeds supply on a grid, so buildings take turns losing power. Build another plant on that grid.';
+  } else if (grids.some((grid: any) => grid.bottleneck)) {
+    hint = 'A line or building cannot carry all the power. Add a parallel power line around the bottleneck.';
+  } else if (service.unconnectedCount > 0) {
+    hint = 'Some buildings are not connected to any power plant. Connect them with power lines.';
+  }
+
+  return {
+    grids,
+    unconnectedBuildings: service.unconnectedCount,
+    plantTypes: Object.fromEntries(Object.entries(config.power.plants).map(([type, spec]: [string, any]) => [type, {
+      ...spec,
+      cost: config.budget.buildCost[type],
+      upkeep: config.budget.upkeep[type],
+    }])),
+    capacity: { powerLine: config.power.lineCapacity, otherBuildings: config.power.buildingCapacity },
+    demandPerLevel: { ...config.power.demand },
+    ...(hint ? { hint } : {}),
+  };
+}
+
+/**
+ * Traffic load on the road network: how many commuters use each road and how
+ * congested it is (0-100%). Roads at or above the jam threshold are listed
+ * most congested first. Optionally shows or hides the traffic overlay.
+ */
+export function getTraffic(showOverlay?: boolean): any {
+  const city = getCity();
+  if (!city) return { error: 'City not initialized' };
+
+  const game = (window as any).game;
+  if (showOverlay !== undefined) {
+    game?.setOverlay(showOverlay ? 'traffic' : 'none');
+  }
+
+  const describe = (road: any) => ({
+    x: road.x,
+    y: road.y,
+    style: road.style,
+    traffic: road.traffic,
+    capacity: city.traffic.getCapacity(road),
+    congestion: Math.round(road.congestion * 100),
+  });
+
+  const busyRoads: any[] = [];
+  for (let x = 0; x < city.width; x++) {
+    for (let y = 0; y < city.height; y++) {
+      const building = city.getTile(x, y).building;
+      if (building?.type === 'road' && building.traffic > 0) busyRoads.push(describe(building));
+    }
+  }
+  busyRoads.sort((a, b) => b.congestion - a.congestion);
+
+  return {
+    commuters: city.traffic.commuters,
+    averageCongestion: Math.round(city.traffic.averageCongestion * 100),
+    happinessEffect: Math.round(city.traffic.happinessModifier * 10) / 10,
+    jamThreshold: Math.round(config.traffic.jamThreshold * 100),
+    jammed: city.traffic.getJammedRoads(city).map(describe),
+    busyRoads,
+    vehicles: city.vehicleGraph.vehicles.length,
+    overlay: game?.overlay ?? 'none',
+    hint: 'Relieve jams with parallel roads or by moving jobs closer to homes. Intersections carry fewer commuters than straight roads.',
+  };
+}
+
+/** Speed of the simulation clock and how long the city has been running. */
+export function getTime(): any {
+  const city = getCity();
+  if (!city) return { error: 'City not initialized' };
+
+  return {
+    speed: city.clock.speed,
+    paused: city.clock.paused,
+    simTime: city.simTime,
+    speeds: GAME_SPEEDS,
+    hint: 'Speed 0 pauses. 1, 2 and 4 are multiples of normal speed (one step per second at 1x); "max" runs as fast as the page allows.',
   };
 }
 
-export function getActiveRequests(): any {
+/**
+ * Change how fast the simulation runs. 0 (or "pause") pauses,
+ * "play" resumes at normal speed.
+ */
+export function setGameSpeed(speed: number | string): any {
+  const game = (window as any).game;
+  if (!game?.city) return { success: false, error: 'City not initialized' };
+
+  // Tools and HTTP clients may send the number as a string
+  const value = speed === 'pause' ? 0
+    : speed === 'play' ? 1
+    : typeof speed === 'string' && /^\d+$/.test(speed) ? Number(speed)
+    : speed;
+  const previous = game.city.clock.speed;
+  if (!game.setSpeed(value)) {
+    return { success: false, error: `Invalid speed "${speed}". Use one of: ${GAME_SPEEDS.join(', ')}, pause, play` };
+  }
+  return { success: true, previous, ...getTime() };
+}
+
+/** Pause the simulation and run a number of steps right away. */
+export function stepTime(steps: number | string = 1): any {
+  const game = (window as any).game;
+  if (!game?.city) return { success: false, error: 'City not initialized' };
+
+  // Tools and HTTP clients may send the number as a string
+  const count = typeof steps === 'string' && /^\d+$/.test(steps) ? Number(steps) : steps;
+  const max = config.clock.maxStepCount;
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > max) {
+    return { success: false, error: `steps must be an integer between 1 and ${max}` };
+  }
+  const ran = game.step(count);
+  return { success: true, steps: ran, ...getTime(), population: game.city.population };
+}
+
+/**
+ * Show a map overlay, or with no type, return the overlay being shown.
+ * For a heatmap the result also summarises it: the average value and the
+ * tiles with the lowest values.
+ */
+export function showOverlay(type?: string): any {
+  const city = getCity();
+  const game = (window as any).game;
+  if (!city || !game) return { success: false, error: 'City not initialized' };
+
+  if (type !== undefined) {
+    if (!OVERLAY_TYPES.includes(type)) {
+      return { success: false, error: `Invalid overlay "${type}". Use one of: ${OVERLAY_TYPES.join(', ')}` };
+    }
+    game.setOverlay(type);
+  }
+
+  const overlay = game.overlay;
+  const result: any = { success: true, overlay, available: OVERLAY_TYPES };
+  if (!Object.values(HeatmapType).includes(overlay)) return result;
+
+  const tiles: { x: number; y: number; value: number }[] = [];
+  for (let x = 0; x < city.width; x++) {
+    for (let y = 0; y < city.height; y++) {
+      const value = getHeatmapValue(city, city.getTile(x, y), overlay);
+      if (value !== null) tiles.push({ x, y, value: Math.round(value * 100) });
+    }
+  }
+  tiles.sort((a, b) => a.value - b.value);
+
+  result.legend = (HeatmapLegend as Record<string, string>)[overlay];
+  result.tiles = tiles.length;
+  result.average = tiles.length > 0
+    ? Math.round(tiles.reduce((sum, tile) => sum + tile.value, 0) / tiles.length)
+    : null;
+  result.lowest = tiles.slice(0, OVERLAY_LOWEST_TILES);
+  result.hint = 'Values are 0-100 (red = 0, green = 100). Use get_screenshot with the overlay to see the whole map.';
+  return result;
+}
+
+/** Revert the most recent mutation or batch (a zone_area, a layout or a whole AI turn). */
+export function undo(): any {
+  if (!getCity()) return { success: false, error: 'City not initialized' };
+  return journal.undo();
+}
+
+/** Reapply the most recently undone step. */
+export function redo(): any {
+  if (!getCity()) return { success: false, error: 'City not initialized' };
+  return journal.redo();
+}
+
+/** The transaction log: steps that can be undone (oldest first) and redone. */
+export function getJournal(): any {
+  return { ...journal.list(), canUndo: journal.canUndo, canRedo: journal.canRedo };
+}
+
+/**
+ * Group every mutation until the matching endBatch into one undo step.
+ * Used to make a parsed chat command undoable at once.
+ */
+export function beginBatch(label: string): void {
+  journal.beginBatch(label);
+}
+
+export function endBatch(): void {
+  journal.endBatch();
+}
+
+/**
+ * Start an undo step that spans several calls, such as the tool calls of
+ * one AI turn, and return its token. Pass the token to recordInStep.
+ */
+export function openStep(label: string): number {
+  return journal.openStep(label);
+}
+
+/** Run a function with every mutation it makes added to the step of the token. */
+export function recordInStep<T>(token: number, fn: () => T): T {
+  return journal.recordInStep(token, fn);
+}
+
+export function closeStep(token: number): void {
+  journal.closeStep(token);
+}
+
+/**
+ * Lists the open citizen requests, most urgent first. With a request id,
+ * returns that request along with whether its problem is still present.
+ */
+export function getActiveRequests(requestId?: string): any {
   const engine = (window as any).requestEngine;
   if (!engine) return { requests: [] };
-  return { requests: engine.getActiveRequests() };
+
+  // Deadlines are in sim time, so seconds left are at normal speed
+  const now = getCity().simTimeMs;
+  const describe = (request: any) => ({
+    ...request,
+    secondsLeft: request.status === 'active'
+      ? Math.max(0, Math.round((request.deadline - now) / 1000))
+      : 0,
+  });
+
+  if (requestId) {
+    const request = engine.getRequest(requestId);
+    if (!request) return { success: false, error: `No request with id ${requestId}` };
+    const status = engine.checkRequestStatus(requestId);
+    return {
+      request: describe(request),
+      resolved: status.resolved,
+      detail: status.detail,
+      suggestion: status.suggestion,
+    };
+  }
+
+  return { requests: engine.getActiveRequests().map(describe) };
 }
 
-export function getScreenshot(): string | null {
+/**
+ * Tells a citizen their request has been dealt with. The request is evaluated
+ * after a few simulation steps.
+ */
+export function markRequestResolved(requestId: string): any {
+  const engine = (window as any).requestEngine;
+  if (!engine) return { success: false, error: 'Request engine not available' };
+  if (!requestId) return { success: false, error: 'request_id is required' };
+
+  const result = engine.markResolved(requestId);
+  if (!result.success) return result;
+  return {
+    success: true,
+    requestId,
+    message: 'Request marked as resolved. Citizen evaluation will follow.',
+  };
+}
+
+/**
+ * Returns what a citizen remembers: personality, family, mood history,
+ * conversations and requests. Without an id, lists every citizen with a profile.
+ */
+export function getCitizenProfile(citizenId?: string): any {
+  const profiles = (window as any).citizenProfiles;
+  if (!profiles) return { success: false, error: 'Citizen profiles not available' };
+
+  if (!citizenId) {
+    return {
+      citizens: profiles.getProfiles().map((p: any) => ({
+        citizenId: p.citizenId,
+        name: p.name,
+        mood: p.mood,
+        conversations: p.conversations.length,
+        requests: p.requests.length,
+      })),
+    };
+  }
+
+  const city = getCity();
+  let citizen: any = null;
+  for (let x = 0; x < city.width && !citizen; x++) {
+    for (let y = 0; y < city.height && !citizen; y++) {
+      citizen = city.getTile(x, y)?.building?.residents?.list?.find((c: any) => c.id === citizenId) ?? null;
+    }
+  }
+
+  // Citizens who left the city keep their profile, without family links
+  const profile = citizen ? profiles.getProfile(citizen) : profiles.findProfile(citizenId);
+  if (!profile) return { success: false, error: `No citizen with id ${citizenId}` };
+  return { livesInCity: !!citizen, ...profile };
+}
+
+/**
+ * Capture the game view as a PNG data URL. With an overlay, the view is
+ * captured with that overlay shown and then switched back.
+ */
+export function getScreenshot(overlay?: string): string | null {
   const renderer = getRenderer();
   if (!renderer) return null;
-  return renderer.domElement.toDataURL('image/png');
+
+  const game = (window as any).game;
+  if (!overlay || !OVERLAY_TYPES.includes(overlay) || overlay === game.overlay) {
+    return renderer.domElement.toDataURL('image/png');
+  }
+
+  const previous = game.overlay;
+  game.setOverlay(overlay);
+  renderer.render(game.scene, game.cameraManager.camera);
+  const screenshot = renderer.domElement.toDataURL('image/png');
+  game.setOverlay(previous);
+  return screenshot;
 }
 
 // Route handler for API bridge
@@ -295,14 +1459,80 @@ export function handleCommand(route: string, method: string, body: any): any {
       return zoneArea(body.x1, body.y1, body.x2, body.y2, body.type);
     case 'apply-layout':
       return applyLayout(body);
+    case 'draw-road':
+      return drawLine('road', linePoints(body));
+    case 'draw-power-line':
+      return drawLine('power-line', linePoints(body));
     case 'export-layout':
       return exportLayout();
+    case 'new-city':
+      return newCity(body.width, body.height, body.name, body.seed);
+    case 'resize-city':
+      return resizeCity(body.width, body.height);
+    case 'save-game':
+      return saveGame(body?.slot);
+    case 'load-game':
+      return loadGame(body ?? {});
+    case 'saves':
+      return listSaves();
+    case 'scenarios':
+      return listScenarios();
+    case 'start-scenario':
+      return startScenario(body?.scenario_id);
+    case 'objectives':
+      return getObjectives();
     case 'happiness':
       return getHappiness();
+    case 'demographics':
+      return getDemographics();
+    case 'services':
+      return getServices();
+    case 'amenities':
+      return getAmenities();
+    case 'pollution':
+      return getPollution();
+    case 'history':
+      return getHistory(body?.metric, body?.from, body?.to);
+    case 'budget':
+      return getBudget();
+    case 'set-tax-rate':
+      return setTaxRate(body.zone, body.rate);
+    case 'route':
+      return findRoute(body.from_x, body.from_y, body.to_x, body.to_y);
+    case 'power-grid':
+      return getPowerGrid();
+    case 'traffic':
+      return getTraffic(body?.show_overlay);
+    case 'time':
+      return getTime();
+    case 'time/speed':
+      return setGameSpeed(body?.speed);
+    case 'time/step':
+      return stepTime(body?.steps ?? 1);
+    case 'undo':
+      return undo();
+    case 'redo':
+      return redo();
+    case 'journal':
+      return getJournal();
     case 'requests':
-      return getActiveRequests();
+      return getActiveRequests(body?.request_id);
+    case 'resolve-request':
+      return markRequestResolved(body?.request_id);
+    case 'citizen':
+      return getCitizenProfile(body?.id);
+    case 'plan':
+      return getPlan();
+    case 'propose-plan':
+      return proposePlan(body);
+    case 'approve-plan':
+      return approvePlan(body?.plan_id);
+    case 'reject-plan':
+      return rejectPlan(body?.plan_id);
+    case 'overlay':
+      return showOverlay(body?.type);
     case 'screenshot':
-      return { screenshot: getScreenshot() };
+      return { screenshot: getScreenshot(body?.overlay) };
     default:
       return { error: `Unknown route: ${route}` };
   }
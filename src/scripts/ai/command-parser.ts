@@ -0,0 +1,435 @@
+/**
+ * Rule-based interpreter for simple English and Japanese build commands.
+ * Unambiguous commands ("build 3 houses at X2Y3", "道路を東西に",
+ * "bulldoze row Y4", "zone X0-X3 Y0 as commercial") run straight through
+ * CityAPI without a language model; anything else returns null and is left
+ * to the AI. Locations follow the conventions of `describeGrid`: X labels
+ * are columns (west → east), Y labels are rows (north → south).
+ */
+import * as CityAPI from "./city-api";
+
+export interface Area {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export type ParsedCommand =
+  /** Place `count` buildings on the free tiles nearest to (x, y) */
+  | { action: "place"; type: string; count: number; x: number; y: number }
+  /**
+   * Fill a rectangle (a zone, or a road or power line along a row or column).
+   * `inferred` is true when the area was guessed from a compass word or the
+   * middle row or column rather than given as coordinates
+   */
+  | { action: "zone"; type: string; area: Area; inferred: boolean }
+  /** Bulldoze a rectangle, only buildings of `type` if given */
+  | { action: "bulldoze"; area: Area; type: string | null; inferred: boolean };
+
+type ToolCallback = (toolName: string, args: any) => void;
+
+/** Most buildings one command may place, so a typo cannot empty the treasury */
+const MAX_COUNT = 20;
+
+/** Messages longer than this are treated as conversation, not commands */
+const MAX_COMMAND_LENGTH = 80;
+
+/**
+ * Words for each building type. More specific words come first, so
+ * "solar power plant" is not read as a coal "power plant".
+ */
+const TYPE_WORDS: [string, RegExp][] = [
+  ["solar-power-plant", /solar|太陽光|ソーラー/],
+  ["nuclear-power-plant", /nuclear|原子力|原発/],
+  ["power-line", /power ?lines?|電線|送電線/],
+  ["power-plant", /(?:coal )?power ?plants?|発電所|火力/],
+  ["residential", /\b(?:houses?|homes?|housing|residential)\b|住宅|住居|家/],
+  ["commercial", /\b(?:shops?|stores?|commercial)\b|商業|店/],
+  ["industrial", /\b(?:factory|factories|industrial|industry)\b|工業|工場/],
+  ["road", /\b(?:roads?|streets?)\b|道路|道/],
+  ["school", /\bschools?\b|学校/],
+  ["hospital", /\b(?:hospitals?|clinics?)\b|病院/],
+  ["police-station", /\bpolice(?: stations?)?\b|警察|交番/],
+  ["fire-station", /\bfire ?stations?\b|消防/],
+  ["ferris-wheel", /\bferris wheels?\b|観覧車/],
+  ["stadium", /\bstadiums?\b|スタジアム|競技場/],
+  ["statue", /\bstatues?\b|銅像|バーガー像/],
+  ["fountain", /\bfountains?\b|噴水/],
+  ["park", /\bparks?\b|公園/],
+  ["tree", /\btrees?\b|木|植樹/],
+];
+
+const BULLDOZE_WORDS = /\b(?:bulldoze|demolish|remove|destroy|clear|tear down)\b|撤去|取り壊|壊し|壊す|解体|更地/;
+const ZONE_WORDS = /\bzone\b|地区|区画|ゾーン/;
+const BUILD_WORDS = /\b(?:build|place|put|add|construct|lay|make)\b|建て|建設|建築|作っ|作る|作り|造|置い|置く|設置|敷|引い|引く|通し|通す/;
+
+/** Messages asking for advice rather than giving an order */
+const QUESTION_WORDS = /[?？]|\b(?:how|why|what|where|should|could|suggest|recommend|best)\b|どこ|どう|なぜ|べき|おすすめ|提案|相談|教えて/;
+
+/** Messages telling the mayor not to do something */
+const NEGATION_WORDS = /\b(?:don['’]?t|do not|never)\b|ないで|しないで|やめて/;
+
+/** Words that make two coordinates the corners of a rectangle, once the coordinates are taken out */
+const RANGE_WORDS = /\b(?:from|to)\b|から|まで|[~〜]|(?:^|\s)-(?:\s|$)/;
+
+/** Roads and power lines laid across the whole map */
+const EAST_WEST = /east[- ]?west|west[- ]?east|horizontal|東西|横/;
+const NORTH_SOUTH = /north[- ]?south|south[- ]?north|vertical|南北|縦/;
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9, 十: 10,
+};
+
+/** Japanese labels used in replies */
+const TYPE_LABELS_JA: Record<string, string> = {
+  residential: "住宅",
+  commercial: "商業",
+  industrial: "工業",
+  road: "道路",
+  "power-plant": "火力発電所",
+  "solar-power-plant": "太陽光発電所",
+  "nuclear-power-plant": "原子力発電所",
+  "power-line": "送電線",
+  school: "学校",
+  hospital: "病院",
+  "police-station": "警察署",
+  "fire-station": "消防署",
+  park: "公園",
+  tree: "木",
+  fountain: "噴水",
+  "ferris-wheel": "観覧車",
+  stadium: "スタジアム",
+  statue: "バーガー像",
+};
+
+/**
+ * Parses a chat message into a command, or returns null if the message is
+ * not a command this parser is sure about.
+ */
+export function parseCommand(text: string, width: number, height: number): ParsedCommand | null {
+  // Full-width letters and digits (Ｘ２Ｙ３) become ASCII
+  let rest = text.normalize("NFKC").toLowerCase().trim();
+  if (!rest || rest.length > MAX_COMMAND_LENGTH || rest.includes("\n")) return null;
+  if (QUESTION_WORDS.test(rest) || NEGATION_WORDS.test(rest)) return null;
+
+  const types = TYPE_WORDS.filter(([, pattern]) => pattern.test(rest)).map(([type]) => type);
+  const type = pickType(types);
+
+  // A road or power line "east-west" runs along the middle row unless a row is given
+  const isLine = type === "road" || type === "power-line";
+  const eastWest = EAST_WEST.test(rest);
+  const northSouth = NORTH_SOUTH.test(rest);
+
+  const bulldoze = BULLDOZE_WORDS.test(rest);
+  const zone = ZONE_WORDS.test(rest) || /\bas\b/.test(rest) || /を.+に(?:して|する|指定)/.test(rest);
+  const build = BUILD_WORDS.test(rest) || (isLine && eastWest !== northSouth);
+
+  // Coordinates are taken out so their digits are not read as a count.
+  // "X3 Y0" with a space is left to the ranges, as in "X0-X3 Y0"
+  const points: { x: number; y: number }[] = [];
+  rest = rest.replace(/(?<![a-z])x\s*(\d+)(?:\s*[,、]\s*)?y\s*(\d+)/g, (_, x, y) => {
+    points.push({ x: +x, y: +y });
+    return " ";
+  });
+  rest = rest.replace(/\(\s*(\d+)\s*,\s*(\d+)\s*\)/g, (_, x, y) => {
+    points.push({ x: +x, y: +y });
+    return " ";
+  });
+  const xRange = takeRange(rest, "x");
+  rest = xRange.rest;
+  const yRange = takeRange(rest, "y");
+  rest = yRange.rest;
+  if (points.length === 0 && isSingle(xRange.range) && isSingle(yRange.range)) {
+    points.push({ x: xRange.range[0], y: yRange.range[0] });
+  }
+
+  let area: Area | null = null;
+  let inferred = false;
+  if (points.length === 2) {
+    // "X2Y3 and X4Y4" names two places, not the corners of a rectangle
+    if (!RANGE_WORDS.test(rest)) return null;
+    area = { x1: points[0].x, y1: points[0].y, x2: points[1].x, y2: points[1].y };
+  } else if (points.length > 2) {
+    return null;
+  } else if (points.length === 0 && (xRange.range || yRange.range)) {
+    // "row Y4" or "Y4行" spans every column, "column X3" every row
+    area = {
+      x1: xRange.range?.[0] ?? 0,
+      x2: xRange.range?.[1] ?? width - 1,
+      y1: yRange.range?.[0] ?? 0,
+      y2: yRange.range?.[1] ?? height - 1,
+    };
+  } else if (points.length === 0) {
+    area = compassArea(rest, width, height);
+    inferred = true;
+    // A road "east" could run anywhere in the east, so a line needs a row or column
+    if (area && isLine && !bulldoze) return null;
+  }
+  if (area && !inBounds(area, width, height)) return null;
+
+  if (bulldoze) {
+    if (build || (types.length > 0 && !type)) return null;
+    if (points.length === 1) {
+      const { x, y } = points[0];
+      area = { x1: x, y1: y, x2: x, y2: y };
+      if (!inBounds(area, width, height)) return null;
+    }
+    return area ? { action: "bulldoze", area, type, inferred } : null;
+  }
+
+  if (!type || (!build && !zone)) return null;
+
+  if (points.length === 1) {
+    const { x, y } = points[0];
+    if (x >= width || y >= height) return null;
+    const count = parseCount(rest);
+    if (count === null) return null;
+    return { action: "place", type, count, x, y };
+  }
+
+  if (isLine && points.length === 0 && eastWest !== northSouth) {
+    if (eastWest) {
+      inferred = !yRange.range;
+      const row = yRange.range ?? [Math.floor(height / 2), Math.floor(height / 2)];
+      if (row[0] !== row[1]) return null;
+      area = {
+        x1: xRange.range?.[0] ?? 0, x2: xRange.range?.[1] ?? width - 1,
+        y1: row[0], y2: row[0],
+      };
+    } else {
+      inferred = !xRange.range;
+      const column = xRange.range ?? [Math.floor(width / 2), Math.floor(width / 2)];
+      if (column[0] !== column[1]) return null;
+      area = {
+        x1: column[0], x2: column[0],
+        y1: yRange.range?.[0] ?? 0, y2: yRange.range?.[1] ?? height - 1,
+      };
+    }
+    if (!inBounds(area, width, height)) return null;
+  }
+
+  return area ? { action: "zone", type, area, inferred } : null;
+}
+
+/**
+ * Carries out a parsed command through CityAPI as one undo step and
+ * returns a reply in the language of the message.
+ */
+export function runCommand(
+  command: ParsedCommand,
+  text: string,
+  onToolCall?: ToolCallback,
+): string {
+  const ja = /[぀-ヿ一-龯]/.test(text);
+  CityAPI.beginBatch(`Command: ${text.substring(0, 40)}`);
+  try {
+    switch (command.action) {
+      case "place":
+        return runPlace(command, ja, onToolCall);
+      case "zone": {
+        const { x1, y1, x2, y2 } = command.area;
+        const args = { x1, y1, x2, y2, type: command.type };
+        onToolCall?.("zone_area", args);
+        const result = CityAPI.zoneArea(x1, y1, x2, y2, command.type);
+        if (!result.success) return `Error: ${result.error}`;
+        const label = ja ? TYPE_LABELS_JA[command.type] : command.type;
+        const where = `(${x1},${y1})-(${x2},${y2})`;
+        const summary = ja
+          ? `${label}を${where}に${result.placed}マス建設しました（$${result.cost}）。`
+          : `Built ${result.placed} tile(s) of ${label} in ${where} ($${result.cost}).`;
+        return summary + describeSkipped(result.skipped, result.warning, ja);
+      }
+      case "bulldoze":
+        return runBulldoze(command, ja, onToolCall);
+    }
+  } finally {
+    CityAPI.endBatch();
+  }
+}
+
+function runPlace(
+  command: Extract<ParsedCommand, { action: "place" }>,
+  ja: boolean,
+  onToolCall?: ToolCallback,
+): string {
+  const { type, count, x, y } = command;
+  const state = CityAPI.getCityState();
+  if (state.error) return `Error: ${state.error}`;
+
+  // Try the requested tile first, then spiral outward
+  const tiles: { x: number; y: number }[] = [];
+  for (let tx = 0; tx < state.width; tx++) {
+    for (let ty = 0; ty < state.height; ty++) {
+      tiles.push({ x: tx, y: ty });
+    }
+  }
+  const distance = (t: { x: number; y: number }) => Math.abs(t.x - x) + Math.abs(t.y - y);
+  tiles.sort((a, b) => distance(a) - distance(b) || a.y - b.y || a.x - b.x);
+
+  const placed: string[] = [];
+  let cost = 0;
+  let firstError: string | null = null;
+  for (const tile of tiles) {
+    if (placed.length >= count) break;
+    if (count === 1 && distance(tile) > 0) break;
+    if (state.buildings.some((b: any) => b.x === tile.x && b.y === tile.y)) continue;
+
+    onToolCall?.("place_building", { ...tile, type });
+    const result = CityAPI.placeBuilding(tile.x, tile.y, type);
+    if (result.success) {
+      placed.push(`(${tile.x},${tile.y})`);
+      cost += result.cost ?? 0;
+    } else {
+      firstError ??= result.error;
+    }
+  }
+
+  const label = ja ? TYPE_LABELS_JA[type] : type;
+  if (placed.length === 0) {
+    return ja
+      ? `${label}を建設できませんでした: ${firstError ?? `X${x}Y${y}は使用中です`}`
+      : `Could not build ${label}: ${firstError ?? `X${x}Y${y} is occupied`}`;
+  }
+  const summary = ja
+    ? `${label}を${placed.length}棟建設しました: ${placed.join(", ")}（$${cost}）。`
+    : `Built ${placed.length} ${label}: ${placed.join(", ")} ($${cost}).`;
+  if (placed.length < count) {
+    return summary + (ja
+      ? ` ${count}棟のうち${count - placed.length}棟は建設できませんでした${firstError ? `: ${firstError}` : ""}`
+      : ` ${count - placed.length} of ${count} could not be built${firstError ? `: ${firstError}` : ""}`);
+  }
+  return summary;
+}
+
+function runBulldoze(
+  command: Extract<ParsedCommand, { action: "bulldoze" }>,
+  ja: boolean,
+  onToolCall?: ToolCallback,
+): string {
+  const { area, type } = command;
+  const minX = Math.min(area.x1, area.x2);
+  const maxX = Math.max(area.x1, area.x2);
+  const minY = Math.min(area.y1, area.y2);
+  const maxY = Math.max(area.y1, area.y2);
+  const state = CityAPI.getCityState();
+  if (state.error) return `Error: ${state.error}`;
+
+  let removed = 0;
+  let firstError: string | null = null;
+  for (const building of state.buildings) {
+    if (building.x < minX || building.x > maxX || building.y < minY || building.y > maxY) continue;
+    if (type && building.type !== type) continue;
+    onToolCall?.("bulldoze", { x: building.x, y: building.y });
+    const result = CityAPI.bulldoze(building.x, building.y);
+    if (result.success) removed++;
+    else firstError ??= result.error;
+  }
+
+  const where = minX === maxX && minY === maxY ? `(${minX},${minY})` : `(${minX},${minY})-(${maxX},${maxY})`;
+  if (removed === 0) {
+    return ja
+      ? `${where}に撤去できる建物はありません${firstError ? `: ${firstError}` : "。"}`
+      : `Nothing to bulldoze in ${where}${firstError ? `: ${firstError}` : "."}`;
+  }
+  return ja
+    ? `${where}の建物を${removed}件撤去しました。`
+    : `Bulldozed ${removed} building(s) in ${where}.`;
+}
+
+function describeSkipped(skipped: number, warning: string | undefined, ja: boolean): string {
+  if (!skipped) return "";
+  if (warning) return ` ${warning}`;
+  return ja
+    ? ` 使用中か地形が合わない${skipped}マスは飛ばしました。`
+    : ` Skipped ${skipped} occupied or unsuitable tile(s).`;
+}
+
+/**
+ * Chooses the building type when several type words matched. Words inside
+ * other words ("発電所" in "太陽光発電所", "道" in "道路") are not a second type.
+ */
+function pickType(types: string[]): string | null {
+  let remaining = types;
+  if (remaining.some((t) => t === "solar-power-plant" || t === "nuclear-power-plant")) {
+    remaining = remaining.filter((t) => t !== "power-plant");
+  }
+  if (remaining.includes("power-line")) {
+    remaining = remaining.filter((t) => t !== "power-plant");
+  }
+  return remaining.length === 1 ? remaining[0] : null;
+}
+
+/**
+ * Removes an axis label or range ("X0-X3", "y4", "row Y4", "Y4行") from the
+ * text and returns it as [min, max]
+ */
+function takeRange(text: string, axis: "x" | "y"): { rest: string; range: [number, number] | null } {
+  const pattern = new RegExp(
+    `(?:(?:row|column|col)\\s*)?(?<![a-z])${axis}\\s*(\\d+)(?:\\s*(?:-|~|〜|to|から)\\s*${axis}?\\s*(\\d+)(?:\\s*まで)?)?\\s*(?:行|列|row|column)?`,
+  );
+  const match = text.match(pattern);
+  if (!match) return { rest: text, range: null };
+  const a = +match[1];
+  const b = match[2] !== undefined ? +match[2] : a;
+  return {
+    rest: text.replace(match[0], " "),
+    range: [Math.min(a, b), Math.max(a, b)],
+  };
+}
+
+/**
+ * Compass regions: the outer quarter of the map on each side ("北側" is
+ * Y0-Y1 on an 8x8 map), corners for combined directions, and the middle
+ */
+function compassArea(text: string, width: number, height: number): Area | null {
+  const bandX = Math.max(1, Math.floor(width / 4));
+  const bandY = Math.max(1, Math.floor(height / 4));
+  const north = /north|北/.test(text);
+  const south = /south|南/.test(text);
+  const west = /west|西/.test(text);
+  const east = /east|東/.test(text);
+  // "東西" and "南北" describe a direction of travel, not a region
+  if ((north && south) || (east && west)) return null;
+
+  if (/center|centre|middle|中央|中心/.test(text) && !north && !south && !east && !west) {
+    const cx = Math.floor(width / 2);
+    const cy = Math.floor(height / 2);
+    return {
+      x1: cx - Math.floor(bandX / 2), x2: cx - Math.floor(bandX / 2) + bandX - 1,
+      y1: cy - Math.floor(bandY / 2), y2: cy - Math.floor(bandY / 2) + bandY - 1,
+    };
+  }
+  if (!north && !south && !east && !west) return null;
+
+  return {
+    x1: east ? width - bandX : 0,
+    x2: west ? bandX - 1 : width - 1,
+    y1: south ? height - bandY : 0,
+    y2: north ? bandY - 1 : height - 1,
+  };
+}
+
+/** Reads "3 houses", "three shops" or "3つ"; defaults to one */
+function parseCount(text: string): number | null {
+  const digits = text.match(/(\d+)\s*(?:つ|個|軒|棟|件|基|本)?/);
+  let count = 1;
+  if (digits) {
+    count = +digits[1];
+  } else {
+    const word = text.match(/\b(a|an|one|two|three|four|five|six|seven|eight|nine|ten)\b|([一二三四五六七八九十])\s*(?:つ|個|軒|棟|件|基|本)/);
+    if (word) count = NUMBER_WORDS[word[1] ?? word[2]];
+  }
+  return count >= 1 && count <= MAX_COUNT ? count : null;
+}
+
+function isSingle(range: [number, number] | null): boolean {
+  return range !== null && range[0] === range[1];
+}
+
+function inBounds(area: Area, width: number, height: number): boolean {
+  return [area.x1, area.x2].every((x) => x >= 0 && x < width) &&
+    [area.y1, area.y2].every((y) => y >= 0 && y < height);
+}
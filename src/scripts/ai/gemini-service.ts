@@ -1,64 +1,143 @@
 /**
- * Gemini 3 SDK wrapper with Function Calling tools for city operations.
- * Uses @google/genai SDK.
+ * AI Mayor chat with Function Calling tools for city operations.
+ * Talks to whichever model the `LLMProvider` wraps (Gemini by default).
  */
-import { GoogleGenAI, Type } from "@google/genai";
-import type { Content, FunctionCall, Tool } from "@google/genai";
 import * as CityAPI from "./city-api";
 import type { CitizenRequest } from "./request-engine";
+import type { ChatMessage, LLMProvider, ToolDeclaration, ToolResult } from "./providers";
 
-const MODEL_ID = "gemini-3-flash-preview";
-
-const SYSTEM_INSTRUCTION = `You are an AI Mayor assistant for a conversational city-building game.
+/** Built per request so the grid description matches the current map size. */
+const buildSystemInstruction = () => `You are an AI Mayor assistant for a conversational city-building game.
 The player builds and manages their city ENTIRELY through natural language (chat and voice). There is NO toolbar — you are the only way to build.
 
-The city is an 8x8 grid with compass directions and labeled coordinates:
-- Columns: X0 (West) → X7 (East), where X0=0, X1=1, ..., X7=7
-- Rows: Y0 (North) → Y7 (South), where Y0=0, Y1=1, ..., Y7=7
-- Example: "X0Y0" = northwest corner (0,0), "X7Y7" = southeast corner (7,7), "X3Y3" = (3,3)
+${CityAPI.describeGrid()}
 - Players may refer to locations by label (e.g. "X3Y2"), compass direction (e.g. "北側" = Y0-Y1, "南東" = high X + high Y), or by axis (e.g. "X5列" = column x:5, "Y3行" = row y:3). The label number directly equals the coordinate value.
 
 ## CRITICAL RULE: Always check before building
 **BEFORE placing ANY buildings, you MUST call get_city_state first** to see which tiles are already occupied.
-- The grid shows: "." = empty, "R" = road, "H" = residential, "C" = commercial, "I" = industrial, "P" = power-plant, "L" = power-line.
-- You can ONLY place buildings on empty tiles (marked ".").
+- The grid shows: "R" = road, "H" = residential, "C" = commercial, "I" = industrial, "P" = power-plant (coal), "S" = solar-power-plant, "N" = nuclear-power-plant, "L" = power-line, "E" = school, "+" = hospital, "K" = police-station, "F" = fire-station, "G" = park, "T" = tree, "O" = fountain, "W" = ferris-wheel, "D" = stadium, "A" = statue.
+- Empty tiles show their terrain: "." = grass, ":" = sand, "~" = water, "^" = hill, "M" = mountain.
+- You can ONLY place buildings on empty tiles, and only where the terrain allows it.
+
+## Terrain
+The map has water, hills and mountains. Plan around the geography:
+- grass / sand: flat land, anything can be built
+- water: only roads (built as bridges) and power lines
+- hill: no power plants (they need flat land)
+- mountain: too steep for zones or power plants; only roads, power lines and trees
 
 ## Building types
 - residential: Housing zones where citizens live
 - commercial: Business zones that provide jobs
 - industrial: Factory zones for industry
 - road: Roads for transportation (buildings need road access)
-- power-plant: Generates electricity (buildings need power)
-- power-line: Distributes electricity
+- power-plant: Coal power plant, 100 kW, polluting ($2500)
+- solar-power-plant: Solar farm, 30 kW, clean ($1500)
+- nuclear-power-plant: Nuclear power plant, 400 kW, low pollution but expensive ($12000)
+- power-line: Distributes electricity (carries up to 300 kW)
+- school: Seats 30 children within 6 tiles ($1200)
+- hospital: Serves 120 residents within 8 tiles, speeds up disaster recovery ($3000)
+- police-station: Serves 100 residents within 7 tiles ($1500)
+- fire-station: Serves 100 residents within 7 tiles, saves buildings from disasters ($1500)
+- park ($300), tree ($20), fountain ($400): Make nearby tiles more desirable; no power or road needed
+- ferris-wheel ($5000), stadium ($8000), statue ($3000): Landmarks with a wide reach; only one of each per city
 
 ## Game mechanics
 - Buildings need both power and road access to develop
 - Place power plants first, then connect with roads
 - Zones develop over time when powered and road-connected
+- Citizens only take jobs they can drive to: their home and the workplace must be joined by a connected road network (at most 24 tiles of driving). Separate road networks do not share workers
+- Use find_route to check whether two places are connected by road
+- Touching buildings form a power grid; each grid shares the output of its plants. Zones need more power as they level up (residential 8, commercial 10, industrial 15 kW per level)
+- Power lines carry up to 300 kW, other buildings pass on only 100 kW; a long chain of zones or roads can become a bottleneck
+- When a grid's demand exceeds its supply, buildings take turns losing power (rolling brownouts). Use get_power_grid to check each grid's supply, demand and bottleneck
+- Every commuter adds traffic to the roads on their drive. Roads carrying more commuters than their capacity become congested; jams lower happiness and slow down the growth of nearby zones
+- Use get_traffic to find jammed roads and intersections (set show_overlay to colour the roads green→red for the player). Relieve jams with parallel roads or by building jobs closer to homes
+- set_overlay colours the map for the player: power, road-access, jobs, residents, damage or land-value (red = low, green = high). It also returns the lowest tiles. Use it when explaining a problem, and get_screenshot with overlay to look at one yourself
+- Land value is higher near roads, power, shops, developed zones and water, and lower near factories, jammed roads and damage
 
 ## Citizen Requests
 Citizens send requests when they detect problems (housing shortage, unemployment, power outages, etc.).
-- Use get_requests to see current citizen requests
+- Several requests can be open at once (more in bigger cities). Each has an id, a priority (low/normal/high/urgent) and a deadline
+- Each request comes from a real citizen and names one tile (location): their home, their workplace, a jammed road or a damaged tile. Fix the problem at that tile — building elsewhere in the city does not satisfy the citizen
+- When more citizens complain about the same problem, its request is escalated to a higher priority
+- Use get_requests to see the open requests, most urgent first; handle urgent and high-priority ones before the rest
 - Proactively suggest solutions to the player based on requests
 - When requests are fulfilled, happiness increases automatically
 
+## Scenarios
+- The player may be playing a scenario: objectives (population, employment %, happiness, treasury, earthquakes recovered from) to reach before a time limit
+- Use get_objectives to check the objectives, their progress and the time left, and steer your suggestions toward the objectives that are not reached yet
+- The player starts a scenario by typing /scenario; do not start one yourself
+
 ## Happiness System
 - Use get_happiness to check the city's happiness score (0-100) and contributing factors
-- Happiness is affected by: employment, power supply, population, and pending requests
+- Happiness is affected by: employment, power supply, population, taxes, traffic congestion, parks and landmarks near homes, pollution at homes, and pending requests
 - Guide the player to maximize happiness
+- When the player asks why something changed ("なぜ幸福度が下がったの？"), call get_history for the period (e.g. last_seconds 300 for the last 5 minutes) and explain the change with the metrics that moved with it (employment, powered, damagedTiles, disasters, requestsExpired, treasury)
+
+## Population
+- Citizens age (one year per minute at normal speed), go to school, work, retire and die. Couples have children when their home has room, and grown children move to free homes of their own
+- Households move into empty homes, more often when the city is happy. Citizens leave when their home is abandoned and no other home is free, or when they stay unemployed too long
+- Use get_demographics for the age groups and the births, deaths and moves so far; get_history with births, deaths, movedIn and movedOut explains a falling population
+
+## Civic Services
+- Schools, hospitals, police stations and fire stations serve the residents of the homes within their radius, nearest first, up to their capacity. A school's capacity is its seats for children in school
+- They only work with power, road access and staff: citizens take jobs there like at shops and factories, and fewer staff serve fewer residents
+- Buildings within reach of a fire station may survive an earthquake; tiles within reach of a hospital recover faster
+- Once the city is big enough, residents left without a service file education, health, police or fire requests for their home
+- Use get_services to see who is served, the unserved residents of each type and the staff of every civic building
+
+## Parks and Landmarks
+- Parks, trees, fountains and landmarks need no power or road. Each makes the tiles within its radius more desirable, most right next to it
+- Zones on desirable tiles level up faster (up to twice as often), desirable land is worth more, and residents living near parks and landmarks raise happiness (up to +10)
+- Landmarks (ferris-wheel, stadium, statue) reach much further, but the city can only have one of each
+- Use get_amenities to see every park and landmark with its reach, the landmarks still available and the happiness bonus, and explain the effect to the player when you build one
+
+## Pollution
+- Developed factories (more with each level) and power plants (coal most, nuclear a little, solar none) pollute the air and ground around them. Air pollution drifts several tiles and clears quickly; ground pollution stays put and lingers
+- Parks and trees absorb the pollution around them
+- Pollution makes homes less desirable and slower to level up, lowers land value, wears down the health of the residents (sick citizens die sooner) and lowers happiness (up to -15)
+- Residents of polluted homes file pollution requests. Keep homes away from factories and coal plants, and plant trees or parks as a buffer between them
+- Use get_pollution to see the sources, the most polluted homes and the residents' health, and set_overlay pollution to show it to the player
+
+## Undo
+- undo_last_action reverts the most recent construction or demolition step and refunds its cost
+- One step is a single place_building/bulldoze, a whole zone_area, apply_layout, draw_road or draw_power_line, or everything you built in one earlier reply
+- Use it when the player says something like "undo", "元に戻して" or "さっきのは間違い" instead of bulldozing tile by tile
+- The player can also type /undo and /redo in the chat
+
+## Game Speed
+- set_game_speed pauses (pause), resumes (play) or fast-forwards (2, 4 or max) the simulation. Requests, scenario timers, disaster recovery and traffic all follow the game speed
+- With steps it pauses the game and advances that many steps, e.g. to show the player the effect of a construction
+- Use it when the player says something like "止めて", "一時停止", "再開", "早送り" or "1ステップ進めて". Do not change the speed on your own
+
+## Budget
+Every building costs money to build, and roads, power lines and power plants cost upkeep every month. Zones pay taxes that grow with their level and with their residents or workers.
+- Use get_budget to check the treasury, build costs and the monthly ledger before large projects
+- If the treasury cannot pay for a building, it is refused ("Not enough funds"). Tell the player what could not be built and why
+- set_tax_rate changes the tax for residential, commercial or industrial zones (0-20%, default 9%). Taxes above the default lower happiness, below it raise happiness
+- **Do not change tax rates without the player's approval.** Suggest a change and explain the trade-off
 
 ## Building strategy
 1. Call get_city_state to see the current grid
 2. Build from the CENTER outward
 3. Plan placement only on empty tiles, adjacent to existing roads
 4. Use apply_layout for bulk placement
+5. Use draw_road and draw_power_line to connect two places: give the ends (and waypoints if needed) and the line is routed around buildings for you. To connect a power plant to houses, use the plant and a house as the ends
+
+## Plan Preview
+- propose_plan shows a list of buildings (same format as apply_layout) to the player as translucent ghost tiles, with a card listing the total cost and every tile that cannot be built. Nothing is built yet
+- The player approves, asks to modify or rejects the plan from the card. Approving builds the buildable tiles as one undo step
+- Use propose_plan whenever a construction needs the player's approval, instead of describing the plan only in prose
+- Fix the tiles the preview reports as errors, and call propose_plan again with the revised list when the player asks for changes (it replaces the open plan)
 
 ## Citizen Request Handling
 When you receive a citizen request:
 1. Call get_city_state to check the current situation
-2. Create a specific construction proposal (what to build, where) and present it to the player. **Always wait for the player to approve** (e.g. "お願い", "いいよ", "yes", "OK") before executing any construction.
-3. After building, call **ask_citizen** to check if the citizen is satisfied.
-   - If the citizen says the problem is resolved → call **mark_request_resolved**
+2. Create a specific construction proposal (what to build, where) with **propose_plan**. **Do not build it yourself** — the player approves it from the plan card, which builds it. If they ask for changes, propose again.
+3. After the plan is approved and built, call **ask_citizen** with the request_id to check if the citizen is satisfied.
+   - If the citizen says the problem is resolved → call **mark_request_resolved** with the same request_id
    - If the citizen says it's not enough → build more to address the remaining issue, then ask_citizen again
 4. **CRITICAL: Once the citizen is satisfied, you MUST call mark_request_resolved.** This is mandatory — without it, the citizen cannot give their final evaluation and the system will stall.
 
@@ -77,169 +156,426 @@ Earthquakes can strike the city randomly. **Disaster recovery is the TOP PRIORIT
 
 Respond concisely. Use both English and Japanese as appropriate for the user's language.`;
 
-export const cityTools: Tool[] = [
+export const cityTools: ToolDeclaration[] = [
   {
-    functionDeclarations: [
-      {
-        name: "get_city_state",
-        description:
-          "Get the current state of the city including all buildings, population, and statistics",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {},
+    name: "get_city_state",
+    description:
+      "Get the current state of the city including all buildings, population, and statistics",
+    parameters: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "place_building",
+    description: "Place a single building at the specified coordinates",
+    parameters: {
+      type: "object",
+      properties: {
+        x: { type: "number", description: "X coordinate (column, 0 to width-1)" },
+        y: { type: "number", description: "Y coordinate (row, 0 to height-1)" },
+        type: {
+          type: "string",
+          description:
+            "Building type: residential, commercial, industrial, road, power-plant, solar-power-plant, nuclear-power-plant, power-line, school, hospital, police-station, fire-station, park, tree, fountain, ferris-wheel, stadium, statue",
         },
       },
-      {
-        name: "place_building",
-        description: "Place a single building at the specified coordinates",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {
-            x: { type: Type.NUMBER, description: "X coordinate (0-7)" },
-            y: { type: Type.NUMBER, description: "Y coordinate (0-7)" },
-            type: {
-              type: Type.STRING,
-              description:
-                "Building type: residential, commercial, industrial, road, power-plant, power-line",
+      required: ["x", "y", "type"],
+    },
+  },
+  {
+    name: "bulldoze",
+    description: "Remove/demolish a building at the specified coordinates",
+    parameters: {
+      type: "object",
+      properties: {
+        x: { type: "number", description: "X coordinate" },
+        y: { type: "number", description: "Y coordinate" },
+      },
+      required: ["x", "y"],
+    },
+  },
+  {
+    name: "zone_area",
+    description:
+      "Place buildings in a rectangular area from (x1,y1) to (x2,y2)",
+    parameters: {
+      type: "object",
+      properties: {
+        x1: { type: "number", description: "Start X" },
+        y1: { type: "number", description: "Start Y" },
+        x2: { type: "number", description: "End X" },
+        y2: { type: "number", description: "End Y" },
+        type: { type: "string", description: "Building type" },
+      },
+      required: ["x1", "y1", "x2", "y2", "type"],
+    },
+  },
+  {
+    name: "apply_layout",
+    description:
+      "Apply a JSON layout to build multiple buildings at once. Supports range placement with to_x/to_y.",
+    parameters: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Layout name" },
+        buildings: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              type: { type: "string", description: "Building type" },
+              x: { type: "number", description: "X coordinate" },
+              y: { type: "number", description: "Y coordinate" },
+              to_x: {
+                type: "number",
+                description: "Optional end X for range placement",
+              },
+              to_y: {
+                type: "number",
+                description: "Optional end Y for range placement",
+              },
             },
+            required: ["type", "x", "y"],
           },
-          required: ["x", "y", "type"],
+          description: "Array of building placements",
         },
       },
-      {
-        name: "bulldoze",
-        description: "Remove/demolish a building at the specified coordinates",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {
-            x: { type: Type.NUMBER, description: "X coordinate" },
-            y: { type: Type.NUMBER, description: "Y coordinate" },
+      required: ["buildings"],
+    },
+  },
+  {
+    name: "draw_road",
+    description:
+      "Draw a road through waypoints. Each leg is auto-routed around buildings and unbuildable terrain along the shortest straight, L-shaped or stepped path. Existing road tiles are reused. Returns the tiles that were placed.",
+    parameters: {
+      type: "object",
+      properties: {
+        points: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              x: { type: "number", description: "X coordinate" },
+              y: { type: "number", description: "Y coordinate" },
+            },
+            required: ["x", "y"],
           },
-          required: ["x", "y"],
+          description: "Waypoints in order. The two ends are enough; add waypoints to force the line through specific tiles",
         },
       },
-      {
-        name: "zone_area",
-        description:
-          "Place buildings in a rectangular area from (x1,y1) to (x2,y2)",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {
-            x1: { type: Type.NUMBER, description: "Start X" },
-            y1: { type: Type.NUMBER, description: "Start Y" },
-            x2: { type: Type.NUMBER, description: "End X" },
-            y2: { type: Type.NUMBER, description: "End Y" },
-            type: { type: Type.STRING, description: "Building type" },
+      required: ["points"],
+    },
+  },
+  {
+    name: "draw_power_line",
+    description:
+      "Draw a power line through waypoints, auto-routed like draw_road. A waypoint may be a building (e.g. a power plant or a house): the line connects to it without building on it. Existing power line tiles are reused. Returns the tiles that were placed.",
+    parameters: {
+      type: "object",
+      properties: {
+        points: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              x: { type: "number", description: "X coordinate" },
+              y: { type: "number", description: "Y coordinate" },
+            },
+            required: ["x", "y"],
           },
-          required: ["x1", "y1", "x2", "y2", "type"],
+          description: "Waypoints in order. The two ends are enough; add waypoints to force the line through specific tiles",
         },
       },
-      {
-        name: "apply_layout",
-        description:
-          "Apply a JSON layout to build multiple buildings at once. Supports range placement with to_x/to_y.",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING, description: "Layout name" },
-            buildings: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  type: { type: Type.STRING, description: "Building type" },
-                  x: { type: Type.NUMBER, description: "X coordinate" },
-                  y: { type: Type.NUMBER, description: "Y coordinate" },
-                  to_x: {
-                    type: Type.NUMBER,
-                    description: "Optional end X for range placement",
-                  },
-                  to_y: {
-                    type: Type.NUMBER,
-                    description: "Optional end Y for range placement",
-                  },
-                },
-                required: ["type", "x", "y"],
+      required: ["points"],
+    },
+  },
+  {
+    name: "propose_plan",
+    description:
+      "Show a construction plan to the player as translucent ghost tiles, with the cost and validation error of each tile, and wait for approval. Nothing is built until the player approves it from the plan card. Same format as apply_layout.",
+    parameters: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Short plan name shown on the card" },
+        description: {
+          type: "string",
+          description: "One-sentence summary of what the plan does and why",
+        },
+        buildings: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              type: { type: "string", description: "Building type" },
+              x: { type: "number", description: "X coordinate" },
+              y: { type: "number", description: "Y coordinate" },
+              to_x: {
+                type: "number",
+                description: "Optional end X for range placement",
+              },
+              to_y: {
+                type: "number",
+                description: "Optional end Y for range placement",
               },
-              description: "Array of building placements",
             },
+            required: ["type", "x", "y"],
           },
-          required: ["buildings"],
+          description: "Array of building placements",
         },
       },
-      {
-        name: "get_screenshot",
-        description:
-          "Take a screenshot of the current city view for visual analysis",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {},
+      required: ["name", "buildings"],
+    },
+  },
+  {
+    name: "get_screenshot",
+    description:
+      "Take a screenshot of the current city view for visual analysis, optionally with a map overlay shown just for the screenshot",
+    parameters: {
+      type: "object",
+      properties: {
+        overlay: {
+          type: "string",
+          description: "Optional overlay: traffic, power, road-access, jobs, residents, damage, land-value, pollution",
         },
       },
-      {
-        name: "get_happiness",
-        description:
-          "Get the current happiness score and contributing factors (employment, power, density, pending requests)",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {},
-        },
+    },
+  },
+  {
+    name: "set_overlay",
+    description:
+      "Colour the map for the player with an overlay (red = low, green = high) and get its average and lowest tiles. Overlays: none, traffic, power (supply ratio), road-access, jobs (open positions), residents (occupancy), damage (recovery), land-value, pollution (green = clean)",
+    parameters: {
+      type: "object",
+      properties: {
+        type: { type: "string", description: "Overlay to show, or none to hide it" },
       },
-      {
-        name: "get_requests",
-        description: "Get active citizen requests that need to be addressed",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {},
+      required: ["type"],
+    },
+  },
+  {
+    name: "get_objectives",
+    description:
+      "Get the scenario being played: its objectives with current progress, the time left (in simulation seconds) and the score. Returns scenario null in free play.",
+    parameters: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "set_game_speed",
+    description:
+      "Pause, resume or fast-forward the simulation, or pause it and advance a number of steps (one step is one second at normal speed). Returns the new speed and the simulation time",
+    parameters: {
+      type: "object",
+      properties: {
+        speed: {
+          type: "string",
+          description: "pause, play, 1, 2, 4 or max (as fast as possible)",
+        },
+        steps: {
+          type: "number",
+          description: "Optional: pause and advance this many steps (1-600) instead of changing the speed",
         },
       },
-      {
-        name: "ask_citizen",
-        description:
-          "Ask the citizen if their request has been addressed. Checks the current city state against the request and returns whether the problem is resolved and what is still needed. Use this after building to confirm before calling mark_request_resolved.",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {},
+    },
+  },
+  {
+    name: "get_happiness",
+    description:
+      "Get the current happiness score and contributing factors (employment, power, density, pending requests)",
+    parameters: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "get_demographics",
+    description:
+      "Get the citizens by state (idle young children, school, employed, unemployed, retired), their average age, and the births, deaths and citizens who moved in or out since the city was founded",
+    parameters: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "get_services",
+    description:
+      "Get the civic services (school, hospital, police-station, fire-station): for each type the residents served and unserved, and the staff, capacity, radius and residents served of every civic building",
+    parameters: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "get_amenities",
+    description:
+      "Get the parks, trees, fountains and landmarks with their radius and desirability, the landmarks that can still be built, the residents living near one and the happiness bonus they give",
+    parameters: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "get_pollution",
+    description:
+      "Get the air and ground pollution: the factories and power plants that emit it and how much, the most polluted homes, the residents' average health and the happiness penalty",
+    parameters: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "get_history",
+    description:
+      "Get how the city's statistics changed over time (population, happiness, employment, powered %, treasury, request outcomes, disasters, births, deaths, moves, building counts). Without metric, returns the first/last/min/max/change of every metric over the period; with metric, also the samples",
+    parameters: {
+      type: "object",
+      properties: {
+        metric: {
+          type: "string",
+          description: "Optional: metric name, or several separated by commas (e.g. happiness,employment,buildings.road)",
+        },
+        last_seconds: {
+          type: "number",
+          description: "Optional: only the last this many simulation seconds (e.g. 300 for 5 minutes). Default: everything recorded",
         },
       },
-      {
-        name: "mark_request_resolved",
-        description:
-          "MANDATORY: Call this immediately after completing construction for a citizen request. Without this call, the citizen cannot evaluate the result and the request system stalls. Always call this as the last step after building.",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {},
+    },
+  },
+  {
+    name: "get_budget",
+    description:
+      "Get the treasury, tax rates, build and upkeep costs, projected monthly income/expenses, and this/last month's ledger",
+    parameters: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "set_tax_rate",
+    description:
+      "Set the tax rate (%) for one zone type. Higher taxes raise income but lower happiness; lower taxes do the opposite",
+    parameters: {
+      type: "object",
+      properties: {
+        zone: {
+          type: "string",
+          description: "Zone type: residential, commercial, industrial",
         },
+        rate: { type: "number", description: "Tax rate in percent (0-20, default 9)" },
+      },
+      required: ["zone", "rate"],
+    },
+  },
+  {
+    name: "get_requests",
+    description:
+      "Get the open citizen requests, most urgent first, with their id, priority, supporters and seconds left before they expire. Pass request_id to check a single request",
+    parameters: {
+      type: "object",
+      properties: {
+        request_id: { type: "string", description: "Optional id of one request to check (e.g. req_1a2b3c4d)" },
+      },
+    },
+  },
+  {
+    name: "ask_citizen",
+    description:
+      "Ask the citizen if their request has been addressed. Checks the current city state against the request and returns whether the problem is resolved and what is still needed. Use this after building to confirm before calling mark_request_resolved.",
+    parameters: {
+      type: "object",
+      properties: {
+        request_id: { type: "string", description: "Id of the request to ask about. Defaults to the most urgent open request" },
+      },
+    },
+  },
+  {
+    name: "mark_request_resolved",
+    description:
+      "MANDATORY: Call this immediately after completing construction for a citizen request. Without this call, the citizen cannot evaluate the result and the request stays open until it expires. Always call this as the last step after building.",
+    parameters: {
+      type: "object",
+      properties: {
+        request_id: { type: "string", description: "Id of the request that was resolved" },
+      },
+      required: ["request_id"],
+    },
+  },
+  {
+    name: "find_route",
+    description:
+      "Find the shortest road route between two tiles (e.g. a house and a workplace). Tells whether they are connected by road, the route length, and the road tiles driven through",
+    parameters: {
+      type: "object",
+      properties: {
+        from_x: { type: "number", description: "Start X coordinate" },
+        from_y: { type: "number", description: "Start Y coordinate" },
+        to_x: { type: "number", description: "Destination X coordinate" },
+        to_y: { type: "number", description: "Destination Y coordinate" },
       },
-      {
-        name: "get_disaster_status",
-        description:
-          "Get info about active disaster: affected tiles, recovery progress, estimated remaining seconds",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {},
+      required: ["from_x", "from_y", "to_x", "to_y"],
+    },
+  },
+  {
+    name: "get_power_grid",
+    description:
+      "Get every connected power grid: its plants, supply and demand (kW), whether it is in a rolling brownout, and the power line or building that limits delivery. Also lists the output, pollution and cost of each plant type",
+    parameters: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "get_traffic",
+    description:
+      "Get the traffic on the road network: number of commuters, average congestion, jammed roads and intersections (most congested first) and the load on every busy road",
+    parameters: {
+      type: "object",
+      properties: {
+        show_overlay: {
+          type: "boolean",
+          description: "true to show the colour-coded traffic overlay to the player, false to hide it",
         },
       },
-      {
-        name: "recover_tile",
-        description:
-          "Start active recovery work on a specific damaged tile. This speeds up recovery 5x and shows a recovery icon. Use this to prioritize specific tiles for faster rebuilding.",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {
-            x: {
-              type: Type.NUMBER,
-              description: "X coordinate of the damaged tile",
-            },
-            y: {
-              type: Type.NUMBER,
-              description: "Y coordinate of the damaged tile",
-            },
-          },
-          required: ["x", "y"],
+    },
+  },
+  {
+    name: "undo_last_action",
+    description:
+      "Undo the most recent construction or demolition. A zone_area call, an applied layout, or everything built in one earlier AI turn is undone as one step. Construction costs are refunded while the month they were paid in is still in the budget history",
+    parameters: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "get_disaster_status",
+    description:
+      "Get info about active disaster: affected tiles, recovery progress, estimated remaining seconds",
+    parameters: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "recover_tile",
+    description:
+      "Start active recovery work on a specific damaged tile. This speeds up recovery 5x and shows a recovery icon. Use this to prioritize specific tiles for faster rebuilding.",
+    parameters: {
+      type: "object",
+      properties: {
+        x: {
+          type: "number",
+          description: "X coordinate of the damaged tile",
+        },
+        y: {
+          type: "number",
+          description: "Y coordinate of the damaged tile",
         },
       },
-    ],
+      required: ["x", "y"],
+    },
   },
 ];
 
@@ -247,8 +583,8 @@ type MessageCallback = (text: string, isPartial: boolean) => void;
 type ToolCallCallback = (toolName: string, args: any) => void;
 
 export class GeminiService {
-  private ai: GoogleGenAI | null = null;
-  private chatHistory: Content[] = [];
+  private provider: LLMProvider | null = null;
+  private chatHistory: ChatMessage[] = [];
   private onMessage: MessageCallback;
   private onToolCall: ToolCallCallback;
   private _isBusy = false;
@@ -262,22 +598,16 @@ export class GeminiService {
     this.onToolCall = onToolCall;
   }
 
-  initialize(apiKey: string): boolean {
-    try {
-      this.ai = new GoogleGenAI({ apiKey });
-      return true;
-    } catch (e) {
-      console.error("Failed to initialize Gemini:", e);
-      return false;
-    }
+  initialize(provider: LLMProvider): void {
+    this.provider = provider;
   }
 
   isInitialized(): boolean {
-    return this.ai !== null;
+    return this.provider !== null;
   }
 
   async sendMessage(userMessage: string): Promise<string> {
-    if (!this.ai) throw new Error("Gemini not initialized");
+    if (!this.provider) throw new Error("AI provider not initialized");
 
     this._isBusy = true;
     this.chatHistory.push({
@@ -296,7 +626,7 @@ export class GeminiService {
     userMessage: string,
     imageBase64: string,
   ): Promise<string> {
-    if (!this.ai) throw new Error("Gemini not initialized");
+    if (!this.provider) throw new Error("AI provider not initialized");
 
     // Strip data URL prefix if present
     const base64Data = imageBase64.replace(/^data:image\/\w+;base64,/, "");
@@ -305,7 +635,7 @@ export class GeminiService {
       role: "user",
       parts: [
         { text: userMessage },
-        { inlineData: { mimeType: "image/png", data: base64Data } },
+        { image: { mimeType: "image/png", data: base64Data } },
       ],
     });
 
@@ -313,90 +643,81 @@ export class GeminiService {
   }
 
   private async generateAndHandleTools(): Promise<string> {
-    if (!this.ai) throw new Error("Gemini not initialized");
+    // Everything the turn's own tools build is undone as a single step
+    const lastMessage = this.chatHistory[this.chatHistory.length - 1];
+    const textPart = lastMessage?.parts.find((p) => "text" in p);
+    const prompt = textPart && "text" in textPart ? textPart.text : "";
+    const step = CityAPI.openStep(`AI turn: ${prompt.substring(0, 40)}`);
+    try {
+      return await this.runToolLoop(step);
+    } finally {
+      CityAPI.closeStep(step);
+    }
+  }
+
+  private async runToolLoop(step: number): Promise<string> {
+    if (!this.provider) throw new Error("AI provider not initialized");
 
     let maxIterations = 10;
 
     while (maxIterations-- > 0) {
       let response;
       try {
-        response = await this.ai.models.generateContent({
-          model: MODEL_ID,
-          contents: this.chatHistory,
-          config: {
-            systemInstruction: SYSTEM_INSTRUCTION,
-            tools: cityTools,
-          },
+        response = await this.provider.chat({
+          system: buildSystemInstruction(),
+          messages: this.chatHistory,
+          tools: cityTools,
         });
       } catch (apiErr: any) {
-        console.error("[Gemini] API call failed:", apiErr);
+        console.error(`[${this.provider.name}] API call failed:`, apiErr);
         return `API Error: ${apiErr.message || apiErr}`;
       }
 
-      console.log(
-        "[Gemini] Response:",
-        JSON.stringify(response).substring(0, 500),
-      );
-
-      const candidate = response.candidates?.[0];
-      if (!candidate?.content?.parts) {
-        console.warn("[Gemini] No candidates in response:", response);
+      if (response.message.parts.length === 0) {
         return "No response from AI";
       }
 
       // Add the model's response to history
-      this.chatHistory.push(candidate.content);
-
-      // Check for function calls
-      const functionCalls = candidate.content.parts.filter(
-        (p: any) => p.functionCall,
-      );
+      this.chatHistory.push(response.message);
 
-      if (functionCalls.length === 0) {
+      if (response.toolCalls.length === 0) {
         // Pure text response
-        const text = candidate.content.parts
-          .filter((p: any) => p.text)
-          .map((p: any) => p.text)
-          .join("");
-        return text || "Done!";
+        return response.text || "Done!";
       }
 
       // Execute function calls
-      const functionResponses: any[] = [];
+      const results: ToolResult[] = [];
 
-      for (const part of functionCalls) {
-        const fc = (part as any).functionCall as FunctionCall;
-        const name = fc.name!;
-        const args = fc.args || {};
+      for (const call of response.toolCalls) {
+        const { id, name, args } = call;
 
         this.onToolCall(name, args);
 
         let result: any;
         try {
-          result = this.executeTool(name, args);
+          result = this.executeTool(name, args, step);
         } catch (e: any) {
           result = { error: e.message };
         }
 
-        functionResponses.push({
-          functionResponse: {
-            name,
-            response: result,
-          },
-        });
+        results.push({ id, name, response: result });
       }
 
       // Add tool results to history
       this.chatHistory.push({
         role: "user",
-        parts: functionResponses,
+        parts: results.map((toolResult) => ({ toolResult })),
       });
     }
 
     return "Reached maximum tool call iterations";
   }
 
-  private executeTool(name: string, args: any): any {
+  private executeTool(name: string, args: any, step: number): any {
+    return CityAPI.recordInStep(step, () => this.runTool(name, args));
+  }
+
+  private runTool(name: string, args: any): any {
     switch (name) {
       case "get_city_state":
         return CityAPI.getCityState();
@@ -411,16 +732,59 @@ export class GeminiService {
           name: args.name,
           buildings: args.buildings,
         });
+      case "draw_road":
+        return CityAPI.drawLine("road", args.points);
+      case "draw_power_line":
+        return CityAPI.drawLine("power-line", args.points);
+      case "propose_plan":
+        return CityAPI.proposePlan({
+          name: args.name,
+          description: args.description,
+          buildings: args.buildings,
+        });
       case "get_screenshot":
-        return { screenshot: CityAPI.getScreenshot() };
+        return { screenshot: CityAPI.getScreenshot(args.overlay) };
+      case "set_overlay":
+        return CityAPI.showOverlay(args.type);
+      case "get_objectives":
+        return CityAPI.getObjectives();
+      case "set_game_speed":
+        return args.steps !== undefined
+          ? CityAPI.stepTime(args.steps)
+          : CityAPI.setGameSpeed(args.speed);
       case "get_happiness":
         return CityAPI.getHappiness();
+      case "get_demographics":
+        return CityAPI.getDemographics();
+      case "get_services":
+        return CityAPI.getServices();
+      case "get_amenities":
+        return CityAPI.getAmenities();
+      case "get_pollution":
+        return CityAPI.getPollution();
+      case "get_history":
+        return CityAPI.getHistory(
+          args.metric,
+          args.last_seconds !== undefined ? -args.last_seconds : undefined,
+        );
+      case "get_budget":
+        return CityAPI.getBudget();
+      case "set_tax_rate":
+        return CityAPI.setTaxRate(args.zone, args.rate);
+      case "find_route":
+        return CityAPI.findRoute(args.from_x, args.from_y, args.to_x, args.to_y);
+      case "get_power_grid":
+        return CityAPI.getPowerGrid();
+      case "get_traffic":
+        return CityAPI.getTraffic(args.show_overlay);
+      case "undo_last_action":
+        return CityAPI.undo();
       case "get_requests":
-        return CityAPI.getActiveRequests();
+        return CityAPI.getActiveRequests(args.request_id);
       case "ask_citizen": {
         const engine = (window as any).requestEngine;
         if (!engine) return { error: "Request engine not available" };
-        const status = engine.checkRequestStatus();
+        const status = engine.checkRequestStatus(args.request_id);
         if (!status.request) return { message: status.detail };
         // Use suggestion directly — no nested API call, fast and reliable
         const citizenMsg = status.resolved
@@ -434,23 +798,19 @@ export class GeminiService {
             `🗣️ ${status.request.citizenName}: ${citizenMsg}`,
           );
         return {
+          requestId: status.request.id,
           citizenName: status.request.citizenName,
           requestType: status.request.type,
           resolved: status.resolved,
           citizenResponse: citizenMsg,
           detail: status.detail,
           hint: status.resolved
-            ? "The citizen is satisfied. You should now call mark_request_resolved."
+            ? `The citizen is satisfied. You should now call mark_request_resolved with request_id ${status.request.id}.`
             : `Not resolved yet. Citizen says: ${status.suggestion}`,
         };
       }
       case "mark_request_resolved":
-        (window as any).requestEngine?.markResolved();
-        return {
-          success: true,
-          message:
-            "Request marked as resolved. Citizen evaluation will follow.",
-        };
+        return CityAPI.markRequestResolved(args.request_id);
       case "get_disaster_status": {
         const city = (window as any).game?.city;
         if (!city?.disasterService)
@@ -474,18 +834,32 @@ export class GeminiService {
    */
   async proposeForRequest(request: CitizenRequest): Promise<string> {
     const prompt = `市民から以下のリクエストがありました。都市の現状を確認し、具体的な建設提案をプレイヤーに提示してください。
-プレイヤーが承認するまで建設を実行しないでください。
-承認後に建設を実行し、ask_citizen で市民に確認してください。
-市民が満足したら mark_request_resolved を呼んでください。まだ不十分なら追加で建設してください。
+propose_plan で建設計画を提示し、自分では建設しないでください（プレイヤーが承認すると建設されます）。
+建設されたら ask_citizen で市民に確認してください。
+市民が満足したら request_id を指定して mark_request_resolved を呼んでください。まだ不十分なら追加で建設してください。
 
 リクエスト:
+- ID: ${request.id}
 - 市民名: ${request.citizenName}
 - 種類: ${request.type}
+- 場所: X${request.location.x}Y${request.location.y}（${request.subject}）
+- 優先度: ${request.priority}
 - メッセージ: 「${request.message}」`;
 
     return this.sendMessage(prompt);
   }
 
+  /**
+   * Add a turn that was handled without the model (e.g. by the command
+   * parser), so later turns know what was built.
+   */
+  recordTurn(userMessage: string, reply: string): void {
+    this.chatHistory.push(
+      { role: "user", parts: [{ text: userMessage }] },
+      { role: "model", parts: [{ text: reply }] },
+    );
+  }
+
   clearHistory(): void {
     this.chatHistory = [];
   }
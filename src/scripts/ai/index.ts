@@ -1,23 +1,37 @@
 /**
  * AI system entry point.
- * Initializes Gemini service, chat panel, API bridge, request engine, and advisor.
+ * Initializes the AI provider, mayor chat, chat panel, API bridge, request engine, citizen profiles, scenarios, stats recorder, and advisor.
  */
 import { GeminiService } from "./gemini-service";
 import { ChatPanel } from "./chat-panel";
 import { Advisor } from "./advisor";
 import { CitizenChatDialog } from "./citizen-chat";
 import { CitizenVoice } from "./citizen-voice";
+import { CitizenProfileStore } from "./citizen-profiles";
 import { VoiceSession } from "./voice-session";
 import { RequestEngine } from "./request-engine";
+import { ScenarioRunner } from "./scenario-runner";
+import { ScenarioResultsDialog, formatSteps } from "./scenario-results";
+import { StatsRecorder } from "./stats-recorder";
 import { initApiBridge } from "../api-bridge";
+import * as CityAPI from "./city-api";
+import { AUTOSAVE_INTERVAL_MS } from "./save-game";
+import { createProvider, ScriptedProvider } from "./providers";
+import { parseCommand, runCommand } from "./command-parser";
+import type { LLMProvider } from "./providers";
 
 let geminiService: GeminiService;
 let chatPanel: ChatPanel;
 let advisor: Advisor;
 let citizenChat: CitizenChatDialog;
 let citizenVoice: CitizenVoice;
+let citizenProfiles: CitizenProfileStore;
 let voiceSession: VoiceSession;
 let requestEngine: RequestEngine;
+let scenarioRunner: ScenarioRunner;
+let scenarioResults: ScenarioResultsDialog;
+let statsRecorder: StatsRecorder;
+let provider: LLMProvider | null = null;
 
 export function initialize(game: any): void {
   // Initialize the API bridge for Claude Code connectivity
@@ -41,12 +55,26 @@ export function initialize(game: any): void {
   // Create advisor
   advisor = new Advisor(geminiService, chatPanel);
 
-  // Wire up the chat panel to send messages through Gemini
+  // Wire up the chat panel to send messages through the AI provider
   chatPanel.setSendMessageFn(async (message: string) => {
+    // Unambiguous build/zone/bulldoze commands skip the AI. With a real LLM,
+    // areas guessed from a compass word are left to the AI to place
+    const command = parseCommand(message, game.city.width, game.city.height);
+    const guessed = command !== null && command.action !== "place" && command.inferred;
+    const hasLLM = provider !== null && !(provider instanceof ScriptedProvider);
+    if (command && (!hasLLM || !guessed)) {
+      const reply = runCommand(command, message, (toolName, args) =>
+        chatPanel.showToolExecution(toolName, args),
+      );
+      chatPanel.addMessage("ai", reply);
+      geminiService.recordTurn(message, reply);
+      return;
+    }
+
     if (!geminiService.isInitialized()) {
       chatPanel.addMessage(
         "system",
-        "VITE_GEMINI_API_KEY が設定されていません。.env ファイルを確認してください。",
+        "AI プロバイダーが設定されていません。.env ファイルを確認してください。",
       );
       return;
     }
@@ -55,12 +83,59 @@ export function initialize(game: any): void {
     chatPanel.addMessage("ai", response);
   });
 
-  // Create citizen voice (Gemini Live API native audio)
+  // Undo/redo without going through the AI
+  const describeJournalResult = (result: any, verb: string) =>
+    result.success
+      ? `${verb}: ${result.action}（${result.applied}件${result.skipped ? `、変更済みのため${result.skipped}件スキップ` : ""}）`
+      : result.error === "Nothing to undo"
+        ? "元に戻せる操作はありません。"
+        : result.error === "Nothing to redo"
+          ? "やり直せる操作はありません。"
+          : `Error: ${result.error}`;
+  chatPanel.registerCommand("undo", () =>
+    describeJournalResult(CityAPI.undo(), "↩️ 元に戻しました"),
+  );
+  chatPanel.registerCommand("redo", () =>
+    describeJournalResult(CityAPI.redo(), "↪️ やり直しました"),
+  );
+
+  // Plans proposed by the mayor wait for the player's choice on a card
+  CityAPI.setPlanListener((plan) => {
+    if (!plan) {
+      chatPanel.closePlanCard();
+      return;
+    }
+    chatPanel.showPlanCard(plan, {
+      onApprove: () => {
+        const result = CityAPI.approvePlan(plan.id);
+        const summary = result.success
+          ? `✅ 計画「${plan.name}」を建設しました: ${result.placed}マス（$${result.cost}）` +
+            (result.skipped ? `。${result.skipped}マスは建設できませんでした` : "")
+          : `Error: ${result.error}`;
+        chatPanel.addMessage("system", summary);
+        geminiService.recordTurn(`計画「${plan.name}」（${plan.id}）を承認します。`, summary);
+      },
+      onModify: () => chatPanel.prefillInput(`計画「${plan.name}」を修正して: `),
+      onReject: () => {
+        CityAPI.rejectPlan(plan.id);
+        const summary = `計画「${plan.name}」は却下されました。`;
+        chatPanel.addMessage("system", summary);
+        geminiService.recordTurn(`計画「${plan.name}」（${plan.id}）を却下します。`, summary);
+      },
+    });
+  });
+
+  // Create citizen voice (live native audio)
   citizenVoice = new CitizenVoice();
 
+  // What each citizen remembers between chats and requests
+  citizenProfiles = new CitizenProfileStore(game.city);
+  (window as any).citizenProfiles = citizenProfiles;
+
   // Create citizen chat dialog
   citizenChat = new CitizenChatDialog();
   citizenChat.setVoice(citizenVoice);
+  citizenChat.setProfiles(citizenProfiles);
   (window as any).citizenChat = citizenChat;
 
   // Create voice session
@@ -68,12 +143,25 @@ export function initialize(game: any): void {
     (status) => chatPanel.updateVoiceStatus(status),
     (text, role) => chatPanel.addMessage(role === "ai" ? "ai" : "user", text),
   );
-  chatPanel.setMicToggleFn(() => voiceSession.toggle());
+  chatPanel.setMicToggleFn(() => {
+    if (!voiceSession.isAvailable()) {
+      chatPanel.addMessage(
+        "system",
+        `音声会話は現在の AI プロバイダー（${provider?.name ?? "未設定"}）では利用できません。`,
+      );
+      return;
+    }
+    return voiceSession.toggle();
+  });
+
+  // Proposals for new requests run one at a time, so their tool loops do not
+  // interleave in the shared chat history
+  let proposals = Promise.resolve();
 
   // Create request engine with notify callback
   requestEngine = new RequestEngine(
     game.city,
-    async (message, type, spokenText) => {
+    async (message, type, spokenText, request) => {
       if (type === "fulfilled") {
         chatPanel.addMessage("system", `\u2705 ${message}`);
       } else if (type === "failed") {
@@ -86,17 +174,21 @@ export function initialize(game: any): void {
         await citizenChat.speakAsCitizen(spokenText);
       }
       // When a new request arrives, ask the mayor for a proposal (after citizen finishes speaking)
-      if (type === "new" && geminiService.isInitialized()) {
-        const req = requestEngine.getCurrentRequest();
-        if (req) {
-          const proposal = await geminiService.proposeForRequest(req);
+      if (type === "new" && request && geminiService.isInitialized()) {
+        proposals = proposals.then(async () => {
+          // Skip while the mayor is answering the player, or once the request is closed
+          if (geminiService.isBusy || request.status !== "active") return;
+          const proposal = await geminiService.proposeForRequest(request);
           chatPanel.addMessage("ai", proposal);
-        }
+        }).catch((err) => console.warn("[RequestEngine] Proposal failed:", err));
+        await proposals;
       }
     },
   );
+  requestEngine.setProfiles(citizenProfiles);
   (window as any).requestEngine = requestEngine;
   (window as any).chatPanel = chatPanel;
+  game.city.setPendingRequestsFn(() => requestEngine.getActiveRequests().length);
   (window as any).citizenChatDialog = citizenChat;
 
   // Set the evaluation callback — citizen feedback is already handled by ask_citizen tool
@@ -111,6 +203,42 @@ export function initialize(game: any): void {
     },
   );
 
+  // Create scenario runner; the results screen opens when a scenario ends
+  scenarioResults = new ScenarioResultsDialog();
+  scenarioResults.setRetryFn((scenarioId) => {
+    const result = CityAPI.startScenario(scenarioId);
+    if (!result.success) chatPanel.addMessage("system", `Error: ${result.error}`);
+  });
+  scenarioRunner = new ScenarioRunner(game.city, (message, type, result) => {
+    const icon = { event: "\u{1F4E3}", objective: "\u{1F3AF}", won: "\u{1F3C6}", lost: "\u231B" }[type];
+    chatPanel.addMessage("system", `${icon} ${message}`);
+    if (result) {
+      scenarioResults.open(result);
+      geminiService.recordTurn(`シナリオ「${result.name}」が終了しました。`, message);
+    }
+  });
+  (window as any).scenarioRunner = scenarioRunner;
+
+  // History of the city's statistics, for the status bar sparklines and get_history
+  statsRecorder = new StatsRecorder(game.city);
+  (window as any).statsRecorder = statsRecorder;
+
+  // /scenario lists the scenarios, /scenario <id> starts one
+  chatPanel.registerCommand("scenario", (args) => {
+    const id = args.trim();
+    if (!id) {
+      const { scenarios } = CityAPI.listScenarios();
+      return "シナリオ一覧（/scenario <id> で開始）:\n" +
+        scenarios.map((s: any) =>
+          `- **${s.id}** ${s.name}（${s.width}x${s.height}、制限 ${formatSteps(s.timeLimit)}）: ${s.objectives.join("・")}`,
+        ).join("\n");
+    }
+    const result = CityAPI.startScenario(id);
+    return result.success
+      ? `シナリオ「${result.name}」を開始しました。目標: ${result.objectives.join("・")}（制限時間 ${formatSteps(result.timeLimit)}）`
+      : `Error: ${result.error}`;
+  });
+
   // Wire disaster service callbacks
   // All speech/AI calls are sequenced so citizen voice and mayor never overlap.
   const disasterService = game.city.disasterService;
@@ -120,7 +248,8 @@ export function initialize(game: any): void {
       (async () => {
         chatPanel.addMessage(
           "system",
-          `[緊急速報] 地震発生！${info.affectedTileCount}タイルが被災、${info.destroyedBuildingCount}棟の建物が倒壊`,
+          `[緊急速報] 地震発生！${info.affectedTileCount}タイルが被災、${info.destroyedBuildingCount}棟の建物が倒壊` +
+            (info.savedBuildingCount > 0 ? `（消防が${info.savedBuildingCount}棟を守りました）` : ""),
         );
 
         // 1) Citizen speaks first (awaits silence via speech-coordinator)
@@ -158,32 +287,65 @@ export function initialize(game: any): void {
     });
   }
 
-  // Drive the request engine on a 1-second interval, matching the sim tick rate.
-  // NOTE: We cannot patch game.simulate because setInterval already captured a
-  // bound reference before ai.initialize() runs.
-  setInterval(() => {
+  // Advance requests and the scenario with every simulation step, so they
+  // pause and fast-forward along with the city
+  game.city.on("simulated", () => {
     requestEngine.onCityChanged();
-  }, 1000);
+    scenarioRunner.onCityChanged();
+    statsRecorder.record();
+  });
+
+  // Autosave to localStorage so a page reload does not wipe the city
+  setInterval(() => CityAPI.autosave(), AUTOSAVE_INTERVAL_MS);
+  window.addEventListener("beforeunload", () => CityAPI.autosave());
 
   // Show welcome message
   chatPanel.showWelcome();
 
-  // Initialize with env variable
-  const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-  if (apiKey) {
-    geminiService.initialize(apiKey);
-    citizenChat.initialize(apiKey);
-    citizenVoice.initialize(apiKey);
-    voiceSession.initialize(apiKey);
-    chatPanel.addMessage("system", "Gemini API connected.");
-    advisor.start();
-  } else {
+  // Resume from the most recent autosave, if any
+  const restored = CityAPI.loadLatestAutosave();
+  if (restored.success) {
     chatPanel.addMessage(
       "system",
-      "VITE_GEMINI_API_KEY が未設定です。.env にキーを追加してサーバーを再起動してください。",
+      `前回のセーブデータを読み込みました（${restored.name}、人口 ${restored.population}人）。`,
     );
   }
 
+  // Initialize with env variables
+  const env = import.meta.env;
+  try {
+    provider = createProvider({
+      provider: env.VITE_LLM_PROVIDER,
+      geminiApiKey: env.VITE_GEMINI_API_KEY,
+      geminiModel: env.VITE_GEMINI_MODEL,
+      geminiLiveModel: env.VITE_GEMINI_LIVE_MODEL,
+      openaiBaseUrl: env.VITE_OPENAI_BASE_URL,
+      openaiApiKey: env.VITE_OPENAI_API_KEY,
+      openaiModel: env.VITE_OPENAI_MODEL,
+    });
+  } catch (e: any) {
+    chatPanel.addMessage(
+      "system",
+      `AI プロバイダーを初期化できません: ${e.message}。.env を確認してサーバーを再起動してください。`,
+    );
+  }
+  if (provider) {
+    geminiService.initialize(provider);
+    citizenChat.initialize(provider);
+    citizenVoice.initialize(provider);
+    voiceSession.initialize(provider);
+    if (provider instanceof ScriptedProvider) {
+      // Canned replies only; the advisor would repeat the same message
+      chatPanel.addMessage(
+        "system",
+        "オフラインモード（スクリプト応答）で起動しました。AI を使うには .env に VITE_GEMINI_API_KEY か VITE_LLM_PROVIDER を設定してください。",
+      );
+    } else {
+      chatPanel.addMessage("system", `${provider.name} connected.`);
+      advisor.start();
+    }
+  }
+
   console.log("[AI] System initialized");
 }
 
@@ -0,0 +1,257 @@
+/**
+ * Undo/redo journal for city mutations made through the City API.
+ * Every placement and demolition is recorded as a reversible operation.
+ * Operations recorded inside a batch (a zone_area call, an applied layout or
+ * a whole AI turn) are undone and redone together as one step.
+ */
+
+/** Maximum number of steps kept for undo */
+const MAX_ENTRIES = 100;
+
+export type JournalOp =
+  | { kind: 'place'; x: number; y: number; type: string; cost: number; month: number }
+  | { kind: 'bulldoze'; x: number; y: number; building: any };
+
+export interface JournalEntry {
+  id: number;
+  /** Short description shown to the player, e.g. "zone_area residential" */
+  label: string;
+  /** ISO timestamp of when the step was recorded */
+  timestamp: string;
+  ops: JournalOp[];
+}
+
+export interface JournalResult {
+  success: boolean;
+  error?: string;
+  action?: string;
+  /** Operations that were reverted or reapplied */
+  applied?: number;
+  /** Operations skipped because the tile changed since (e.g. a disaster) */
+  skipped?: number;
+  canUndo?: boolean;
+  canRedo?: boolean;
+}
+
+export class Journal {
+  private getCity: () => any;
+  private undoStack: JournalEntry[] = [];
+  private redoStack: JournalEntry[] = [];
+  /** Batch being recorded, if any */
+  private batch: JournalEntry | null = null;
+  /** Nesting depth of beginBatch calls; inner batches merge into the outer one */
+  private batchDepth = 0;
+  /** Steps that span several calls (an AI turn), keyed by the token from openStep */
+  private steps = new Map<number, JournalEntry>();
+  private nextId = 1;
+
+  constructor(getCity: () => any) {
+    this.getCity = getCity;
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0 || (this.batch?.ops.length ?? 0) > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /** Start grouping operations into one undo step. Calls may be nested. */
+  beginBatch(label: string): void {
+    if (this.batchDepth++ === 0) {
+      this.batch = this.createEntry(label);
+    }
+  }
+
+  /** Finish the batch started by the matching beginBatch call. */
+  endBatch(): void {
+    if (this.batchDepth === 0) return;
+    if (--this.batchDepth === 0) {
+      this.commitBatch();
+    }
+  }
+
+  /** Run a function with every operation it records grouped into one step. */
+  runBatch<T>(label: string, fn: () => T): T {
+    this.beginBatch(label);
+    try {
+      return fn();
+    } finally {
+      this.endBatch();
+    }
+  }
+
+  /**
+   * Start a step that collects the operations of several separate calls,
+   * e.g. the tool calls of one AI turn, and return its token. Only
+   * operations made through recordInStep with the token join the step, so
+   * anything else that happens in between stays a step of its own.
+   */
+  openStep(label: string): number {
+    const entry = this.createEntry(label);
+    this.steps.set(entry.id, entry);
+    return entry.id;
+  }
+
+  /** Run a function with every operation it records added to an open step. */
+  recordInStep<T>(token: number, fn: () => T): T {
+    let entry = this.steps.get(token);
+    // Inside a batch, the batch decides where operations go
+    if (!entry || this.batch) return fn();
+
+    if (entry.ops.length > 0) {
+      if (this.undoStack[this.undoStack.length - 1] === entry) {
+        // Still the latest step: reopen it like a batch
+        this.undoStack.pop();
+      } else {
+        // Other steps were recorded after it, or it was undone, so the step
+        // goes on as a new one and the undo stack stays in order
+        entry = this.createEntry(entry.label);
+      }
+    }
+
+    this.batch = entry;
+    this.batchDepth = 1;
+    try {
+      return fn();
+    } finally {
+      // An undo during the call may have split the step into a new entry
+      const current = this.batch ?? entry;
+      this.batch = null;
+      this.batchDepth = 0;
+      this.steps.set(token, current);
+      if (current.ops.length > 0 && !this.undoStack.includes(current) && !this.redoStack.includes(current)) {
+        this.push(current);
+      }
+    }
+  }
+
+  /** Stop collecting operations into a step started by openStep. */
+  closeStep(token: number): void {
+    this.steps.delete(token);
+  }
+
+  /** Record an operation that has already been applied to the city. */
+  record(label: string, op: JournalOp): void {
+    this.redoStack = [];
+    if (this.batch) {
+      this.batch.ops.push(op);
+    } else {
+      this.push(this.createEntry(label, [op]));
+    }
+  }
+
+  /** Revert the most recent step. */
+  undo(): JournalResult {
+    // Undoing in the middle of a batch (e.g. during an AI turn) first closes
+    // what was recorded so far, so it can be undone like any other step
+    this.splitBatch();
+
+    const entry = this.undoStack.pop();
+    if (!entry) return { success: false, error: 'Nothing to undo' };
+
+    const { applied, skipped } = this.revert(entry);
+    this.redoStack.push(entry);
+    return { success: true, action: entry.label, applied, skipped, canUndo: this.canUndo, canRedo: this.canRedo };
+  }
+
+  /** Reapply the most recently undone step. */
+  redo(): JournalResult {
+    this.splitBatch();
+
+    const entry = this.redoStack.pop();
+    if (!entry) return { success: false, error: 'Nothing to redo' };
+
+    const { applied, skipped } = this.reapply(entry);
+    this.undoStack.push(entry);
+    return { success: true, action: entry.label, applied, skipped, canUndo: this.canUndo, canRedo: this.canRedo };
+  }
+
+  /** Recorded steps, oldest first, plus the steps that can be redone. */
+  list(): { undo: JournalEntry[]; redo: JournalEntry[] } {
+    return { undo: [...this.undoStack], redo: [...this.redoStack].reverse() };
+  }
+
+  /** Forget all steps, e.g. after the whole city was replaced. */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    if (this.batch) this.batch.ops = [];
+  }
+
+  private createEntry(label: string, ops: JournalOp[] = []): JournalEntry {
+    return { id: this.nextId++, label, timestamp: new Date().toISOString(), ops };
+  }
+
+  private push(entry: JournalEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > MAX_ENTRIES) this.undoStack.shift();
+  }
+
+  private commitBatch(): void {
+    if (this.batch && this.batch.ops.length > 0) this.push(this.batch);
+    this.batch = null;
+  }
+
+  /** Commit the open batch and keep recording into a fresh one with the same label. */
+  private splitBatch(): void {
+    if (!this.batch || this.batch.ops.length === 0) return;
+    const label = this.batch.label;
+    this.commitBatch();
+    this.batch = this.createEntry(label);
+  }
+
+  private revert(entry: JournalEntry): { applied: number; skipped: number } {
+    const city = this.getCity();
+    let applied = 0;
+    let skipped = 0;
+
+    // Revert in reverse order so overlapping operations unwind correctly
+    for (const op of [...entry.ops].reverse()) {
+      const tile = city.getTile(op.x, op.y);
+      if (!tile || tile.damaged) {
+        skipped++;
+      } else if (op.kind === 'place' && tile.building?.type === op.type) {
+        city.bulldoze(op.x, op.y);
+        city.budget.refundConstruction(op.cost, op.month);
+        applied++;
+      } else if (op.kind === 'bulldoze' && !tile.building) {
+        city.restoreBuilding(op.x, op.y, op.building);
+        applied++;
+      } else {
+        skipped++;
+      }
+    }
+
+    return { applied, skipped };
+  }
+
+  private reapply(entry: JournalEntry): { applied: number; skipped: number } {
+    const city = this.getCity();
+    let applied = 0;
+    let skipped = 0;
+
+    for (const op of entry.ops) {
+      const tile = city.getTile(op.x, op.y);
+      if (!tile || tile.damaged) {
+        skipped++;
+      } else if (op.kind === 'place' && !city.getPlacementError(op.x, op.y, op.type)) {
+        // Costs may have changed (e.g. funds ran low), so charge the current price
+        op.cost = city.budget.getBuildCost(city, op.x, op.y, op.type);
+        op.month = city.budget.month;
+        city.placeBuilding(op.x, op.y, op.type);
+        applied++;
+      } else if (op.kind === 'bulldoze' && tile.building?.type === op.building.type) {
+        // Keep the latest state so a further undo restores it as it was
+        op.building = tile.building.serialize();
+        city.bulldoze(op.x, op.y);
+        applied++;
+      } else {
+        skipped++;
+      }
+    }
+
+    return { applied, skipped };
+  }
+}
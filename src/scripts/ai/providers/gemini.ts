@@ -0,0 +1,213 @@
+/**
+ * Gemini adapter. Chat uses generateContent and live audio uses the Live API.
+ * Uses @google/genai SDK.
+ */
+import { GoogleGenAI, Modality } from "@google/genai";
+import type {
+  Content,
+  FunctionDeclaration,
+  LiveServerMessage,
+  Part,
+  Schema,
+  Type,
+} from "@google/genai";
+import type {
+  ChatMessage,
+  ChatPart,
+  ChatRequest,
+  ChatResponse,
+  LiveOptions,
+  LiveSession,
+  LLMProvider,
+  ToolCall,
+  ToolDeclaration,
+  ToolSchema,
+} from "./types";
+
+const DEFAULT_MODEL = "gemini-3-flash-preview";
+const DEFAULT_LIVE_MODEL = "gemini-2.5-flash-native-audio-latest";
+
+export interface GeminiOptions {
+  apiKey: string;
+  /** Model for chat, defaults to gemini-3-flash-preview */
+  model?: string;
+  /** Model for live audio, defaults to gemini-2.5-flash-native-audio-latest */
+  liveModel?: string;
+}
+
+/** Gemini uses upper-case OpenAPI type names */
+function toSchema(schema: ToolSchema): Schema {
+  return {
+    type: schema.type.toUpperCase() as Type,
+    description: schema.description,
+    enum: schema.enum,
+    required: schema.required,
+    items: schema.items && toSchema(schema.items),
+    properties:
+      schema.properties &&
+      Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [
+          key,
+          toSchema(value),
+        ]),
+      ),
+  };
+}
+
+function toFunctionDeclarations(tools: ToolDeclaration[]): FunctionDeclaration[] {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: toSchema(tool.parameters),
+  }));
+}
+
+function toPart(part: ChatPart): Part {
+  if ("text" in part) return { text: part.text };
+  if ("image" in part) return { inlineData: part.image };
+  if ("toolCall" in part) {
+    const { id, name, args } = part.toolCall;
+    return { functionCall: { id, name, args } };
+  }
+  const { id, name, response } = part.toolResult;
+  return { functionResponse: { id, name, response } };
+}
+
+function toContent(message: ChatMessage): Content {
+  return (message.raw as Content) ?? {
+    role: message.role,
+    parts: message.parts.map(toPart),
+  };
+}
+
+function fromParts(parts: Part[]): ChatPart[] {
+  const result: ChatPart[] = [];
+  for (const part of parts) {
+    if (part.functionCall) {
+      result.push({ toolCall: toToolCall(part.functionCall) });
+    } else if (part.text && !part.thought) {
+      result.push({ text: part.text });
+    }
+  }
+  return result;
+}
+
+function toToolCall(fc: { id?: string; name?: string; args?: Record<string, unknown> }): ToolCall {
+  return { id: fc.id, name: fc.name!, args: fc.args || {} };
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "Gemini";
+  private ai: GoogleGenAI;
+  private model: string;
+  private liveModel: string;
+
+  constructor(options: GeminiOptions) {
+    this.ai = new GoogleGenAI({ apiKey: options.apiKey });
+    this.model = options.model || DEFAULT_MODEL;
+    this.liveModel = options.liveModel || DEFAULT_LIVE_MODEL;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: request.messages.map(toContent),
+      config: {
+        systemInstruction: request.system,
+        tools: request.tools?.length
+          ? [{ functionDeclarations: toFunctionDeclarations(request.tools) }]
+          : undefined,
+      },
+    });
+
+    console.log(
+      "[Gemini] Response:",
+      JSON.stringify(response).substring(0, 500),
+    );
+
+    const content = response.candidates?.[0]?.content;
+    if (!content?.parts) {
+      console.warn("[Gemini] No candidates in response:", response);
+      return {
+        message: { role: "model", parts: [] },
+        text: "",
+        toolCalls: [],
+      };
+    }
+
+    const parts = fromParts(content.parts);
+    return {
+      // Keep the original content so thought signatures are sent back
+      message: { role: "model", parts, raw: content },
+      text: parts.map((p) => ("text" in p ? p.text : "")).join(""),
+      toolCalls: parts.flatMap((p) => ("toolCall" in p ? [p.toolCall] : [])),
+    };
+  }
+
+  async connectLive(options: LiveOptions): Promise<LiveSession> {
+    const { callbacks } = options;
+
+    const session = await this.ai.live.connect({
+      model: this.liveModel,
+      callbacks: {
+        onopen: () => console.log("[Gemini] Live session opened"),
+        onmessage: (msg: LiveServerMessage) => {
+          if (msg.setupComplete) {
+            console.log("[Gemini] Live setup complete");
+          }
+          if (msg.toolCall?.functionCalls) {
+            callbacks.onToolCalls?.(msg.toolCall.functionCalls.map(toToolCall));
+            return;
+          }
+          if (!msg.serverContent) return;
+
+          for (const part of msg.serverContent.modelTurn?.parts ?? []) {
+            if (part.text) {
+              callbacks.onText?.(part.text);
+            }
+            if (part.inlineData?.data && part.inlineData.mimeType?.includes("audio")) {
+              callbacks.onAudio?.(part.inlineData.data, part.inlineData.mimeType);
+            }
+          }
+          if (msg.serverContent.interrupted) {
+            callbacks.onInterrupted?.();
+          }
+          if (msg.serverContent.turnComplete) {
+            callbacks.onTurnComplete?.();
+          }
+        },
+        onerror: (e: ErrorEvent) => callbacks.onError?.(e.message || e),
+        onclose: (e: CloseEvent) =>
+          callbacks.onClose?.(`code=${e.code} reason="${e.reason}"`),
+      },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction: options.system,
+        tools: options.tools?.length
+          ? [{ functionDeclarations: toFunctionDeclarations(options.tools) }]
+          : undefined,
+      },
+    });
+
+    return {
+      sendText: (text) =>
+        session.sendClientContent({
+          turns: [{ role: "user", parts: [{ text }] }],
+          turnComplete: true,
+        }),
+      sendAudio: (data) =>
+        session.sendRealtimeInput({
+          audio: { data, mimeType: "audio/pcm;rate=16000" },
+        }),
+      sendToolResults: (results) =>
+        session.sendToolResponse({
+          functionResponses: results.map(({ id, name, response }) => ({
+            id,
+            name,
+            response,
+          })),
+        }),
+      close: () => session.close(),
+    };
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Picks the language model behind the mayor, the citizen chat and the voice
+ * sessions from the VITE_LLM_* / VITE_GEMINI_* / VITE_OPENAI_* settings.
+ */
+import { GeminiProvider } from "./gemini";
+import { OpenAIProvider } from "./openai";
+import { ScriptedProvider } from "./scripted";
+import type { LLMProvider } from "./types";
+
+export type * from "./types";
+export { GeminiProvider, OpenAIProvider, ScriptedProvider };
+export { DEFAULT_SCRIPT } from "./scripted";
+export type { ScriptStep } from "./scripted";
+
+export const PROVIDER_NAMES = ["gemini", "openai", "scripted"] as const;
+
+export interface ProviderSettings {
+  /** One of `PROVIDER_NAMES`. Defaults to gemini with a key, scripted without. */
+  provider?: string;
+  geminiApiKey?: string;
+  geminiModel?: string;
+  geminiLiveModel?: string;
+  openaiBaseUrl?: string;
+  openaiApiKey?: string;
+  openaiModel?: string;
+}
+
+/** Default for a local Ollama server */
+const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+
+/**
+ * Creates the provider chosen by the settings.
+ * Throws if the chosen provider is missing a required setting.
+ */
+export function createProvider(settings: ProviderSettings): LLMProvider {
+  const name = settings.provider?.trim().toLowerCase() ||
+    (settings.geminiApiKey ? "gemini" : "scripted");
+
+  switch (name) {
+    case "gemini":
+      if (!settings.geminiApiKey) {
+        throw new Error("VITE_GEMINI_API_KEY is not set");
+      }
+      return new GeminiProvider({
+        apiKey: settings.geminiApiKey,
+        model: settings.geminiModel,
+        liveModel: settings.geminiLiveModel,
+      });
+    case "openai":
+      if (!settings.openaiModel) {
+        throw new Error("VITE_OPENAI_MODEL is not set");
+      }
+      return new OpenAIProvider({
+        baseUrl: settings.openaiBaseUrl || DEFAULT_OPENAI_BASE_URL,
+        apiKey: settings.openaiApiKey,
+        model: settings.openaiModel,
+      });
+    case "scripted":
+      return new ScriptedProvider();
+    default:
+      throw new Error(
+        `Unknown LLM provider "${name}" (expected ${PROVIDER_NAMES.join(", ")})`,
+      );
+  }
+}
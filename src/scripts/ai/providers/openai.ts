@@ -0,0 +1,148 @@
+/**
+ * Adapter for servers that speak the OpenAI chat completions API, such as
+ * llama.cpp, Ollama, LM Studio or vLLM running on the player's machine.
+ * Supports tool calling and images; there is no live audio.
+ */
+import type {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  LLMProvider,
+  ToolCall,
+} from "./types";
+
+export interface OpenAIOptions {
+  /** e.g. "http://localhost:11434/v1" */
+  baseUrl: string;
+  model: string;
+  /** Local servers usually accept any key or none */
+  apiKey?: string;
+}
+
+/** Converts one chat message into one or more OpenAI messages */
+function toOpenAIMessages(message: ChatMessage): any[] {
+  if (message.role === "model") {
+    const text = message.parts.map((p) => ("text" in p ? p.text : "")).join("");
+    const toolCalls = message.parts.flatMap((p) =>
+      "toolCall" in p ? [p.toolCall] : [],
+    );
+    return [
+      {
+        role: "assistant",
+        content: text || null,
+        tool_calls: toolCalls.length
+          ? toolCalls.map((call) => ({
+              id: call.id,
+              type: "function",
+              function: { name: call.name, arguments: JSON.stringify(call.args) },
+            }))
+          : undefined,
+      },
+    ];
+  }
+
+  // Tool results are separate messages that follow the assistant's calls
+  const messages: any[] = [];
+  const content: any[] = [];
+  for (const part of message.parts) {
+    if ("toolResult" in part) {
+      messages.push({
+        role: "tool",
+        tool_call_id: part.toolResult.id,
+        content: JSON.stringify(part.toolResult.response),
+      });
+    } else if ("text" in part) {
+      content.push({ type: "text", text: part.text });
+    } else if ("image" in part) {
+      const { mimeType, data } = part.image;
+      content.push({
+        type: "image_url",
+        image_url: { url: `data:${mimeType};base64,${data}` },
+      });
+    }
+  }
+  if (content.length > 0) {
+    // Plain text is sent as a string for servers without multimodal support
+    const textOnly = content.every((c) => c.type === "text");
+    messages.push({
+      role: "user",
+      content: textOnly ? content.map((c) => c.text).join("\n") : content,
+    });
+  }
+  return messages;
+}
+
+function parseArguments(json: string | undefined): Record<string, any> {
+  try {
+    return json ? JSON.parse(json) : {};
+  } catch {
+    console.warn("[OpenAI] Tool arguments are not valid JSON:", json);
+    return {};
+  }
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  private baseUrl: string;
+  private model: string;
+  private apiKey?: string;
+
+  constructor(options: OpenAIOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.name = `OpenAI-compatible (${this.model})`;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const messages: any[] = [];
+    if (request.system) {
+      messages.push({ role: "system", content: request.system });
+    }
+    messages.push(...request.messages.flatMap(toOpenAIMessages));
+
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        tools: request.tools?.length
+          ? request.tools.map((tool) => ({ type: "function", function: tool }))
+          : undefined,
+      }),
+    });
+    if (!res.ok) {
+      throw new Error(`${res.status} ${res.statusText}: ${await res.text()}`);
+    }
+
+    const data = await res.json();
+    console.log("[OpenAI] Response:", JSON.stringify(data).substring(0, 500));
+
+    const reply = data.choices?.[0]?.message ?? {};
+    const text: string = reply.content ?? "";
+    // Some servers leave out call ids, so make up stable ones
+    const toolCalls: ToolCall[] = (reply.tool_calls ?? []).map(
+      (call: any, i: number) => ({
+        id: call.id || `call_${messages.length}_${i}`,
+        name: call.function?.name,
+        args: parseArguments(call.function?.arguments),
+      }),
+    );
+
+    return {
+      message: {
+        role: "model",
+        parts: [
+          ...(text ? [{ text }] : []),
+          ...toolCalls.map((toolCall) => ({ toolCall })),
+        ],
+      },
+      text,
+      toolCalls,
+    };
+  }
+}
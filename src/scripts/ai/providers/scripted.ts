@@ -0,0 +1,164 @@
+/**
+ * Offline stand-in for a language model. Replies come from a fixed script:
+ * the first step whose pattern matches the player's message makes its tool
+ * calls, then answers from the results. The same history always gets the
+ * same reply, so it is useful for demos, debugging and playing without a key.
+ */
+import type {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  LLMProvider,
+  ToolCall,
+  ToolResult,
+} from "./types";
+
+export interface ScriptStep {
+  /** Tested against the player's latest message. A step without one always matches. */
+  match?: RegExp;
+  /** Tools to call before replying. Calls to tools the request did not offer are skipped. */
+  toolCalls?: {
+    name: string;
+    args?: Record<string, any> | ((match: RegExpMatchArray | null) => Record<string, any>);
+  }[];
+  /** The reply, or a function building it from the tool results */
+  reply: string | ((results: ToolResult[]) => string);
+}
+
+/** Returns the response of the first result for a tool, if it was called */
+const resultOf = (results: ToolResult[], name: string): any =>
+  results.find((r) => r.name === name)?.response;
+
+/** Covers the mayor's read-only tools plus undo; anything else gets the city summary */
+export const DEFAULT_SCRIPT: ScriptStep[] = [
+  {
+    match: /undo|元に戻|取り消/i,
+    toolCalls: [{ name: "undo_last_action" }],
+    reply: (results) => {
+      const undo = resultOf(results, "undo_last_action");
+      if (!undo || undo.error === "Nothing to undo") return "（オフライン）元に戻せる操作はありません。";
+      return undo.success
+        ? `（オフライン）「${undo.action}」を元に戻しました。`
+        : `（オフライン）元に戻せませんでした: ${undo.error}`;
+    },
+  },
+  {
+    match: /request|リクエスト|要望|依頼/i,
+    toolCalls: [{ name: "get_requests" }],
+    reply: (results) => {
+      const requests: any[] = resultOf(results, "get_requests")?.requests ?? [];
+      if (requests.length === 0) return "（オフライン）未対応のリクエストはありません。";
+      return `（オフライン）未対応のリクエストは${requests.length}件です。\n` +
+        requests.map((r) => `- [${r.priority}] ${r.citizenName}: ${r.message}`).join("\n");
+    },
+  },
+  {
+    match: /objective|scenario|目標|シナリオ/i,
+    toolCalls: [{ name: "get_objectives" }],
+    reply: (results) => {
+      const scenario = resultOf(results, "get_objectives")?.scenario;
+      if (!scenario) return "（オフライン）シナリオはプレイしていません。/scenario で挑戦できます。";
+      return `（オフライン）シナリオ「${scenario.name}」残り${scenario.remaining}秒\n` +
+        scenario.objectives.map((o: any) => `- ${o.completed ? "✅" : "⬜"} ${o.label}（現在 ${o.current}）`).join("\n");
+    },
+  },
+  {
+    match: /happ|幸福|満足/i,
+    toolCalls: [{ name: "get_happiness" }],
+    reply: (results) => {
+      const happiness = resultOf(results, "get_happiness");
+      return happiness
+        ? `（オフライン）市民の幸福度は${happiness.happiness}です。`
+        : "（オフライン）幸福度を確認できません。";
+    },
+  },
+  {
+    match: /budget|money|tax|予算|資金|税/i,
+    toolCalls: [{ name: "get_budget" }],
+    reply: (results) => {
+      const budget = resultOf(results, "get_budget");
+      return budget
+        ? `（オフライン）財源は$${budget.treasury}、月の収支見込みは$${budget.projected.net}です。`
+        : "（オフライン）予算を確認できません。";
+    },
+  },
+  {
+    match: /power|電力|停電/i,
+    toolCalls: [{ name: "get_power_grid" }],
+    reply: (results) => {
+      const power = resultOf(results, "get_power_grid");
+      return power
+        ? `（オフライン）電力網の状況: ${JSON.stringify(power).substring(0, 200)}`
+        : "（オフライン）電力網を確認できません。";
+    },
+  },
+  {
+    toolCalls: [{ name: "get_city_state" }],
+    reply: (results) => {
+      const state = resultOf(results, "get_city_state");
+      const summary = state
+        ? `人口${state.population}人、建物${state.buildingCount}棟の街です。`
+        : "";
+      return `（オフライン）${summary}AI に接続していないため、建設の相談はできません。` +
+        "「X2Y3に住宅を3つ建てて」「Y4行を撤去」のように座標で指示してください。" +
+        "「リクエスト」「目標」「幸福度」「予算」「電力」「元に戻す」にも答えられます。";
+    },
+  },
+];
+
+/** Text of the last message the player typed (tool results are skipped) */
+function lastUserText(messages: ChatMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role !== "user") continue;
+    const text = message.parts.map((p) => ("text" in p ? p.text : "")).join("");
+    if (text) return text;
+  }
+  return "";
+}
+
+export class ScriptedProvider implements LLMProvider {
+  readonly name = "Scripted (offline)";
+  private script: ScriptStep[];
+
+  constructor(script: ScriptStep[] = DEFAULT_SCRIPT) {
+    this.script = script;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const { messages } = request;
+    const text = lastUserText(messages);
+    const step = this.script.find((s) => !s.match || s.match.test(text));
+    if (!step) return this.reply("");
+
+    const match = step.match ? text.match(step.match) : null;
+    const offered = new Set((request.tools ?? []).map((t) => t.name));
+    const calls = (step.toolCalls ?? []).filter((c) => offered.has(c.name));
+
+    // Reply once the tool results are in (or straight away without tools)
+    const last = messages[messages.length - 1];
+    const results = last?.parts.flatMap((p) => ("toolResult" in p ? [p.toolResult] : [])) ?? [];
+    if (results.length > 0 || calls.length === 0) {
+      return this.reply(typeof step.reply === "function" ? step.reply(results) : step.reply);
+    }
+
+    const toolCalls: ToolCall[] = calls.map((call, i) => ({
+      id: `scripted_${messages.length}_${i}`,
+      name: call.name,
+      args: typeof call.args === "function" ? call.args(match) : call.args ?? {},
+    }));
+    return {
+      message: { role: "model", parts: toolCalls.map((toolCall) => ({ toolCall })) },
+      text: "",
+      toolCalls,
+    };
+  }
+
+  private reply(text: string): ChatResponse {
+    return {
+      message: { role: "model", parts: [{ text }] },
+      text,
+      toolCalls: [],
+    };
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Provider-neutral types for talking to a language model. The mayor, the
+ * citizen chat and the voice sessions only use these, so the model behind
+ * them can be swapped without touching the game code.
+ */
+
+/** JSON schema describing the arguments of a tool */
+export interface ToolSchema {
+  type: "object" | "string" | "number" | "integer" | "boolean" | "array";
+  description?: string;
+  properties?: Record<string, ToolSchema>;
+  items?: ToolSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+/** A function the model may call */
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: ToolSchema;
+}
+
+export interface ToolCall {
+  /** Matches the result to the call, for providers that use call ids */
+  id?: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+export interface ToolResult {
+  id?: string;
+  name: string;
+  response: any;
+}
+
+export type ChatPart =
+  | { text: string }
+  /** Base64 image data without the data URL prefix */
+  | { image: { mimeType: string; data: string } }
+  | { toolCall: ToolCall }
+  | { toolResult: ToolResult };
+
+export interface ChatMessage {
+  role: "user" | "model";
+  parts: ChatPart[];
+  /**
+   * The message as the provider returned it. Passed back unchanged on the
+   * next turn so provider-specific data (e.g. Gemini thought signatures)
+   * survives the round trip. Other providers ignore it.
+   */
+  raw?: unknown;
+}
+
+export interface ChatRequest {
+  system?: string;
+  messages: ChatMessage[];
+  tools?: ToolDeclaration[];
+}
+
+export interface ChatResponse {
+  /** The reply, ready to be appended to the history */
+  message: ChatMessage;
+  /** Text parts of the reply joined together */
+  text: string;
+  /** Tool calls the model wants answered before it continues */
+  toolCalls: ToolCall[];
+}
+
+export interface LiveCallbacks {
+  /** Base64 PCM audio spoken by the model */
+  onAudio?: (data: string, mimeType: string) => void;
+  /** Transcript text from the model */
+  onText?: (text: string) => void;
+  onToolCalls?: (calls: ToolCall[]) => void;
+  onTurnComplete?: () => void;
+  /** The player started talking over the model */
+  onInterrupted?: () => void;
+  onError?: (error: unknown) => void;
+  onClose?: (reason: string) => void;
+}
+
+export interface LiveOptions {
+  system: string;
+  tools?: ToolDeclaration[];
+  callbacks: LiveCallbacks;
+}
+
+/** An open, bidirectional audio conversation */
+export interface LiveSession {
+  /** Send a complete user turn as text */
+  sendText(text: string): void;
+  /** Stream base64 16 kHz 16-bit PCM microphone audio */
+  sendAudio(data: string): void;
+  sendToolResults(results: ToolResult[]): void;
+  close(): void;
+}
+
+export interface LLMProvider {
+  /** Name shown to the player, e.g. "Gemini" */
+  readonly name: string;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+  /** Opens a live audio session. Missing if the provider has no live audio. */
+  connectLive?(options: LiveOptions): Promise<LiveSession>;
+}
@@ -1,10 +1,16 @@
 /**
- * Citizen Request Engine — State Machine version.
- * Detects city problems and generates one citizen request at a time.
- * Lifecycle: idle → request_active → settling → evaluating → idle
+ * Citizen Request Engine — request board version.
+ * Detects city problems and keeps several citizen requests open at once.
+ * Each request comes from a real citizen and is about one tile: their home,
+ * their workplace, a jammed road or a damaged tile. Homes that no school,
+ * hospital, police station or fire station serves raise coverage requests. It has its own priority,
+ * deadline and "before" snapshot of that tile.
+ * Lifecycle of a request: active → settling (after mark resolved) → fulfilled
+ * or unresolved once evaluated, or active → expired when its deadline passes.
  */
-
-export type EnginePhase = 'idle' | 'request_active' | 'settling' | 'evaluating';
+import config from '../config.js';
+import type { Random } from '../sim/random.js';
+import type { CitizenProfileStore } from './citizen-profiles';
 
 export interface CitySnapshot {
   unpoweredCount: number;
@@ -22,24 +28,140 @@ export interface CitySnapshot {
   damagedTileCount: number;
 }
 
+export type RequestPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+/** What the request's tile is to the citizen */
+export type RequestSubject = 'home' | 'workplace' | 'lot' | 'road' | 'tile';
+
+export interface RequestLocation {
+  x: number;
+  y: number;
+}
+
+/** State of the tile a request is about, used to judge whether it was fixed. */
+export interface LocationSnapshot {
+  /** Type of the building on the tile, or null if it is empty */
+  buildingType: string | null;
+  powered: boolean;
+  roadAccess: boolean;
+  /** Whether the citizen who made the request has a job */
+  employed: boolean;
+  /** Roads within NEARBY_DISTANCE tiles */
+  roadsNearby: number;
+  /** Residential zones within NEARBY_DISTANCE tiles */
+  housingNearby: number;
+  /** Room for new residents in developed homes within NEARBY_DISTANCE tiles */
+  vacanciesNearby: number;
+  /** Commercial zones within NEARBY_DISTANCE tiles */
+  shopsNearby: number;
+  /** Commercial and industrial zones within NEARBY_DISTANCE tiles */
+  workplacesNearby: number;
+  /** Factories and polluting power plants within NEARBY_DISTANCE tiles */
+  pollutersNearby: number;
+  /** Parks and trees within NEARBY_DISTANCE tiles */
+  greeneryNearby: number;
+  /** Congestion (0-1) of the road on the tile */
+  congestion: number;
+  damaged: boolean;
+  /** Civic building types that do not serve every resident of the tile who needs them */
+  unservedBy: string[];
+  /** Civic buildings of each type whose coverage radius reaches the tile, working or not */
+  servicesInReach: Record<string, number>;
+  /** Air and ground pollution (0-1) of the tile */
+  pollution: number;
+}
+
 export interface CitizenRequest {
   id: string;
   citizenName: string;
-  type: 'housing' | 'jobs' | 'power' | 'road' | 'commerce' | 'disaster';
+  type: 'housing' | 'jobs' | 'power' | 'road' | 'commerce' | 'disaster' | 'traffic'
+    | 'education' | 'health' | 'police' | 'fire' | 'pollution';
   message: string;
+  /** When the request was raised (`city.simTimeMs`) */
   createdAt: number;
-  status: 'active' | 'fulfilled' | 'expired';
+  status: 'active' | 'fulfilled' | 'unresolved' | 'expired';
+  /** Raised each time another citizen complains about the same problem */
+  priority: RequestPriority;
+  /** Other citizens who joined the complaint, in order */
+  supporters: string[];
+  /** When the request expires if it is not resolved (`city.simTimeMs`) */
+  deadline: number;
+  /** Id of the citizen who made the request, or null for the owner of an empty lot */
+  citizenId: string | null;
+  /** What the citizen was doing when they complained, e.g. 'employed' */
+  citizenState: string | null;
+  /** Tile of the citizen's home and workplace, if they have one */
+  home: RequestLocation | null;
+  workplace: RequestLocation | null;
+  /** The tile the request is about. Null for requests from older saves */
+  location: RequestLocation | null;
+  subject: RequestSubject | null;
+}
+
+/** Saved state of a request that has not been evaluated yet. */
+export interface OpenRequestState {
+  id: string;
+  snapshotBefore: LocationSnapshot;
+  /** Ticks left before evaluation, or null while waiting for the mayor */
+  settleTicksRemaining: number | null;
+  /** Time left before the request expires (ms) */
+  expiresInMs: number;
+}
+
+/** Saved state of the engine, including the full request history. */
+export interface RequestEngineState {
+  requests: CitizenRequest[];
+  open: OpenRequestState[];
+  /** Time left before the next complaint may be raised (ms) */
+  cooldownRemainingMs: number;
+  /** State of the engine's random generator. Missing in older saves */
+  rngState?: number;
 }
 
-type NotifyFn = (message: string, type: 'new' | 'fulfilled' | 'failed', spokenText?: string) => void;
+export interface RequestStatus {
+  resolved: boolean;
+  request: CitizenRequest | null;
+  detail: string;
+  suggestion: string;
+}
+
+type NotifyFn = (
+  message: string,
+  type: 'new' | 'escalated' | 'fulfilled' | 'failed',
+  spokenText?: string,
+  request?: CitizenRequest,
+) => void;
 
 type EvaluateFn = (
   request: CitizenRequest,
-  snapshotBefore: CitySnapshot,
-  snapshotAfter: CitySnapshot,
+  snapshotBefore: LocationSnapshot,
+  snapshotAfter: LocationSnapshot,
   happinessDelta: number,
 ) => Promise<void>;
 
+/** A request on the board, with the state needed to evaluate it. */
+interface OpenRequest {
+  request: CitizenRequest;
+  snapshotBefore: LocationSnapshot;
+  settleTicksRemaining: number | null;
+  evaluating: boolean;
+}
+
+/** A problem on one tile and the citizens it affects. */
+interface Complaint {
+  type: CitizenRequest['type'];
+  location: RequestLocation;
+  subject: RequestSubject;
+  /** Citizens who could complain. Empty for an undeveloped lot */
+  citizens: any[];
+}
+
+interface Judgement {
+  resolved: boolean;
+  detail: string;
+  suggestion: string;
+}
+
 const CITIZEN_NAMES = [
   'Tanaka', 'Suzuki', 'Yamamoto', 'Sato', 'Watanabe',
   'Ito', 'Nakamura', 'Kobayashi', 'Kato', 'Yoshida',
@@ -47,266 +169,360 @@ const CITIZEN_NAMES = [
   'Kimura', 'Shimizu', 'Hayashi', 'Saito', 'Mori',
 ];
 
-function randomName(): string {
-  return CITIZEN_NAMES[Math.floor(Math.random() * CITIZEN_NAMES.length)];
+function randomName(rng: Random): string {
+  return rng.pick(CITIZEN_NAMES);
 }
 
-function generateId(): string {
-  return 'req_' + Date.now().toString(36) + '_' + Math.random().toString(36).substring(2, 6);
+function generateId(rng: Random): string {
+  return 'req_' + rng.id(8);
 }
 
-/** Expiry timeout: 90 seconds */
+/** Priorities from lowest to highest */
+const PRIORITIES: RequestPriority[] = ['low', 'normal', 'high', 'urgent'];
+
+const PRIORITY_LABELS: Record<RequestPriority, string> = {
+  low: '低',
+  normal: '中',
+  high: '高',
+  urgent: '緊急',
+};
+
+const SUBJECT_LABELS: Record<RequestSubject, string> = {
+  home: '家',
+  workplace: '職場',
+  lot: '土地',
+  road: '道路',
+  tile: '場所',
+};
+
+/** Priority of a new request, before any other citizen joins it */
+const BASE_PRIORITY: Record<CitizenRequest['type'], RequestPriority> = {
+  housing: 'normal',
+  jobs: 'normal',
+  power: 'high',
+  road: 'normal',
+  commerce: 'low',
+  disaster: 'urgent',
+  traffic: 'normal',
+  education: 'normal',
+  health: 'normal',
+  police: 'low',
+  fire: 'normal',
+  pollution: 'normal',
+};
+
+/** Civic building type missing for each coverage request */
+const COVERAGE_REQUESTS = {
+  education: 'school',
+  health: 'hospital',
+  police: 'police-station',
+  fire: 'fire-station',
+} as const;
+
+const SERVICE_LABELS: Record<string, string> = {
+  'school': '学校',
+  'hospital': '病院',
+  'police-station': '警察署',
+  'fire-station': '消防署',
+};
+
+/** Sim time to resolve a request before it expires: 90 seconds at normal speed */
 const EXPIRY_MS = 90 * 1000;
 /** How many sim ticks to wait in settling phase */
 const SETTLE_TICKS = 3;
+/** Most requests that can be open at once, however large the city */
+const MAX_OPEN_REQUESTS = 4;
+/** Population needed for each open request beyond the first */
+const POPULATION_PER_REQUEST = 40;
+/** Distance (in tiles) a citizen will walk to a shop or a new home */
+const NEARBY_DISTANCE = 6;
+/** Most commutes routed while looking for the drivers stuck in a jam */
+const MAX_TRAFFIC_ROUTES = 50;
 
 export class RequestEngine {
   private city: any;
+  /** Request stream derived from the city seed, independent of the sim sequence */
+  private rng: Random;
   private notify: NotifyFn;
   private evaluateFn: EvaluateFn | null = null;
+  /** Memories of the citizens who complain, used to judge how they take the result */
+  private profiles: CitizenProfileStore | null = null;
 
-  private phase: EnginePhase = 'idle';
-  private currentRequest: CitizenRequest | null = null;
-  private snapshotBefore: CitySnapshot | null = null;
-  private settleTicksRemaining = 0;
-  private expiryTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  /** Requests that have not been evaluated or expired, keyed by id */
+  private open = new Map<string, OpenRequest>();
   private requests: CitizenRequest[] = [];
-  private lastIdleTime = 0;
-  /** Dynamic cooldown (ms) computed when entering idle phase */
+  /** When the last complaint was raised (`city.simTimeMs`) */
+  private lastComplaintTime = 0;
+  /** Dynamic cooldown (ms) between complaints */
   private nextCooldownMs = 20_000;
 
   constructor(city: any, notify: NotifyFn) {
     this.city = city;
+    this.rng = city.rng.derive('requests');
     this.notify = notify;
   }
 
-  /** Set the callback invoked during evaluating phase (Gemini citizen evaluation). */
+  /** Set the callback invoked when a request is evaluated (Gemini citizen evaluation). */
   setEvaluateFn(fn: EvaluateFn): void {
     this.evaluateFn = fn;
   }
 
-  /** Called every sim tick by the game loop. Drives the state machine. */
+  /** Set the store that remembers each citizen's requests and personality. */
+  setProfiles(profiles: CitizenProfileStore): void {
+    this.profiles = profiles;
+  }
+
+  /** Called every sim tick by the game loop. Advances every open request. */
   onCityChanged(): void {
-    switch (this.phase) {
-      case 'idle':
-        this.tryGenerateRequest();
-        break;
-      case 'settling':
-        this.settleTicksRemaining--;
-        if (this.settleTicksRemaining <= 0) {
-          this.phase = 'evaluating';
-          this.evaluate();
+    const now = this.city.simTimeMs;
+
+    for (const entry of [...this.open.values()]) {
+      if (entry.evaluating) continue;
+
+      if (entry.settleTicksRemaining === null) {
+        if (now >= entry.request.deadline) {
+          this.expireRequest(entry);
         }
-        break;
-      // request_active: waiting for markResolved() or expiry
-      // evaluating: waiting for async evaluate() to finish
+      } else if (--entry.settleTicksRemaining <= 0) {
+        this.evaluate(entry);
+      }
     }
+
+    this.tryRaiseComplaint();
   }
 
   /**
    * Called by the mayor (via mark_request_resolved tool) after construction is complete.
-   * Captures the "after" snapshot and transitions to settling.
+   * The request settles for a few ticks and is then evaluated against its own snapshot.
    */
-  markResolved(): void {
-    if (this.phase !== 'request_active' || !this.currentRequest) {
-      console.warn(`[RequestEngine] markResolved called but phase=${this.phase}, request=${!!this.currentRequest}`);
-      return;
+  markResolved(id: string): { success: boolean; error?: string; request?: CitizenRequest } {
+    const entry = this.open.get(id);
+    if (!entry || entry.request.status !== 'active') {
+      const error = entry
+        ? `Request ${id} is already resolved`
+        : `No open request with id ${id}`;
+      console.warn(`[RequestEngine] markResolved: ${error}`);
+      return { success: false, error };
     }
 
-    console.log(`[RequestEngine] markResolved → settling (${this.currentRequest.citizenName})`);
-
-    // Clear expiry timer
-    if (this.expiryTimeoutId) {
-      clearTimeout(this.expiryTimeoutId);
-      this.expiryTimeoutId = null;
-    }
+    console.log(`[RequestEngine] markResolved → settling (${entry.request.citizenName}, ${id})`);
 
-    this.currentRequest.status = 'fulfilled';
-    this.phase = 'settling';
-    this.settleTicksRemaining = SETTLE_TICKS;
+    entry.request.status = 'fulfilled';
+    entry.settleTicksRemaining = SETTLE_TICKS;
+    return { success: true, request: entry.request };
   }
 
-  /** Return active requests (0 or 1). Existing tool compatibility. */
+  /** Return the open requests, most urgent first. */
   getActiveRequests(): CitizenRequest[] {
-    return this.requests.filter(r => r.status === 'active');
+    return this.requests
+      .filter(r => r.status === 'active')
+      .sort((a, b) =>
+        PRIORITIES.indexOf(b.priority) - PRIORITIES.indexOf(a.priority) || a.deadline - b.deadline);
   }
 
-  /** Get the current in-flight request (if any). */
-  getCurrentRequest(): CitizenRequest | null {
-    return this.currentRequest;
+  /** Number of requests (open and past) in each status. */
+  countByStatus(): Record<CitizenRequest['status'], number> {
+    const counts = { active: 0, fulfilled: 0, unresolved: 0, expired: 0 };
+    for (const request of this.requests) counts[request.status]++;
+    return counts;
   }
 
-  /** Get current phase (for debugging / UI). */
-  getPhase(): EnginePhase {
-    return this.phase;
+  /** Find a request (open or past) by id. */
+  getRequest(id: string): CitizenRequest | null {
+    return this.requests.find(r => r.id === id) ?? null;
   }
 
   /**
-   * Check whether the current request's underlying problem is still present.
+   * Check whether a request's underlying problem is still present.
+   * Without an id, the most urgent active request is checked.
    * Returns a status object the mayor can use to decide next steps.
    */
-  checkRequestStatus(): { resolved: boolean; request: CitizenRequest | null; detail: string; suggestion: string } {
-    if (!this.currentRequest || this.phase !== 'request_active') {
-      return { resolved: false, request: null, detail: 'アクティブなリクエストがありません。', suggestion: '' };
+  checkRequestStatus(id?: string): RequestStatus {
+    const req = id ? this.getRequest(id) : this.getActiveRequests()[0] ?? null;
+    const entry = req ? this.open.get(req.id) : undefined;
+    if (!req || !entry || req.status !== 'active') {
+      const detail = id
+        ? `リクエスト ${id} は受付中ではありません。`
+        : 'アクティブなリクエストがありません。';
+      return { resolved: false, request: null, detail, suggestion: '' };
     }
 
-    const now = this.captureSnapshot();
-    const before = this.snapshotBefore;
-    const req = this.currentRequest;
-    let resolved = false;
-    let detail = '';
-    let suggestion = '';
+    const { resolved, detail, suggestion } = this.judge(req, entry.snapshotBefore, this.captureLocation(req));
+    return { resolved, request: req, detail, suggestion };
+  }
 
-    // Resolution checks use TWO criteria:
-    // 1. "ideal" — the underlying problem is fully gone
-    // 2. "progress" — meaningful improvement vs. snapshotBefore (covers simulation delay)
-    // Either one counts as resolved.
+  /** Drop all requests and history, e.g. when a new city is started. */
+  reset(): void {
+    this.rng = this.city.rng.derive('requests');
+    this.requests = [];
+    this.open.clear();
+    this.scheduleNextComplaint();
+  }
 
-    switch (req.type) {
-      case 'housing': {
-        const ideal = now.population === 0 || now.residentialCapacity >= now.population;
-        const progress = before ? now.residentialCapacity > before.residentialCapacity : false;
-        resolved = ideal || progress;
-        detail = `人口: ${now.population}, 住宅容量: ${now.residentialCapacity}`;
-        if (!resolved) {
-          const needed = Math.ceil((now.population - now.residentialCapacity) / 4) + 1;
-          suggestion = `あと${needed}軒ほど住宅を建ててほしいです。人口${now.population}人に対して住宅容量が${now.residentialCapacity}しかありません。`;
-        }
-        break;
-      }
-      case 'jobs': {
-        const workplaces = now.commercialCount + now.industrialCount;
-        const prevWorkplaces = before ? before.commercialCount + before.industrialCount : 0;
-        const ideal = workplaces >= now.residentialCount;
-        const progress = before ? workplaces > prevWorkplaces : false;
-        resolved = ideal || progress;
-        detail = `商業: ${now.commercialCount}, 工業: ${now.industrialCount}, 住宅: ${now.residentialCount}`;
-        if (!resolved) {
-          const needed = now.residentialCount - workplaces;
-          suggestion = `あと${needed}軒の商業施設か工業施設が必要です。住宅${now.residentialCount}軒に対して職場が${workplaces}軒しかありません。`;
-        }
-        break;
-      }
-      case 'power': {
-        const ideal = now.unpoweredCount === 0;
-        // Progress: power plant or power line was added (powered flag updates on next sim tick)
-        const progress = before
-          ? now.powerPlantCount > before.powerPlantCount || now.powerLineCount > before.powerLineCount
-          : false;
-        resolved = ideal || progress;
-        detail = `停電中: ${now.unpoweredCount}棟, 発電所: ${now.powerPlantCount}, 送電線: ${now.powerLineCount}`;
-        if (!resolved) {
-          if (now.powerPlantCount === 0) {
-            suggestion = `発電所がありません！まず発電所を建てて、送電線で建物に電力を届けてください。`;
-          } else {
-            suggestion = `まだ${now.unpoweredCount}棟が停電しています。送電線を追加して電力を届けてください。`;
-          }
-        }
-        break;
-      }
-      case 'road': {
-        const ideal = now.noRoadAccess === 0;
-        // Progress: new roads were added
-        const progress = before ? now.roadCount > before.roadCount : false;
-        resolved = ideal || progress;
-        detail = `道路なし: ${now.noRoadAccess}棟, 道路: ${now.roadCount}`;
-        if (!resolved) {
-          suggestion = `まだ${now.noRoadAccess}棟に道路が繋がっていません。建物の隣に道路を敷いてください。`;
-        }
-        break;
-      }
-      case 'commerce': {
-        const ideal = now.commercialCount >= now.residentialCount * 0.3;
-        const progress = before ? now.commercialCount > before.commercialCount : false;
-        resolved = ideal || progress;
-        detail = `商業: ${now.commercialCount}, 住宅: ${now.residentialCount}`;
-        if (!resolved) {
-          const needed = Math.ceil(now.residentialCount * 0.3) - now.commercialCount;
-          suggestion = `あと${needed}軒の商業施設が必要です。住宅${now.residentialCount}軒に対して商業施設が${now.commercialCount}軒しかありません。`;
-        }
-        break;
-      }
-      case 'disaster': {
-        resolved = now.damagedTileCount === 0;
-        detail = `被災タイル: ${now.damagedTileCount}`;
-        if (!resolved) {
-          suggestion = `まだ${now.damagedTileCount}タイルが被災しています。復旧は自動で進行中です。`;
-        }
-        break;
-      }
+  /** Capture the engine state so it can be written into a save game. */
+  serialize(): RequestEngineState {
+    const now = this.city.simTimeMs;
+    return {
+      requests: this.requests.map(r => ({ ...r, supporters: [...r.supporters] })),
+      open: [...this.open.values()].map(entry => ({
+        id: entry.request.id,
+        snapshotBefore: { ...entry.snapshotBefore },
+        // An in-flight evaluation is re-run after loading
+        settleTicksRemaining: entry.evaluating ? 0 : entry.settleTicksRemaining,
+        expiresInMs: Math.max(0, entry.request.deadline - now),
+      })),
+      cooldownRemainingMs: Math.max(0, this.nextCooldownMs - (now - this.lastComplaintTime)),
+      rngState: this.rng.state,
+    };
+  }
+
+  /** Replace the engine state with one loaded from a save game. */
+  restore(state: RequestEngineState): void {
+    const now = this.city.simTimeMs;
+
+    // The loaded city may have a different seed. Resume the sequence where
+    // the save left it, so a reloaded game raises the same requests
+    this.rng = this.city.rng.derive('requests');
+    if (state.rngState !== undefined) this.rng.state = state.rngState;
+    this.requests = state.requests.map(r => ({ ...r, supporters: [...r.supporters] }));
+    this.open.clear();
+    for (const saved of state.open) {
+      const request = this.getRequest(saved.id);
+      if (!request) continue;
+      request.deadline = now + saved.expiresInMs;
+      this.open.set(request.id, {
+        request,
+        snapshotBefore: saved.snapshotBefore,
+        settleTicksRemaining: saved.settleTicksRemaining,
+        evaluating: false,
+      });
     }
+    this.nextCooldownMs = state.cooldownRemainingMs;
+    this.lastComplaintTime = now;
 
-    return { resolved, request: req, detail, suggestion };
+    console.log(`[RequestEngine] Restored ${this.requests.length} requests (${this.open.size} open)`);
   }
 
   // ── Private ──
 
-  private tryGenerateRequest(): void {
+  /** Number of requests the board can hold for the current population */
+  private getCapacity(): number {
+    const population = this.city.population ?? 0;
+    return Math.min(MAX_OPEN_REQUESTS, 1 + Math.floor(population / POPULATION_PER_REQUEST));
+  }
+
+  /**
+   * A citizen complains about one of the city's problems. A problem that is
+   * already on the board is escalated instead of opening a second request.
+   */
+  private tryRaiseComplaint(): void {
     // Pause normal requests during active disaster
     if (this.city.activeDisaster) return;
 
-    // Wait for the dynamic cooldown since last idle transition
-    const now = Date.now();
-    if (now - this.lastIdleTime < this.nextCooldownMs) return;
+    // Wait for the dynamic cooldown since the last complaint
+    if (this.city.simTimeMs - this.lastComplaintTime < this.nextCooldownMs) return;
+
+    const complaints = this.findComplaints();
+    if (complaints.length === 0) return;
+    // Pick the kind of problem first, so a problem shared by many tiles
+    // does not crowd out the others
+    const problem = this.rng.pick([...new Set(complaints.map(c => c.type))]);
+    const complaint = this.rng.pick(complaints.filter(c => c.type === problem));
+
+    const existing = [...this.open.values()].find(entry => entry.request.type === problem);
+    if (existing) {
+      // Already resolved and waiting for evaluation: nothing to add this time
+      if (existing.request.status === 'active') this.escalate(existing.request, complaint);
+    } else if (this.getActiveRequests().length < this.getCapacity()) {
+      this.openRequest(complaint);
+    }
 
-    const problems = this.detectProblems();
-    if (problems.length === 0) return;
-    const problem = problems[Math.floor(Math.random() * problems.length)];
-    const request = this.createRequest(problem);
-    console.log(`[RequestEngine] New request: ${request.type} by ${request.citizenName}`);
+    // Wait a full cooldown before looking again, even if the board was full
+    this.scheduleNextComplaint();
+  }
 
-    this.currentRequest = request;
-    this.requests.push(request);
-    this.snapshotBefore = this.captureSnapshot();
-    this.phase = 'request_active';
+  private openRequest(complaint: Complaint): void {
+    const request = this.createRequest(complaint);
+    const { x, y } = request.location;
+    console.log(`[RequestEngine] New request: ${request.type} at X${x}Y${y} by ${request.citizenName} (${request.id})`);
 
-    // Start expiry timer
-    this.expiryTimeoutId = setTimeout(() => this.expireRequest(), EXPIRY_MS);
+    this.requests.push(request);
+    this.open.set(request.id, {
+      request,
+      snapshotBefore: this.captureLocation(request),
+      settleTicksRemaining: null,
+      evaluating: false,
+    });
+    const citizen = this.findCitizen(request);
+    if (citizen) this.profiles?.recordRequest(citizen, request, 'filed');
 
     this.notify(
-      `[市民リクエスト] ${request.citizenName}: 「${request.message}」`,
+      `[市民リクエスト] ${request.citizenName}: 「${request.message}」（優先度: ${PRIORITY_LABELS[request.priority]}）`,
       'new',
       request.message,
+      request,
     );
   }
 
-  private expireRequest(): void {
-    if (this.phase !== 'request_active' || !this.currentRequest) return;
+  /** Another citizen with the same kind of problem joins a request, raising its priority by one step. */
+  private escalate(request: CitizenRequest, complaint: Complaint): void {
+    const citizen = complaint.citizens.length > 0 ? this.rng.pick(complaint.citizens) : null;
+    // The citizen who made the request does not complain twice
+    if (citizen && citizen.id === request.citizenId) return;
 
-    console.log(`[RequestEngine] Request expired: ${this.currentRequest.citizenName}`);
-    this.currentRequest.status = 'expired';
-    this.expiryTimeoutId = null;
+    const name = citizen?.name ?? randomName(this.rng);
+    request.supporters.push(name);
+    const level = Math.min(PRIORITIES.indexOf(request.priority) + 1, PRIORITIES.length - 1);
+    request.priority = PRIORITIES[level];
+    console.log(`[RequestEngine] Escalated ${request.id} to ${request.priority} (${name})`);
+    if (citizen) this.profiles?.recordRequest(citizen, request, 'supported');
 
+    const spoken = `${request.citizenName}さんと同じく、私も困っています。早く対応してください！`;
     this.notify(
-      `[期限切れ] ${this.currentRequest.citizenName} のリクエストが期限切れになりました。`,
-      'failed',
+      `[苦情増加] ${name}: 「${spoken}」（${request.supporters.length + 1}人が要望中、優先度: ${PRIORITY_LABELS[request.priority]}）`,
+      'escalated',
+      spoken,
+      request,
     );
+  }
+
+  private expireRequest(entry: OpenRequest): void {
+    const request = entry.request;
+    console.log(`[RequestEngine] Request expired: ${request.citizenName} (${request.id})`);
+    request.status = 'expired';
+    this.open.delete(request.id);
+    this.profiles?.recordOutcome(request, 'expired');
 
-    this.currentRequest = null;
-    this.snapshotBefore = null;
-    this.transitionToIdle();
+    this.notify(
+      `[期限切れ] ${request.citizenName} のリクエストが期限切れになりました。`,
+      'failed',
+      undefined,
+      request,
+    );
   }
 
-  private async evaluate(): Promise<void> {
-    const request = this.currentRequest;
-    const before = this.snapshotBefore;
-    if (!request || !before) {
-      console.warn('[RequestEngine] evaluate: no request or snapshot, returning to idle');
-      this.transitionToIdle();
-      return;
-    }
+  private async evaluate(entry: OpenRequest): Promise<void> {
+    const { request, snapshotBefore: before } = entry;
+    entry.evaluating = true;
 
-    const after = this.captureSnapshot();
-    const delta = this.computeHappinessDelta(request, before, after);
-    console.log(`[RequestEngine] evaluate: ${request.type} delta=${delta}`);
+    const after = this.captureLocation(request);
+    const { resolved } = this.judge(request, before, after);
+    const delta = this.computeHappinessDelta(request, resolved);
+    console.log(`[RequestEngine] evaluate: ${request.type} resolved=${resolved} delta=${delta}`);
+    request.status = resolved ? 'fulfilled' : 'unresolved';
+    this.profiles?.recordOutcome(request, resolved ? 'fulfilled' : 'unresolved');
 
     // Apply happiness change via bonus (persists across #updateHappiness recalculations)
     this.city.happinessBonus = (this.city.happinessBonus ?? 0) + delta;
 
     const deltaStr = delta >= 0 ? `+${delta}` : `${delta}`;
     this.notify(
-      `✅ ${request.citizenName} のリクエストが完了しました！ (幸福度 ${deltaStr})`,
-      'fulfilled',
+      resolved
+        ? `✅ ${request.citizenName} のリクエストが完了しました！ (幸福度 ${deltaStr})`
+        : `[未解決] ${request.citizenName} のリクエストは解決されませんでした。 (幸福度 ${deltaStr})`,
+      resolved ? 'fulfilled' : 'failed',
+      undefined,
+      request,
     );
 
     // Call Gemini evaluation callback
@@ -318,42 +534,209 @@ export class RequestEngine {
       }
     }
 
-    this.currentRequest = null;
-    this.snapshotBefore = null;
-    this.transitionToIdle();
+    this.open.delete(request.id);
   }
 
-  private computeHappinessDelta(
-    request: CitizenRequest,
-    before: CitySnapshot,
-    after: CitySnapshot,
-  ): number {
-    let delta = 0;
+  /** Happiness change once a request is evaluated, as the citizen who filed it takes it */
+  private computeHappinessDelta(request: CitizenRequest, resolved: boolean): number {
+    const delta = request.type === 'disaster'
+      ? (resolved ? 15 : -5)
+      : (resolved ? 10 : -2);
+    return this.profiles?.adjustHappinessDelta(request, delta) ?? delta;
+  }
+
+  /**
+   * Decide whether the problem on the request's tile is fixed.
+   * Checks use TWO criteria:
+   * 1. "ideal" — the problem on the tile is fully gone
+   * 2. "progress" — something was built near the tile since the request (covers
+   *    simulation delay, e.g. a new zone that has not developed yet)
+   * Either one counts as resolved. Work elsewhere in the city does not count.
+   */
+  private judge(request: CitizenRequest, before: LocationSnapshot, now: LocationSnapshot): Judgement {
+    const { x, y } = request.location;
+    const place = `X${x}Y${y}`;
+    const label = SUBJECT_LABELS[request.subject];
+    let resolved = false;
+    let detail = '';
+    let suggestion = '';
 
     switch (request.type) {
-      case 'housing':
-        delta = after.residentialCapacity > before.residentialCapacity ? 10 : -2;
+      case 'housing': {
+        const ideal = now.vacanciesNearby > 0;
+        const progress = now.housingNearby > before.housingNearby;
+        resolved = ideal || progress;
+        detail = `${place}の周辺: 住宅 ${now.housingNearby}軒, 空き ${now.vacanciesNearby}人分`;
+        if (!resolved) {
+          suggestion = `${place}の近く（${NEARBY_DISTANCE}マス以内）にまだ空いている家がありません。このあたりに住宅を建ててください。`;
+        }
+        break;
+      }
+      case 'jobs': {
+        const ideal = now.employed;
+        const progress = now.workplacesNearby > before.workplacesNearby;
+        resolved = ideal || progress;
+        detail = `${request.citizenName}: ${now.employed ? '就業中' : '失業中'}, ${place}の周辺の職場: ${now.workplacesNearby}軒`;
+        if (!resolved) {
+          suggestion = `まだ仕事が見つかりません。${place}の家から道路で通えるところに商業施設か工業施設を建ててください。`;
+        }
+        break;
+      }
+      case 'power': {
+        resolved = now.buildingType !== null && now.powered;
+        detail = now.buildingType
+          ? `${place}の${label}: ${now.powered ? '通電中' : '停電中'}`
+          : `${place}の建物はもうありません`;
+        if (!resolved) {
+          suggestion = `${place}の${label}にはまだ電気が来ていません。発電所か送電線をつないでください（電力網は get_power_grid で確認できます）。`;
+        }
+        break;
+      }
+      case 'road': {
+        const ideal = now.roadAccess;
+        // Progress: a road was added within reach (road access updates on the next sim tick)
+        const progress = now.roadsNearby > before.roadsNearby;
+        resolved = ideal || progress;
+        detail = `${place}の${label}: ${now.roadAccess ? '道路あり' : '道路なし'}`;
+        if (!resolved) {
+          suggestion = `${place}の${label}はまだ道路につながっていません。すぐ近くに道路を敷いてください。`;
+        }
         break;
-      case 'jobs':
-        delta = (after.commercialCount + after.industrialCount) >
-                (before.commercialCount + before.industrialCount) ? 10 : -2;
+      }
+      case 'commerce': {
+        resolved = now.shopsNearby > 0;
+        detail = `${place}の周辺の商業施設: ${now.shopsNearby}軒`;
+        if (!resolved) {
+          suggestion = `${place}の家から${NEARBY_DISTANCE}マス以内にお店がありません。このあたりに商業施設を建ててください。`;
+        }
         break;
-      case 'power':
-        delta = (after.powerPlantCount > before.powerPlantCount || after.powerLineCount > before.powerLineCount
-                 || after.unpoweredCount < before.unpoweredCount) ? 10 : -2;
+      }
+      case 'traffic': {
+        resolved = now.congestion < config.traffic.jamThreshold;
+        detail = `${place}の混雑率: ${Math.round(now.congestion * 100)}%`;
+        if (!resolved) {
+          suggestion = `${place}はまだ混雑率${Math.round(now.congestion * 100)}%で渋滞しています。並行する道路を作るか、家の近くに職場を建ててください。`;
+        }
         break;
-      case 'road':
-        delta = (after.roadCount > before.roadCount || after.noRoadAccess < before.noRoadAccess) ? 10 : -2;
+      }
+      case 'disaster': {
+        resolved = !now.damaged;
+        detail = `${place}: ${now.damaged ? '被災中' : '復旧済み'}`;
+        if (!resolved) {
+          suggestion = `${place}はまだ被災しています。recover_tile で復旧を急いでください。`;
+        }
         break;
-      case 'commerce':
-        delta = after.commercialCount > before.commercialCount ? 10 : -2;
+      }
+      case 'pollution': {
+        const percent = Math.round(now.pollution * 100);
+        const ideal = now.pollution < config.pollution.complaintThreshold;
+        // Progress: a polluter nearby was removed or a park or tree was planted (pollution clears over time)
+        const progress = now.pollutersNearby < (before.pollutersNearby ?? 0) ||
+          now.greeneryNearby > (before.greeneryNearby ?? 0);
+        resolved = ideal || progress;
+        detail = `${place}の汚染度: ${percent}%, 周辺の工場・発電所: ${now.pollutersNearby}軒, 公園・木: ${now.greeneryNearby}か所`;
+        if (!resolved) {
+          suggestion = `${place}はまだ汚染度${percent}%です。近くの工場や石炭発電所を離すか、間に木や公園を置いてください（get_pollution で確認できます）。`;
+        }
         break;
-      case 'disaster':
-        delta = after.damagedTileCount === 0 ? 15 : -5;
+      }
+      case 'education':
+      case 'health':
+      case 'police':
+      case 'fire': {
+        const service = COVERAGE_REQUESTS[request.type];
+        const name = SERVICE_LABELS[service];
+        const ideal = !now.unservedBy.includes(service);
+        // Progress: a new building of the type reaches the tile (it may still need staff or power)
+        const progress = (now.servicesInReach[service] ?? 0) > (before.servicesInReach?.[service] ?? 0);
+        resolved = ideal || progress;
+        detail = `${place}の${label}: ${name} ${ideal ? '利用可' : '利用不可'}, 範囲内の${name}: ${now.servicesInReach[service] ?? 0}軒`;
+        if (!resolved) {
+          suggestion = `${place}の${label}はまだ${name}を利用できません。近くに${name}を建てるか、範囲内の${name}の電気・道路・職員を確認してください（get_services で確認できます）。`;
+        }
         break;
+      }
+    }
+
+    return { resolved, detail, suggestion };
+  }
+
+  /** Capture the state of the tile a request is about. */
+  private captureLocation(request: CitizenRequest): LocationSnapshot {
+    const city = this.city;
+    const { x, y } = request.location;
+    const tile = city.getTile(x, y);
+    const b = tile?.building;
+    const citizen = this.findCitizen(request);
+
+    return {
+      buildingType: b?.type ?? null,
+      powered: !!b?.powered,
+      roadAccess: !!b?.roadAccess?.value,
+      employed: !!citizen?.workplace,
+      ...this.scanNearby(x, y),
+      congestion: b?.type === 'road' ? b.congestion : 0,
+      damaged: !!tile?.damaged,
+      unservedBy: Object.values(COVERAGE_REQUESTS).filter((service) =>
+        city.coverage.findUnserved(service, b?.residents?.list ?? []).length > 0),
+      servicesInReach: this.countServicesInReach(x, y),
+      pollution: city.pollution.getValue(x, y),
+    };
+  }
+
+  /** Count the civic buildings of each type whose coverage radius reaches a tile. */
+  private countServicesInReach(cx: number, cy: number): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (let x = 0; x < this.city.width; x++) {
+      for (let y = 0; y < this.city.height; y++) {
+        const b = this.city.getTile(x, y)?.building;
+        if (!SERVICE_LABELS[b?.type] || Math.abs(x - cx) + Math.abs(y - cy) > b.radius) continue;
+        counts[b.type] = (counts[b.type] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }
+
+  /** Count the buildings within NEARBY_DISTANCE tiles (Manhattan distance) of a tile. */
+  private scanNearby(cx: number, cy: number): Pick<LocationSnapshot,
+    'roadsNearby' | 'housingNearby' | 'vacanciesNearby' | 'shopsNearby' | 'workplacesNearby' |
+    'pollutersNearby' | 'greeneryNearby'> {
+    const counts = {
+      roadsNearby: 0, housingNearby: 0, vacanciesNearby: 0, shopsNearby: 0, workplacesNearby: 0,
+      pollutersNearby: 0, greeneryNearby: 0,
+    };
+
+    for (let x = cx - NEARBY_DISTANCE; x <= cx + NEARBY_DISTANCE; x++) {
+      for (let y = cy - NEARBY_DISTANCE; y <= cy + NEARBY_DISTANCE; y++) {
+        if (Math.abs(x - cx) + Math.abs(y - cy) > NEARBY_DISTANCE) continue;
+        const b = this.city.getTile(x, y)?.building;
+        if (!b) continue;
+
+        if (b.type === 'road') {
+          counts.roadsNearby++;
+        } else if (b.type === 'residential') {
+          counts.housingNearby++;
+          if (b.development.state === 'developed') {
+            counts.vacanciesNearby += Math.max(0, b.residents.maximum - b.residents.count);
+          }
+        } else if (b.type === 'commercial' || b.type === 'industrial') {
+          counts.workplacesNearby++;
+          if (b.type === 'commercial') counts.shopsNearby++;
+        } else if (b.absorption > 0) {
+          counts.greeneryNearby++;
+        }
+        if (b.type === 'industrial' || b.pollution > 0) counts.pollutersNearby++;
+      }
     }
 
-    return delta;
+    return counts;
+  }
+
+  /** Find the citizen who made a request, if they still live in the city. */
+  private findCitizen(request: CitizenRequest): any | null {
+    if (!request.citizenId || !request.home) return null;
+    const home = this.city.getTile(request.home.x, request.home.y)?.building;
+    return home?.residents?.list?.find((c: any) => c.id === request.citizenId) ?? null;
   }
 
   private captureSnapshot(): CitySnapshot {
@@ -371,14 +754,14 @@ export class RequestEngine {
     let noRoadAccess = 0;
     let damagedTileCount = 0;
 
-    for (let x = 0; x < city.size; x++) {
-      for (let y = 0; y < city.size; y++) {
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
         const tile = city.getTile(x, y);
         if (tile?.damaged) damagedTileCount++;
         if (!tile?.building) continue;
         const b = tile.building;
 
-        if (!b.powered && b.type !== 'road' && b.type !== 'power-plant' && b.type !== 'power-line') {
+        if (!b.powered && b.power?.required > 0) {
           unpoweredCount++;
         }
 
@@ -386,12 +769,12 @@ export class RequestEngine {
           residentialCount++;
           residentialCapacity += b.residents?.maxCount ?? 4;
           totalResidents += b.residents?.count ?? 0;
-          employed += b.residents?.list?.filter((c: any) => c.job)?.length ?? 0;
+          employed += b.residents?.list?.filter((c: any) => c.workplace)?.length ?? 0;
         } else if (b.type === 'commercial') {
           commercialCount++;
         } else if (b.type === 'industrial') {
           industrialCount++;
-        } else if (b.type === 'power-plant') {
+        } else if (b.type === 'power-plant' || b.type === 'solar-power-plant' || b.type === 'nuclear-power-plant') {
           powerPlantCount++;
         } else if (b.type === 'power-line') {
           powerLineCount++;
@@ -425,15 +808,14 @@ export class RequestEngine {
   }
 
   /**
-   * Transition to idle and schedule the next request with adaptive timing.
+   * Schedule the next complaint with adaptive timing.
    * Cooldown depends on city state: more problems / lower happiness / larger population
    * → citizens speak up sooner. Random jitter keeps it feeling natural.
    */
-  private transitionToIdle(): void {
-    this.phase = 'idle';
+  private scheduleNextComplaint(): void {
     this.nextCooldownMs = this.computeNextCooldown();
-    this.lastIdleTime = Date.now();
-    console.log(`[RequestEngine] → idle (next request in ~${(this.nextCooldownMs / 1000).toFixed(0)}s)`);
+    this.lastComplaintTime = this.city.simTimeMs;
+    console.log(`[RequestEngine] Next complaint in ~${(this.nextCooldownMs / 1000).toFixed(0)}s`);
   }
 
   private computeNextCooldown(): number {
@@ -457,57 +839,160 @@ export class RequestEngine {
     cooldown -= Math.min(snap.population * 330, 10_000);
 
     // Random jitter: ±8s for natural variation
-    cooldown += (Math.random() - 0.5) * 16_000;
+    cooldown += (this.rng.next() - 0.5) * 16_000;
 
     // Clamp: min 20s, max 90s
     return Math.max(20_000, Math.min(90_000, cooldown));
   }
 
+  /** Kinds of problem that at least one citizen could complain about. */
   private detectProblems(): string[] {
+    return [...new Set(this.findComplaints().map(c => c.type))];
+  }
+
+  /**
+   * Find every tile with a problem, together with the citizens it affects:
+   * the residents of a home, the workers of a shop or factory, the drivers
+   * stuck in a jam or the neighbors of a damaged tile.
+   */
+  private findComplaints(): Complaint[] {
+    const city = this.city;
     const snap = this.captureSnapshot();
-    const problems: string[] = [];
+    const complaints: Complaint[] = [];
+    const residents: any[] = [];
 
-    if (snap.population > 0 && snap.population > snap.residentialCapacity * 0.8) {
-      problems.push('housing');
-    }
-    if (snap.totalResidents > 0 && (snap.totalResidents - snap.employed) > 0 &&
-        (snap.commercialCount + snap.industrialCount) < snap.residentialCount) {
-      problems.push('jobs');
-    }
-    if (snap.unpoweredCount > 0) {
-      problems.push('power');
+    const housingShortage = snap.population > 0 && snap.population > snap.residentialCapacity * 0.8;
+    const jobShortage = (snap.commercialCount + snap.industrialCount) < snap.residentialCount;
+
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const tile = city.getTile(x, y);
+        const b = tile?.building;
+        if (!b) continue;
+
+        const location = { x, y };
+        const living: any[] = b.residents?.list ?? [];
+        const working: any[] = b.jobs?.workers ?? [];
+        const citizens = living.length > 0 ? living : working;
+        const subject: RequestSubject = living.length > 0 ? 'home' : working.length > 0 ? 'workplace' : 'lot';
+        residents.push(...living);
+
+        if (!b.powered && b.power?.required > 0) {
+          complaints.push({ type: 'power', location, subject, citizens });
+        }
+        if (b.roadAccess && !b.roadAccess.value && b.type !== 'road' && b.type !== 'power-line') {
+          complaints.push({ type: 'road', location, subject, citizens });
+        }
+        if (living.length === 0) continue;
+
+        const unemployed = living.filter(c => c.state === 'unemployed');
+        if (jobShortage && unemployed.length > 0) {
+          complaints.push({ type: 'jobs', location, subject, citizens: unemployed });
+        }
+
+        const nearby = this.scanNearby(x, y);
+        if (housingShortage && b.residents.count >= b.residents.maximum && nearby.vacanciesNearby === 0) {
+          complaints.push({ type: 'housing', location, subject, citizens: living });
+        }
+        if (nearby.shopsNearby === 0) {
+          complaints.push({ type: 'commerce', location, subject, citizens: living });
+        }
+        if (city.pollution.getValue(x, y) >= config.pollution.complaintThreshold) {
+          complaints.push({ type: 'pollution', location, subject, citizens: living });
+        }
+
+        for (const [type, service] of Object.entries(COVERAGE_REQUESTS) as [keyof typeof COVERAGE_REQUESTS, string][]) {
+          if (snap.population < config.civic.buildings[service].minPopulation) continue;
+          const unserved = city.coverage.findUnserved(service, living);
+          // Children without a school seat are spoken for by their family
+          if (unserved.length > 0) {
+            complaints.push({ type, location, subject, citizens: type === 'education' ? living : unserved });
+          }
+        }
+      }
     }
-    if (snap.noRoadAccess > 0) {
-      problems.push('road');
+
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        if (!city.getTile(x, y)?.damaged) continue;
+        const neighbors = residents.filter(c =>
+          Math.abs(c.residence.x - x) + Math.abs(c.residence.y - y) <= NEARBY_DISTANCE);
+        complaints.push({ type: 'disaster', location: { x, y }, subject: 'tile', citizens: neighbors });
+      }
     }
-    if (snap.residentialCount > 0 && snap.commercialCount < snap.residentialCount * 0.3) {
-      problems.push('commerce');
+
+    const worst = city.traffic.getJammedRoads(city)[0];
+    if (worst) {
+      const drivers = this.findCommutersThrough(residents, worst);
+      if (drivers.length > 0) {
+        complaints.push({ type: 'traffic', location: { x: worst.x, y: worst.y }, subject: 'road', citizens: drivers });
+      }
     }
-    if (snap.damagedTileCount > 0) {
-      problems.push('disaster');
+
+    return complaints;
+  }
+
+  /** Find the employed citizens whose drive to work passes through a road tile. */
+  private findCommutersThrough(residents: any[], road: RequestLocation): any[] {
+    // Citizens sharing a home and workplace drive the same route
+    const trips = new Map<string, any[]>();
+    for (const citizen of residents) {
+      if (!citizen.workplace) continue;
+      const { residence, workplace } = citizen;
+      const key = `${residence.x},${residence.y}>${workplace.x},${workplace.y}`;
+      trips.set(key, [...(trips.get(key) ?? []), citizen]);
     }
 
-    return problems;
+    const drivers: any[] = [];
+    for (const commuters of [...trips.values()].slice(0, MAX_TRAFFIC_ROUTES)) {
+      const route = this.city.findRoute(commuters[0].residence, commuters[0].workplace);
+      if (route?.tiles.some((t: RequestLocation) => t.x === road.x && t.y === road.y)) {
+        drivers.push(...commuters);
+      }
+    }
+    return drivers;
   }
 
-  private createRequest(problem: string): CitizenRequest {
-    const name = randomName();
-    const messages: Record<string, string> = {
-      housing: 'もっと家が必要です！新しい住宅を建ててください。',
-      jobs: '仕事が見つかりません...工場かお店を建ててもらえませんか？',
-      power: '停電が続いています。発電所と送電線をお願いします！',
-      road: '道路がなくて不便です。道路を整備してください！',
-      commerce: '買い物できる場所が少ないです。商業施設を増やしてください！',
-      disaster: '大地震が起きました！街が壊れています、助けてください！',
+  private createRequest(complaint: Complaint): CitizenRequest {
+    const { type, location, subject } = complaint;
+    // An undeveloped lot has no residents yet, so its future owner complains
+    const citizen = complaint.citizens.length > 0 ? this.rng.pick(complaint.citizens) : null;
+    const place = `X${location.x}Y${location.y}`;
+    const label = SUBJECT_LABELS[subject];
+    const road = type === 'traffic' ? this.city.getTile(location.x, location.y)?.building : null;
+    const intersection = road?.style === 'three-way' || road?.style === 'four-way';
+
+    const messages: Record<CitizenRequest['type'], string> = {
+      housing: `${place}の家がいっぱいで、家族が一緒に住めません。近くに住宅を建ててください！`,
+      jobs: `${place}に住んでいますが、通える範囲に仕事が見つかりません...近くに工場かお店を建ててもらえませんか？`,
+      power: `${place}の私の${label}に電気が来ていません！発電所か送電線をつないでください。`,
+      road: `${place}の私の${label}に道路がつながっていなくて不便です。道路を整備してください！`,
+      commerce: `${place}の家の近くに買い物できる場所がありません。商業施設を建ててください！`,
+      disaster: `${place}が地震で壊れてしまいました！早く復旧してください！`,
+      traffic: `${place}の${intersection ? '交差点' : '道路'}がいつも渋滞しています！通勤に時間がかかって困っています。`,
+      education: `${place}に住んでいますが、子どもが通える学校に空きがありません。近くに学校を建ててください！`,
+      health: `${place}の近くに通える病院がなくて不安です。病院を建ててください！`,
+      police: `${place}のあたりは警察の目が届かず物騒です。警察署を建ててください！`,
+      fire: `${place}の近くに消防署がありません。火事や地震のときが心配です！`,
+      pollution: `${place}の空気が汚れていて、家族の体調が心配です。工場や発電所から離すか、木や公園を増やしてください！`,
     };
 
     return {
-      id: generateId(),
-      citizenName: name,
-      type: problem as CitizenRequest['type'],
-      message: messages[problem] || '',
-      createdAt: Date.now(),
+      id: generateId(this.rng),
+      citizenName: citizen?.name ?? randomName(this.rng),
+      type,
+      message: messages[type],
+      createdAt: this.city.simTimeMs,
       status: 'active',
+      priority: BASE_PRIORITY[type],
+      supporters: [],
+      deadline: this.city.simTimeMs + EXPIRY_MS,
+      citizenId: citizen?.id ?? null,
+      citizenState: citizen?.state ?? null,
+      home: citizen ? { x: citizen.residence.x, y: citizen.residence.y } : null,
+      workplace: citizen?.workplace ? { x: citizen.workplace.x, y: citizen.workplace.y } : null,
+      location,
+      subject,
     };
   }
 }
@@ -0,0 +1,199 @@
+/**
+ * Versioned save game format and localStorage save slots.
+ * A save wraps the full simulation state (`City.serialize()`), the request
+ * engine history, the running scenario and the citizens' memories. Older formats are migrated step by
+ * step on load.
+ */
+import type { CitizenProfileState } from './citizen-profiles';
+import type { CityLayout } from './city-api';
+import type { RequestEngineState } from './request-engine';
+import type { ScenarioState } from './scenario-runner';
+
+/** Current save format version */
+export const SAVE_VERSION = 7;
+/** Number of rotating autosave slots */
+export const AUTOSAVE_SLOTS = 3;
+/** How often the game is autosaved */
+export const AUTOSAVE_INTERVAL_MS = 60 * 1000;
+
+const STORAGE_PREFIX = 'ai-city-builder:save:';
+
+export interface SaveGame {
+  version: number;
+  /** ISO timestamp of when the save was written */
+  savedAt: string;
+  /** Output of `City.serialize()` */
+  city: any;
+  requestEngine: RequestEngineState | null;
+  /** The scenario being played, or null in free play */
+  scenario: ScenarioState | null;
+  citizenProfiles: CitizenProfileState | null;
+}
+
+export interface SaveSlotInfo {
+  slot: string;
+  savedAt: string;
+  cityName: string;
+  simTime: number;
+}
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ * Each one returns data in the format of the next version.
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // v1 is the building-only layout written by exportLayout()
+  1: (layout: CityLayout) => {
+    const size = layout.size ?? 8;
+    const tiles: any[] = [];
+    for (const entry of layout.buildings ?? []) {
+      const endX = entry.to_x ?? entry.x;
+      const endY = entry.to_y ?? entry.y;
+      for (let x = Math.min(entry.x, endX); x <= Math.max(entry.x, endX); x++) {
+        for (let y = Math.min(entry.y, endY); y <= Math.max(entry.y, endY); y++) {
+          tiles.push({ x, y, building: { type: entry.type } });
+        }
+      }
+    }
+
+    return {
+      version: 2,
+      savedAt: new Date().toISOString(),
+      city: { name: layout.name, size, width: layout.width, height: layout.height, simTime: 0, tiles },
+      requestEngine: null,
+    };
+  },
+  // v2 only supported square maps
+  2: (save: any) => {
+    const { size, ...city } = save.city;
+    return { ...save, version: 3, city: { ...city, width: city.width ?? size, height: city.height ?? size } };
+  },
+  // v3 request engines held a single in-flight request
+  3: (save: any) => {
+    const engine = save.requestEngine;
+    if (!engine) return { ...save, version: 4 };
+
+    const requests = engine.requests.map((r: any) => ({ priority: 'normal', supporters: [], deadline: 0, ...r }));
+    const current = requests.find((r: any) => r.id === engine.currentRequestId);
+    const open = current && engine.snapshotBefore && engine.phase !== 'idle'
+      ? [{
+          id: current.id,
+          snapshotBefore: engine.snapshotBefore,
+          settleTicksRemaining: engine.phase === 'request_active' ? null : engine.settleTicksRemaining,
+          expiresInMs: engine.expiresInMs ?? 0,
+        }]
+      : [];
+
+    return {
+      ...save,
+      version: 4,
+      requestEngine: { requests, open, cooldownRemainingMs: engine.cooldownRemainingMs ?? 0 },
+    };
+  },
+  // v4 requests were about the whole city, not a tile, so open ones cannot be judged
+  4: (save: any) => {
+    const engine = save.requestEngine;
+    if (!engine) return { ...save, version: 5 };
+
+    const requests = engine.requests.map((r: any) => ({
+      citizenId: null,
+      citizenState: null,
+      home: null,
+      workplace: null,
+      location: null,
+      subject: null,
+      ...r,
+      status: r.status === 'active' ? 'expired' : r.status,
+    }));
+
+    return { ...save, version: 5, requestEngine: { ...engine, requests, open: [] } };
+  },
+  // v5 had no scenarios
+  5: (save: any) => ({ ...save, version: 6, scenario: null }),
+  // v6 citizens forgot everything between chats
+  6: (save: any) => ({ ...save, version: 7, citizenProfiles: null }),
+};
+
+/**
+ * Upgrade save data of any known version to the current format.
+ * Throws if the data is not a save or comes from a newer version.
+ */
+export function migrateSave(data: any): SaveGame {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Save data must be an object');
+  }
+
+  // Layouts exported before versioning have no version field
+  let save = { ...data, version: data.version ?? 1 };
+
+  if (save.version > SAVE_VERSION) {
+    throw new Error(`Save version ${save.version} is newer than supported version ${SAVE_VERSION}`);
+  }
+
+  while (save.version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[save.version];
+    if (!migrate) throw new Error(`No migration from save version ${save.version}`);
+    save = migrate(save);
+  }
+
+  if (!save.city || !Array.isArray(save.city.tiles) ||
+      typeof save.city.width !== 'number' || typeof save.city.height !== 'number') {
+    throw new Error('Save data is missing the city state');
+  }
+
+  return save as SaveGame;
+}
+
+/** Write a save to a localStorage slot. Returns an error message on failure. */
+export function writeSlot(slot: string, save: SaveGame): string | null {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + slot, JSON.stringify(save));
+    return null;
+  } catch (err: any) {
+    return `Failed to write save slot "${slot}": ${err.message}`;
+  }
+}
+
+/** Read a save from a localStorage slot, or null if the slot is empty. */
+export function readSlot(slot: string): any | null {
+  const json = localStorage.getItem(STORAGE_PREFIX + slot);
+  return json ? JSON.parse(json) : null;
+}
+
+/** List all saved slots, newest first. */
+export function listSlots(): SaveSlotInfo[] {
+  const slots: SaveSlotInfo[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(STORAGE_PREFIX)) continue;
+    try {
+      const save = JSON.parse(localStorage.getItem(key)!);
+      slots.push({
+        slot: key.slice(STORAGE_PREFIX.length),
+        savedAt: save.savedAt ?? '',
+        cityName: save.city?.name ?? save.name ?? '',
+        simTime: save.city?.simTime ?? 0,
+      });
+    } catch {
+      // Ignore corrupted entries
+    }
+  }
+  return slots.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+/** Name of the autosave slot that should be overwritten next (the oldest one). */
+export function nextAutosaveSlot(): string {
+  const saved = new Map(listSlots().map(s => [s.slot, s.savedAt]));
+  let oldest = 'autosave-0';
+  for (let i = 0; i < AUTOSAVE_SLOTS; i++) {
+    const slot = `autosave-${i}`;
+    if (!saved.has(slot)) return slot;
+    if (saved.get(slot)! < saved.get(oldest)!) oldest = slot;
+  }
+  return oldest;
+}
+
+/** Name of the most recently written autosave slot, if any. */
+export function latestAutosaveSlot(): string | null {
+  return listSlots().find(s => s.slot.startsWith('autosave-'))?.slot ?? null;
+}
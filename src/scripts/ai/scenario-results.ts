@@ -0,0 +1,90 @@
+/**
+ * Results screen shown when a scenario is won or lost: the score, stars,
+ * time taken and each objective, with buttons to retry or keep playing.
+ */
+import type { ScenarioResult } from './scenario-runner';
+
+/** Formats simulation steps (seconds at normal speed) as m:ss */
+export function formatSteps(steps: number): string {
+  const minutes = Math.floor(steps / 60);
+  const seconds = Math.floor(steps % 60);
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+export class ScenarioResultsDialog {
+  private dialogEl: HTMLElement;
+  private onRetry: ((scenarioId: string) => void) | null = null;
+  private scenarioId: string | null = null;
+
+  constructor() {
+    this.dialogEl = this.createDOM();
+    document.body.appendChild(this.dialogEl);
+    this.setupEvents();
+  }
+
+  /** Set what the retry button does */
+  setRetryFn(fn: (scenarioId: string) => void): void {
+    this.onRetry = fn;
+  }
+
+  private createDOM(): HTMLElement {
+    const el = document.createElement('div');
+    el.id = 'scenario-results-dialog';
+    el.style.display = 'none';
+    el.innerHTML = `
+      <div class="scenario-results-backdrop"></div>
+      <div class="scenario-results-panel">
+        <div class="scenario-results-title"></div>
+        <div class="scenario-results-stars"></div>
+        <div class="scenario-results-score"></div>
+        <ul class="scenario-results-objectives"></ul>
+        <div class="scenario-results-buttons">
+          <button class="scenario-results-retry">もう一度</button>
+          <button class="scenario-results-close">街を続ける</button>
+        </div>
+      </div>
+    `;
+    return el;
+  }
+
+  private setupEvents(): void {
+    this.dialogEl.querySelector('.scenario-results-close')!.addEventListener('click', () => this.close());
+    this.dialogEl.querySelector('.scenario-results-backdrop')!.addEventListener('click', () => this.close());
+    this.dialogEl.querySelector('.scenario-results-retry')!.addEventListener('click', () => {
+      const id = this.scenarioId;
+      this.close();
+      if (id) this.onRetry?.(id);
+    });
+  }
+
+  open(result: ScenarioResult): void {
+    this.scenarioId = result.scenarioId;
+    const won = result.status === 'won';
+
+    const title = this.dialogEl.querySelector('.scenario-results-title')!;
+    title.textContent = won ? `🏆 ${result.name} クリア！` : `⌛ ${result.name} 時間切れ`;
+    title.classList.toggle('scenario-results-lost', !won);
+
+    this.dialogEl.querySelector('.scenario-results-stars')!.textContent =
+      '★'.repeat(result.stars) + '☆'.repeat(3 - result.stars);
+    this.dialogEl.querySelector('.scenario-results-score')!.textContent =
+      `スコア ${result.score.toLocaleString('en-US')} ・ ${formatSteps(result.elapsed)} / ${formatSteps(result.timeLimit)}`;
+
+    const list = this.dialogEl.querySelector('.scenario-results-objectives')!;
+    list.innerHTML = '';
+    for (const objective of result.objectives) {
+      const item = document.createElement('li');
+      item.className = objective.completed ? 'objective-completed' : 'objective-missed';
+      item.textContent = objective.completed
+        ? `✅ ${objective.label}（${formatSteps(objective.completedAt ?? 0)}）`
+        : `❌ ${objective.label}（現在 ${objective.current}）`;
+      list.appendChild(item);
+    }
+
+    this.dialogEl.style.display = '';
+  }
+
+  close(): void {
+    this.dialogEl.style.display = 'none';
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Scenario Runner — plays one scenario at a time.
+ * Fires the scenario's scripted events, tracks its objectives as the city
+ * simulates, and ends the scenario as won once every objective has been
+ * reached, or as lost when the time limit passes first. Time is counted in
+ * simulation steps, so it stands still while the game is paused.
+ */
+import { getScenario } from './scenarios';
+import type { Scenario, ScenarioObjective, ObjectiveType } from './scenarios';
+
+export type ScenarioStatus = 'playing' | 'won' | 'lost';
+
+export interface ObjectiveProgress extends ScenarioObjective {
+  /** Current value of the measured quantity */
+  current: number;
+  completed: boolean;
+  /** Simulation steps after the start when the objective was reached */
+  completedAt: number | null;
+}
+
+export interface ScenarioResult {
+  scenarioId: string;
+  name: string;
+  description: string;
+  status: ScenarioStatus;
+  /** Simulation steps since the start (frozen when the scenario ends) */
+  elapsed: number;
+  timeLimit: number;
+  remaining: number;
+  objectives: ObjectiveProgress[];
+  score: number;
+  /** 0-3, only earned by winning */
+  stars: number;
+}
+
+/** Saved state of the running scenario. */
+export interface ScenarioState {
+  scenarioId: string;
+  /** `city.simTime` when the scenario started */
+  startTime: number;
+  status: ScenarioStatus;
+  /** `city.simTime` when it was won or lost */
+  endTime: number | null;
+  /** Objective id → steps after the start when it was reached */
+  completedAt: Record<string, number>;
+  /** Number of scripted events already fired (events run in order) */
+  firedEvents: number;
+  earthquakesStruck: number;
+  earthquakesSurvived: number;
+  /** Last earthquake seen, to notice new ones */
+  lastDisasterTick: number | null;
+  /** True while the city is recovering from an earthquake */
+  recovering: boolean;
+  /** Final score, set when the scenario ends */
+  score: number | null;
+  stars: number | null;
+}
+
+type NotifyFn = (
+  message: string,
+  type: 'event' | 'objective' | 'won' | 'lost',
+  result?: ScenarioResult,
+) => void;
+
+/** Points for each objective reached */
+const POINTS_PER_OBJECTIVE = 1000;
+/** Points for each simulation step left when the scenario is won */
+const POINTS_PER_STEP_LEFT = 2;
+/** Points for each point of happiness at the end */
+const POINTS_PER_HAPPINESS = 10;
+
+export class ScenarioRunner {
+  private city: any;
+  private notify: NotifyFn;
+  private scenario: Scenario | null = null;
+  private state: ScenarioState | null = null;
+
+  constructor(city: any, notify: NotifyFn) {
+    this.city = city;
+    this.notify = notify;
+  }
+
+  /** Start tracking a scenario. The city must already hold its starting layout. */
+  start(scenario: Scenario): void {
+    const lastDisasterTick = this.city.disasterService.lastDisasterTick;
+    this.scenario = scenario;
+    this.state = {
+      scenarioId: scenario.id,
+      startTime: this.city.simTime,
+      status: 'playing',
+      endTime: null,
+      completedAt: {},
+      firedEvents: 0,
+      earthquakesStruck: 0,
+      earthquakesSurvived: 0,
+      lastDisasterTick: Number.isFinite(lastDisasterTick) ? lastDisasterTick : null,
+      recovering: false,
+      score: null,
+      stars: null,
+    };
+    console.log(`[ScenarioRunner] Started "${scenario.name}"`);
+    this.onCityChanged();
+  }
+
+  /** Called once per simulation tick. */
+  onCityChanged(): void {
+    const scenario = this.scenario;
+    const state = this.state;
+    if (!scenario || !state || state.status !== 'playing') return;
+
+    const elapsed = this.city.simTime - state.startTime;
+    this.fireEvents(elapsed);
+    this.trackEarthquakes();
+
+    for (const objective of scenario.objectives) {
+      if (state.completedAt[objective.id] !== undefined) continue;
+      if (this.measure(objective.type) >= objective.target) {
+        state.completedAt[objective.id] = elapsed;
+        this.notify(`目標達成: ${objective.label}`, 'objective');
+      }
+    }
+
+    if (scenario.objectives.every((o) => state.completedAt[o.id] !== undefined)) {
+      this.finish('won');
+    } else if (elapsed >= scenario.timeLimit) {
+      this.finish('lost');
+    }
+  }
+
+  /** Progress of the running (or last finished) scenario, or null if there is none. */
+  getStatus(): ScenarioResult | null {
+    const scenario = this.scenario;
+    const state = this.state;
+    if (!scenario || !state) return null;
+
+    const elapsed = (state.endTime ?? this.city.simTime) - state.startTime;
+    return {
+      scenarioId: scenario.id,
+      name: scenario.name,
+      description: scenario.description,
+      status: state.status,
+      elapsed,
+      timeLimit: scenario.timeLimit,
+      remaining: Math.max(0, scenario.timeLimit - elapsed),
+      objectives: scenario.objectives.map((objective) => ({
+        ...objective,
+        current: this.measure(objective.type),
+        completed: state.completedAt[objective.id] !== undefined,
+        completedAt: state.completedAt[objective.id] ?? null,
+      })),
+      score: state.score ?? this.computeScore(elapsed),
+      stars: state.stars ?? 0,
+    };
+  }
+
+  /** Stop tracking the scenario, e.g. when a new city is started. */
+  reset(): void {
+    this.scenario = null;
+    this.state = null;
+  }
+
+  /** Capture the scenario state so it can be written into a save game. */
+  serialize(): ScenarioState | null {
+    return this.state ? { ...this.state, completedAt: { ...this.state.completedAt } } : null;
+  }
+
+  /** Replace the scenario state with one loaded from a save game. */
+  restore(state: ScenarioState | null): void {
+    const scenario = state ? getScenario(state.scenarioId) : null;
+    if (!state || !scenario) {
+      this.reset();
+      return;
+    }
+    this.scenario = scenario;
+    this.state = { ...state, completedAt: { ...state.completedAt } };
+    console.log(`[ScenarioRunner] Restored "${scenario.name}" (${state.status})`);
+  }
+
+  // ── Private ──
+
+  /** Fire the events that are due, in order. */
+  private fireEvents(elapsed: number): void {
+    const state = this.state!;
+    const events = this.scenario!.events;
+    while (state.firedEvents < events.length && events[state.firedEvents].at <= elapsed) {
+      const event = events[state.firedEvents];
+      const disaster = this.city.disasterService;
+      // One earthquake at a time; wait for the city to recover from the last one
+      if (event.earthquake && disaster.activeDisaster) return;
+
+      state.firedEvents++;
+      if (event.grant) {
+        this.city.budget.treasury += event.grant;
+      }
+      if (event.message) {
+        this.notify(event.message, 'event');
+      }
+      if (event.earthquake) {
+        const { x, y, size = 3 } = event.earthquake;
+        disaster.triggerDisaster(this.city, x, y, size, size);
+      }
+    }
+  }
+
+  /** Count earthquakes as they strike and as the city recovers from them. */
+  private trackEarthquakes(): void {
+    const state = this.state!;
+    const disaster = this.city.disasterService;
+    const tick = disaster.lastDisasterTick;
+    if (Number.isFinite(tick) && tick !== state.lastDisasterTick && tick >= state.startTime) {
+      state.lastDisasterTick = tick;
+      state.earthquakesStruck++;
+      state.recovering = true;
+    }
+    if (state.recovering && !disaster.activeDisaster) {
+      state.recovering = false;
+      state.earthquakesSurvived++;
+    }
+  }
+
+  /** Current value of the quantity an objective measures. */
+  private measure(type: ObjectiveType): number {
+    const city = this.city;
+    switch (type) {
+      case 'population':
+        return city.population;
+      case 'employment': {
+        let residents = 0;
+        let employed = 0;
+        for (let x = 0; x < city.width; x++) {
+          for (let y = 0; y < city.height; y++) {
+            const building = city.getTile(x, y)?.building;
+            if (building?.type !== 'residential') continue;
+            residents += building.residents?.count ?? 0;
+            employed += building.residents?.list?.filter((c: any) => c.workplace)?.length ?? 0;
+          }
+        }
+        return residents > 0 ? Math.round((employed / residents) * 100) : 0;
+      }
+      case 'happiness':
+        return Math.round(city.happiness);
+      case 'treasury':
+        return Math.floor(city.budget.treasury);
+      case 'earthquakes':
+        return this.state?.earthquakesSurvived ?? 0;
+    }
+  }
+
+  private computeScore(elapsed: number): number {
+    const scenario = this.scenario!;
+    const state = this.state!;
+    const completed = scenario.objectives.filter((o) => state.completedAt[o.id] !== undefined).length;
+    const stepsLeft = state.status === 'won' ? Math.max(0, scenario.timeLimit - elapsed) : 0;
+    return completed * POINTS_PER_OBJECTIVE +
+      stepsLeft * POINTS_PER_STEP_LEFT +
+      Math.round(this.city.happiness) * POINTS_PER_HAPPINESS;
+  }
+
+  private finish(status: 'won' | 'lost'): void {
+    const scenario = this.scenario!;
+    const state = this.state!;
+    state.status = status;
+    state.endTime = this.city.simTime;
+
+    const elapsed = state.endTime - state.startTime;
+    const left = Math.max(0, scenario.timeLimit - elapsed) / scenario.timeLimit;
+    state.score = this.computeScore(elapsed);
+    state.stars = status === 'won' ? 1 + (left >= 0.25 ? 1 : 0) + (left >= 0.5 ? 1 : 0) : 0;
+
+    const result = this.getStatus()!;
+    console.log(`[ScenarioRunner] "${scenario.name}" ${status} with ${state.score} points`);
+    this.notify(
+      status === 'won'
+        ? `シナリオ「${scenario.name}」クリア！ スコア ${state.score}（${'★'.repeat(state.stars)}）`
+        : `シナリオ「${scenario.name}」は時間切れです。スコア ${state.score}`,
+      status,
+      result,
+    );
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Scenario definitions: a starting layout, objectives to reach before a time
+ * limit, and scripted events. The demo presets are the starting layouts of
+ * the first scenarios. Played by the ScenarioRunner.
+ */
+import type { CityLayout } from './city-api';
+import { PRESETS } from './demo-presets';
+
+/**
+ * What an objective measures:
+ * - population: number of residents
+ * - employment: % of residents with a job
+ * - happiness: city happiness score (0-100)
+ * - treasury: money in the treasury
+ * - earthquakes: earthquakes the city has fully recovered from
+ */
+export type ObjectiveType = 'population' | 'employment' | 'happiness' | 'treasury' | 'earthquakes';
+
+export interface ScenarioObjective {
+  id: string;
+  type: ObjectiveType;
+  /** Value to reach (or exceed) */
+  target: number;
+  /** Shown to the player, e.g. "人口 200人" */
+  label: string;
+}
+
+/** Something that happens a fixed time into the scenario. */
+export interface ScenarioEvent {
+  /** Simulation steps after the start */
+  at: number;
+  /** Announced in the chat */
+  message?: string;
+  /** Strike an earthquake centred on the tile */
+  earthquake?: { x: number; y: number; size?: number };
+  /** Money added to the treasury */
+  grant?: number;
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  description: string;
+  /** City at the start. Built for free */
+  layout: CityLayout;
+  /** Terrain seed, so the layout always fits the map */
+  seed: number;
+  /** Treasury after the layout is built */
+  startingFunds: number;
+  /** Simulation steps (seconds at normal speed) to reach every objective */
+  timeLimit: number;
+  objectives: ScenarioObjective[];
+  events: ScenarioEvent[];
+}
+
+export const SCENARIOS: Record<string, Scenario> = {
+  'starter-town': {
+    id: 'starter-town',
+    name: 'Starter Town',
+    description: '小さな町を育てて、住民全員に仕事がある町にしよう。',
+    layout: PRESETS['starter-town'],
+    seed: 3,
+    startingFunds: 5000,
+    timeLimit: 900,
+    objectives: [
+      { id: 'population', type: 'population', target: 60, label: '人口 60人' },
+      { id: 'employment', type: 'employment', target: 80, label: '就業率 80%' },
+    ],
+    events: [
+      { at: 0, message: '町長就任おめでとうございます！15分以内に人口60人・就業率80%を目指しましょう。' },
+      { at: 450, message: '折り返し地点です。残り7分30秒。' },
+    ],
+  },
+  'grid-city': {
+    id: 'grid-city',
+    name: 'Grid City',
+    description: '碁盤の目の街を人口200人の幸せな都市に育てよう。',
+    layout: PRESETS['grid-city'],
+    seed: 14,
+    startingFunds: 8000,
+    timeLimit: 1500,
+    objectives: [
+      { id: 'population', type: 'population', target: 200, label: '人口 200人' },
+      { id: 'happiness', type: 'happiness', target: 70, label: '幸福度 70' },
+      { id: 'treasury', type: 'treasury', target: 15000, label: '財源 $15,000' },
+    ],
+    events: [
+      { at: 0, message: '25分以内に人口200人・幸福度70・財源$15,000を達成しましょう。' },
+      { at: 30, message: '北西の発電所が道路から離れていて発電できていません。電力網を調べてみましょう。' },
+      { at: 600, message: '国から都市開発補助金 $3,000 が交付されました。', grant: 3000 },
+    ],
+  },
+  'downtown-core': {
+    id: 'downtown-core',
+    name: 'Downtown Core',
+    description: '地震の多い都心部。2度の地震から復旧しながら街を守ろう。',
+    layout: PRESETS['downtown'],
+    seed: 12,
+    startingFunds: 10000,
+    timeLimit: 2400,
+    objectives: [
+      { id: 'earthquakes', type: 'earthquakes', target: 2, label: '地震から2回復旧' },
+      { id: 'population', type: 'population', target: 120, label: '人口 120人' },
+    ],
+    events: [
+      { at: 0, message: 'この地域では大きな地震が予想されています。40分以内に2度の地震から復旧し、人口120人を目指しましょう。' },
+      { at: 30, message: '発電所が道路につながっておらず、街は停電しています。' },
+      { at: 180, message: '【地震速報】都心部で強い揺れを観測しました！', earthquake: { x: 7, y: 5, size: 3 } },
+      { at: 1080, message: '【地震速報】住宅地で再び強い揺れ！', earthquake: { x: 11, y: 6, size: 3 } },
+    ],
+  },
+};
+
+export function getScenario(id: string): Scenario | null {
+  return SCENARIOS[id] ?? null;
+}
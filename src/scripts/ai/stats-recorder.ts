@@ -0,0 +1,177 @@
+/**
+ * Stats Recorder — the city's vital statistics over time.
+ * Takes one sample per simulation step into a ring buffer, so the status bar
+ * can draw trends and the AI can explain changes ("why did happiness drop
+ * over the last 5 minutes"). Times are simulation steps (`city.simTime`).
+ */
+import { BuildingType } from '../sim/buildings/buildingType.js';
+
+/** Metrics sampled every step, besides the building counts */
+const BASE_METRICS = [
+  /** Number of residents */
+  'population',
+  /** City happiness score (0-100) */
+  'happiness',
+  /** % of residents with a job */
+  'employment',
+  /** % of buildings that need power and are fully powered */
+  'powered',
+  /** Money in the treasury */
+  'treasury',
+  /** Citizen requests waiting for the mayor */
+  'requestsOpen',
+  /** Requests fulfilled since the city was founded */
+  'requestsFulfilled',
+  /** Requests that expired since the city was founded */
+  'requestsExpired',
+  /** Tiles damaged by a disaster and not yet recovered */
+  'damagedTiles',
+  /** Disasters that have struck since recording started */
+  'disasters',
+  /** Citizens born since the city was founded */
+  'births',
+  /** Citizens who died since the city was founded */
+  'deaths',
+  /** Citizens who moved into the city since it was founded */
+  'movedIn',
+  /** Citizens who left the city since it was founded */
+  'movedOut',
+];
+
+/** Every metric that can be queried. Building counts are `buildings.<type>` */
+export const METRICS: string[] = [
+  ...BASE_METRICS,
+  ...Object.values(BuildingType).map((type) => `buildings.${type}`),
+];
+
+/** Samples kept: one hour of play at normal speed */
+const CAPACITY = 3600;
+
+export class StatsRecorder {
+  private city: any;
+  /** Simulation step of each sample */
+  private times = new Float64Array(CAPACITY);
+  /** Values of each metric, stored alongside `times` */
+  private columns = new Map<string, Float64Array>(
+    METRICS.map((metric) => [metric, new Float64Array(CAPACITY)]),
+  );
+  /** Index the next sample is written to */
+  private next = 0;
+  /** Number of samples held (at most CAPACITY) */
+  private count = 0;
+  private disasters = 0;
+  private lastDisasterTick: number | null = null;
+
+  constructor(city: any) {
+    this.city = city;
+  }
+
+  /** Called once per simulation tick. Samples every metric. */
+  record(): void {
+    const sample = this.measure();
+    const index = this.next;
+    this.times[index] = this.city.simTime;
+    for (const metric of METRICS) {
+      this.columns.get(metric)![index] = sample[metric] ?? 0;
+    }
+    this.next = (index + 1) % CAPACITY;
+    this.count = Math.min(this.count + 1, CAPACITY);
+  }
+
+  /** Forget every sample, e.g. when a new city is started or a game is loaded. */
+  clear(): void {
+    this.next = 0;
+    this.count = 0;
+    this.disasters = 0;
+    this.lastDisasterTick = null;
+  }
+
+  /** Steps of the oldest and newest sample, or null if nothing is recorded. */
+  getRange(): { from: number; to: number } | null {
+    if (this.count === 0) return null;
+    return { from: this.times[this.indexOf(0)], to: this.times[this.indexOf(this.count - 1)] };
+  }
+
+  /**
+   * Samples of one metric between two steps (inclusive), oldest first,
+   * as [step, value] pairs. Returns null for an unknown metric.
+   */
+  getSeries(metric: string, from = -Infinity, to = Infinity): [number, number][] | null {
+    const column = this.columns.get(metric);
+    if (!column) return null;
+
+    const series: [number, number][] = [];
+    for (let i = 0; i < this.count; i++) {
+      const index = this.indexOf(i);
+      const time = this.times[index];
+      if (time >= from && time <= to) series.push([time, column[index]]);
+    }
+    return series;
+  }
+
+  // ── Private ──
+
+  /** Buffer index of the i-th oldest sample */
+  private indexOf(i: number): number {
+    return (this.next - this.count + i + CAPACITY) % CAPACITY;
+  }
+
+  private measure(): Record<string, number> {
+    const city = this.city;
+    const sample: Record<string, number> = {
+      population: city.population,
+      happiness: Math.round(city.happiness * 10) / 10,
+      treasury: Math.floor(city.budget.treasury),
+      damagedTiles: 0,
+    };
+    for (const type of Object.values(BuildingType)) {
+      sample[`buildings.${type}`] = 0;
+    }
+
+    let residents = 0;
+    let employed = 0;
+    let consumers = 0;
+    let powered = 0;
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const tile = city.getTile(x, y);
+        if (tile.damaged) sample.damagedTiles++;
+        const building = tile.building;
+        if (!building) continue;
+
+        sample[`buildings.${building.type}`]++;
+        if (building.power?.required > 0) {
+          consumers++;
+          if (building.power.isFullyPowered) powered++;
+        }
+        if (building.type === 'residential') {
+          residents += building.residents?.count ?? 0;
+          employed += building.residents?.list?.filter((c: any) => c.workplace)?.length ?? 0;
+        }
+      }
+    }
+    sample.employment = residents > 0 ? Math.round((employed / residents) * 100) : 0;
+    sample.powered = consumers > 0 ? Math.round((powered / consumers) * 100) : 100;
+
+    const requests = (window as any).requestEngine?.countByStatus?.();
+    sample.requestsOpen = requests?.active ?? 0;
+    sample.requestsFulfilled = requests?.fulfilled ?? 0;
+    sample.requestsExpired = requests?.expired ?? 0;
+
+    // Count each disaster once, when it strikes. One from before recording
+    // started (e.g. in a loaded save) is not counted
+    const tick = city.disasterService.lastDisasterTick;
+    if (Number.isFinite(tick) && tick !== this.lastDisasterTick) {
+      if (this.lastDisasterTick !== null || tick >= city.simTime - 1) this.disasters++;
+      this.lastDisasterTick = tick;
+    }
+    sample.disasters = this.disasters;
+
+    sample.births = city.demographics.births;
+    sample.deaths = city.demographics.deaths;
+    sample.movedIn = city.demographics.movedIn;
+    sample.movedOut = city.demographics.movedOut;
+
+    return sample;
+  }
+}
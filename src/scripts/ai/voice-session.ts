@@ -1,30 +1,43 @@
 /**
- * Voice Session Manager - Gemini Live API for voice-based mayor interaction.
- * Handles WebSocket session, audio I/O via Web Audio API, and function calling.
+ * Voice Session Manager - live audio API for voice-based mayor interaction.
+ * Handles the provider's live session, audio I/O via Web Audio API, and function calling.
  */
-import { GoogleGenAI, Modality, Session } from '@google/genai';
-import type { LiveServerMessage, FunctionResponse } from '@google/genai';
 import { cityTools } from './gemini-service';
 import * as CityAPI from './city-api';
 import { waitForSilence, setMayorSpeaking } from './speech-coordinator';
+import type { LiveSession, LLMProvider, ToolCall, ToolResult } from './providers';
 
-const LIVE_MODEL = 'gemini-2.5-flash-native-audio-latest';
-
-const SYSTEM_INSTRUCTION = `You are the AI Mayor of a conversational city-building game. Players talk to you by voice.
+/** Built on connect so the grid description matches the current map size. */
+const buildSystemInstruction = () => `You are the AI Mayor of a conversational city-building game. Players talk to you by voice.
 There is NO toolbar — you are the ONLY way to build. Help build and manage the city using the available tools.
 
-The city is an 8x8 grid with compass directions and labeled coordinates:
-- Columns: X0 (West) → X7 (East), where X0=0, X1=1, ..., X7=7
-- Rows: Y0 (North) → Y7 (South), where Y0=0, Y1=1, ..., Y7=7
+${CityAPI.describeGrid()}
 Always call get_city_state before placing buildings to check what's occupied.
-Building types: residential, commercial, industrial, road, power-plant, power-line.
+Building types: residential, commercial, industrial, road, power-plant (coal, 100 kW), solar-power-plant (30 kW, clean), nuclear-power-plant (400 kW, expensive), power-line, school, hospital, police-station, fire-station, park, tree, fountain, and the one-per-city landmarks ferris-wheel, stadium and statue.
+Terrain limits building: water allows only roads (bridges) and power lines, mountains allow only roads, power lines and trees, and power plants need flat land (grass or sand).
+To connect two places, use draw_road or draw_power_line with the two ends; the line is routed around buildings automatically.
+To explain why something changed over time, call get_history (last_seconds 300 covers the last 5 minutes).
+Citizens are born, age, move in and out, and die; use get_demographics to see who lives in the city.
+Schools, hospitals, police and fire stations need power, roads and staff, and serve homes within their radius; use get_services to find unserved residents.
+Parks and landmarks need no power or road; they make nearby homes happier and help zones level up. get_amenities shows their reach.
+Factories and power plants pollute the homes around them, making residents sick and unhappy; parks and trees absorb it. get_pollution shows the sources.
+If the player is playing a scenario, get_objectives shows its objectives and the time left.
+Citizens only work where they can drive by road; use find_route to check if two places are connected.
+Use get_power_grid to check supply and demand when buildings lose power; an overloaded grid has rolling brownouts.
+Jammed roads lower happiness and slow growth; use get_traffic to find them (show_overlay colours the roads for the player).
+set_overlay colours the map for the player by power, road-access, jobs, residents, damage, land-value or pollution.
+When the player asks to pause, resume or fast-forward the game, call set_game_speed (pause, play, 2, 4 or max).
+If the player wants to take back the last construction, call undo_last_action instead of bulldozing tile by tile.
+Building costs money from the treasury and is refused when funds run out; use get_budget to check. Only change taxes with set_tax_rate when the player agrees (high taxes lower happiness).
 
 ## Citizen Request Handling
 When you receive a citizen request:
 1. Call get_city_state to check the current situation
-2. Propose a construction plan to the player and wait for approval
-3. After building, call ask_citizen to check if the citizen is satisfied
-4. If satisfied → call mark_request_resolved. If not → build more, then ask_citizen again.
+2. Propose the construction with propose_plan (shown as ghost tiles) and wait; the player approves it from the plan card, which builds it
+3. After it is built, call ask_citizen with the request_id to check if the citizen is satisfied
+4. If satisfied → call mark_request_resolved with the request_id. If not → build more, then ask_citizen again.
+Several requests can be open at once; get_requests lists them most urgent first, and a request escalates when more citizens complain.
+Each request names a tile (location); fix the problem there, as building elsewhere does not satisfy the citizen.
 
 ## Disaster System (HIGHEST PRIORITY)
 Earthquakes destroy buildings. Disaster recovery is TOP PRIORITY.
@@ -39,8 +52,8 @@ type StatusCallback = (status: VoiceStatus) => void;
 type TranscriptCallback = (text: string, role: 'user' | 'ai') => void;
 
 export class VoiceSession {
-  private ai: GoogleGenAI | null = null;
-  private session: Session | null = null;
+  private provider: LLMProvider | null = null;
+  private session: LiveSession | null = null;
   private audioContext: AudioContext | null = null;
   private mediaStream: MediaStream | null = null;
   private scriptNode: ScriptProcessorNode | null = null;
@@ -62,8 +75,13 @@ export class VoiceSession {
     this.onTranscript = onTranscript;
   }
 
-  initialize(apiKey: string): void {
-    this.ai = new GoogleGenAI({ apiKey });
+  initialize(provider: LLMProvider): void {
+    this.provider = provider;
+  }
+
+  /** True if the provider can hold a live audio conversation */
+  isAvailable(): boolean {
+    return !!this.provider?.connectLive;
   }
 
   async toggle(): Promise<void> {
@@ -78,7 +96,7 @@ export class VoiceSession {
   }
 
   private async connect(): Promise<void> {
-    if (!this.ai) return;
+    if (!this.provider?.connectLive) return;
 
     // Clean up any previous session state
     if (this.session) {
@@ -95,7 +113,7 @@ export class VoiceSession {
     this.audioChunksSent = 0;
 
     try {
-      // Get mic permission FIRST, before opening the WebSocket
+      // Get mic permission FIRST, before opening the session
       const mediaStream = await navigator.mediaDevices.getUserMedia({
         audio: {
           sampleRate: 16000,
@@ -106,23 +124,41 @@ export class VoiceSession {
       });
       this.mediaStream = mediaStream;
 
-      this.session = await this.ai.live.connect({
-        model: LIVE_MODEL,
+      this.session = await this.provider.connectLive({
+        system: buildSystemInstruction(),
+        tools: cityTools,
         callbacks: {
-          onopen: () => {
-            console.log('[Voice] WebSocket opened');
+          onToolCalls: (calls) => {
+            console.log('[Voice] Received tool call');
+            this.handleToolCalls(calls);
           },
-          onmessage: (msg: LiveServerMessage) => {
-            if (msg.setupComplete) {
-              console.log('[Voice] Setup complete');
-            }
-            this.handleMessage(msg);
+          onText: (text) => {
+            console.log('[Voice] Received text:', text);
+            this.onTranscript(text, 'ai');
+          },
+          onAudio: (data) => {
+            console.log(`[Voice] Received audio chunk (${data.length} bytes)`);
+            this.setStatus('speaking');
+            this.enqueueAudio(data);
+          },
+          onInterrupted: () => {
+            console.log('[Voice] Interrupted');
+            this.playbackQueue = [];
+          },
+          onTurnComplete: () => {
+            console.log('[Voice] Turn complete');
+            this.drainPlaybackQueue();
+            setTimeout(() => {
+              if (this.status === 'speaking' && this.isConnected) {
+                this.setStatus('listening');
+              }
+            }, 500);
           },
-          onerror: (e: ErrorEvent) => {
-            console.error('[Voice] WebSocket error:', e.message || e);
+          onError: (e) => {
+            console.error('[Voice] Session error:', e);
           },
-          onclose: (e: CloseEvent) => {
-            console.log(`[Voice] WebSocket closed: code=${e.code} reason="${e.reason}" (sent ${this.audioChunksSent} chunks)`);
+          onClose: (reason) => {
+            console.log(`[Voice] Session closed: ${reason} (sent ${this.audioChunksSent} chunks)`);
             this.isConnected = false;
             this.stopMicrophone();
 
@@ -143,11 +179,6 @@ export class VoiceSession {
             }
           },
         },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: SYSTEM_INSTRUCTION,
-          tools: cityTools,
-        },
       });
 
       // Session established - now start sending audio
@@ -208,12 +239,7 @@ export class VoiceSession {
 
         const base64 = this.arrayBufferToBase64(int16.buffer);
         try {
-          this.session.sendRealtimeInput({
-            audio: {
-              data: base64,
-              mimeType: 'audio/pcm;rate=16000',
-            } as any,
-          });
+          this.session.sendAudio(base64);
           this.audioChunksSent++;
           if (this.audioChunksSent <= 3) {
             console.log(`[Voice] Audio chunk #${this.audioChunksSent} sent (${base64.length} bytes base64)`);
@@ -248,59 +274,10 @@ export class VoiceSession {
     }
   }
 
-  private handleMessage(msg: LiveServerMessage): void {
-    // Handle tool calls
-    if (msg.toolCall?.functionCalls) {
-      console.log('[Voice] Received tool call');
-      this.handleToolCalls(msg.toolCall.functionCalls);
-      return;
-    }
-
-    // Handle server content
-    if (msg.serverContent) {
-      const parts = msg.serverContent.modelTurn?.parts;
-      if (parts) {
-        for (const part of parts) {
-          // Text transcript
-          if ((part as any).text) {
-            console.log('[Voice] Received text:', (part as any).text);
-            this.onTranscript((part as any).text, 'ai');
-          }
-          // Audio data
-          if ((part as any).inlineData?.data) {
-            const audioData = (part as any).inlineData;
-            if (audioData.mimeType?.includes('audio')) {
-              console.log(`[Voice] Received audio chunk (${audioData.data.length} bytes)`);
-              this.setStatus('speaking');
-              this.enqueueAudio(audioData.data);
-            }
-          }
-        }
-      }
-
-      if (msg.serverContent.interrupted) {
-        console.log('[Voice] Interrupted');
-        this.playbackQueue = [];
-      }
-
-      if (msg.serverContent.turnComplete) {
-        console.log('[Voice] Turn complete');
-        this.drainPlaybackQueue();
-        setTimeout(() => {
-          if (this.status === 'speaking' && this.isConnected) {
-            this.setStatus('listening');
-          }
-        }, 500);
-      }
-    }
-  }
-
-  private async handleToolCalls(functionCalls: any[]): Promise<void> {
-    const responses: FunctionResponse[] = [];
+  private async handleToolCalls(calls: ToolCall[]): Promise<void> {
+    const results: ToolResult[] = [];
 
-    for (const fc of functionCalls) {
-      const name = fc.name;
-      const args = fc.args || {};
+    for (const { id, name, args } of calls) {
 
       console.log(`[Voice] Tool call: ${name}`, args);
       this.onTranscript(`[Tool: ${name}]`, 'ai');
@@ -312,16 +289,12 @@ export class VoiceSession {
         result = { error: e.message };
       }
 
-      responses.push({
-        name,
-        response: result,
-        id: fc.id,
-      } as FunctionResponse);
+      results.push({ id, name, response: result });
     }
 
     if (this.session && this.isConnected) {
       try {
-        this.session.sendToolResponse({ functionResponses: responses });
+        this.session.sendToolResults(results);
       } catch (err) {
         console.warn('[Voice] Failed to send tool response:', err);
       }
@@ -340,33 +313,67 @@ export class VoiceSession {
         return CityAPI.zoneArea(args.x1, args.y1, args.x2, args.y2, args.type);
       case 'apply_layout':
         return CityAPI.applyLayout({ name: args.name, buildings: args.buildings });
+      case 'draw_road':
+        return CityAPI.drawLine('road', args.points);
+      case 'draw_power_line':
+        return CityAPI.drawLine('power-line', args.points);
+      case 'propose_plan':
+        return CityAPI.proposePlan({ name: args.name, description: args.description, buildings: args.buildings });
       case 'get_screenshot':
-        return { screenshot: CityAPI.getScreenshot() };
+        return { screenshot: CityAPI.getScreenshot(args.overlay) };
+      case 'set_overlay':
+        return CityAPI.showOverlay(args.type);
+      case 'get_objectives':
+        return CityAPI.getObjectives();
+      case 'set_game_speed':
+        return args.steps !== undefined ? CityAPI.stepTime(args.steps) : CityAPI.setGameSpeed(args.speed);
       case 'get_happiness':
         return CityAPI.getHappiness();
+      case 'get_demographics':
+        return CityAPI.getDemographics();
+      case 'get_services':
+        return CityAPI.getServices();
+      case 'get_amenities':
+        return CityAPI.getAmenities();
+      case 'get_pollution':
+        return CityAPI.getPollution();
+      case 'get_history':
+        return CityAPI.getHistory(args.metric, args.last_seconds !== undefined ? -args.last_seconds : undefined);
+      case 'get_budget':
+        return CityAPI.getBudget();
+      case 'set_tax_rate':
+        return CityAPI.setTaxRate(args.zone, args.rate);
+      case 'find_route':
+        return CityAPI.findRoute(args.from_x, args.from_y, args.to_x, args.to_y);
+      case 'get_power_grid':
+        return CityAPI.getPowerGrid();
+      case 'get_traffic':
+        return CityAPI.getTraffic(args.show_overlay);
+      case 'undo_last_action':
+        return CityAPI.undo();
       case 'get_requests':
-        return CityAPI.getActiveRequests();
+        return CityAPI.getActiveRequests(args.request_id);
       case 'ask_citizen': {
         const engine = (window as any).requestEngine;
         if (!engine) return { error: 'Request engine not available' };
-        const status = engine.checkRequestStatus();
+        const status = engine.checkRequestStatus(args.request_id);
         if (!status.request) return { message: status.detail };
         // In voice mode, do NOT trigger citizen speech — the mayor voice model
         // itself will relay the citizen's answer, preventing audio overlap.
         return {
+          requestId: status.request.id,
           citizenName: status.request.citizenName,
           requestType: status.request.type,
           resolved: status.resolved,
           detail: status.detail,
           suggestion: status.suggestion,
           hint: status.resolved
-            ? 'The citizen is satisfied. You should now call mark_request_resolved.'
+            ? `The citizen is satisfied. You should now call mark_request_resolved with request_id ${status.request.id}.`
             : `Not resolved yet. Citizen says: ${status.suggestion}`,
         };
       }
       case 'mark_request_resolved':
-        (window as any).requestEngine?.markResolved();
-        return { success: true, message: 'Request marked as resolved. Citizen evaluation will follow.' };
+        return CityAPI.markRequestResolved(args.request_id);
       case 'get_disaster_status': {
         const city = (window as any).game?.city;
         if (!city?.disasterService) return { error: 'Disaster service not available' };
@@ -116,10 +116,59 @@ export default {
     "type": "power",
     "filename": "industry-factory-old.glb"
   },
+  "solar-power-plant": {
+    "type": "power",
+    "filename": "solar-panel-house.glb"
+  },
+  "nuclear-power-plant": {
+    "type": "power",
+    "filename": "nuclear-power-plant.glb"
+  },
   "power-line": {
     "type": "power",
     "filename": "power_line_pole_modified.glb"
   },
+  "school": {
+    "type": "civic",
+    "filename": "building-school.glb"
+  },
+  "hospital": {
+    "type": "civic",
+    "filename": "building-hospital.glb"
+  },
+  "police-station": {
+    "type": "civic",
+    "filename": "building-policestation.glb"
+  },
+  "fire-station": {
+    "type": "civic",
+    "filename": "building-firestation.glb"
+  },
+  "park": {
+    "type": "amenity",
+    "filename": "tile-park.glb",
+    "castShadow": false
+  },
+  "tree": {
+    "type": "amenity",
+    "filename": "tree-oak.glb"
+  },
+  "fountain": {
+    "type": "amenity",
+    "filename": "fountain.glb"
+  },
+  "ferris-wheel": {
+    "type": "amenity",
+    "filename": "ferris-wheel.glb"
+  },
+  "stadium": {
+    "type": "amenity",
+    "filename": "building-stadium.glb"
+  },
+  "statue": {
+    "type": "amenity",
+    "filename": "burger-statue.glb"
+  },
   "road-straight": {
     "type": "road",
     "filename": "tile-road-straight.glb",
@@ -150,6 +199,25 @@ export default {
     "filename": "tile-plain_grass.glb",
     "castShadow": false
   },
+  "sand": {
+    "type": "terrain",
+    "filename": "tile-plain_sand.glb",
+    "castShadow": false
+  },
+  "water": {
+    "type": "terrain",
+    "filename": "tile-water.glb",
+    "castShadow": false
+  },
+  "hill": {
+    "type": "terrain",
+    "filename": "tile-plain-hump.glb",
+    "castShadow": false
+  },
+  "mountain": {
+    "type": "terrain",
+    "filename": "terrain-mountains.glb"
+  },
   "car-taxi": {
     "type": "vehicle",
     "filename": "car-taxi.glb",
@@ -90,6 +90,16 @@ export class CameraManager {
     this.updateCameraPosition();
   }
 
+  /**
+   * Centers the camera on the given point on the ground
+   * @param {number} x
+   * @param {number} z
+   */
+  lookAt(x, z) {
+    this.cameraOrigin.set(x, 0, z);
+    this.updateCameraPosition();
+  }
+
   resize() {
     const aspect = window.ui.gameWindow.clientWidth / window.ui.gameWindow.clientHeight;
     this.camera.left = (CAMERA_SIZE * aspect) / -2;
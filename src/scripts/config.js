@@ -22,7 +22,8 @@ export default {
     residents: {
       // Max # of residents in a house
       maxResidents: 2,         
-      // Chance for a resident to move in
+      // Chance for a household to move into a home with room, at 100
+      // happiness. Unhappy cities attract fewer newcomers
       residentMoveInChance: 0.5,
     },
     roadAccess: {
@@ -31,22 +32,194 @@ export default {
     },
   },
   citizen: {
+    // Simulation steps in one year of a citizen's life (one minute at
+    // normal speed)
+    stepsPerYear: 60,
+    // Age when children start school. Younger children stay at home
+    schoolAge: 6,
      // Minimum working age for a citizen
     minWorkingAge: 16,       
      // Age when citizens retire
     retirementAge: 65,       
-    // Max Manhattan distance a citizen will search for a job
-    maxJobSearchDistance: 4   
+    // Max length (in tiles) of the drive to work. Citizens only take jobs
+    // they can reach by road within this distance
+    maxCommuteDistance: 24,
+    // Youngest and oldest age of a citizen moving into the city
+    minMoveInAge: 18,
+    maxMoveInAge: 60,
+    // Chance that a newcomer brings a partner, if the home has room
+    partnerChance: 0.5,
+    // Smallest age gap between a parent and their child
+    generationGap: 18,
+    // Ages between which a couple can have children, and the chance each
+    // year that they have one (if their home has room)
+    minParentAge: 18,
+    maxParentAge: 45,
+    birthChance: 0.3,
+    // Age from which grown children may leave their parents' home, and the
+    // chance each year that they move to a free home elsewhere in the city
+    leaveHomeAge: 20,
+    leaveHomeChance: 0.3,
+    // Age from which citizens may die. The chance of dying each year grows
+    // by deathChancePerYear for every year past oldAge
+    oldAge: 70,
+    deathChancePerYear: 0.02,
+    // Nobody lives longer than this
+    maxAge: 100,
+    // Simulation steps an unemployed citizen looks for work before leaving
+    // the city, and the steps between their searches for a job
+    maxUnemployedSteps: 300,
+    unemployedSearchInterval: 5,
+    // Simulation steps between employed citizens looking for a job closer
+    // to home, and the tiles of driving a new job must save them
+    jobSearchInterval: 60,
+    minCommuteSaving: 4,
+  },
+  map: {
+    // Width and height of the map when the page opens without `?width=`
+    defaultSize: 8,
+    // Smallest and largest map width or height
+    minSize: 4,
+    maxSize: 64,
+  },
+  clock: {
+    // Length of one simulation step at normal (1x) speed, in milliseconds
+    stepMs: 1000,
+    // How often (ms) the game checks whether simulation steps are due
+    tickInterval: 50,
+    // Longest time (ms) spent simulating per check, so the page stays
+    // responsive at max speed
+    tickBudgetMs: 25,
+    // Most simulation steps run per check. At max speed this many steps
+    // are run every check, time budget permitting
+    maxStepsPerTick: 20,
+    // Vehicles move this many times faster than normal at max speed
+    maxAnimationSpeed: 8,
+    // Most steps a single step command can run
+    maxStepCount: 600,
   },
   vehicle: {
     // The distance travelled per millisecond
     speed: 0.0005,
     // The start/end time where the vehicle should fade
     fadeTime: 500,
-    // Maximum lifetime of a vehicle (controls max # of vehicles on screen)
-    maxLifetime: 10000,
-    // How often vehicles are spawned in milliseconds
-    spawnInterval: 1000
+    // Maximum lifetime of a vehicle. Vehicles are removed when they reach
+    // the end of their trip or after this long, whichever comes first
+    maxLifetime: 60000,
+    // Each employed citizen drives to work once every this many
+    // milliseconds, so more commuters means more vehicles on the road
+    commuteInterval: 20000,
+    // Maximum number of vehicles on the road at once
+    maxVehicles: 150,
+    // Minimum distance (in tiles) a vehicle keeps to the vehicle ahead
+    spacing: 0.3
+  },
+  power: {
+    // Output (kW) and pollution of each type of power plant
+    plants: {
+      'power-plant': { name: 'Coal Power Plant', output: 100, pollution: 8 },
+      'solar-power-plant': { name: 'Solar Farm', output: 30, pollution: 0 },
+      'nuclear-power-plant': { name: 'Nuclear Power Plant', output: 400, pollution: 2 },
+    },
+    // Power (kW) a level 1 zone needs. Each level adds the same amount again
+    demand: {
+      'residential': 8,
+      'commercial': 10,
+      'industrial': 15,
+    },
+    // Most power (kW) a power line can carry to the buildings beyond it
+    lineCapacity: 300,
+    // Most power (kW) any other building (zones, roads) passes on to its
+    // neighbors. Use power lines to move large amounts of power
+    buildingCapacity: 100,
+    // When a grid has more demand than supply, the buildings left without
+    // power change every this many simulation ticks (rolling brownouts)
+    brownoutRotationTicks: 5,
+  },
+  civic: {
+    // Civic service buildings. Each needs power, road access and staff
+    // (citizens working there), and serves the residents of the homes within
+    // `radius` tiles (walking distance), nearest first, up to `capacity`
+    // residents when fully staffed. A school's capacity is its seats, taken
+    // by children in school. Residents start asking for a service once the
+    // city reaches `minPopulation`
+    buildings: {
+      'school': { name: 'Elementary School', staff: 4, power: 10, radius: 6, capacity: 30, minPopulation: 10 },
+      'hospital': { name: 'General Hospital', staff: 6, power: 20, radius: 8, capacity: 120, minPopulation: 40 },
+      'police-station': { name: 'Police Station', staff: 4, power: 8, radius: 7, capacity: 100, minPopulation: 60 },
+      'fire-station': { name: 'Fire Station', staff: 4, power: 8, radius: 7, capacity: 100, minPopulation: 30 },
+    },
+    // Chance that a building within reach of a fire station survives a
+    // disaster (the tile is still damaged)
+    fireProtection: 0.5,
+    // Recovery time of damaged tiles within reach of a hospital, as a
+    // fraction of the normal time
+    hospitalRecovery: 0.6,
+  },
+  amenities: {
+    // Parks and landmarks need no power or road. Each makes the tiles within
+    // `radius` (walking distance) more desirable, by `desirability` next to
+    // it and fading with distance. Parks and trees also absorb `absorption`
+    // of the pollution within `radius` each step, fading the same way.
+    // Landmarks are unique: one of each per city
+    buildings: {
+      'park': { name: 'Park', radius: 3, desirability: 0.3, absorption: 0.3 },
+      'tree': { name: 'Tree', radius: 1, desirability: 0.1, absorption: 0.2 },
+      'fountain': { name: 'Fountain', radius: 2, desirability: 0.2 },
+      'ferris-wheel': { name: 'Ferris Wheel', radius: 6, desirability: 0.5, landmark: true },
+      'stadium': { name: 'Stadium', radius: 8, desirability: 0.4, landmark: true },
+      'statue': { name: 'Burger Statue', radius: 5, desirability: 0.6, landmark: true },
+    },
+    // Level-up chance of a zone on a fully desirable tile, as a multiple of
+    // the normal chance
+    levelUpMultiplier: 2,
+    // Happiness bonus when every resident lives on a fully desirable tile
+    maxHappinessBonus: 10,
+  },
+  pollution: {
+    // Pollution is kept as two fields (0-1 per tile). Each step every tile
+    // passes `spread` of its pollution on to its four neighbors and loses
+    // `decay` of it. Air pollution drifts far and clears quickly, while
+    // ground pollution hardly moves and lingers for a long time
+    air: { spread: 0.8, decay: 0.03 },
+    ground: { spread: 0.1, decay: 0.01 },
+    // Pollution a developed factory adds to its tile each step, per level
+    industrial: { air: 0.1, ground: 0.01 },
+    // Pollution a power plant adds to its tile each step, per point of the
+    // plant's `pollution` (see `power.plants`)
+    powerPlant: { air: 0.05, ground: 0.002 },
+    // Fraction of desirability lost on a fully polluted tile
+    desirabilityPenalty: 1,
+    // Fraction of the level-up chance lost by homes on a fully polluted tile
+    levelUpPenalty: 0.5,
+    // Health (0-100) citizens lose living on a fully polluted tile. Health
+    // moves towards its target by `healthChange` each step
+    maxHealthLoss: 60,
+    healthChange: 1,
+    // Extra chance of dying each year for a citizen with no health left,
+    // at any age
+    sickDeathChancePerYear: 0.05,
+    // Happiness penalty when every resident lives on a fully polluted tile
+    maxHappinessPenalty: 15,
+    // Pollution at which residents complain about their home
+    complaintThreshold: 0.25,
+  },
+  traffic: {
+    // Number of simulation ticks between recalculating the traffic load
+    updateInterval: 5,
+    // Number of commuters a straight, corner or dead-end road carries
+    // before it is fully congested
+    roadCapacity: 20,
+    // Number of commuters an intersection (three-way or four-way) carries
+    // before it is fully congested. Turning traffic slows intersections down
+    intersectionCapacity: 15,
+    // Congestion (0-1) at which a road counts as jammed
+    jamThreshold: 0.8,
+    // Happiness penalty when every road carrying traffic is fully congested
+    maxHappinessPenalty: 10,
+    // Fraction of the level-up chance lost by zones next to a fully
+    // congested road
+    levelUpPenalty: 0.75,
   },
   disaster: {
     // Minimum number of buildings before disasters can occur
@@ -66,4 +239,111 @@ export default {
     // Speed multiplier when actively recovering via recover_tile command
     activeRecoveryMultiplier: 5,
   },
+  landValue: {
+    // Tiles (walking distance) around a plot that affect its value
+    radius: 3,
+    // Value (0-1) of a plot with nothing around it
+    base: 0.3,
+    // Bonus when a road is within the radius
+    roadAccess: 0.2,
+    // Bonus when a powered building is on or next to the plot
+    power: 0.1,
+    // Bonus for each shop within the radius, up to maxCommercial shops
+    commercial: 0.05,
+    maxCommercial: 3,
+    // Bonus for each development level above 1, averaged over the zones
+    // within the radius
+    development: 0.1,
+    // Bonus when water is within the radius (waterfront)
+    waterfront: 0.1,
+    // Penalty for each factory within the radius, up to maxIndustrial
+    industrial: 0.08,
+    maxIndustrial: 3,
+    // Penalty when a road next to the plot is fully congested
+    congestion: 0.15,
+    // Penalty while the plot is damaged by a disaster
+    damage: 0.3,
+    // Bonus on a fully desirable plot (parks and landmarks nearby)
+    desirability: 0.2,
+    // Penalty on a fully polluted plot
+    pollution: 0.3,
+  },
+  terrain: {
+    // Set to false for a flat map covered in grass
+    enabled: true,
+    // Approximate size of lakes and hills in tiles
+    scale: 6,
+    // Elevation (0-1) below which a tile is water
+    waterLevel: 0.25,
+    // Elevation below which a tile is sand (beaches around water)
+    sandLevel: 0.32,
+    // Elevation above which a tile is a hill
+    hillLevel: 0.68,
+    // Elevation above which a tile is a steep mountain
+    mountainLevel: 0.78,
+  },
+  budget: {
+    // Money in the treasury when a new city is founded
+    startingFunds: 10000,
+    // Number of simulation ticks in one budget month
+    ticksPerMonth: 30,
+    // Construction cost for each building type
+    buildCost: {
+      'residential': 100,
+      'commercial': 150,
+      'industrial': 200,
+      'road': 25,
+      'power-plant': 2500,
+      'solar-power-plant': 1500,
+      'nuclear-power-plant': 12000,
+      'power-line': 10,
+      'school': 1200,
+      'hospital': 3000,
+      'police-station': 1500,
+      'fire-station': 1500,
+      'park': 300,
+      'tree': 20,
+      'fountain': 400,
+      'ferris-wheel': 5000,
+      'stadium': 8000,
+      'statue': 3000,
+    },
+    // Roads over water (bridges) cost this many times more than roads
+    bridgeCostMultiplier: 4,
+    // Monthly upkeep for each building type
+    upkeep: {
+      'road': 1,
+      'power-plant': 50,
+      'solar-power-plant': 10,
+      'nuclear-power-plant': 200,
+      'power-line': 0.5,
+      'school': 30,
+      'hospital': 60,
+      'police-station': 40,
+      'fire-station': 40,
+      'park': 5,
+      'fountain': 5,
+      'ferris-wheel': 50,
+      'stadium': 80,
+      'statue': 10,
+    },
+    // Monthly tax paid at a 100% rate by each resident (residential) or
+    // worker (commercial/industrial), multiplied by the building level
+    taxBase: {
+      'residential': 20,
+      'commercial': 25,
+      'industrial': 30,
+    },
+    // Tax rate (%) for new cities. Taxes above this rate lower happiness
+    // and taxes below it raise happiness
+    defaultTaxRate: 9,
+    // Lowest allowed tax rate (%)
+    minTaxRate: 0,
+    // Highest allowed tax rate (%)
+    maxTaxRate: 20,
+    // Happiness change per point of average tax rate away from the default
+    happinessPerTaxPoint: 1.5,
+    // Number of past monthly ledgers kept
+    historyMonths: 12,
+  },
 }
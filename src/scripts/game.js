@@ -3,19 +3,39 @@ import { AssetManager } from "./assets/assetManager.js";
 import { CameraManager } from "./camera.js";
 import { InputManager } from "./input.js";
 import { City } from "./sim/city.js";
-import { SimObject } from "./sim/simObject.js";
+import { CityView } from "./view/cityView.js";
+import { OverlayType } from "./view/overlayView.js";
+import { ViewObject } from "./view/viewObject.js";
+import config from "./config.js";
 
 /**
  * Manager for the Three.js scene. Handles rendering of a `City` object
  */
 export class Game {
   /**
+   * The headless city simulation
    * @type {City}
    */
   city;
+  /**
+   * Scene graph that renders `city`
+   * @type {CityView}
+   */
+  cityView;
+  /**
+   * Map layer drawn over the city. Kept when the scene is rebuilt.
+   * @type {string}
+   */
+  overlay = OverlayType.none;
+  /**
+   * Tiles of the construction plan awaiting approval, shown as ghosts.
+   * Kept when the scene is rebuilt.
+   * @type {import("./view/planView.js").PlanTile[] | null}
+   */
+  plan = null;
   /**
    * Object that currently hs focus
-   * @type {SimObject | null}
+   * @type {ViewObject | null}
    */
   focusedObject = null;
   /**
@@ -25,7 +45,7 @@ export class Game {
   inputManager;
   /**
    * Object that is currently selected
-   * @type {SimObject | null}
+   * @type {ViewObject | null}
    */
   selectedObject = null;
 
@@ -37,6 +57,7 @@ export class Game {
       preserveDrawingBuffer: true,
     });
     this.scene = new THREE.Scene();
+    this.clock = new THREE.Clock();
 
     this.inputManager = new InputManager(window.ui.gameWindow);
     this.cameraManager = new CameraManager(window.ui.gameWindow);
@@ -62,11 +83,24 @@ export class Game {
     window.assetManager = new AssetManager(() => {
       window.ui.hideLoadingText();
 
-      this.city = new City(8);
+      // `?width=`, `?height=` and `?seed=` query parameters configure the
+      // map, and a seed reproduces a previous city
+      const params = new URLSearchParams(window.location.search);
+      const width = readSize(params.get("width"), config.map.defaultSize);
+      const height = readSize(params.get("height"), width);
+      const seed = readInteger(params.get("seed"));
+      this.city = new City(width, height, undefined, seed ?? undefined);
       this.initialize(this.city);
+
+      // Rebuild the scene whenever the whole city is replaced (e.g. loading a save)
+      this.city.on("reset", () => this.initialize(this.city));
       this.start();
 
-      setInterval(this.simulate.bind(this), 1000);
+      // Check often whether steps are due, so faster speeds run smoothly.
+      // The city's clock decides how many steps each check runs
+      this.lastTick = performance.now();
+      setInterval(this.tick.bind(this), config.clock.tickInterval);
+      window.ui.updateTimeControls(this);
 
       // Initialize AI system
       import("./ai/index.ts").then((ai) => ai.initialize(this));
@@ -79,10 +113,20 @@ export class Game {
    * Initalizes the scene, clearing all existing assets
    */
   initialize(city) {
+    this.focusedObject = null;
+    this.selectedObject = null;
+    window.ui.updateInfoPanel(null);
+
+    this.cityView?.dispose();
+    this.cityView = new CityView(city);
+    this.cityView.overlay.setType(this.overlay, city);
+    this.cityView.plan.setPlan(this.plan);
+
     this.scene.clear();
-    this.scene.add(city);
+    this.scene.add(this.cityView);
     this.#setupLights();
     this.#setupGrid(city);
+    this.cameraManager.lookAt(city.width / 2 - 0.5, city.height / 2 - 0.5);
   }
 
   #setupGrid(city) {
@@ -93,15 +137,15 @@ export class Game {
       transparent: true,
       opacity: 0.2,
     });
-    gridMaterial.map.repeat = new THREE.Vector2(city.size, city.size);
-    gridMaterial.map.wrapS = city.size;
-    gridMaterial.map.wrapT = city.size;
+    gridMaterial.map.repeat = new THREE.Vector2(city.width, city.height);
+    gridMaterial.map.wrapS = THREE.RepeatWrapping;
+    gridMaterial.map.wrapT = THREE.RepeatWrapping;
 
     const grid = new THREE.Mesh(
-      new THREE.BoxGeometry(city.size, 0.1, city.size),
+      new THREE.BoxGeometry(city.width, 0.1, city.height),
       gridMaterial,
     );
-    grid.position.set(city.size / 2 - 0.5, -0.04, city.size / 2 - 0.5);
+    grid.position.set(city.width / 2 - 0.5, -0.04, city.height / 2 - 0.5);
     this.scene.add(grid);
 
     this.#setupGridLabels(city);
@@ -109,24 +153,23 @@ export class Game {
 
   /**
    * Add coordinate numbers and compass labels around the grid edges.
-   * Convention: X0-X7 = West→East, Y0-Y7 = North→South
+   * Convention: X0..X(width-1) = West→East, Y0..Y(height-1) = North→South
    */
   #setupGridLabels(city) {
-    const s = city.size;
     const labelY = 0.01;
     const offset = 0.8;
     const numColor = "rgba(0,0,0,0.7)";
     const numScale = 0.28;
 
-    // Column labels (X0-X7) along North edge
-    for (let x = 0; x < s; x++) {
+    // Column labels along North edge
+    for (let x = 0; x < city.width; x++) {
       this.scene.add(
         this.#makeLabel(`X${x}`, x, labelY, -offset, numScale * 0.85, numColor),
       );
     }
 
-    // Row labels (Y0-Y7) along West edge
-    for (let z = 0; z < s; z++) {
+    // Row labels along West edge
+    for (let z = 0; z < city.height; z++) {
       this.scene.add(
         this.#makeLabel(`Y${z}`, -offset - 0.15, labelY, z, numScale * 0.85, numColor),
       );
@@ -196,6 +239,25 @@ export class Game {
     this.scene.add(new THREE.AmbientLight(0xffffff, 0.5));
   }
 
+  /**
+   * Shows a colour-coded map layer over the city
+   * @param {string} type One of `OverlayType`
+   */
+  setOverlay(type) {
+    this.overlay = type;
+    this.cityView?.overlay.setType(type, this.city);
+    window.ui.updateOverlayToggle(this);
+  }
+
+  /**
+   * Shows a proposed construction plan as ghost tiles
+   * @param {import("./view/planView.js").PlanTile[] | null} tiles The plan, or null to clear it
+   */
+  setPlan(tiles) {
+    this.plan = tiles;
+    this.cityView?.plan.setPlan(tiles);
+  }
+
   /**
    * Starts the renderer
    */
@@ -214,7 +276,9 @@ export class Game {
    * Render the contents of the scene
    */
   draw() {
-    this.city.draw();
+    // Vehicles move in sim time: frozen while paused, faster when fast-forwarding
+    this.city.updateVehicles(this.city.clock.scaleDelta(this.clock.getDelta() * 1000));
+    this.cityView.draw();
     this.updateFocusedObject();
 
     if (this.inputManager.isLeftMouseDown) {
@@ -225,16 +289,56 @@ export class Game {
   }
 
   /**
-   * Moves the simulation forward by one step
+   * Runs the simulation steps that the city's clock says are due
    */
-  simulate() {
-    if (window.ui.isPaused) return;
+  tick() {
+    const now = performance.now();
+    const steps = this.city.clock.advance(now - this.lastTick);
+    this.lastTick = now;
+    if (steps > 0) {
+      this.simulate(steps, performance.now() + config.clock.tickBudgetMs);
+    }
+  }
 
+  /**
+   * Moves the simulation forward
+   * @param {number} steps Number of steps to simulate
+   * @param {number} deadline `performance.now()` time to stop at, even if
+   * fewer steps have run
+   * @returns {number} Number of steps that were run
+   */
+  simulate(steps = 1, deadline = Infinity) {
     // Update the city data model first, then update the scene
-    this.city.simulate(1);
+    let count = 0;
+    while (count < steps && performance.now() < deadline) {
+      this.city.simulate(1);
+      count++;
+    }
 
     window.ui.updateStatusBar(this);
-    window.ui.updateInfoPanel(this.selectedObject);
+    window.ui.updateInfoPanel(this.selectedObject?.simObject ?? null);
+    return count;
+  }
+
+  /**
+   * Changes how fast the simulation runs
+   * @param {number | 'max'} speed One of `GAME_SPEEDS`, 0 pauses
+   * @returns {boolean} False if the speed is not valid
+   */
+  setSpeed(speed) {
+    if (!this.city.clock.setSpeed(speed)) return false;
+    window.ui.updateTimeControls(this);
+    return true;
+  }
+
+  /**
+   * Pauses the simulation and runs a number of steps right away
+   * @param {number} steps Number of steps to run
+   * @returns {number} Number of steps that were run
+   */
+  step(steps = 1) {
+    this.setSpeed(0);
+    return this.simulate(steps);
   }
 
   /**
@@ -242,7 +346,7 @@ export class Game {
    */
   useTool() {
     this.updateSelectedObject();
-    window.ui.updateInfoPanel(this.selectedObject);
+    window.ui.updateInfoPanel(this.selectedObject?.simObject ?? null);
   }
 
   /**
@@ -286,11 +390,11 @@ export class Game {
     this.raycaster.setFromCamera(coords, this.cameraManager.camera);
 
     let intersections = this.raycaster.intersectObjects(
-      this.city.root.children,
+      this.cityView.root.children,
       true,
     );
     if (intersections.length > 0) {
-      // The SimObject attached to the mesh is stored in the user data
+      // The ViewObject attached to the mesh is stored in the user data
       const selectedObject = intersections[0].object.userData;
       return selectedObject;
     } else {
@@ -310,6 +414,29 @@ export class Game {
   }
 }
 
+/**
+ * Returns the whole number in a query parameter, or null if it is missing
+ * or not a whole number
+ * @param {string | null} value
+ * @returns {number | null}
+ */
+function readInteger(value) {
+  const number = Number(value);
+  return value !== null && value.trim() !== "" && Number.isInteger(number) ? number : null;
+}
+
+/**
+ * Returns the map width or height in a query parameter, clamped to the
+ * allowed sizes. Falls back to `fallback` if it is not a whole number.
+ * @param {string | null} value
+ * @param {number} fallback
+ * @returns {number}
+ */
+function readSize(value, fallback) {
+  const size = readInteger(value) ?? fallback;
+  return Math.min(config.map.maxSize, Math.max(config.map.minSize, size));
+}
+
 // Create a new game when the window is loaded
 window.onload = () => {
   window.game = new Game();
@@ -0,0 +1,111 @@
+import config from '../../../config.js';
+import { Building } from '../building.js';
+
+/**
+ * A park, tree, fountain or landmark. Needs no power or road and makes the
+ * tiles around it more desirable (see `DesirabilityService`).
+ */
+export class Amenity extends Building {
+  /**
+   * Distance (in tiles, walking distance) the amenity makes more desirable
+   * @type {number}
+   */
+  radius = 0;
+
+  /**
+   * Desirability (0-1) the amenity adds next to it, fading with distance
+   * @type {number}
+   */
+  desirability = 0;
+
+  /**
+   * Fraction (0-1) of the pollution next to it the amenity absorbs each
+   * step, fading with distance
+   * @type {number}
+   */
+  absorption = 0;
+
+  /**
+   * True if only one amenity of this type can be built in a city
+   * @type {boolean}
+   */
+  landmark = false;
+
+  /**
+   * @param {number} x
+   * @param {number} y
+   * @param {string} type One of the park or landmark types
+   */
+  constructor(x, y, type) {
+    super(x, y);
+    this.type = type;
+    this.roadAccess.enabled = false;
+
+    const spec = config.amenities.buildings[type];
+    this.name = spec.name;
+    this.radius = spec.radius;
+    this.desirability = spec.desirability;
+    this.absorption = spec.absorption ?? 0;
+    this.landmark = spec.landmark ?? false;
+  }
+
+  /**
+   * Returns the desirability the amenity adds to a tile, or 0 if the tile
+   * is out of reach
+   * @param {number} x
+   * @param {number} y
+   * @returns {number}
+   */
+  getDesirabilityAt(x, y) {
+    return this.desirability * this.#getFalloff(x, y);
+  }
+
+  /**
+   * Returns the fraction of the pollution on a tile the amenity absorbs each
+   * step, or 0 if the tile is out of reach
+   * @param {number} x
+   * @param {number} y
+   * @returns {number}
+   */
+  getAbsorptionAt(x, y) {
+    return this.absorption * this.#getFalloff(x, y);
+  }
+
+  /**
+   * Returns how strongly the amenity affects a tile: 1 on its own tile,
+   * fading to 0 just beyond its radius
+   * @param {number} x
+   * @param {number} y
+   * @returns {number}
+   */
+  #getFalloff(x, y) {
+    const distance = Math.abs(x - this.x) + Math.abs(y - this.y);
+    if (distance > this.radius) return 0;
+    return 1 - distance / (this.radius + 1);
+  }
+
+  /**
+   * Returns an HTML representation of this object
+   * @returns {string}
+   */
+  toHTML() {
+    let html = super.toHTML();
+    html += `
+      <div class="info-heading">${this.landmark ? 'Landmark' : 'Park'}</div>
+      <span class="info-label">Desirability</span>
+      <span class="info-value">+${this.desirability}</span>
+      <br>
+      <span class="info-label">Radius</span>
+      <span class="info-value">${this.radius}</span>
+      <br>
+    `;
+    if (this.absorption > 0) {
+      html += `
+        <span class="info-label">Absorbs Pollution</span>
+        <span class="info-value">${Math.round(this.absorption * 100)}%</span>
+        <br>
+      `;
+    }
+    return html;
+  }
+}
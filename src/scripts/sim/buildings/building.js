@@ -1,8 +1,7 @@
-import * as THREE from 'three';
-import { SimObject } from '../simObject';
-import { BuildingStatus } from './buildingStatus';
-import { PowerModule } from './modules/power';
-import { RoadAccessModule } from './modules/roadAccess';
+import { SimObject } from '../simObject.js';
+import { BuildingStatus } from './buildingStatus.js';
+import { PowerModule } from './modules/power.js';
+import { RoadAccessModule } from './modules/roadAccess.js';
 
 export class Building extends SimObject {
   /**
@@ -11,10 +10,10 @@ export class Building extends SimObject {
    */
   type = 'building';
   /**
-   * True if the terrain should not be rendered with this building type
-   * @type {boolean}
+   * Rotation of the building about the vertical axis in degrees
+   * @type {number}
    */
-  hideTerrain = false;
+  rotation = 0;
   /**
    * @type {PowerModule}
    */
@@ -28,32 +27,25 @@ export class Building extends SimObject {
    * @type {string}
    */
   status = BuildingStatus.Ok;
+
+  constructor(x = 0, y = 0) {
+    super(x, y);
+  }
+
   /**
-   * Whether this building is damaged by a disaster
+   * True if the building has all the power it needs
    * @type {boolean}
    */
-  isDamaged = false;
-  /**
-   * Icon displayed when building status
-   * @type {Sprite}
-   */
-  #statusIcon = new THREE.Sprite();
-
-  constructor() {
-    super();
-    this.#statusIcon.visible = false;
-    this.#statusIcon.material = new THREE.SpriteMaterial({ depthTest: false })
-    this.#statusIcon.layers.set(1);
-    this.#statusIcon.scale.set(0.5, 0.5, 0.5);
-    this.add(this.#statusIcon);
+  get powered() {
+    return this.power.isFullyPowered;
   }
-  
+
   /**
    * 
    * @param {*} status 
    */
   setStatus(status) {
-    this.#statusIcon.visible = false;
+    this.status = status ?? BuildingStatus.Ok;
   }
 
   simulate(city) {
@@ -71,37 +63,47 @@ export class Building extends SimObject {
     }
   }
 
-  applyDamageEffect() {
-    this.isDamaged = true;
-    if (this.mesh) {
-      this.mesh.traverse((obj) => {
-        if (obj.material) {
-          obj.material.color.setHex(0x8b3a3a);
-        }
-      });
-      this.mesh.scale.set(0.85, 0.7, 0.85);
-      this.mesh.rotation.z = THREE.MathUtils.degToRad(3);
-    }
+  /**
+   * Updates any state that depends on the neighboring tiles (e.g. the
+   * road style). Called when this tile or an adjacent tile changes.
+   * @param {City} city
+   */
+  updateStyle(city) {
+    // Override in subclass
+  }
+
+  /**
+   * Updates the amount of power the building needs. Called by the power
+   * service at the start of each simulation step.
+   */
+  updatePowerDemand() {
+    // Override in subclass
   }
 
-  updateDamageEffect(progress) {
-    if (!this.mesh) return;
-    const damagedColor = new THREE.Color(0x8b3a3a);
-    const normalColor = new THREE.Color(0xffffff);
-    const lerpedColor = damagedColor.clone().lerp(normalColor, progress);
-    this.mesh.traverse((obj) => {
-      if (obj.material) {
-        obj.material.color.copy(lerpedColor);
-      }
-    });
-    const s = 0.85 + 0.15 * progress;
-    const sy = 0.7 + 0.3 * progress;
-    this.mesh.scale.set(s, sy, s);
-    this.mesh.rotation.z = THREE.MathUtils.degToRad(3 * (1 - progress));
+  /**
+   * Returns a plain object describing this building for saving
+   * @returns {object}
+   */
+  serialize() {
+    return {
+      type: this.type,
+      name: this.name,
+      rotation: this.rotation,
+      powerSupplied: this.power.supplied,
+      roadAccess: this.roadAccess.value,
+    };
   }
 
-  clearDamageEffect() {
-    this.isDamaged = false;
+  /**
+   * Restores the state of this building from a saved object
+   * @param {object} data Object created by `serialize`
+   * @param {City} city
+   */
+  deserialize(data, city) {
+    this.name = data.name ?? this.name;
+    this.rotation = data.rotation ?? this.rotation;
+    this.power.supplied = data.powerSupplied ?? 0;
+    this.roadAccess.value = data.roadAccess;
   }
 
   dispose() {
@@ -6,28 +6,46 @@ import { Road } from './transportation/road.js';
 import { Building } from './building.js';
 import { PowerPlant } from './power/powerPlant.js';
 import { PowerLine } from './power/powerLine.js';
+import { CivicBuilding } from './civic/civicBuilding.js';
+import { Amenity } from './amenities/amenity.js';
+import { Random } from '../random.js';
 
 /**
  * Creates a new building object
  * @param {number} x The x-coordinate of the building
  * @param {number} y The y-coordinate of the building
  * @param {string} type The building type
+ * @param {Random} rng The city's random number generator
  * @returns {Building} A new building object
  */
-export function createBuilding(x, y, type) {
+export function createBuilding(x, y, type, rng) {
   switch (type) {
     case BuildingType.residential: 
-      return new ResidentialZone();
+      return new ResidentialZone(x, y, rng);
     case BuildingType.commercial: 
-      return new CommercialZone();
+      return new CommercialZone(x, y, rng);
     case BuildingType.industrial: 
-      return new IndustrialZone();
+      return new IndustrialZone(x, y, rng);
     case BuildingType.road: 
-      return new Road();
+      return new Road(x, y);
     case BuildingType.powerPlant:
-      return new PowerPlant();
+    case BuildingType.solarPowerPlant:
+    case BuildingType.nuclearPowerPlant:
+      return new PowerPlant(x, y, type);
     case BuildingType.powerLine:
-      return new PowerLine();
+      return new PowerLine(x, y);
+    case BuildingType.school:
+    case BuildingType.hospital:
+    case BuildingType.policeStation:
+    case BuildingType.fireStation:
+      return new CivicBuilding(x, y, type);
+    case BuildingType.park:
+    case BuildingType.tree:
+    case BuildingType.fountain:
+    case BuildingType.ferrisWheel:
+    case BuildingType.stadium:
+    case BuildingType.statue:
+      return new Amenity(x, y, type);
     default:
       console.error(`${type} is not a recognized building type.`);
   }
@@ -2,5 +2,6 @@ export const BuildingStatus = {
   NoPower: 'no-power',
   NoRoadAccess: 'no-road-access',
   Damaged: 'damaged',
+  NoStaff: 'no-staff',
   Ok: 'ok'
 }
\ No newline at end of file
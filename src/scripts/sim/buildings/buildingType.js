@@ -4,5 +4,55 @@ export const BuildingType = {
   industrial: 'industrial',
   road: 'road',
   powerPlant: 'power-plant',
-  powerLine: 'power-line'
-}
\ No newline at end of file
+  solarPowerPlant: 'solar-power-plant',
+  nuclearPowerPlant: 'nuclear-power-plant',
+  powerLine: 'power-line',
+  school: 'school',
+  hospital: 'hospital',
+  policeStation: 'police-station',
+  fireStation: 'fire-station',
+  park: 'park',
+  tree: 'tree',
+  fountain: 'fountain',
+  ferrisWheel: 'ferris-wheel',
+  stadium: 'stadium',
+  statue: 'statue',
+}
+
+/**
+ * Building types that generate electricity
+ */
+export const PowerPlantTypes = [
+  BuildingType.powerPlant,
+  BuildingType.solarPowerPlant,
+  BuildingType.nuclearPowerPlant,
+];
+
+/**
+ * Civic buildings that serve the residents within their coverage radius
+ */
+export const CivicBuildingTypes = [
+  BuildingType.school,
+  BuildingType.hospital,
+  BuildingType.policeStation,
+  BuildingType.fireStation,
+];
+
+/**
+ * Parks and decorations that make the tiles around them more desirable
+ */
+export const ParkTypes = [
+  BuildingType.park,
+  BuildingType.tree,
+  BuildingType.fountain,
+];
+
+/**
+ * Landmarks make a wide area more desirable. Only one of each can be built
+ * in a city
+ */
+export const LandmarkTypes = [
+  BuildingType.ferrisWheel,
+  BuildingType.stadium,
+  BuildingType.statue,
+];
@@ -0,0 +1,117 @@
+import config from '../../../config.js';
+import { City } from '../../city.js';
+import { Building } from '../building.js';
+import { BuildingStatus } from '../buildingStatus.js';
+import { JobsModule } from '../modules/jobs.js';
+
+/**
+ * A school, hospital, police station or fire station. Serves the residents
+ * within its coverage radius, as many as its staff can handle. Which
+ * residents are served is worked out by the coverage service.
+ */
+export class CivicBuilding extends Building {
+  /**
+   * Staff working at the building
+   * @type {JobsModule}
+   */
+  jobs;
+
+  /**
+   * Distance (in tiles, walking distance) the building serves
+   * @type {number}
+   */
+  radius = 0;
+
+  /**
+   * Number of residents (or, for a school, students) the building serves
+   * when fully staffed
+   * @type {number}
+   */
+  capacity = 0;
+
+  /**
+   * Number of residents served in the last simulation step
+   * @type {number}
+   */
+  served = 0;
+
+  /**
+   * @param {number} x
+   * @param {number} y
+   * @param {string} type One of the civic building types
+   */
+  constructor(x, y, type) {
+    super(x, y);
+    this.type = type;
+
+    const spec = config.civic.buildings[type];
+    this.name = spec.name;
+    this.radius = spec.radius;
+    this.capacity = spec.capacity;
+    this.jobs = new JobsModule(this, spec.staff);
+  }
+
+  /**
+   * True if the building has power, road access and at least one worker
+   * @type {boolean}
+   */
+  get operational() {
+    return this.powered && this.roadAccess.value && this.jobs.filledJobs > 0;
+  }
+
+  /**
+   * Number of residents the building can serve with its current staff
+   * @type {number}
+   */
+  get effectiveCapacity() {
+    if (!this.operational) return 0;
+    return Math.round(this.capacity * this.jobs.filledJobs / this.jobs.maxWorkers);
+  }
+
+  /**
+   * Steps the state of the building forward in time by one simulation step
+   * @param {City} city
+   */
+  simulate(city) {
+    super.simulate(city);
+    this.jobs.simulate(city);
+
+    if (this.status === BuildingStatus.Ok && this.jobs.filledJobs === 0) {
+      this.setStatus(BuildingStatus.NoStaff);
+    }
+  }
+
+  /**
+   * Civic buildings need the same power whoever works there
+   */
+  updatePowerDemand() {
+    this.power.required = config.civic.buildings[this.type].power;
+  }
+
+  /**
+   * Handles any clean up needed before a building is removed
+   */
+  dispose() {
+    this.jobs.dispose();
+    super.dispose();
+  }
+
+  /**
+   * Returns an HTML representation of this object
+   * @returns {string}
+   */
+  toHTML() {
+    let html = super.toHTML();
+    html += `
+      <div class="info-heading">Service</div>
+      <span class="info-label">Coverage Radius</span>
+      <span class="info-value">${this.radius}</span>
+      <br>
+      <span class="info-label">Served</span>
+      <span class="info-value">${this.served}/${this.effectiveCapacity}</span>
+      <br>
+    `;
+    html += this.jobs.toHTML();
+    return html;
+  }
+}
@@ -1,6 +1,7 @@
 import config from '../../../config.js';
 import { City } from '../../city.js';
 import { Zone } from '../../buildings/zones/zone.js';
+import { BuildingType } from '../buildingType.js';
 import { SimModule } from './simModule.js';
 
 export const DevelopmentState = {
@@ -63,7 +64,6 @@ export class DevelopmentModule extends SimModule {
 
   set level(value) {
     this.#level = value;
-    this.#zone.refreshView();
   }
 
   get state() {
@@ -72,7 +72,30 @@ export class DevelopmentModule extends SimModule {
 
   set state(value) {
     this.#state = value;
-    this.#zone.refreshView();
+  }
+
+  /**
+   * Returns a plain object describing this module for saving
+   * @returns {object}
+   */
+  serialize() {
+    return {
+      state: this.#state,
+      level: this.#level,
+      abandonmentCounter: this.#abandonmentCounter,
+      constructionCounter: this.#constructionCounter,
+    };
+  }
+
+  /**
+   * Restores the state of this module from a saved object
+   * @param {object} data Object created by `serialize`
+   */
+  deserialize(data) {
+    this.#state = data.state;
+    this.#level = data.level;
+    this.#abandonmentCounter = data.abandonmentCounter ?? 0;
+    this.#constructionCounter = data.constructionCounter ?? 0;
   }
 
   /**
@@ -84,7 +107,7 @@ export class DevelopmentModule extends SimModule {
     switch (this.state) {
       case DevelopmentState.undeveloped:
         if (this.#checkDevelopmentCriteria() &&
-          Math.random() < config.modules.development.redevelopChance) {
+          city.rng.chance(config.modules.development.redevelopChance)) {
           this.state = DevelopmentState.underConstruction;
           this.#constructionCounter = 0;
         }
@@ -98,18 +121,18 @@ export class DevelopmentModule extends SimModule {
         break;
       case DevelopmentState.developed:
         if (this.#abandonmentCounter > config.modules.development.abandonThreshold) {
-          if (Math.random() < config.modules.development.abandonChance) {
+          if (city.rng.chance(config.modules.development.abandonChance)) {
             this.state = DevelopmentState.abandoned;
           }
         } else {
-          if (this.level < this.maxLevel && Math.random() < config.modules.development.levelUpChance) {
+          if (this.level < this.maxLevel && city.rng.chance(this.#getLevelUpChance(city))) {
             this.level++;
           }
         }
         break;
       case DevelopmentState.abandoned:
         if (this.#abandonmentCounter == 0) {
-          if (Math.random() < config.modules.development.redevelopChance) {
+          if (city.rng.chance(config.modules.development.redevelopChance)) {
             this.state = DevelopmentState.developed;
           }
         }
@@ -117,6 +140,25 @@ export class DevelopmentModule extends SimModule {
     }
   }
 
+  /**
+   * Returns the chance of leveling up this step. Zones next to congested
+   * roads and homes on polluted tiles are less attractive and level up more
+   * slowly, while zones near parks and landmarks level up faster.
+   * @param {City} city 
+   * @returns {number}
+   */
+  #getLevelUpChance(city) {
+    const congestion = city.traffic.getCongestionNear(city, this.#zone.x, this.#zone.y);
+    const desirability = city.desirability.getValue(this.#zone.x, this.#zone.y);
+    const pollution = this.#zone.type === BuildingType.residential
+      ? city.pollution.getValue(this.#zone.x, this.#zone.y)
+      : 0;
+    return config.modules.development.levelUpChance *
+      (1 - congestion * config.traffic.levelUpPenalty) *
+      (1 + desirability * (config.amenities.levelUpMultiplier - 1)) *
+      (1 - pollution * config.pollution.levelUpPenalty);
+  }
+
   /**
    * @param {City} city 
    * @returns 
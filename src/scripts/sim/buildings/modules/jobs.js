@@ -11,14 +11,27 @@ export class JobsModule extends SimModule {
    */
   #zone;
 
+  /**
+   * Fixed number of positions, or `null` if the number of jobs grows with
+   * the development level of the zone
+   * @type {number | null}
+   */
+  #positions = null;
+
   /**
    * @type {Citizen[]}
    */
   workers = [];
 
-  constructor(zone) {
+  /**
+   * @param {Zone} zone 
+   * @param {number | null} positions Fixed number of positions, for
+   * buildings that do not develop (e.g. schools)
+   */
+  constructor(zone, positions = null) {
     super();
     this.#zone = zone;
+    this.#positions = positions;
   }
 
   /**
@@ -26,6 +39,10 @@ export class JobsModule extends SimModule {
    * @returns {number}
    */
   get maxWorkers() {
+    if (this.#positions !== null) {
+      return this.#positions;
+    }
+
     // If building is not developed, there are no available jobs
     if (this.#zone.development.state !== DevelopmentState.developed) {
       return 0;
@@ -57,7 +74,7 @@ export class JobsModule extends SimModule {
   simulate(city) {
     // If building is abandoned, all workers are laid off and no
     // more workers are allowed to work here
-    if (this.#zone.development.state === DevelopmentState.abandoned) {
+    if (this.#zone.development?.state === DevelopmentState.abandoned) {
       this.#layOffWorkers();
     }
   }
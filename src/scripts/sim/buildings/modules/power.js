@@ -16,6 +16,13 @@ export class PowerModule extends SimModule {
    */
   required = 0;
 
+  /**
+   * Amount of power passing through this building on its way to other
+   * buildings in the grid. Limited by the transmission capacity.
+   * @type {number}
+   */
+  transmitted = 0;
+
   /**
    * @param {number} powerRequired Amount of power (kWh) this building needs
    */
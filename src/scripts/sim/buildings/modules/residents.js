@@ -4,9 +4,12 @@ import { City } from '../../city.js';
 import { Zone as ResidentialZone } from '../../buildings/zones/zone.js';
 import { DevelopmentState } from './development.js';
 import { SimModule } from './simModule.js';
+import { Random } from '../../random.js';
+import { DemographicEvent } from '../../services/demographics.js';
 
 /**
- * Logic for residents moving into and out of a building
+ * Logic for residents moving into and out of a building: households moving
+ * in, children being born and growing up, and residents dying or leaving
  */
 export class ResidentsModule extends SimModule {
   /**
@@ -51,23 +54,158 @@ export class ResidentsModule extends SimModule {
     return Math.pow(config.modules.residents.maxResidents, this.#zone.development.level);
   }
 
+  /**
+   * Returns the saved state of each resident
+   * @returns {object[]}
+   */
+  serialize() {
+    return this.#residents.map((resident) => resident.serialize());
+  }
+
+  /**
+   * Replaces the residents with citizens restored from a save
+   * @param {object[]} data Array created by `serialize`
+   * @param {Random} rng The city's random number generator
+   */
+  deserialize(data, rng) {
+    this.#residents = data.map((residentData) => {
+      const resident = new Citizen(this.#zone, rng);
+      resident.deserialize(residentData);
+      return resident;
+    });
+  }
+
+  /**
+   * Moves a citizen from elsewhere in the city into this building
+   * @param {Citizen} citizen 
+   */
+  moveIn(citizen) {
+    citizen.moveTo(this.#zone);
+    this.#residents.push(citizen);
+  }
+
   /**
    * @param {City} city 
    */
   simulate(city) {
-    // If building is abandoned, all residents are evicted and no more residents are allowed to move in.
+    // If building is abandoned, all residents move out and no more residents are allowed to move in.
     if (this.#zone.development.state === DevelopmentState.abandoned && this.#residents.length > 0) {
-      this.evictAll();
+      this.#relocateAll(city);
     } else if (this.#zone.development.state === DevelopmentState.developed) {
-      // Move in new residents if there is room
-      if (this.#residents.length < this.maximum && Math.random() < config.modules.residents.residentMoveInChance) {
-        this.#residents.push(new Citizen(this.#zone));
-      }
+      this.#moveInHousehold(city);
+      this.#haveChild(city);
     }
 
     for (const resident of this.#residents) {
       resident.simulate(city);
     }
+
+    this.#removeDepartures(city);
+    this.#leaveParents(city);
+  }
+
+  /**
+   * A household from outside the city moves into an empty home: one adult,
+   * sometimes with a partner. An adult living alone may be joined by a
+   * partner instead. The rest of the room is left for children, so homes
+   * fill up as families grow. Happier cities attract newcomers more often
+   * @param {City} city 
+   */
+  #moveInHousehold(city) {
+    const room = this.maximum - this.#residents.length;
+    const chance = config.modules.residents.residentMoveInChance * city.happiness / 100;
+    if (room <= 0 || !city.rng.chance(chance)) return;
+
+    if (this.#residents.length === 1 && this.#residents[0].age >= config.citizen.minMoveInAge) {
+      const single = this.#residents[0];
+      const age = Math.max(config.citizen.minMoveInAge, single.age + city.rng.int(-5, 5));
+      this.#residents.push(new Citizen(this.#zone, city.rng, age));
+      city.demographics.record(DemographicEvent.moveIn);
+      return;
+    }
+    if (this.#residents.length > 0) return;
+
+    const newcomer = new Citizen(this.#zone, city.rng);
+    const household = [newcomer];
+    if (room >= 2 && city.rng.chance(config.citizen.partnerChance)) {
+      const age = Math.max(config.citizen.minMoveInAge, newcomer.age + city.rng.int(-5, 5));
+      const partner = new Citizen(this.#zone, city.rng, age);
+      partner.takeFamilyName(newcomer);
+      household.push(partner);
+    }
+
+    this.#residents.push(...household);
+    city.demographics.record(DemographicEvent.moveIn, household.length);
+  }
+
+  /**
+   * A couple living here may have a child if there is room
+   * @param {City} city 
+   */
+  #haveChild(city) {
+    const { minParentAge, maxParentAge, generationGap, birthChance, stepsPerYear } = config.citizen;
+    if (this.#residents.length >= this.maximum) return;
+
+    const adults = this.#residents.filter((c) => c.age >= minParentAge && c.age <= maxParentAge);
+    const parent = adults.find((a, i) => adults.slice(i + 1).some((b) => Math.abs(a.age - b.age) < generationGap));
+    if (!parent || !city.rng.chance(birthChance / stepsPerYear)) return;
+
+    const child = new Citizen(this.#zone, city.rng, 0);
+    child.takeFamilyName(parent);
+    this.#residents.push(child);
+    city.demographics.record(DemographicEvent.birth);
+  }
+
+  /**
+   * Removes the residents who died or left the city this step
+   * @param {City} city 
+   */
+  #removeDepartures(city) {
+    const departed = this.#residents.filter((resident) => resident.departure);
+    if (departed.length === 0) return;
+
+    for (const resident of departed) {
+      resident.dispose();
+      city.demographics.record(resident.departure === 'died' ? DemographicEvent.death : DemographicEvent.moveOut);
+    }
+    this.#residents = this.#residents.filter((resident) => !resident.departure);
+  }
+
+  /**
+   * Grown children living with a parent now and then move to a free home
+   * elsewhere in the city, starting a household of their own
+   * @param {City} city 
+   */
+  #leaveParents(city) {
+    const { leaveHomeAge, leaveHomeChance, generationGap, stepsPerYear } = config.citizen;
+    for (const resident of [...this.#residents]) {
+      if (resident.age < leaveHomeAge) continue;
+      if (!this.#residents.some((other) => other.age - resident.age >= generationGap)) continue;
+      if (!city.rng.chance(leaveHomeChance / stepsPerYear)) continue;
+
+      const home = city.demographics.findHome(city, this.#zone, this.#zone);
+      if (!home) continue;
+      this.#residents.splice(this.#residents.indexOf(resident), 1);
+      home.residents.moveIn(resident);
+    }
+  }
+
+  /**
+   * Residents of an abandoned building move to the nearest free homes in the
+   * city, or leave the city if there are none
+   * @param {City} city 
+   */
+  #relocateAll(city) {
+    for (const resident of this.#residents) {
+      const home = city.demographics.findHome(city, this.#zone, this.#zone);
+      if (home) {
+        home.residents.moveIn(resident);
+      } else {
+        resident.dispose();
+        city.demographics.record(DemographicEvent.moveOut);
+      }
+    }
+    this.#residents = [];
   }
 
   /**
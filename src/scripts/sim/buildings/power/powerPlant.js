@@ -1,3 +1,4 @@
+import config from '../../../config.js';
 import { Building } from '../building.js';
 import { BuildingType } from '../buildingType.js';
 
@@ -13,9 +14,25 @@ export class PowerPlant extends Building {
    */
   powerConsumed = 0;
 
-  constructor(x, y) {
+  /**
+   * Amount of pollution the plant emits
+   * @type {number}
+   */
+  pollution = 0;
+
+  /**
+   * @param {number} x 
+   * @param {number} y 
+   * @param {string} type One of the power plant types (coal, solar or nuclear)
+   */
+  constructor(x, y, type = BuildingType.powerPlant) {
     super(x, y);
-    this.type = BuildingType.powerPlant;
+    this.type = type;
+
+    const spec = config.power.plants[type];
+    this.name = spec.name;
+    this.powerCapacity = spec.output;
+    this.pollution = spec.pollution;
   }
 
   /**
@@ -30,11 +47,6 @@ export class PowerPlant extends Building {
     }
   }
 
-  refreshView() {
-    let mesh = window.assetManager.getModel(this.type, this);
-    this.setMesh(mesh);
-  }
-
   /**
    * Returns an HTML representation of this object
    * @returns {string}
@@ -52,6 +64,9 @@ export class PowerPlant extends Building {
       <span class="info-label">Power Available (kW)</span>
       <span class="info-value">${this.powerAvailable}</span>
       <br>
+      <span class="info-label">Pollution</span>
+      <span class="info-value">${this.pollution}</span>
+      <br>
     `;
     return html;
   }
@@ -1,23 +1,41 @@
-import * as THREE from 'three';
 import { Building } from '../building.js';
 import { City } from '../../city.js';
-import { DEG2RAD } from 'three/src/math/MathUtils.js';
+import { TerrainType } from '../../terrain.js';
 
 export class Road extends Building {
+  /**
+   * True if the road is built over water
+   * @type {boolean}
+   */
+  bridge = false;
+  /**
+   * Number of commuters whose drive to work uses this road
+   * @type {number}
+   */
+  traffic = 0;
+  /**
+   * How congested the road is, from 0 (free-flowing) to 1 (at capacity)
+   * @type {number}
+   */
+  congestion = 0;
+
   constructor(x, y) {
     super(x, y);
     this.type = 'road';
     this.name = 'Road';
     this.style = 'straight';
-    this.hideTerrain = true;
     this.roadAccess.enabled = false;
   }
 
   /**
-   * Updates the road mesh based on which adjacent tiles are roads as well
+   * Updates the road style based on which adjacent tiles are roads as well
    * @param {City} city 
    */
-  refreshView(city) {
+  updateStyle(city) {
+    // Roads over water are bridges
+    this.bridge = city.getTile(this.x, this.y)?.terrain === TerrainType.water;
+    this.name = this.bridge ? 'Bridge' : 'Road';
+
     // Check which adjacent tiles are roads
     let top = (city.getTile(this.x, this.y - 1)?.building?.type === this.type) ?? false;
     let bottom = (city.getTile(this.x, this.y + 1)?.building?.type === this.type) ?? false;
@@ -28,60 +46,81 @@ export class Road extends Building {
     // Four-way intersection
     if (top && bottom && left && right) {
       this.style = 'four-way';
-      this.rotation.y = 0;
+      this.rotation = 0;
     // T intersection
     } else if (!top && bottom && left && right) { // bottom-left-right
       this.style = 'three-way';
-      this.rotation.y  = 0;
+      this.rotation = 0;
     } else if (top && !bottom && left && right) { // top-left-right
       this.style = 'three-way';
-      this.rotation.y  = 180 * DEG2RAD;
+      this.rotation = 180;
     } else if (top && bottom && !left && right) { // top-bottom-right
       this.style = 'three-way';
-      this.rotation.y  = 90 * DEG2RAD;
+      this.rotation = 90;
     } else if (top && bottom && left && !right) { // top-bottom-left
       this.style = 'three-way';
-      this.rotation.y  = 270 * DEG2RAD;
+      this.rotation = 270;
     // Corner
     } else if (top && !bottom && left && !right) { // top-left
       this.style = 'corner';
-      this.rotation.y  = 180 * DEG2RAD;
+      this.rotation = 180;
     } else if (top && !bottom && !left && right) { // top-right
       this.style = 'corner';
-      this.rotation.y  = 90 * DEG2RAD;
+      this.rotation = 90;
     } else if (!top && bottom && left && !right) { // bottom-left
       this.style = 'corner';
-      this.rotation.y  = 270 * DEG2RAD;
+      this.rotation = 270;
     } else if (!top && bottom && !left && right) { // bottom-right
       this.style = 'corner';
-      this.rotation.y  = 0;
+      this.rotation = 0;
     // Straight
     } else if (top && bottom && !left && !right) { // top-bottom
       this.style = 'straight';
-      this.rotation.y  = 0;
+      this.rotation = 0;
     } else if (!top && !bottom && left && right) { // left-right
       this.style = 'straight';
-      this.rotation.y  = 90 * DEG2RAD;
+      this.rotation = 90;
     // Dead end
     } else if (top && !bottom && !left && !right) { // top
       this.style = 'end';
-      this.rotation.y  = 180 * DEG2RAD;
+      this.rotation = 180;
     } else if (!top && bottom && !left && !right) { // bottom
       this.style = 'end';
-      this.rotation.y  = 0;
+      this.rotation = 0;
     } else if (!top && !bottom && left && !right) { // left
       this.style = 'end';
-      this.rotation.y  = 270 * DEG2RAD;
+      this.rotation = 270;
     } else if (!top && !bottom && !left && right) { // right
       this.style = 'end';
-      this.rotation.y  = 90 * DEG2RAD;
+      this.rotation = 90;
     }
 
-    const mesh = window.assetManager.getModel(`road-${this.style}`, this);
-    this.setMesh(mesh);
     city.vehicleGraph.updateTile(this.x, this.y, this);
   }
 
+  /**
+   * Returns a plain object describing this road for saving
+   * @returns {object}
+   */
+  serialize() {
+    return {
+      ...super.serialize(),
+      traffic: this.traffic,
+      congestion: this.congestion,
+    };
+  }
+
+  /**
+   * Restores the state of this road from a saved object
+   * @param {object} data Object created by `serialize`
+   * @param {City} city
+   */
+  deserialize(data, city) {
+    super.deserialize(data, city);
+    this.traffic = data.traffic ?? 0;
+    this.congestion = data.congestion ?? 0;
+  }
+
   /**
    * Returns an HTML representation of this object
    * @returns {string}
@@ -92,6 +131,9 @@ export class Road extends Building {
     <span class="info-label">Style </span>
     <span class="info-value">${this.style}</span>
     <br>
+    <span class="info-label">Traffic </span>
+    <span class="info-value">${this.traffic} (${Math.round(this.congestion * 100)}%)</span>
+    <br>
     `;
     return html;
   }
@@ -9,9 +9,9 @@ export class CommercialZone extends Zone {
    */
   jobs = new JobsModule(this);
 
-  constructor(x, y) {
-    super(x, y);
-    this.name = generateBusinessName();
+  constructor(x, y, rng) {
+    super(x, y, rng);
+    this.name = generateBusinessName(rng);
     this.type = BuildingType.commercial;
   }
 
@@ -49,10 +49,10 @@ const suffixes = ['Commerce', 'Trade', 'Marketplace', 'Ventures', 'Enterprises',
 const businessSuffixes = ['LLC', 'Inc.', 'Co.', 'Corp.', 'Ltd.'];
 
 // Function to generate a random commercial business name
-function generateBusinessName() {
-  const prefix = prefixes[Math.floor(Math.random() * prefixes.length)];
-  const suffix = suffixes[Math.floor(Math.random() * suffixes.length)];
-  const businessSuffix = businessSuffixes[Math.floor(Math.random() * businessSuffixes.length)];
+function generateBusinessName(rng) {
+  const prefix = rng.pick(prefixes);
+  const suffix = rng.pick(suffixes);
+  const businessSuffix = rng.pick(businessSuffixes);
 
   return prefix + ' ' + suffix + ' ' + businessSuffix;
 }
\ No newline at end of file
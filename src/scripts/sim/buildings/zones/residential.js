@@ -9,9 +9,9 @@ export class ResidentialZone extends Zone {
    */
   residents = new ResidentsModule(this);
 
-  constructor(x, y) {
-    super(x, y);
-    this.name = generateBuildingName();
+  constructor(x, y, rng) {
+    super(x, y, rng);
+    this.name = generateBuildingName(rng);
     this.type = BuildingType.residential;
   }
 
@@ -24,6 +24,18 @@ export class ResidentialZone extends Zone {
     this.residents.simulate(city);
   }
 
+  serialize() {
+    return {
+      ...super.serialize(),
+      residents: this.residents.serialize(),
+    };
+  }
+
+  deserialize(data, city) {
+    super.deserialize(data, city);
+    this.residents.deserialize(data.residents ?? [], city.rng);
+  }
+
   /**
    * Handles any clean up needed before a building is removed
    */
@@ -48,9 +60,9 @@ const prefixes = ['Emerald', 'Ivory', 'Crimson', 'Opulent', 'Celestial', 'Enchan
 const suffixes = ['Tower', 'Residence', 'Manor', 'Court', 'Plaza', 'House', 'Mansion', 'Place', 'Villa', 'Gardens'];
 
 // Function to generate a random building name
-function generateBuildingName() {
-  const prefix = prefixes[Math.floor(Math.random() * prefixes.length)];
-  const suffix = suffixes[Math.floor(Math.random() * suffixes.length)];
+function generateBuildingName(rng) {
+  const prefix = rng.pick(prefixes);
+  const suffix = rng.pick(suffixes);
   
   return prefix + ' ' + suffix;
 }
\ No newline at end of file
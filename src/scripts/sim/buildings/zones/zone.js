@@ -1,7 +1,7 @@
-import * as THREE from 'three';
-import { DEG2RAD } from 'three/src/math/MathUtils.js';
-import { DevelopmentModule, DevelopmentState } from '../modules/development.js';
+import config from '../../../config.js';
+import { DevelopmentModule } from '../modules/development.js';
 import { Building } from '../building.js';
+import { Random } from '../../random.js';
 
 /**
  * Represents a zoned building such as residential, commercial or industrial
@@ -9,44 +9,56 @@ import { Building } from '../building.js';
 export class Zone extends Building {
   /**
    * The mesh style to use when rendering
+   * @type {string}
    */
-  style = ['A', 'B', 'C'][Math.floor(3 * Math.random())];
+  style = 'A';
 
   /**
    * @type {DevelopmentModule}
    */
   development = new DevelopmentModule(this);
 
-  constructor(x = 0, y = 0) {
+  /**
+   * @param {number} x The x-coordinate of the zone
+   * @param {number} y The y-coordinate of the zone
+   * @param {Random} rng The city's random number generator
+   */
+  constructor(x, y, rng) {
     super(x, y);
     
     this.name = 'Zone';
-    this.power.required = 10;
     
-    // Randomize the building rotation
-    this.rotation.y = 90 * Math.floor(4 * Math.random()) * DEG2RAD;
+    // Randomize the building style and rotation
+    this.style = rng.pick(['A', 'B', 'C']);
+    this.rotation = 90 * rng.int(0, 3);
   }
 
-  refreshView() {
-    let modelName = `${this.type}-${this.style}${this.development.level}`;
+  simulate(city) {
+    super.simulate(city);
+    this.development.simulate(city);
+  }
 
-    let mesh = window.assetManager.getModel(modelName, this);
+  /**
+   * Zones need more power as they level up
+   */
+  updatePowerDemand() {
+    this.power.required = (config.power.demand[this.type] ?? 0) * this.development.level;
+  }
 
-    // Tint building a dark color if it is abandoned
-    if (this.development.state === DevelopmentState.abandoned) {
-      mesh.traverse((obj) => {
-        if (obj.material) {
-          obj.material.color = new THREE.Color(0x707070);
-        }
-      });
-    }
-    
-    this.setMesh(mesh);
+  serialize() {
+    return {
+      ...super.serialize(),
+      style: this.style,
+      development: this.development.serialize(),
+    };
   }
 
-  simulate(city) {
-    super.simulate(city);
-    this.development.simulate(city);
+  deserialize(data, city) {
+    super.deserialize(data, city);
+    this.style = data.style ?? this.style;
+    if (data.development) {
+      this.development.deserialize(data.development);
+    }
   }
 
   /**
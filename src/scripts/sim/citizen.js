@@ -1,30 +1,47 @@
 import { CommercialZone } from './buildings/zones/commercial.js';
 import { IndustrialZone } from './buildings/zones/industrial.js';
 import { ResidentialZone } from './buildings/zones/residential.js';
+import { CivicBuilding } from './buildings/civic/civicBuilding.js';
 import config from '../config.js';
+import { Random } from './random.js';
 
 export class Citizen {
   /**
    * @param {ResidentialZone} residence 
+   * @param {Random} rng The city's random number generator
+   * @param {number} [age] Age in years. Defaults to the age of an adult
+   * moving into the city
    */
-  constructor(residence) {
+  constructor(residence, rng, age) {
     /**
      * Unique identifier for the citizen
      * @type {string}
      */
-    this.id = crypto.randomUUID();
+    this.id = rng.id();
 
     /**
      * Name of this citizen
      * @type {string}
      */
-    this.name = generateRandomName();
+    this.name = generateRandomName(rng);
 
     /**
      * Age of the citizen in years
      * @type {number}
      */
-    this.age = 1 + Math.floor(100*Math.random());
+    this.age = age ?? rng.int(config.citizen.minMoveInAge, config.citizen.maxMoveInAge);
+
+    /**
+     * Number of simulation steps since the citizen's last birthday
+     * @type {number}
+     */
+    this.ageSteps = 0;
+
+    /**
+     * Health of the citizen (0-100). Living on a polluted tile wears it down
+     * @type {number}
+     */
+    this.health = 100;
 
     /**
      * The current state of the citizen
@@ -45,10 +62,17 @@ export class Citizen {
 
     /**
      * Reference to the building the citizen works at
-     * @type {CommercialZone | IndustrialZone}
+     * @type {CommercialZone | IndustrialZone | CivicBuilding}
      */
     this.workplace = null;
 
+    /**
+     * Set when the citizen dies or leaves the city. Their home removes them
+     * at the end of the step
+     * @type {'died' | 'moved-out' | null}
+     */
+    this.departure = null;
+
     this.#initializeState();
   }
 
@@ -56,7 +80,9 @@ export class Citizen {
    * Sets the initial state of the citizen
    */
   #initializeState() {
-    if (this.age < config.citizen.minWorkingAge) {
+    if (this.age < config.citizen.schoolAge) {
+      this.state = 'idle';
+    } else if (this.age < config.citizen.minWorkingAge) {
       this.state = 'school';
     } else if (this.age >= config.citizen.retirementAge) {
       this.state = 'retired';
@@ -70,9 +96,36 @@ export class Citizen {
    * @param {object} city 
    */
   simulate(city) {
+    this.stateCounter++;
+    this.#updateHealth(city);
+    if (++this.ageSteps >= config.citizen.stepsPerYear) {
+      this.ageSteps = 0;
+      this.age++;
+      if (this.#dies(city.rng)) {
+        this.departure = 'died';
+        return;
+      }
+    }
+
     switch (this.state) {
       case 'idle':
+        // Action - None
+
+        // Transitions - Start school
+        if (this.age >= config.citizen.schoolAge) {
+          this.#setState('school');
+        }
+
+        break;
       case 'school':
+        // Action - None
+
+        // Transitions - Join the workforce
+        if (this.age >= config.citizen.minWorkingAge) {
+          this.#setState('unemployed');
+        }
+
+        break;
       case 'retired':
         // Action - None
 
@@ -80,21 +133,41 @@ export class Citizen {
 
         break;
       case 'unemployed':
-        // Action - Look for a job
-        this.workplace = this.#findJob(city);
+        // Transitions - Retire without ever finding work
+        if (this.age >= config.citizen.retirementAge) {
+          this.#setState('retired');
+          break;
+        }
 
-        // Transitions
+        // Action - Look for a job now and then
+        if ((this.stateCounter - 1) % config.citizen.unemployedSearchInterval === 0) {
+          this.workplace = this.#findJob(city);
+        }
+
+        // Transitions - Start work, or give up and leave the city
         if (this.workplace) {
-          this.state = 'employed';
+          this.#setState('employed');
+        } else if (this.stateCounter >= config.citizen.maxUnemployedSteps) {
+          this.departure = 'moved-out';
         }
 
         break;
       case 'employed':
-        // Actions - None
+        // Actions - Quit if the workplace can no longer be reached by road,
+        // or when retiring, and now and then look for a closer job
+        if (this.workplace && !city.isReachable(this.residence, this.workplace)) {
+          this.#quitJob();
+        } else if (this.age >= config.citizen.retirementAge) {
+          if (this.workplace) this.#quitJob();
+          this.#setState('retired');
+          break;
+        } else if (this.workplace && this.stateCounter % config.citizen.jobSearchInterval === 0) {
+          this.#findCloserJob(city);
+        }
 
         // Transitions
         if (!this.workplace) {
-          this.state = 'unemployed';
+          this.#setState('unemployed');
         }
 
         break;
@@ -103,6 +176,44 @@ export class Citizen {
     }
   }
 
+  /**
+   * Changes the state of the citizen and restarts the state counter
+   * @param {'idle' | 'school' | 'employed' | 'unemployed' | 'retired'} state
+   */
+  #setState(state) {
+    this.state = state;
+    this.stateCounter = 0;
+  }
+
+  /**
+   * Moves the citizen's health towards what the pollution at home allows:
+   * it recovers on a clean tile and wears down on a polluted one
+   * @param {object} city
+   */
+  #updateHealth(city) {
+    const { maxHealthLoss, healthChange } = config.pollution;
+    const target = 100 - city.pollution.getValue(this.residence.x, this.residence.y) * maxHealthLoss;
+    if (this.health < target) {
+      this.health = Math.min(target, this.health + healthChange);
+    } else {
+      this.health = Math.max(target, this.health - healthChange);
+    }
+  }
+
+  /**
+   * Decides whether the citizen dies, on their birthday. Poor health adds
+   * to the chance at any age
+   * @param {Random} rng
+   * @returns {boolean}
+   */
+  #dies(rng) {
+    const { oldAge, deathChancePerYear, maxAge } = config.citizen;
+    if (this.age >= maxAge) return true;
+    const sickness = (1 - this.health / 100) * config.pollution.sickDeathChancePerYear;
+    const oldAgeChance = this.age < oldAge ? 0 : (this.age - oldAge + 1) * deathChancePerYear;
+    return (sickness > 0 || oldAgeChance > 0) && rng.chance(sickness + oldAgeChance);
+  }
+
   /**
    * Handles any clean up needed before a building is removed
    */
@@ -111,37 +222,129 @@ export class Citizen {
     const workerIndex = this.workplace?.jobs.workers.indexOf(this);
 
     if (workerIndex !== undefined && workerIndex > -1) {
-      this.workplace.jobs.workers.splice(workerIndex);
+      this.workplace.jobs.workers.splice(workerIndex, 1);
     }
   }
 
   /**
-   * Search for a job nearby
+   * Search for the job with the shortest drive from home
    * @param {object} city 
-   * @returns 
+   * @returns {CommercialZone | IndustrialZone | null}
    */
   #findJob(city) {
-    const tile = city.findTile(this.residence, (tile) => {
-      // Search for an industrial or commercial building with at least one available job
-      if (tile.building?.type === 'industrial' || 
-          tile.building?.type === 'commercial') {
-        if (tile.building.jobs.availableJobs > 0) {
-          return true;
-        }
-      }
-
-      return false;
-    }, config.citizen.maxJobSearchDistance);
+    const openings = this.#findOpenings(city);
+    if (openings.length === 0) return null;
 
-    if (tile) {
+    // Only take a job that can be reached by road
+    const route = city.findRoute(this.residence, openings, config.citizen.maxCommuteDistance);
+    if (route) {
       // Employ the citizen at the building
-      tile.building.jobs.workers.push(this);
-      return tile.building;
+      route.target.jobs.workers.push(this);
+      return route.target;
     } else {
       return null;
     }
   }
 
+  /**
+   * Takes a job with an opening if it is a shorter drive from home than the
+   * current one by at least `minCommuteSaving` tiles
+   * @param {object} city 
+   */
+  #findCloserJob(city) {
+    const current = city.findRoute(this.residence, this.workplace);
+    const openings = this.#findOpenings(city).filter((building) => building !== this.workplace);
+    if (!current || openings.length === 0) return;
+
+    const route = city.findRoute(this.residence, openings, current.length - config.citizen.minCommuteSaving);
+    if (route) {
+      this.#quitJob();
+      route.target.jobs.workers.push(this);
+      this.workplace = route.target;
+    }
+  }
+
+  /**
+   * Returns the workplaces (shops, factories and civic buildings) with at
+   * least one available job
+   * @param {object} city 
+   * @returns {(CommercialZone | IndustrialZone | CivicBuilding)[]}
+   */
+  #findOpenings(city) {
+    const openings = [];
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const building = city.getTile(x, y).building;
+        if (building?.jobs && building.jobs.availableJobs > 0) {
+          openings.push(building);
+        }
+      }
+    }
+    return openings;
+  }
+
+  /**
+   * Moves the citizen into a new home. They keep their job while it can
+   * still be reached by road from there
+   * @param {ResidentialZone} residence 
+   */
+  moveTo(residence) {
+    this.residence = residence;
+  }
+
+  /**
+   * Gives the citizen the family name of a relative (e.g. a parent or partner)
+   * @param {Citizen} relative 
+   */
+  takeFamilyName(relative) {
+    const firstName = this.name.split(' ')[0];
+    const familyName = relative.name.split(' ').slice(1).join(' ');
+    this.name = `${firstName} ${familyName}`;
+  }
+
+  /**
+   * Leaves the current job
+   */
+  #quitJob() {
+    const workers = this.workplace.jobs.workers;
+    workers.splice(workers.indexOf(this), 1);
+    this.workplace = null;
+  }
+
+  /**
+   * Returns a plain object describing this citizen for saving. The workplace
+   * is stored by its coordinates and re-linked by `City.deserialize`.
+   * @returns {object}
+   */
+  serialize() {
+    return {
+      id: this.id,
+      name: this.name,
+      age: this.age,
+      ageSteps: this.ageSteps,
+      health: Math.round(this.health),
+      state: this.state,
+      stateCounter: this.stateCounter,
+      workplace: this.workplace ? { x: this.workplace.x, y: this.workplace.y } : null,
+    };
+  }
+
+  /**
+   * Restores the state of this citizen from a saved object. The workplace
+   * is linked separately once every building has been restored.
+   * @param {object} data Object created by `serialize`
+   */
+  deserialize(data) {
+    this.id = data.id;
+    this.name = data.name;
+    this.age = data.age;
+    this.ageSteps = data.ageSteps ?? 0;
+    this.health = data.health ?? 100;
+    this.state = data.state;
+    this.stateCounter = data.stateCounter ?? 0;
+    this.workplace = null;
+  }
+
   /**
    * Sets the workplace for the citizen
    * @param {CommercialZone | IndustrialZone} workplace 
@@ -169,13 +372,16 @@ export class Citizen {
             <img class="info-citizen-icon" src="/icons/job.png">
             ${this.state}
           </span>
+          <span title="Health">
+            ❤️ ${Math.round(this.health)}
+          </span>
         </span>
       </li>
     `;
   }
 }
 
-function generateRandomName() {
+function generateRandomName(rng) {
   const firstNames = [
     'Emma', 'Olivia', 'Ava', 'Sophia', 'Isabella',
     'Liam', 'Noah', 'William', 'James', 'Benjamin',
@@ -192,8 +398,8 @@ function generateRandomName() {
     'Lee', 'King', 'Wright', 'Adams', 'Green'
   ];
 
-  const randomFirstName = firstNames[Math.floor(Math.random() * firstNames.length)];
-  const randomLastName = lastNames[Math.floor(Math.random() * lastNames.length)];
+  const randomFirstName = rng.pick(firstNames);
+  const randomLastName = rng.pick(lastNames);
   
   return randomFirstName + ' ' + randomLastName;
 }
\ No newline at end of file
@@ -1,38 +1,56 @@
-import * as THREE from 'three';
-import { BuildingType } from './buildings/buildingType.js';
+import { BuildingType, LandmarkTypes } from './buildings/buildingType.js';
 import { createBuilding } from './buildings/buildingFactory.js';
 import { Tile } from './tile.js';
 import { VehicleGraph } from './vehicles/vehicleGraph.js';
+import { findRoute } from './vehicles/roadRouter.js';
 import { PowerService } from './services/power.js';
 import { DisasterService } from './services/disaster.js';
+import { BudgetService } from './services/budget.js';
+import { TrafficService } from './services/traffic.js';
+import { DemographicsService } from './services/demographics.js';
+import { CoverageService } from './services/coverage.js';
+import { PollutionService } from './services/pollution.js';
+import { DesirabilityService } from './services/desirability.js';
 import { SimService } from './services/simService.js';
-
-export class City extends THREE.Group {
-  /**
-   * Separate group for organizing debug meshes so they aren't included
-   * in raycasting checks
-   * @type {THREE.Group}
-   */
-  debugMeshes = new THREE.Group();
-  /**
-   * Root node for all scene objects 
-   * @type {THREE.Group}
-   */
-  root = new THREE.Group();
+import { EventEmitter } from './eventEmitter.js';
+import { Random } from './random.js';
+import { SimClock } from './simClock.js';
+import config from '../config.js';
+import { generateTerrain, getTerrainRestriction } from './terrain.js';
+
+/**
+ * Headless model of the city. Holds all simulation state and never touches
+ * the DOM or WebGL. Views subscribe to the following events:
+ * - `tile-changed` (x, y): the building or state of a tile changed
+ * - `simulated` (): one or more simulation steps completed
+ * - `reset` (): every tile was replaced (e.g. a saved game was loaded)
+ */
+export class City extends EventEmitter {
   /**
    * List of services for the city
    * @type {SimService}
    */
   services = [];
   /**
-   * The size of the city in tiles
+   * The width of the city in tiles (number of columns, west to east)
    * @type {number}
    */
-  size = 16;
+  width = 16;
+  /**
+   * The height of the city in tiles (number of rows, north to south)
+   * @type {number}
+   */
+  height = 16;
   /**
    * The current simulation time
    */
   simTime = 0;
+  /**
+   * Clock that decides how fast the simulation runs. Kept when the city is
+   * reset or loaded, like a player setting
+   * @type {SimClock}
+   */
+  clock = new SimClock();
   /**
    * City happiness score (0-100)
    * @type {number}
@@ -44,6 +62,12 @@ export class City extends THREE.Group {
    * @type {number}
    */
   happinessBonus = 0;
+  /**
+   * Random number generator used for every random decision in the
+   * simulation. The same seed and commands reproduce the same city.
+   * @type {Random}
+   */
+  rng;
   /**
    * 2D array of tiles that make up the city
    * @type {Tile[][]}
@@ -54,35 +78,86 @@ export class City extends THREE.Group {
    * @param {VehicleGraph} size 
    */
   vehicleGraph;
+  /**
+   * Returns the number of pending citizen requests (used for happiness)
+   * @type {() => number}
+   */
+  #pendingRequestsFn = () => 0;
+  /**
+   * Cached results of `isReachable`, keyed by the two locations. Cleared
+   * whenever a tile changes since roads may have been added or removed.
+   * @type {Map<string, boolean>}
+   */
+  #reachableCache = new Map();
 
-  constructor(size, name = 'My City') {
+  /**
+   * @param {number} width The width of the city in tiles
+   * @param {number} height The height of the city in tiles
+   * @param {string} name The name of the city
+   * @param {number} seed Seed for the random number generator
+   */
+  constructor(width, height = width, name = 'My City', seed = Random.randomSeed()) {
     super();
 
     this.name = name;
-    this.size = size;
-    
-    this.add(this.debugMeshes);
-    this.add(this.root);
+    this.width = width;
+    this.height = height;
+    this.rng = new Random(seed);
+    this.#createTiles();
+    generateTerrain(this);
 
+    this.services = [];
+    this.powerService = new PowerService();
+    this.services.push(this.powerService);
+    this.disasterService = new DisasterService();
+    this.services.push(this.disasterService);
+    this.budget = new BudgetService();
+    this.services.push(this.budget);
+    this.traffic = new TrafficService();
+    this.services.push(this.traffic);
+    this.demographics = new DemographicsService();
+    this.services.push(this.demographics);
+    this.coverage = new CoverageService();
+    this.services.push(this.coverage);
+    this.pollution = new PollutionService();
+    this.services.push(this.pollution);
+    this.desirability = new DesirabilityService();
+    this.services.push(this.desirability);
+
+    this.vehicleGraph = new VehicleGraph(this.width, this.height, this.rng.derive('vehicles'));
+  }
+
+  /**
+   * Replaces the tiles with an empty grid of the current dimensions
+   */
+  #createTiles() {
     this.tiles = [];
-    for (let x = 0; x < this.size; x++) {
+    for (let x = 0; x < this.width; x++) {
       const column = [];
-      for (let y = 0; y < this.size; y++) {
+      for (let y = 0; y < this.height; y++) {
         const tile = new Tile(x, y);
-        tile.refreshView(this);
-        this.root.add(tile);
         column.push(tile);
       }
       this.tiles.push(column);
     }
+  }
 
-    this.services = [];
-    this.services.push(new PowerService());
-    this.disasterService = new DisasterService();
-    this.services.push(this.disasterService);
+  /**
+   * Sets the function used to count pending citizen requests. The request
+   * engine lives outside of the simulation, so it registers itself here.
+   * @param {() => number} fn
+   */
+  setPendingRequestsFn(fn) {
+    this.#pendingRequestsFn = fn;
+  }
 
-    this.vehicleGraph = new VehicleGraph(this.size);
-    this.debugMeshes.add(this.vehicleGraph);
+  /**
+   * The current simulation time in milliseconds, counting each step as
+   * `config.clock.stepMs`. Pauses and fast-forwards with the game
+   * @type {number}
+   */
+  get simTimeMs() {
+    return this.simTime * config.clock.stepMs;
   }
 
   /**
@@ -91,8 +166,8 @@ export class City extends THREE.Group {
    */
   get population() {
     let population = 0;
-    for (let x = 0; x < this.size; x++) {
-      for (let y = 0; y < this.size; y++) {
+    for (let x = 0; x < this.width; x++) {
+      for (let y = 0; y < this.height; y++) {
         const tile = this.getTile(x, y);
         population += tile.building?.residents?.count ?? 0;
       }
@@ -116,7 +191,7 @@ export class City extends THREE.Group {
   getTile(x, y) {
     if (x === undefined || y === undefined ||
       x < 0 || y < 0 ||
-      x >= this.size || y >= this.size) {
+      x >= this.width || y >= this.height) {
       return null;
     } else {
       return this.tiles[x][y];
@@ -134,14 +209,16 @@ export class City extends THREE.Group {
       this.services.forEach((service) => service.simulate(this));
 
       // Update each building
-      for (let x = 0; x < this.size; x++) {
-        for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.width; x++) {
+        for (let y = 0; y < this.height; y++) {
           this.getTile(x, y).simulate(this);
         }
       }
+
+      this.simTime++;
+      this.#updateHappiness();
     }
-    this.simTime++;
-    this.#updateHappiness();
+    this.emit('simulated');
   }
 
   /**
@@ -158,8 +235,8 @@ export class City extends THREE.Group {
     let residentialCount = 0;
     let commercialCount = 0;
 
-    for (let x = 0; x < this.size; x++) {
-      for (let y = 0; y < this.size; y++) {
+    for (let x = 0; x < this.width; x++) {
+      for (let y = 0; y < this.height; y++) {
         const tile = this.getTile(x, y);
         if (!tile?.building) continue;
 
@@ -171,7 +248,7 @@ export class City extends THREE.Group {
         if (b.type === 'residential') {
           residentialCount++;
           const residents = b.residents?.count ?? 0;
-          const employedRes = b.residents?.list?.filter(c => c.job)?.length ?? 0;
+          const employedRes = b.residents?.list?.filter(c => c.workplace)?.length ?? 0;
           totalResidents += residents;
           employed += employedRes;
         } else if (b.type === 'commercial') {
@@ -196,7 +273,7 @@ export class City extends THREE.Group {
     }
 
     // Pending request penalty: -3 if there is an active request (max 1 at a time)
-    const hasActiveRequest = (window.requestEngine?.getActiveRequests?.() ?? []).length > 0;
+    const hasActiveRequest = this.#pendingRequestsFn() > 0;
     if (hasActiveRequest) score -= 3;
 
     // Disaster penalty: up to -20 based on affected tile count
@@ -205,6 +282,18 @@ export class City extends THREE.Group {
       score -= Math.min(20, n * 5);
     }
 
+    // Tax penalty/bonus: taxes above the default rate make citizens unhappy
+    score += this.budget.happinessModifier;
+
+    // Traffic penalty: up to -10 when the roads are jammed
+    score += this.traffic.happinessModifier;
+
+    // Amenity bonus: up to +10 when residents live near parks and landmarks
+    score += this.desirability.happinessModifier;
+
+    // Pollution penalty: up to -15 when residents live on polluted tiles
+    score += this.pollution.happinessModifier;
+
     // Apply accumulated bonus from resolved requests (decays slowly)
     score += this.happinessBonus;
     if (this.happinessBonus > 0) {
@@ -217,8 +306,51 @@ export class City extends THREE.Group {
   }
 
   /**
-   * Places a building at the specified coordinates if the
-   * tile does not already have a building on it
+   * Returns the reason a building cannot be placed at the specified
+   * coordinates, or `null` if it can be placed
+   * @param {number} x 
+   * @param {number} y 
+   * @param {string} buildingType 
+   * @returns {string | null}
+   */
+  getPlacementError(x, y, buildingType) {
+    const tile = this.getTile(x, y);
+    if (!tile) return `Tile (${x},${y}) is out of bounds`;
+    if (tile.building) return `Tile (${x},${y}) already has a building: ${tile.building.type}`;
+
+    const restriction = getTerrainRestriction(tile.terrain, buildingType);
+    if (restriction) return `Tile (${x},${y}) is ${tile.terrain}: ${restriction}`;
+
+    const landmark = LandmarkTypes.includes(buildingType) && this.#findBuilding(buildingType);
+    if (landmark) return `The city already has a ${buildingType} at (${landmark.x},${landmark.y}); landmarks are one per city`;
+
+    const cost = this.budget.getBuildCost(this, x, y, buildingType);
+    if (!this.budget.canAfford(cost)) {
+      return `Not enough funds for ${buildingType} at (${x},${y}): costs $${cost}, treasury has $${Math.floor(this.budget.treasury)}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Returns the first building of a type, or `null` if the city has none
+   * @param {string} buildingType 
+   * @returns {object | null}
+   */
+  #findBuilding(buildingType) {
+    for (let x = 0; x < this.width; x++) {
+      for (let y = 0; y < this.height; y++) {
+        const building = this.getTile(x, y).building;
+        if (building?.type === buildingType) return building;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Places a building at the specified coordinates if the tile does
+   * not already have a building on it, the terrain allows it and the
+   * treasury can pay for it
    * @param {number} x 
    * @param {number} y 
    * @param {string} buildingType 
@@ -227,16 +359,13 @@ export class City extends THREE.Group {
     const tile = this.getTile(x, y);
 
     // If the tile doesnt' already have a building, place one there
-    if (tile && !tile.building) {
-      tile.setBuilding(createBuilding(x, y, buildingType));
-      tile.refreshView(this);
-      
-      // Update buildings on adjacent tile in case they need to
-      // change their mesh (e.g. roads)
-      this.getTile(x - 1, y)?.refreshView(this);
-      this.getTile(x + 1, y)?.refreshView(this);
-      this.getTile(x, y - 1)?.refreshView(this);
-      this.getTile(x, y + 1)?.refreshView(this);
+    if (tile && !this.getPlacementError(x, y, buildingType)) {
+      this.budget.chargeConstruction(this.budget.getBuildCost(this, x, y, buildingType));
+      tile.setBuilding(createBuilding(x, y, buildingType, this.rng));
+
+      // Update buildings on this tile and adjacent tiles in case they
+      // need to change their style (e.g. roads)
+      this.#tileChanged(x, y);
 
       if (tile.building.type === BuildingType.road) {
         this.vehicleGraph.updateTile(x, y, tile.building);
@@ -244,6 +373,49 @@ export class City extends THREE.Group {
     }
   }
 
+  /**
+   * Puts back a building from its saved state (e.g. when undoing a
+   * bulldoze). Unlike `placeBuilding` this is free and keeps the name,
+   * style, development and residents of the saved building.
+   * @param {number} x 
+   * @param {number} y 
+   * @param {object} data Object created by `Building.serialize`
+   */
+  restoreBuilding(x, y, data) {
+    const tile = this.getTile(x, y);
+    if (!tile || tile.building) return;
+
+    const building = createBuilding(x, y, data.type, this.rng);
+    if (!building) return;
+    building.deserialize(data, this);
+    tile.setBuilding(building);
+    this.#linkWorkplaces(building, data);
+
+    this.#tileChanged(x, y);
+
+    if (building.type === BuildingType.road) {
+      this.vehicleGraph.updateTile(x, y, building);
+    }
+  }
+
+  /**
+   * Gives the residents of a restored building their saved workplaces back,
+   * if the workplace still exists
+   * @param {object} building 
+   * @param {object} data Object created by `Building.serialize`
+   */
+  #linkWorkplaces(building, data) {
+    const residents = building.residents?.list ?? [];
+    data.residents?.forEach((residentData, i) => {
+      const { workplace: coords } = residentData;
+      const workplace = coords ? this.getTile(coords.x, coords.y)?.building : null;
+      if (residents[i] && workplace?.jobs) {
+        residents[i].setWorkplace(workplace);
+        workplace.jobs.workers.push(residents[i]);
+      }
+    });
+  }
+
   /**
    * Bulldozes the building at the specified coordinates
    * @param {number} x 
@@ -259,18 +431,226 @@ export class City extends THREE.Group {
 
       tile.building.dispose();
       tile.setBuilding(null);
-      tile.refreshView(this);
 
-      // Update neighboring tiles in case they need to change their mesh (e.g. roads)
-      this.getTile(x - 1, y)?.refreshView(this);
-      this.getTile(x + 1, y)?.refreshView(this);
-      this.getTile(x, y - 1)?.refreshView(this);
-      this.getTile(x, y + 1)?.refreshView(this);
+      // Update neighboring tiles in case they need to change their style (e.g. roads)
+      this.#tileChanged(x, y);
+    }
+  }
+
+  /**
+   * Updates the style of the building on the tile and its neighbors, then
+   * notifies subscribers that those tiles changed
+   * @param {number} x 
+   * @param {number} y 
+   */
+  #tileChanged(x, y) {
+    const tiles = [
+      this.getTile(x, y),
+      this.getTile(x - 1, y),
+      this.getTile(x + 1, y),
+      this.getTile(x, y - 1),
+      this.getTile(x, y + 1),
+    ];
+
+    this.#reachableCache.clear();
+
+    for (const tile of tiles) {
+      if (!tile) continue;
+      tile.building?.updateStyle(this);
+      this.emit('tile-changed', tile.x, tile.y);
+    }
+  }
+
+  /**
+   * Returns a plain object describing the full simulation state. Vehicles
+   * are not saved since they are short-lived and respawn from the roads.
+   * @returns {object}
+   */
+  serialize() {
+    const tiles = [];
+    for (let x = 0; x < this.width; x++) {
+      for (let y = 0; y < this.height; y++) {
+        tiles.push(this.getTile(x, y).serialize());
+      }
+    }
+
+    return {
+      name: this.name,
+      width: this.width,
+      height: this.height,
+      seed: this.rng.seed,
+      rngState: this.rng.state,
+      simTime: this.simTime,
+      happiness: this.happiness,
+      happinessBonus: this.happinessBonus,
+      tiles,
+      disaster: this.disasterService.serialize(),
+      budget: this.budget.serialize(),
+      traffic: this.traffic.serialize(),
+      demographics: this.demographics.serialize(),
+      pollution: this.pollution.serialize(),
+    };
+  }
+
+  /**
+   * Replaces the state of the city with a saved state. Services and their
+   * callbacks are kept, everything else is rebuilt from `data`.
+   * @param {object} data Object created by `serialize`
+   */
+  deserialize(data) {
+    for (let x = 0; x < this.width; x++) {
+      for (let y = 0; y < this.height; y++) {
+        this.getTile(x, y).setBuilding(null);
+      }
+    }
+
+    this.name = data.name ?? this.name;
+    this.width = data.width;
+    this.height = data.height;
+    this.simTime = data.simTime ?? 0;
+    this.happiness = data.happiness ?? 50;
+    this.happinessBonus = data.happinessBonus ?? 0;
+    this.rng = new Random(data.seed ?? this.rng.seed);
+    this.#createTiles();
+    generateTerrain(this);
+    this.vehicleGraph = new VehicleGraph(this.width, this.height, this.rng.derive('vehicles'));
+    this.#reachableCache.clear();
+    // Grids and coverage are found again on the next simulation step
+    this.powerService.grids = [];
+    this.coverage.clear();
+    this.desirability.clear();
+
+    for (const tileData of data.tiles) {
+      const tile = this.getTile(tileData.x, tileData.y);
+      if (!tile) continue;
+
+      tile.terrain = tileData.terrain ?? tile.terrain;
+      tile.elevation = tileData.elevation ?? tile.elevation;
+      tile.damaged = tileData.damaged ?? false;
+      tile.recoveryProgress = tileData.recoveryProgress ?? 0;
+      tile.activeRecovery = tileData.activeRecovery ?? false;
+
+      if (tileData.building) {
+        const building = createBuilding(tile.x, tile.y, tileData.building.type, this.rng);
+        if (building) {
+          building.deserialize(tileData.building, this);
+          tile.setBuilding(building);
+        }
+      }
+    }
+
+    // Citizens reference their workplace by coordinates, so they can only
+    // be linked once every building has been restored
+    for (const tileData of data.tiles) {
+      const building = this.getTile(tileData.x, tileData.y)?.building;
+      if (building && tileData.building) {
+        this.#linkWorkplaces(building, tileData.building);
+      }
     }
+
+    // Styles depend on neighboring tiles (roads also rebuild the vehicle graph)
+    for (let x = 0; x < this.width; x++) {
+      for (let y = 0; y < this.height; y++) {
+        this.getTile(x, y).building?.updateStyle(this);
+      }
+    }
+
+    this.disasterService.deserialize(data.disaster ?? {}, this);
+    this.budget.deserialize(data.budget ?? {});
+    this.traffic.deserialize(data.traffic ?? {});
+    this.demographics.deserialize(data.demographics ?? {});
+    this.pollution.deserialize(data.pollution ?? {});
+
+    // Restoring buildings draws random numbers, so resume the saved sequence last
+    if (data.rngState !== undefined) {
+      this.rng.state = data.rngState;
+    }
+
+    this.emit('reset');
+  }
+
+  /**
+   * Replaces the city with an empty map
+   * @param {number} width The width of the new map in tiles
+   * @param {number} height The height of the new map in tiles
+   * @param {string} name The name of the new city
+   * @param {number} seed Seed for the random number generator
+   */
+  reset(width, height, name = this.name, seed = Random.randomSeed()) {
+    this.deserialize({ name, width, height, seed, tiles: [] });
   }
 
-  draw() {
-    this.vehicleGraph.updateVehicles();
+  /**
+   * Changes the dimensions of the map, keeping everything that still fits.
+   * Buildings outside the new bounds are removed.
+   * @param {number} width The new width in tiles
+   * @param {number} height The new height in tiles
+   */
+  resize(width, height) {
+    const data = this.serialize();
+    data.width = width;
+    data.height = height;
+    data.tiles = data.tiles.filter((tile) => tile.x < width && tile.y < height);
+    this.deserialize(data);
+  }
+
+  /**
+   * Moves vehicles forward in real time. Called every frame by the renderer,
+   * or directly when running headless. New vehicles drive citizens from
+   * home to work, more often the more citizens commute.
+   * @param {number} deltaMs Elapsed time in milliseconds
+   */
+  updateVehicles(deltaMs) {
+    this.vehicleGraph.updateVehicles(deltaMs, this.traffic.commuters, () => this.#pickCommute());
+  }
+
+  /**
+   * Picks a random employed citizen and returns the lane nodes of their
+   * drive from home to work, or `null` if nobody commutes
+   * @returns {import('./vehicles/vehicleGraphNode.js').VehicleGraphNode[] | null}
+   */
+  #pickCommute() {
+    const commuters = [];
+    for (let x = 0; x < this.width; x++) {
+      for (let y = 0; y < this.height; y++) {
+        for (const citizen of this.getTile(x, y).building?.residents?.list ?? []) {
+          if (citizen.workplace) commuters.push(citizen);
+        }
+      }
+    }
+
+    const citizen = this.vehicleGraph.rng.pick(commuters);
+    if (!citizen) return null;
+    return this.findRoute(citizen.residence, citizen.workplace)?.nodes ?? null;
+  }
+
+  /**
+   * Finds the shortest route by road between two locations. Buildings can
+   * use any road within road access distance to start or end the trip.
+   * @param {{ x: number, y: number }} from The starting location (e.g. a building)
+   * @param {{ x: number, y: number } | { x: number, y: number }[]} to The
+   * destination, or a list of destinations to route to the nearest of
+   * @param {number} maxLength Longest route (in tiles) to look for
+   * @returns {import('./vehicles/roadRouter.js').Route | null} The route, or `null` if
+   * the destination cannot be reached by road within `maxLength`
+   */
+  findRoute(from, to, maxLength = Infinity) {
+    return findRoute(this, from, Array.isArray(to) ? to : [to], maxLength);
+  }
+
+  /**
+   * Returns true if the destination can be reached from the starting
+   * location by road
+   * @param {{ x: number, y: number }} from
+   * @param {{ x: number, y: number }} to
+   * @returns {boolean}
+   */
+  isReachable(from, to) {
+    const key = `${from.x},${from.y}>${to.x},${to.y}`;
+    if (!this.#reachableCache.has(key)) {
+      this.#reachableCache.set(key, this.findRoute(from, to) !== null);
+    }
+    return this.#reachableCache.get(key);
   }
 
   /**
@@ -327,13 +707,13 @@ export class City extends THREE.Group {
     if (x > 0) {
       neighbors.push(this.getTile(x - 1, y));
     }
-    if (x < this.size - 1) {
+    if (x < this.width - 1) {
       neighbors.push(this.getTile(x + 1, y));
     }
     if (y > 0) {
       neighbors.push(this.getTile(x, y - 1));
     }
-    if (y < this.size - 1) {
+    if (y < this.height - 1) {
       neighbors.push(this.getTile(x, y + 1));
     }
 
@@ -0,0 +1,47 @@
+/**
+ * Minimal event emitter. Lets the view layer (and anything else) subscribe
+ * to changes in the simulation without the simulation knowing about them.
+ */
+export class EventEmitter {
+  /**
+   * Listeners keyed by event name
+   * @type {Map<string, Set<Function>>}
+   */
+  #listeners = new Map();
+
+  /**
+   * Subscribes to an event
+   * @param {string} event The event name
+   * @param {Function} listener Called with the event arguments
+   * @returns {() => void} Function that removes the listener
+   */
+  on(event, listener) {
+    if (!this.#listeners.has(event)) {
+      this.#listeners.set(event, new Set());
+    }
+    this.#listeners.get(event).add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Unsubscribes from an event
+   * @param {string} event The event name
+   * @param {Function} listener The listener passed to `on`
+   */
+  off(event, listener) {
+    this.#listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Calls every listener subscribed to the event
+   * @param {string} event The event name
+   * @param  {...any} args Arguments passed to each listener
+   */
+  emit(event, ...args) {
+    const listeners = this.#listeners.get(event);
+    if (!listeners) return;
+    for (const listener of [...listeners]) {
+      listener(...args);
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import config from '../config.js';
+import { BuildingType } from './buildings/buildingType.js';
+import { TerrainType } from './terrain.js';
+
+/**
+ * Per-tile measurements that can be drawn over the map as a heatmap
+ */
+export const HeatmapType = {
+  power: 'power',
+  roadAccess: 'road-access',
+  jobs: 'jobs',
+  residents: 'residents',
+  damage: 'damage',
+  landValue: 'land-value',
+  pollution: 'pollution',
+};
+
+/**
+ * What each heatmap shows. A value of 0 is drawn red and 1 green.
+ */
+export const HeatmapLegend = {
+  [HeatmapType.power]: 'Share of the power each building needs that it gets (red = no power)',
+  [HeatmapType.roadAccess]: 'Buildings with a road within reach (red = no road access)',
+  [HeatmapType.jobs]: 'Open jobs at each workplace (red = no openings, green = all positions open)',
+  [HeatmapType.residents]: 'Residents of each home against its capacity (red = empty, green = full)',
+  [HeatmapType.damage]: 'Recovery of tiles damaged by a disaster (red = just hit, green = almost rebuilt)',
+  [HeatmapType.landValue]: 'Land value from roads, power, shops, development, water, parks, industry, pollution, traffic and damage (red = low, green = high)',
+  [HeatmapType.pollution]: 'Air and ground pollution from factories and power plants (red = heavily polluted, green = clean)',
+};
+
+/**
+ * Returns the value (0-1) of a heatmap at a tile, or `null` if the heatmap
+ * does not apply to the tile (e.g. the jobs heatmap on a house)
+ * @param {object} city
+ * @param {object} tile
+ * @param {string} type One of `HeatmapType`
+ * @returns {number | null}
+ */
+export function getHeatmapValue(city, tile, type) {
+  const building = tile.building;
+  switch (type) {
+    case HeatmapType.power:
+      if (!building || building.power.required <= 0) return null;
+      return Math.min(1, building.power.supplied / building.power.required);
+    case HeatmapType.roadAccess:
+      if (!building?.roadAccess.enabled) return null;
+      return building.roadAccess.value ? 1 : 0;
+    case HeatmapType.jobs:
+      if (!building?.jobs) return null;
+      return building.jobs.maxWorkers > 0 ? building.jobs.availableJobs / building.jobs.maxWorkers : 0;
+    case HeatmapType.residents:
+      if (!building?.residents) return null;
+      return building.residents.count / building.residents.maximum;
+    case HeatmapType.damage:
+      return tile.damaged ? tile.recoveryProgress : null;
+    case HeatmapType.landValue:
+      return getLandValue(city, tile.x, tile.y);
+    case HeatmapType.pollution:
+      return 1 - city.pollution.getValue(tile.x, tile.y);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Returns the land value (0-1) of a tile, derived from its surroundings:
+ * roads, power, shops and developed zones nearby, a waterfront, parks and
+ * landmarks raise it, while factories, pollution, congested roads and
+ * disaster damage lower it. Returns
+ * `null` for water and mountain tiles, which cannot be zoned.
+ * @param {object} city
+ * @param {number} x
+ * @param {number} y
+ * @returns {number | null}
+ */
+export function getLandValue(city, x, y) {
+  const tile = city.getTile(x, y);
+  if (!tile || tile.terrain === TerrainType.water || tile.terrain === TerrainType.mountain) {
+    return null;
+  }
+
+  const cfg = config.landValue;
+  let hasRoad = false;
+  let hasPower = false;
+  let hasWater = false;
+  let commercial = 0;
+  let industrial = 0;
+  let levels = 0;
+  let zones = 0;
+  let congestion = 0;
+
+  for (let dx = -cfg.radius; dx <= cfg.radius; dx++) {
+    for (let dy = -cfg.radius; dy <= cfg.radius; dy++) {
+      const distance = Math.abs(dx) + Math.abs(dy);
+      const neighbor = city.getTile(x + dx, y + dy);
+      if (!neighbor || distance > cfg.radius) continue;
+
+      if (neighbor.terrain === TerrainType.water) hasWater = true;
+      const building = neighbor.building;
+      if (!building) continue;
+
+      if (building.type === BuildingType.road) {
+        hasRoad = true;
+        if (distance === 1) congestion = Math.max(congestion, building.congestion ?? 0);
+      }
+      if (distance <= 1 && building.power.required > 0 && building.power.isFullyPowered) {
+        hasPower = true;
+      }
+      if (building.type === BuildingType.commercial) commercial++;
+      if (building.type === BuildingType.industrial) industrial++;
+      if (building.development) {
+        levels += building.development.level;
+        zones++;
+      }
+    }
+  }
+
+  let value = cfg.base;
+  if (hasRoad) value += cfg.roadAccess;
+  if (hasPower) value += cfg.power;
+  if (hasWater) value += cfg.waterfront;
+  value += Math.min(commercial, cfg.maxCommercial) * cfg.commercial;
+  if (zones > 0) value += (levels / zones - 1) * cfg.development;
+  value -= Math.min(industrial, cfg.maxIndustrial) * cfg.industrial;
+  value -= congestion * cfg.congestion;
+  if (tile.damaged) value -= cfg.damage;
+  value += city.desirability.getValue(x, y) * cfg.desirability;
+  value -= city.pollution.getValue(x, y) * cfg.pollution;
+
+  return Math.max(0, Math.min(1, value));
+}
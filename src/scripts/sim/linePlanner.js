@@ -0,0 +1,122 @@
+import { getTerrainRestriction } from './terrain.js';
+
+/**
+ * Steps to the four neighbouring tiles: east, south, west, north
+ */
+const DIRECTIONS = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+
+/**
+ * Returns true if a line of the building type can run through the tile:
+ * the tile already carries that type, or it is empty, undamaged and the
+ * terrain allows the type. Funds are not checked.
+ * @param {object} city
+ * @param {number} x
+ * @param {number} y
+ * @param {string} type
+ * @returns {boolean}
+ */
+function isPassable(city, x, y, type) {
+  const tile = city.getTile(x, y);
+  if (!tile || tile.damaged) return false;
+  if (tile.building) return tile.building.type === type;
+  return !getTerrainRestriction(tile.terrain, type);
+}
+
+/**
+ * Finds the shortest path of tiles between two tiles that a road or power
+ * line can be drawn along, going around buildings and terrain the type
+ * cannot be built on. Among the shortest paths the one with the fewest
+ * turns wins, so open ground gives a straight or L-shaped line. The end
+ * tiles themselves are always allowed, so a line can start or end at a
+ * building such as a power plant.
+ * @param {object} city
+ * @param {{ x: number, y: number }} from
+ * @param {{ x: number, y: number }} to
+ * @param {string} type The building type to draw
+ * @returns {{ x: number, y: number }[] | null} The tiles from `from` to
+ * `to` inclusive, or `null` if the ends cannot be connected
+ */
+export function findLinePath(city, from, to, type) {
+  if (from.x === to.x && from.y === to.y) return [{ x: from.x, y: from.y }];
+
+  const { width, height } = city;
+  // Search states are a tile plus the direction it was entered from
+  const stateCount = width * height * DIRECTIONS.length;
+  const turns = new Int32Array(stateCount).fill(-1);
+  const previous = new Int32Array(stateCount).fill(-1);
+  const stateOf = (x, y, dir) => (y * width + x) * DIRECTIONS.length + dir;
+
+  const passable = (x, y) =>
+    x >= 0 && y >= 0 && x < width && y < height &&
+    ((x === to.x && y === to.y) || isPassable(city, x, y, type));
+
+  // Breadth-first search one step at a time, so every state of a layer is
+  // the same distance from the start. Within a layer keep the fewest turns.
+  let layer = [];
+  DIRECTIONS.forEach(([dx, dy], dir) => {
+    const x = from.x + dx;
+    const y = from.y + dy;
+    if (!passable(x, y)) return;
+    const state = stateOf(x, y, dir);
+    turns[state] = 0;
+    layer.push(state);
+  });
+
+  while (layer.length > 0) {
+    let goal = -1;
+    for (const state of layer) {
+      const tile = Math.floor(state / DIRECTIONS.length);
+      if (tile % width === to.x && Math.floor(tile / width) === to.y &&
+          (goal === -1 || turns[state] < turns[goal])) {
+        goal = state;
+      }
+    }
+    if (goal !== -1) return buildPath(goal, previous, from, width);
+
+    /** @type {Set<number>} */
+    const next = new Set();
+    for (const state of layer) {
+      const tile = Math.floor(state / DIRECTIONS.length);
+      const x = tile % width;
+      const y = Math.floor(tile / width);
+      // Lines do not run through the goal tile, only end at it
+      if (x === to.x && y === to.y) continue;
+
+      const dir = state % DIRECTIONS.length;
+      DIRECTIONS.forEach(([dx, dy], nextDir) => {
+        const nx = x + dx;
+        const ny = y + dy;
+        if ((nx === from.x && ny === from.y) || !passable(nx, ny)) return;
+
+        const nextState = stateOf(nx, ny, nextDir);
+        const nextTurns = turns[state] + (nextDir === dir ? 0 : 1);
+        if (turns[nextState] === -1 || (next.has(nextState) && nextTurns < turns[nextState])) {
+          turns[nextState] = nextTurns;
+          previous[nextState] = state;
+          next.add(nextState);
+        }
+      });
+    }
+    layer = [...next];
+  }
+
+  return null;
+}
+
+/**
+ * Walks back from the goal state to list the tiles of the path
+ * @param {number} goal
+ * @param {Int32Array} previous
+ * @param {{ x: number, y: number }} from
+ * @param {number} width
+ * @returns {{ x: number, y: number }[]}
+ */
+function buildPath(goal, previous, from, width) {
+  const tiles = [];
+  for (let state = goal; state !== -1; state = previous[state]) {
+    const tile = Math.floor(state / DIRECTIONS.length);
+    tiles.unshift({ x: tile % width, y: Math.floor(tile / width) });
+  }
+  tiles.unshift({ x: from.x, y: from.y });
+  return tiles;
+}
@@ -0,0 +1,115 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32). Every random decision
+ * in the simulation goes through an instance owned by the city, so the same
+ * seed and the same sequence of commands reproduce the same city.
+ */
+export class Random {
+  /**
+   * The seed this generator was created with
+   * @type {number}
+   */
+  seed;
+  /**
+   * Internal generator state
+   * @type {number}
+   */
+  #state;
+
+  /**
+   * @param {number} seed A 32-bit integer seed
+   */
+  constructor(seed = Random.randomSeed()) {
+    this.seed = seed >>> 0;
+    this.#state = this.seed;
+  }
+
+  /**
+   * Returns a new unpredictable seed, used when no seed is given
+   * @returns {number}
+   */
+  static randomSeed() {
+    return Math.floor(Math.random() * 0x100000000);
+  }
+
+  /**
+   * The internal state of the generator. Saving and restoring it resumes the
+   * sequence exactly where it left off.
+   * @type {number}
+   */
+  get state() {
+    return this.#state;
+  }
+
+  set state(value) {
+    this.#state = value >>> 0;
+  }
+
+  /**
+   * Returns the next number in the range [0, 1)
+   * @returns {number}
+   */
+  next() {
+    this.#state = (this.#state + 0x6D2B79F5) >>> 0;
+    let t = this.#state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Returns an integer in the range [min, max]
+   * @param {number} min
+   * @param {number} max
+   * @returns {number}
+   */
+  int(min, max) {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Returns true with the given probability
+   * @param {number} probability Value between 0 and 1
+   * @returns {boolean}
+   */
+  chance(probability) {
+    return this.next() < probability;
+  }
+
+  /**
+   * Returns a random element of the array, or undefined if it is empty
+   * @template T
+   * @param {T[]} array
+   * @returns {T}
+   */
+  pick(array) {
+    return array[Math.floor(this.next() * array.length)];
+  }
+
+  /**
+   * Returns a random hexadecimal identifier
+   * @param {number} length Number of hex digits
+   * @returns {string}
+   */
+  id(length = 12) {
+    let id = '';
+    while (id.length < length) {
+      id += Math.floor(this.next() * 0x10000).toString(16).padStart(4, '0');
+    }
+    return id.substring(0, length);
+  }
+
+  /**
+   * Creates an independent generator whose seed is derived from this
+   * generator's seed and a label. Used for streams that must not disturb the
+   * simulation sequence (e.g. vehicles, which advance in real time).
+   * @param {string} label
+   * @returns {Random}
+   */
+  derive(label) {
+    let hash = this.seed ^ 0x811C9DC5;
+    for (let i = 0; i < label.length; i++) {
+      hash = Math.imul(hash ^ label.charCodeAt(i), 0x01000193);
+    }
+    return new Random(hash >>> 0);
+  }
+}
@@ -0,0 +1,253 @@
+import config from '../../config.js';
+import { BuildingType } from '../buildings/buildingType.js';
+import { TerrainType } from '../terrain.js';
+import { SimService } from './simService.js';
+
+/**
+ * Zone types that pay taxes
+ */
+export const TaxedZones = [
+  BuildingType.residential,
+  BuildingType.commercial,
+  BuildingType.industrial,
+];
+
+/**
+ * Creates an empty monthly ledger
+ * @param {number} month
+ */
+function createLedger(month) {
+  return {
+    month,
+    income: { residential: 0, commercial: 0, industrial: 0 },
+    expenses: { upkeep: 0, construction: 0 },
+  };
+}
+
+/**
+ * The city treasury. Collects taxes from zones, pays upkeep for buildings
+ * and construction costs, and keeps a ledger for each month.
+ */
+export class BudgetService extends SimService {
+  /**
+   * Money available to the city
+   * @type {number}
+   */
+  treasury = config.budget.startingFunds;
+  /**
+   * If true, construction is free and always affordable (e.g. while a
+   * scenario's starting layout is built)
+   * @type {boolean}
+   */
+  unlimitedFunds = false;
+  /**
+   * Tax rate (%) for each zone type
+   * @type {Record<string, number>}
+   */
+  taxRates = {
+    residential: config.budget.defaultTaxRate,
+    commercial: config.budget.defaultTaxRate,
+    industrial: config.budget.defaultTaxRate,
+  };
+  /**
+   * Number of completed months
+   * @type {number}
+   */
+  month = 0;
+  /**
+   * Simulation steps elapsed in the current month
+   * @type {number}
+   */
+  #monthTicks = 0;
+  /**
+   * Ledger for the month in progress
+   */
+  ledger = createLedger(0);
+  /**
+   * Ledgers of completed months, newest last
+   * @type {ReturnType<typeof createLedger>[]}
+   */
+  history = [];
+
+  /**
+   * Happiness bonus (positive) or penalty (negative) from the tax rates.
+   * Taxes above the default rate make citizens unhappy.
+   * @type {number}
+   */
+  get happinessModifier() {
+    const rates = Object.values(this.taxRates);
+    const average = rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+    return (config.budget.defaultTaxRate - average) * config.budget.happinessPerTaxPoint;
+  }
+
+  /**
+   * @param {object} city
+   */
+  simulate(city) {
+    const cfg = config.budget;
+
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const building = city.getTile(x, y).building;
+        if (!building) continue;
+
+        // Taxes and upkeep are monthly amounts, paid a little every step
+        const tax = this.getMonthlyTax(building) / cfg.ticksPerMonth;
+        if (tax > 0) {
+          this.treasury += tax;
+          this.ledger.income[building.type] += tax;
+        }
+
+        const upkeep = (cfg.upkeep[building.type] ?? 0) / cfg.ticksPerMonth;
+        this.treasury -= upkeep;
+        this.ledger.expenses.upkeep += upkeep;
+      }
+    }
+
+    if (++this.#monthTicks >= cfg.ticksPerMonth) {
+      this.#closeMonth();
+    }
+  }
+
+  /**
+   * Returns the tax a building pays per month at the current rates. Taxes
+   * scale with the development level and the number of residents or workers.
+   * @param {object} building
+   * @returns {number}
+   */
+  getMonthlyTax(building) {
+    if (!TaxedZones.includes(building.type)) return 0;
+
+    const level = building.development?.level ?? 1;
+    const taxpayers = building.type === BuildingType.residential
+      ? building.residents.count
+      : building.jobs.filledJobs;
+
+    return taxpayers * level * config.budget.taxBase[building.type] * this.taxRates[building.type] / 100;
+  }
+
+  /**
+   * Returns the cost to build a building type at the coordinates.
+   * Roads over water are bridges, which cost more.
+   * @param {object} city
+   * @param {number} x
+   * @param {number} y
+   * @param {string} buildingType
+   * @returns {number}
+   */
+  getBuildCost(city, x, y, buildingType) {
+    let cost = config.budget.buildCost[buildingType] ?? 0;
+    if (buildingType === BuildingType.road && city.getTile(x, y)?.terrain === TerrainType.water) {
+      cost *= config.budget.bridgeCostMultiplier;
+    }
+    return cost;
+  }
+
+  /**
+   * Returns true if the treasury can pay the amount
+   * @param {number} amount
+   * @returns {boolean}
+   */
+  canAfford(amount) {
+    return this.unlimitedFunds || amount <= 0 || this.treasury >= amount;
+  }
+
+  /**
+   * Pays a construction cost from the treasury. Nothing is paid while
+   * funds are unlimited.
+   * @param {number} amount
+   */
+  chargeConstruction(amount) {
+    if (this.unlimitedFunds) return;
+    this.treasury -= amount;
+    this.ledger.expenses.construction += amount;
+  }
+
+  /**
+   * Returns a construction cost to the treasury (e.g. when a build is undone).
+   * The refund comes off the ledger of the month the cost was paid in and is
+   * capped at that month's construction spending, so no ledger ends up with
+   * negative spending. Costs paid in a month no longer in the history are
+   * not refunded.
+   * @param {number} amount
+   * @param {number} month Month the cost was paid in
+   * @returns {number} Amount refunded
+   */
+  refundConstruction(amount, month = this.month) {
+    const ledger = month === this.month
+      ? this.ledger
+      : this.history.find((entry) => entry.month === month);
+    if (!ledger) return 0;
+
+    const refund = Math.min(amount, Math.max(0, ledger.expenses.construction));
+    this.treasury += refund;
+    ledger.expenses.construction -= refund;
+    return refund;
+  }
+
+  /**
+   * Sets the tax rate for a zone type
+   * @param {string} zoneType
+   * @param {number} rate Tax rate in percent
+   * @returns {string | null} Error message, or `null` on success
+   */
+  setTaxRate(zoneType, rate) {
+    const { minTaxRate, maxTaxRate } = config.budget;
+    if (!TaxedZones.includes(zoneType)) {
+      return `Invalid zone type "${zoneType}". Valid types: ${TaxedZones.join(', ')}`;
+    }
+    if (typeof rate !== 'number' || Number.isNaN(rate) || rate < minTaxRate || rate > maxTaxRate) {
+      return `Tax rate must be between ${minTaxRate} and ${maxTaxRate}%`;
+    }
+    this.taxRates[zoneType] = rate;
+    return null;
+  }
+
+  /**
+   * Moves the current ledger to the history and starts a new month
+   */
+  #closeMonth() {
+    this.history.push(this.ledger);
+    if (this.history.length > config.budget.historyMonths) {
+      this.history.shift();
+    }
+    this.month++;
+    this.#monthTicks = 0;
+    this.ledger = createLedger(this.month);
+  }
+
+  /**
+   * Returns a plain object describing the budget for saving
+   * @returns {object}
+   */
+  serialize() {
+    return {
+      treasury: this.treasury,
+      unlimitedFunds: this.unlimitedFunds,
+      taxRates: { ...this.taxRates },
+      month: this.month,
+      monthTicks: this.#monthTicks,
+      ledger: this.ledger,
+      history: this.history,
+    };
+  }
+
+  /**
+   * Restores the budget from a saved object
+   * @param {object} data Object created by `serialize`
+   */
+  deserialize(data) {
+    this.treasury = data.treasury ?? config.budget.startingFunds;
+    this.unlimitedFunds = data.unlimitedFunds ?? false;
+    this.taxRates = {
+      residential: config.budget.defaultTaxRate,
+      commercial: config.budget.defaultTaxRate,
+      industrial: config.budget.defaultTaxRate,
+      ...data.taxRates,
+    };
+    this.month = data.month ?? 0;
+    this.#monthTicks = data.monthTicks ?? 0;
+    this.ledger = data.ledger ?? createLedger(this.month);
+    this.history = data.history ?? [];
+  }
+}
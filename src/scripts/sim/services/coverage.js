@@ -0,0 +1,186 @@
+import config from '../../config.js';
+import { BuildingType, CivicBuildingTypes } from '../buildings/buildingType.js';
+import { SimService } from './simService.js';
+
+/**
+ * Works out which residents the civic buildings serve. Each step, every
+ * operational school, hospital, police station and fire station serves the
+ * residents of the homes within its radius, nearest first, until its staff
+ * can take no more. Schools only seat children in school. Hospitals and
+ * fire stations also protect the tiles within their reach from disasters
+ * (see `DisasterService`).
+ */
+export class CoverageService extends SimService {
+  /**
+   * Ids of the citizens served by each type of civic building
+   * @type {Record<string, Set<string>>}
+   */
+  #served = createSets();
+  /**
+   * Tiles ('x,y') within reach of an operational building of each type
+   * @type {Record<string, Set<string>>}
+   */
+  #reach = createSets();
+
+  /**
+   * @param {object} city
+   */
+  simulate(city) {
+    this.clear();
+
+    for (const building of this.#findBuildings(city)) {
+      building.served = 0;
+      if (!building.operational) continue;
+
+      const served = this.#served[building.type];
+      const reach = this.#reach[building.type];
+      let remaining = building.effectiveCapacity;
+      for (const tile of this.#findTilesInReach(city, building)) {
+        reach.add(`${tile.x},${tile.y}`);
+        for (const citizen of tile.building?.residents?.list ?? []) {
+          if (remaining <= 0) break;
+          if (served.has(citizen.id) || !needsService(building.type, citizen)) continue;
+          served.add(citizen.id);
+          building.served++;
+          remaining--;
+        }
+      }
+    }
+  }
+
+  /**
+   * Forgets who is served. Coverage is worked out again on the next step
+   */
+  clear() {
+    this.#served = createSets();
+    this.#reach = createSets();
+  }
+
+  /**
+   * Returns true if a tile is within reach of an operational civic building
+   * of the type, whether or not it has room for more residents
+   * @param {string} type One of `CivicBuildingTypes`
+   * @param {number} x
+   * @param {number} y
+   * @returns {boolean}
+   */
+  isInReach(type, x, y) {
+    return this.#reach[type].has(`${x},${y}`);
+  }
+
+  /**
+   * Returns the residents who need the service of a civic building type
+   * but are not served by one (for schools, children without a seat)
+   * @param {string} type One of `CivicBuildingTypes`
+   * @param {object[]} residents
+   * @returns {object[]}
+   */
+  findUnserved(type, residents) {
+    return residents.filter((citizen) =>
+      needsService(type, citizen) && !this.#served[type].has(citizen.id));
+  }
+
+  /**
+   * Returns each civic building and, for each type, how many residents are
+   * served and how many go without
+   * @param {object} city
+   * @returns {object}
+   */
+  getSummary(city) {
+    const residents = [];
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        residents.push(...(city.getTile(x, y).building?.residents?.list ?? []));
+      }
+    }
+
+    const buildings = this.#findBuildings(city);
+    const types = {};
+    for (const type of CivicBuildingTypes) {
+      const ofType = buildings.filter((b) => b.type === type);
+      types[type] = {
+        buildings: ofType.length,
+        operational: ofType.filter((b) => b.operational).length,
+        capacity: ofType.reduce((sum, b) => sum + b.effectiveCapacity, 0),
+        served: this.#served[type].size,
+        unserved: this.findUnserved(type, residents).length,
+        minPopulation: config.civic.buildings[type].minPopulation,
+      };
+    }
+
+    return {
+      population: residents.length,
+      types,
+      buildings: buildings.map((b) => ({
+        type: b.type,
+        name: b.name,
+        x: b.x,
+        y: b.y,
+        status: b.status,
+        operational: b.operational,
+        staff: b.jobs.filledJobs,
+        maxStaff: b.jobs.maxWorkers,
+        radius: b.radius,
+        capacity: b.effectiveCapacity,
+        served: b.served,
+      })),
+    };
+  }
+
+  /**
+   * Returns every civic building in the city
+   * @param {object} city
+   * @returns {object[]}
+   */
+  #findBuildings(city) {
+    const buildings = [];
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const building = city.getTile(x, y).building;
+        if (building && CivicBuildingTypes.includes(building.type)) {
+          buildings.push(building);
+        }
+      }
+    }
+    return buildings;
+  }
+
+  /**
+   * Returns the tiles within the radius of a building, nearest first
+   * @param {object} city
+   * @param {object} building
+   * @returns {object[]}
+   */
+  #findTilesInReach(city, building) {
+    const tiles = [];
+    for (let dx = -building.radius; dx <= building.radius; dx++) {
+      for (let dy = -building.radius; dy <= building.radius; dy++) {
+        const distance = Math.abs(dx) + Math.abs(dy);
+        const tile = city.getTile(building.x + dx, building.y + dy);
+        if (tile && distance <= building.radius) {
+          tiles.push({ tile, distance });
+        }
+      }
+    }
+    return tiles.sort((a, b) => a.distance - b.distance).map(({ tile }) => tile);
+  }
+}
+
+/**
+ * Returns an empty set for each civic building type
+ * @returns {Record<string, Set<string>>}
+ */
+function createSets() {
+  return Object.fromEntries(CivicBuildingTypes.map((type) => [type, new Set()]));
+}
+
+/**
+ * Returns true if a citizen uses the service of a civic building type.
+ * Only children in school need a school seat; everyone else needs the rest
+ * @param {string} type
+ * @param {object} citizen
+ * @returns {boolean}
+ */
+function needsService(type, citizen) {
+  return type === BuildingType.school ? citizen.state === 'school' : true;
+}
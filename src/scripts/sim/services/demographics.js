@@ -0,0 +1,134 @@
+import { BuildingType } from '../buildings/buildingType.js';
+import { DevelopmentState } from '../buildings/modules/development.js';
+import { SimService } from './simService.js';
+
+/**
+ * Things that change the number of citizens in the city
+ */
+export const DemographicEvent = {
+  birth: 'births',
+  death: 'deaths',
+  moveIn: 'movedIn',
+  moveOut: 'movedOut',
+};
+
+/**
+ * Keeps count of the births, deaths and moves that make up the population,
+ * and finds homes for citizens moving within the city. Citizens age, grow
+ * up, retire and die in `Citizen.simulate`; households move in and have
+ * children in `ResidentsModule.simulate`.
+ */
+export class DemographicsService extends SimService {
+  /**
+   * Citizens born in the city since it was founded
+   * @type {number}
+   */
+  births = 0;
+  /**
+   * Citizens who died since the city was founded
+   * @type {number}
+   */
+  deaths = 0;
+  /**
+   * Citizens who moved into the city from outside
+   * @type {number}
+   */
+  movedIn = 0;
+  /**
+   * Citizens who left the city
+   * @type {number}
+   */
+  movedOut = 0;
+
+  /**
+   * Counts a birth, death or move
+   * @param {string} event One of `DemographicEvent`
+   * @param {number} count
+   */
+  record(event, count = 1) {
+    this[event] += count;
+  }
+
+  /**
+   * Returns the nearest developed home with room for more residents, or
+   * `null` if the city has none
+   * @param {object} city
+   * @param {{ x: number, y: number }} from Where the citizen lives now
+   * @param {object} exclude A home that is not considered (e.g. the current one)
+   * @returns {object | null}
+   */
+  findHome(city, from, exclude = null) {
+    let best = null;
+    let bestDistance = Infinity;
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const building = city.getTile(x, y).building;
+        if (building?.type !== BuildingType.residential || building === exclude) continue;
+        if (building.development.state !== DevelopmentState.developed) continue;
+        if (building.residents.count >= building.residents.maximum) continue;
+
+        const distance = Math.abs(x - from.x) + Math.abs(y - from.y);
+        if (distance < bestDistance) {
+          best = building;
+          bestDistance = distance;
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Returns the number of citizens in each state and the counts of births,
+   * deaths and moves since the city was founded
+   * @param {object} city
+   * @returns {object}
+   */
+  getSummary(city) {
+    const states = { idle: 0, school: 0, employed: 0, unemployed: 0, retired: 0 };
+    let population = 0;
+    let totalAge = 0;
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        for (const citizen of city.getTile(x, y).building?.residents?.list ?? []) {
+          states[citizen.state] = (states[citizen.state] ?? 0) + 1;
+          population++;
+          totalAge += citizen.age;
+        }
+      }
+    }
+
+    return {
+      population,
+      averageAge: population > 0 ? Math.round(totalAge / population) : 0,
+      states,
+      births: this.births,
+      deaths: this.deaths,
+      movedIn: this.movedIn,
+      movedOut: this.movedOut,
+    };
+  }
+
+  /**
+   * Returns a plain object describing the counters for saving
+   * @returns {object}
+   */
+  serialize() {
+    return {
+      births: this.births,
+      deaths: this.deaths,
+      movedIn: this.movedIn,
+      movedOut: this.movedOut,
+    };
+  }
+
+  /**
+   * Restores the counters from a saved object
+   * @param {object} data Object created by `serialize`
+   */
+  deserialize(data) {
+    this.births = data.births ?? 0;
+    this.deaths = data.deaths ?? 0;
+    this.movedIn = data.movedIn ?? 0;
+    this.movedOut = data.movedOut ?? 0;
+  }
+}
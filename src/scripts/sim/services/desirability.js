@@ -0,0 +1,140 @@
+import config from '../../config.js';
+import { LandmarkTypes, ParkTypes } from '../buildings/buildingType.js';
+import { SimService } from './simService.js';
+
+/**
+ * Works out how desirable each tile is to live and do business on. Parks,
+ * trees, fountains and landmarks raise the desirability of the tiles around
+ * them, while pollution (see `PollutionService`) lowers it. Desirable zones
+ * level up faster, and residents living on desirable tiles make the city
+ * happier.
+ */
+export class DesirabilityService extends SimService {
+  /**
+   * Desirability (0-1) of each tile, indexed [x][y]
+   * @type {number[][]}
+   */
+  #field = [];
+
+  /**
+   * Average desirability of the tiles the residents live on
+   * @type {number}
+   */
+  averageResidentDesirability = 0;
+
+  /**
+   * Happiness bonus from residents living near parks and landmarks
+   * @type {number}
+   */
+  get happinessModifier() {
+    return this.averageResidentDesirability * config.amenities.maxHappinessBonus;
+  }
+
+  /**
+   * @param {object} city
+   */
+  simulate(city) {
+    this.#field = Array.from({ length: city.width }, () => new Array(city.height).fill(0));
+    for (const amenity of this.#findAmenities(city)) {
+      for (let dx = -amenity.radius; dx <= amenity.radius; dx++) {
+        for (let dy = -amenity.radius; dy <= amenity.radius; dy++) {
+          const x = amenity.x + dx;
+          const y = amenity.y + dy;
+          if (!city.getTile(x, y)) continue;
+          this.#field[x][y] = Math.min(1, this.#field[x][y] + amenity.getDesirabilityAt(x, y));
+        }
+      }
+    }
+
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const penalty = city.pollution.getValue(x, y) * config.pollution.desirabilityPenalty;
+        this.#field[x][y] = Math.max(0, this.#field[x][y] - penalty);
+      }
+    }
+
+    let residents = 0;
+    let total = 0;
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const count = city.getTile(x, y).building?.residents?.count ?? 0;
+        residents += count;
+        total += count * this.#field[x][y];
+      }
+    }
+    this.averageResidentDesirability = residents > 0 ? total / residents : 0;
+  }
+
+  /**
+   * Returns the desirability (0-1) of a tile as of the last simulation step
+   * @param {number} x
+   * @param {number} y
+   * @returns {number}
+   */
+  getValue(x, y) {
+    return this.#field[x]?.[y] ?? 0;
+  }
+
+  /**
+   * Forgets the desirability of every tile. It is worked out again on the
+   * next step
+   */
+  clear() {
+    this.#field = [];
+    this.averageResidentDesirability = 0;
+  }
+
+  /**
+   * Returns every park and landmark with its reach, the landmarks that can
+   * still be built and how much they please the residents
+   * @param {object} city
+   * @returns {object}
+   */
+  getSummary(city) {
+    const amenities = this.#findAmenities(city);
+    let residents = 0;
+    let nearAmenity = 0;
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const count = city.getTile(x, y).building?.residents?.count ?? 0;
+        residents += count;
+        if (this.getValue(x, y) > 0) nearAmenity += count;
+      }
+    }
+
+    return {
+      amenities: amenities.map((a) => ({
+        type: a.type,
+        name: a.name,
+        x: a.x,
+        y: a.y,
+        landmark: a.landmark,
+        radius: a.radius,
+        desirability: a.desirability,
+      })),
+      landmarksAvailable: LandmarkTypes.filter((type) => !amenities.some((a) => a.type === type)),
+      residents,
+      residentsNearAmenity: nearAmenity,
+      averageResidentDesirability: Math.round(this.averageResidentDesirability * 100) / 100,
+      happinessBonus: Math.round(this.happinessModifier * 10) / 10,
+    };
+  }
+
+  /**
+   * Returns every park and landmark in the city
+   * @param {object} city
+   * @returns {object[]}
+   */
+  #findAmenities(city) {
+    const amenities = [];
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const building = city.getTile(x, y).building;
+        if (building && (ParkTypes.includes(building.type) || LandmarkTypes.includes(building.type))) {
+          amenities.push(building);
+        }
+      }
+    }
+    return amenities;
+  }
+}
@@ -1,4 +1,5 @@
 import { SimService } from './simService.js';
+import { BuildingType } from '../buildings/buildingType.js';
 import config from '../../config.js';
 
 export class DisasterService extends SimService {
@@ -31,20 +32,20 @@ export class DisasterService extends SimService {
 
     // Count buildings
     let buildingCount = 0;
-    for (let x = 0; x < city.size; x++) {
-      for (let y = 0; y < city.size; y++) {
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
         if (city.getTile(x, y)?.building) buildingCount++;
       }
     }
 
     if (buildingCount < cfg.minBuildingsForDisaster) return;
     if (city.simTime - this.lastDisasterTick < cfg.minTicksBetweenDisasters) return;
-    if (Math.random() > cfg.disasterChance) return;
+    if (!city.rng.chance(cfg.disasterChance)) return;
 
     // Pick a random tile with a building as epicenter
     const buildingTiles = [];
-    for (let x = 0; x < city.size; x++) {
-      for (let y = 0; y < city.size; y++) {
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
         const tile = city.getTile(x, y);
         if (tile?.building) buildingTiles.push({ x, y });
       }
@@ -52,9 +53,9 @@ export class DisasterService extends SimService {
 
     if (buildingTiles.length === 0) return;
 
-    const epicenter = buildingTiles[Math.floor(Math.random() * buildingTiles.length)];
-    const sizeX = cfg.minAffectedSize + Math.floor(Math.random() * (cfg.maxAffectedSize - cfg.minAffectedSize + 1));
-    const sizeY = cfg.minAffectedSize + Math.floor(Math.random() * (cfg.maxAffectedSize - cfg.minAffectedSize + 1));
+    const epicenter = city.rng.pick(buildingTiles);
+    const sizeX = city.rng.int(cfg.minAffectedSize, cfg.maxAffectedSize);
+    const sizeY = city.rng.int(cfg.minAffectedSize, cfg.maxAffectedSize);
 
     this.triggerDisaster(city, epicenter.x, epicenter.y, sizeX, sizeY);
   }
@@ -62,41 +63,49 @@ export class DisasterService extends SimService {
   triggerDisaster(city, epicenterX, epicenterY, sizeX, sizeY) {
     const cfg = config.disaster;
     const affectedTiles = [];
+    let destroyedCount = 0;
+    let savedCount = 0;
 
     // Calculate affected area centered on epicenter
     const startX = Math.max(0, epicenterX - Math.floor(sizeX / 2));
     const startY = Math.max(0, epicenterY - Math.floor(sizeY / 2));
-    const endX = Math.min(city.size - 1, startX + sizeX - 1);
-    const endY = Math.min(city.size - 1, startY + sizeY - 1);
+    const endX = Math.min(city.width - 1, startX + sizeX - 1);
+    const endY = Math.min(city.height - 1, startY + sizeY - 1);
 
     for (let x = startX; x <= endX; x++) {
       for (let y = startY; y <= endY; y++) {
         const tile = city.getTile(x, y);
         if (!tile) continue;
 
-        // Destroy building on this tile
+        // Destroy building on this tile, unless a fire station nearby saves it
         if (tile.building) {
-          city.bulldoze(x, y);
+          if (city.coverage.isInReach(BuildingType.fireStation, x, y) &&
+              city.rng.chance(config.civic.fireProtection)) {
+            savedCount++;
+          } else {
+            city.bulldoze(x, y);
+            destroyedCount++;
+          }
         }
 
-        // Random recovery time per tile (5-10 minutes)
-        const totalRecoveryTicks = cfg.minRecoveryTicks +
-          Math.floor(Math.random() * (cfg.maxRecoveryTicks - cfg.minRecoveryTicks + 1));
+        // Random recovery time per tile (5-10 minutes), shorter where a
+        // hospital nearby treats the injured
+        let totalRecoveryTicks = city.rng.int(cfg.minRecoveryTicks, cfg.maxRecoveryTicks);
+        if (city.coverage.isInReach(BuildingType.hospital, x, y)) {
+          totalRecoveryTicks = Math.round(totalRecoveryTicks * config.civic.hospitalRecovery);
+        }
 
         tile.damaged = true;
         tile.recoveryProgress = 0;
-        tile.applyDamageVisuals(city);
 
         affectedTiles.push({ x, y, tile, totalRecoveryTicks });
       }
     }
 
-    const destroyedCount = affectedTiles.filter(t => !t.tile.building).length;
-
     this.activeDisaster = { epicenterX, epicenterY, affectedTiles };
     this.lastDisasterTick = city.simTime;
 
-    console.log(`[Disaster] Earthquake at (${epicenterX},${epicenterY})! ${affectedTiles.length} tiles affected, ${destroyedCount} buildings destroyed.`);
+    console.log(`[Disaster] Earthquake at (${epicenterX},${epicenterY})! ${affectedTiles.length} tiles affected, ${destroyedCount} buildings destroyed, ${savedCount} saved by firefighters.`);
 
     if (this.#notifyFn) {
       this.#notifyFn({
@@ -104,6 +113,7 @@ export class DisasterService extends SimService {
         epicenterY,
         affectedTileCount: affectedTiles.length,
         destroyedBuildingCount: destroyedCount,
+        savedBuildingCount: savedCount,
       });
     }
   }
@@ -122,12 +132,11 @@ export class DisasterService extends SimService {
       }
 
       entry.tile.recoveryProgress = Math.min(1, entry.tile.recoveryProgress + increment);
-      entry.tile.updateDamageVisuals(city);
 
       if (entry.tile.recoveryProgress >= 1) {
         entry.tile.damaged = false;
         entry.tile.recoveryProgress = 0;
-        entry.tile.clearDamageVisuals(city);
+        entry.tile.activeRecovery = false;
         recovered.push(entry);
       }
     }
@@ -167,7 +176,8 @@ export class DisasterService extends SimService {
       return { success: false, message: `タイル(${x},${y})は既に復旧作業中です。` };
     }
 
-    entry.tile.setActiveRecovery(true);
+    entry.tile.activeRecovery = true;
+    city.emit('tile-changed', x, y);
     const pct = Math.round(entry.tile.recoveryProgress * 100);
     const remaining = Math.ceil((1 - entry.tile.recoveryProgress) * entry.totalRecoveryTicks / config.disaster.activeRecoveryMultiplier);
 
@@ -177,6 +187,46 @@ export class DisasterService extends SimService {
     };
   }
 
+  /**
+   * Returns a plain object describing the disaster state for saving
+   * @returns {object}
+   */
+  serialize() {
+    return {
+      lastDisasterTick: Number.isFinite(this.lastDisasterTick) ? this.lastDisasterTick : null,
+      activeDisaster: this.activeDisaster ? {
+        epicenterX: this.activeDisaster.epicenterX,
+        epicenterY: this.activeDisaster.epicenterY,
+        affectedTiles: this.activeDisaster.affectedTiles.map(({ x, y, totalRecoveryTicks }) => ({ x, y, totalRecoveryTicks })),
+      } : null,
+    };
+  }
+
+  /**
+   * Restores the disaster state from a saved object. Tile damage and recovery
+   * progress are stored on the tiles themselves, so they must be restored first.
+   * @param {object} data Object created by `serialize`
+   * @param {object} city
+   */
+  deserialize(data, city) {
+    this.lastDisasterTick = data.lastDisasterTick ?? -Infinity;
+    this.activeDisaster = null;
+
+    if (data.activeDisaster) {
+      const affectedTiles = data.activeDisaster.affectedTiles
+        .map(({ x, y, totalRecoveryTicks }) => ({ x, y, tile: city.getTile(x, y), totalRecoveryTicks }))
+        .filter((entry) => entry.tile);
+
+      if (affectedTiles.length > 0) {
+        this.activeDisaster = {
+          epicenterX: data.activeDisaster.epicenterX,
+          epicenterY: data.activeDisaster.epicenterY,
+          affectedTiles,
+        };
+      }
+    }
+  }
+
   getDisasterInfo() {
     if (!this.activeDisaster) {
       return { active: false, message: '現在、災害は発生していません。' };
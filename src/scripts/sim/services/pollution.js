@@ -0,0 +1,251 @@
+import config from '../../config.js';
+import { BuildingType, ParkTypes, PowerPlantTypes } from '../buildings/buildingType.js';
+import { DevelopmentState } from '../buildings/modules/development.js';
+import { SimService } from './simService.js';
+
+/**
+ * Models the air and ground pollution of the city. Each step, developed
+ * factories and working power plants emit pollution onto their tiles, the
+ * pollution spreads to the neighboring tiles and slowly decays, and parks
+ * and trees absorb some of it. Pollution makes homes less desirable, makes
+ * their residents less healthy and lowers happiness.
+ */
+export class PollutionService extends SimService {
+  /**
+   * Air pollution (0-1) of each tile, indexed [x][y]
+   * @type {number[][]}
+   */
+  #air = [];
+  /**
+   * Ground pollution (0-1) of each tile, indexed [x][y]
+   * @type {number[][]}
+   */
+  #ground = [];
+
+  /**
+   * Average pollution of the tiles the residents live on
+   * @type {number}
+   */
+  averageResidentPollution = 0;
+
+  /**
+   * Happiness penalty (negative) from residents living on polluted tiles
+   * @type {number}
+   */
+  get happinessModifier() {
+    return -this.averageResidentPollution * config.pollution.maxHappinessPenalty;
+  }
+
+  /**
+   * @param {object} city
+   */
+  simulate(city) {
+    if (this.#air.length !== city.width || this.#air[0]?.length !== city.height) {
+      this.#air = createField(city);
+      this.#ground = createField(city);
+    }
+
+    this.#air = spread(city, this.#air, config.pollution.air);
+    this.#ground = spread(city, this.#ground, config.pollution.ground);
+
+    for (const source of this.#findSources(city)) {
+      this.#air[source.x][source.y] = Math.min(1, this.#air[source.x][source.y] + source.air);
+      this.#ground[source.x][source.y] = Math.min(1, this.#ground[source.x][source.y] + source.ground);
+    }
+
+    for (const absorber of this.#findAbsorbers(city)) {
+      for (let dx = -absorber.radius; dx <= absorber.radius; dx++) {
+        for (let dy = -absorber.radius; dy <= absorber.radius; dy++) {
+          const x = absorber.x + dx;
+          const y = absorber.y + dy;
+          if (!city.getTile(x, y)) continue;
+          const remaining = 1 - absorber.getAbsorptionAt(x, y);
+          this.#air[x][y] *= remaining;
+          this.#ground[x][y] *= remaining;
+        }
+      }
+    }
+
+    let residents = 0;
+    let total = 0;
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const count = city.getTile(x, y).building?.residents?.count ?? 0;
+        residents += count;
+        total += count * this.getValue(x, y);
+      }
+    }
+    this.averageResidentPollution = residents > 0 ? total / residents : 0;
+  }
+
+  /**
+   * Returns the combined air and ground pollution (0-1) of a tile
+   * @param {number} x
+   * @param {number} y
+   * @returns {number}
+   */
+  getValue(x, y) {
+    return Math.min(1, (this.#air[x]?.[y] ?? 0) + (this.#ground[x]?.[y] ?? 0));
+  }
+
+  /**
+   * Returns the factories and power plants that pollute, the most polluted
+   * homes, and how pollution affects the health and happiness of the
+   * residents
+   * @param {object} city
+   * @returns {object}
+   */
+  getSummary(city) {
+    const round = (value) => Math.round(value * 100) / 100;
+    const homes = [];
+    let tiles = 0;
+    let totalPollution = 0;
+    let residents = 0;
+    let totalHealth = 0;
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const pollution = this.getValue(x, y);
+        tiles++;
+        totalPollution += pollution;
+
+        const list = city.getTile(x, y).building?.residents?.list ?? [];
+        residents += list.length;
+        totalHealth += list.reduce((sum, citizen) => sum + citizen.health, 0);
+        if (list.length > 0 && pollution > 0) {
+          homes.push({ x, y, pollution: round(pollution), residents: list.length });
+        }
+      }
+    }
+
+    return {
+      sources: this.#findSources(city).map((s) => ({
+        type: s.building.type,
+        name: s.building.name,
+        x: s.x,
+        y: s.y,
+        air: round(s.air),
+        ground: round(s.ground),
+      })),
+      averagePollution: tiles > 0 ? round(totalPollution / tiles) : 0,
+      averageResidentPollution: round(this.averageResidentPollution),
+      complaintThreshold: config.pollution.complaintThreshold,
+      pollutedHomes: homes
+        .filter((home) => home.pollution >= config.pollution.complaintThreshold).length,
+      mostPollutedHomes: homes.sort((a, b) => b.pollution - a.pollution).slice(0, 5),
+      residents,
+      averageHealth: residents > 0 ? Math.round(totalHealth / residents) : 100,
+      happinessPenalty: Math.round(this.happinessModifier * 10) / 10,
+    };
+  }
+
+  /**
+   * Returns a plain object describing the pollution fields for saving
+   * @returns {object}
+   */
+  serialize() {
+    return {
+      air: this.#air.map((column) => [...column]),
+      ground: this.#ground.map((column) => [...column]),
+      averageResidentPollution: this.averageResidentPollution,
+    };
+  }
+
+  /**
+   * Restores the pollution fields from a saved object
+   * @param {object} data Object created by `serialize`
+   */
+  deserialize(data) {
+    this.#air = (data.air ?? []).map((column) => [...column]);
+    this.#ground = (data.ground ?? []).map((column) => [...column]);
+    this.averageResidentPollution = data.averageResidentPollution ?? 0;
+  }
+
+  /**
+   * Returns each building that pollutes and how much air and ground
+   * pollution it adds to its tile each step
+   * @param {object} city
+   * @returns {{ building: object, x: number, y: number, air: number, ground: number }[]}
+   */
+  #findSources(city) {
+    const sources = [];
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const building = city.getTile(x, y).building;
+        let rate = null;
+        let amount = 0;
+        if (building?.type === BuildingType.industrial &&
+            building.development.state === DevelopmentState.developed) {
+          rate = config.pollution.industrial;
+          amount = building.development.level;
+        } else if (PowerPlantTypes.includes(building?.type) && building.roadAccess.value) {
+          // Plants only run (and pollute) with road access
+          rate = config.pollution.powerPlant;
+          amount = building.pollution;
+        }
+        if (rate && amount > 0) {
+          sources.push({ building, x, y, air: rate.air * amount, ground: rate.ground * amount });
+        }
+      }
+    }
+    return sources;
+  }
+
+  /**
+   * Returns every park and tree that absorbs pollution
+   * @param {object} city
+   * @returns {object[]}
+   */
+  #findAbsorbers(city) {
+    const absorbers = [];
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const building = city.getTile(x, y).building;
+        if (ParkTypes.includes(building?.type) && building.absorption > 0) {
+          absorbers.push(building);
+        }
+      }
+    }
+    return absorbers;
+  }
+}
+
+/**
+ * Returns a field with no pollution on any tile
+ * @param {object} city
+ * @returns {number[][]}
+ */
+function createField(city) {
+  return Array.from({ length: city.width }, () => new Array(city.height).fill(0));
+}
+
+/**
+ * Returns the field one step later: each tile passes `spread` of its
+ * pollution on to its four neighbors (pollution spreading off the map is
+ * lost), and every tile loses `decay` of what it has
+ * @param {object} city
+ * @param {number[][]} field
+ * @param {{ spread: number, decay: number }} rates
+ * @returns {number[][]}
+ */
+function spread(city, field, rates) {
+  const next = createField(city);
+  for (let x = 0; x < city.width; x++) {
+    for (let y = 0; y < city.height; y++) {
+      const value = field[x][y];
+      if (value <= 0) continue;
+
+      const share = value * rates.spread / 4;
+      next[x][y] += value - share * 4;
+      for (const [nx, ny] of [[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]]) {
+        if (city.getTile(nx, ny)) next[nx][ny] += share;
+      }
+    }
+  }
+
+  for (let x = 0; x < city.width; x++) {
+    for (let y = 0; y < city.height; y++) {
+      next[x][y] = Math.min(1, next[x][y] * (1 - rates.decay));
+    }
+  }
+  return next;
+}
@@ -1,116 +1,251 @@
-import { BuildingType } from '../buildings/buildingType.js';
+import config from '../../config.js';
+import { BuildingType, PowerPlantTypes } from '../buildings/buildingType.js';
 import { City } from '../city.js';
+import { SimService } from './simService.js';
+
+/**
+ * @typedef {object} PowerGrid
+ * @property {number} id Number of the grid, counted from the northwest
+ * @property {object[]} plants The power plants feeding the grid
+ * @property {number} supply Total output (kW) of the plants that are running
+ * @property {number} demand Total power (kW) needed by the buildings on the grid
+ * @property {number} delivered Power (kW) that reached the buildings
+ * @property {boolean} brownout True if demand exceeds supply
+ * @property {number} buildingCount Number of connected buildings
+ * @property {number} consumerCount Number of buildings that need power
+ * @property {number} unpoweredCount Number of buildings without all the power they need
+ * @property {{ x: number, y: number, type: string, load: number, capacity: number } | null} bottleneck
+ * The line or building that stopped power from getting through, if any
+ */
+
+/**
+ * Distributes electricity. Buildings that touch each other form a grid, and
+ * every grid with a power plant shares the output of its plants. Power
+ * travels along the shortest path from the nearest plant, and each line or
+ * building on the way can only carry so much. When a grid needs more power
+ * than its plants make, buildings take turns going without (rolling brownouts).
+ */
+export class PowerService extends SimService {
+  /**
+   * Grids with at least one power plant, as of the last simulation step
+   * @type {PowerGrid[]}
+   */
+  grids = [];
+
+  /**
+   * Number of buildings that need power but are not connected to a plant
+   * @type {number}
+   */
+  unconnectedCount = 0;
 
-export class PowerService {
   /**
-   * @param {City} city 
+   * @param {City} city
    */
   simulate(city) {
-    // Find all power plants in the city
-    const powerPlantList = [];
-    for (let x = 0; x < city.size; x++) {
-      for (let y = 0; y < city.size; y++) {
-        const tile = city.getTile(x, y);
+    let consumerCount = 0;
+
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
         const building = city.getTile(x, y).building;
-        if (building) {
-          if (building.type === BuildingType.powerPlant) {
-            const powerPlant = building;
-            // Reset power consumption for each power plant
-            powerPlant.powerConsumed = 0;
-            // Create an object with the power plant, the search frontier, and a visited array
-            powerPlantList.push({
-              powerPlant,
-              frontier: [tile],
-              visited: []
-            });
-          } else {
-            // Reset supplier power for each building
-            building.power.supplied = 0;
-          }
+        if (!building) continue;
+
+        building.updatePowerDemand();
+        building.power.transmitted = 0;
+        if (PowerPlantTypes.includes(building.type)) {
+          // Reset power consumption for each power plant
+          building.powerConsumed = 0;
+        } else {
+          // Reset supplied power for each building
+          building.power.supplied = 0;
         }
+        if (building.power.required > 0) consumerCount++;
       }
     }
 
-    // If there are no power plants, return early
-    if (powerPlantList.length === 0) {
-      return;
+    this.grids = [];
+    const visited = new Set();
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const building = city.getTile(x, y).building;
+        if (building && PowerPlantTypes.includes(building.type) && !visited.has(building)) {
+          const buildings = this.#findConnected(city, building, visited);
+          this.grids.push(this.#distribute(city, buildings, this.grids.length + 1));
+        }
+      }
     }
 
-    // Power is allocated by performing a BFS starting at each power plants and
-    // distributing power to buildings that require power. The search frontier
-    // for each power plant is expanded simultaneously so the load is shared
-    // as evenly as possible between poewr plants. Search is terminated when
-    // all buildings have been visited or the power plant has no power remaining.
-
-    let searching = true;
-    while (searching) {
-      searching = false;
-
-      // Iterate over each power plant
-      for (const item of powerPlantList) {
-        const { powerPlant, frontier, visited } = item;
-
-        // If power plant has no power left to give, ignore it
-        if (powerPlant.powerAvailable === 0) continue;
-
-        // If power plant has power available, find the next building on the search frontier
-        if (frontier.length > 0) {
-          searching = true;
-
-          // Get the next tile
-          const tile = frontier.shift();
-          const building = tile.building;
-          visited.push(tile);
-
-          // Does this building need power?
-          if (building.power.supplied < building.power.required) {
-            const powerSupplied = Math.min(powerPlant.powerAvailable, building.power.required);
-            powerPlant.powerConsumed += powerSupplied;
-            building.power.supplied = powerSupplied;
-          }
-
-          // Add adjacent buildings to the search frontier
-          const { x, y } = tile;
-
-          // Add neighboring tiles to search if
-          // 1) They haven't already been visited
-          // 2) The tile has a building (power can pass through non-powered buildings)
-          const shouldVisit = (tile) => tile && !visited.includes(tile) && tile.building;
-
-          let left = city.getTile(x - 1, y);
-          let right = city.getTile(x + 1, y);
-          let top = city.getTile(x, y - 1);
-          let bottom = city.getTile(x, y + 1);
-
-          if (shouldVisit(left)) {
-            frontier.push(left);
-          }
-          if (shouldVisit(right)) {
-            frontier.push(right);
-          }
-          if (shouldVisit(top)) {
-            frontier.push(top);
-          }            
-          if (shouldVisit(bottom)) {
-            frontier.push(bottom);
-          }
+    this.unconnectedCount = consumerCount -
+      this.grids.reduce((sum, grid) => sum + grid.consumerCount, 0);
+  }
+
+  /**
+   * Returns the most power (kW) a building can pass on to its neighbors
+   * @param {object} building
+   * @returns {number}
+   */
+  getCapacity(building) {
+    return building.type === BuildingType.powerLine
+      ? config.power.lineCapacity
+      : config.power.buildingCapacity;
+  }
+
+  /**
+   * Returns every building connected to the starting building. Power can
+   * pass through any building.
+   * @param {City} city
+   * @param {object} start
+   * @param {Set<object>} visited Buildings already assigned to a grid
+   * @returns {object[]}
+   */
+  #findConnected(city, start, visited) {
+    const buildings = [start];
+    visited.add(start);
+
+    for (let i = 0; i < buildings.length; i++) {
+      for (const neighbor of this.#getNeighbors(city, buildings[i])) {
+        if (!visited.has(neighbor)) {
+          visited.add(neighbor);
+          buildings.push(neighbor);
         }
       }
     }
+
+    return buildings;
   }
 
   /**
-   * Cleans up this module, disposing of any assets and unlinking any references
+   * Returns the buildings on the four adjacent tiles
+   * @param {City} city
+   * @param {object} building
+   * @returns {object[]}
    */
-  dispose() {
-    // Implement in subclass
+  #getNeighbors(city, building) {
+    const { x, y } = building;
+    return [
+      city.getTile(x - 1, y)?.building,
+      city.getTile(x + 1, y)?.building,
+      city.getTile(x, y - 1)?.building,
+      city.getTile(x, y + 1)?.building,
+    ].filter(Boolean);
   }
 
   /**
-   * Returns an HTML representation of this object
-   * @returns {string}
+   * Supplies power to the buildings of one grid
+   * @param {City} city
+   * @param {object[]} buildings Connected buildings, including at least one plant
+   * @param {number} id
+   * @returns {PowerGrid}
    */
-  toHTML() {
-    // Implement in subclass
+  #distribute(city, buildings, id) {
+    const plants = buildings.filter((building) => PowerPlantTypes.includes(building.type));
+
+    // Search outward from every plant at once, so each building is reached
+    // from its nearest plant. `parent` leads back along that path.
+    /** @type {Map<object, object | null>} */
+    const parent = new Map();
+    /** @type {Map<object, object>} */
+    const source = new Map();
+    const order = [...plants];
+    for (const plant of plants) {
+      parent.set(plant, null);
+      source.set(plant, plant);
+    }
+    for (let i = 0; i < order.length; i++) {
+      for (const neighbor of this.#getNeighbors(city, order[i])) {
+        if (!parent.has(neighbor)) {
+          parent.set(neighbor, order[i]);
+          source.set(neighbor, source.get(order[i]));
+          order.push(neighbor);
+        }
+      }
+    }
+
+    const consumers = order.filter((building) => building.power.required > 0);
+    const supply = plants.reduce((sum, plant) => sum + plant.powerAvailable, 0);
+    const demand = consumers.reduce((sum, building) => sum + building.power.required, 0);
+    const brownout = demand > supply;
+
+    if (brownout && consumers.length > 0) {
+      // Nearest buildings are served first. Rotate the order every few ticks
+      // by the share that goes without, so the outage moves around the grid
+      const shortfall = Math.ceil(consumers.length * (1 - supply / demand));
+      const period = Math.floor(city.simTime / config.power.brownoutRotationTicks);
+      const offset = (period * shortfall) % consumers.length;
+      consumers.push(...consumers.splice(0, offset));
+    }
+
+    let remaining = supply;
+    let bottleneck = null;
+    for (const consumer of consumers) {
+      if (remaining <= 0) break;
+
+      // Find the spare capacity on the path back to the plant
+      let spare = Infinity;
+      let limiter = null;
+      for (let b = parent.get(consumer); b && parent.get(b) !== null; b = parent.get(b)) {
+        const free = this.getCapacity(b) - b.power.transmitted;
+        if (free < spare) {
+          spare = free;
+          limiter = b;
+        }
+      }
+
+      const wanted = Math.min(consumer.power.required, remaining);
+      const amount = Math.max(0, Math.min(wanted, spare));
+      if (amount < wanted && (!bottleneck || limiter.power.transmitted > bottleneck.power.transmitted)) {
+        bottleneck = limiter;
+      }
+      if (amount === 0) continue;
+
+      consumer.power.supplied = amount;
+      for (let b = parent.get(consumer); b && parent.get(b) !== null; b = parent.get(b)) {
+        b.power.transmitted += amount;
+      }
+      remaining -= amount;
+      this.#drawPower(plants, source.get(consumer), amount);
+    }
+
+    return {
+      id,
+      plants: plants.map((plant) => ({
+        x: plant.x,
+        y: plant.y,
+        type: plant.type,
+        output: plant.roadAccess.value ? plant.powerCapacity : 0,
+        used: plant.powerConsumed,
+        pollution: plant.pollution,
+        roadAccess: plant.roadAccess.value,
+      })),
+      supply,
+      demand,
+      delivered: supply - remaining,
+      brownout,
+      buildingCount: buildings.length,
+      consumerCount: consumers.length,
+      unpoweredCount: consumers.filter((building) => !building.power.isFullyPowered).length,
+      bottleneck: bottleneck ? {
+        x: bottleneck.x,
+        y: bottleneck.y,
+        type: bottleneck.type,
+        load: bottleneck.power.transmitted,
+        capacity: this.getCapacity(bottleneck),
+      } : null,
+    };
+  }
+
+  /**
+   * Takes power from the nearest plant first, then from the other plants
+   * on the grid
+   * @param {object[]} plants
+   * @param {object} nearest
+   * @param {number} amount
+   */
+  #drawPower(plants, nearest, amount) {
+    for (const plant of [nearest, ...plants]) {
+      const taken = Math.min(amount, plant.powerAvailable);
+      plant.powerConsumed += taken;
+      amount -= taken;
+      if (amount <= 0) break;
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,170 @@
+import config from '../../config.js';
+import { BuildingType } from '../buildings/buildingType.js';
+import { getAccessRoads } from '../vehicles/roadRouter.js';
+import { SimService } from './simService.js';
+
+/**
+ * Road styles where lanes cross and turn, which carry less traffic
+ */
+const INTERSECTION_STYLES = ['three-way', 'four-way'];
+
+/**
+ * Models traffic on the road network. Every employed citizen drives from
+ * home to work along the shortest route, and each road is loaded with the
+ * commuters that pass through it. Roads carrying more commuters than their
+ * capacity become congested, which lowers happiness and slows nearby
+ * development.
+ */
+export class TrafficService extends SimService {
+  /**
+   * Number of employed citizens driving to work
+   * @type {number}
+   */
+  commuters = 0;
+  /**
+   * Average congestion (0-1) of the roads that carry traffic
+   * @type {number}
+   */
+  averageCongestion = 0;
+  /**
+   * Simulation steps since the traffic load was last calculated
+   * @type {number}
+   */
+  #ticks = 0;
+
+  /**
+   * Happiness penalty (negative) from congested roads
+   * @type {number}
+   */
+  get happinessModifier() {
+    return -this.averageCongestion * config.traffic.maxHappinessPenalty;
+  }
+
+  /**
+   * @param {object} city
+   */
+  simulate(city) {
+    // Routing every commute is expensive, so the load is refreshed periodically
+    if (this.#ticks++ % config.traffic.updateInterval === 0) {
+      this.update(city);
+    }
+  }
+
+  /**
+   * Recalculates the traffic load and congestion of every road
+   * @param {object} city
+   */
+  update(city) {
+    const roads = [];
+    /** @type {Map<string, { residence: object, workplace: object, count: number }>} */
+    const trips = new Map();
+
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const building = city.getTile(x, y).building;
+        if (building?.type === BuildingType.road) {
+          building.traffic = 0;
+          roads.push(building);
+        }
+
+        // Citizens sharing a home and workplace drive the same route
+        for (const citizen of building?.residents?.list ?? []) {
+          if (!citizen.workplace) continue;
+          const { residence, workplace } = citizen;
+          const key = `${residence.x},${residence.y}>${workplace.x},${workplace.y}`;
+          const trip = trips.get(key) ?? { residence, workplace, count: 0 };
+          trip.count++;
+          trips.set(key, trip);
+        }
+      }
+    }
+
+    this.commuters = 0;
+    for (const trip of trips.values()) {
+      this.commuters += trip.count;
+      const route = city.findRoute(trip.residence, trip.workplace);
+      for (const { x, y } of route?.tiles ?? []) {
+        city.getTile(x, y).building.traffic += trip.count;
+      }
+    }
+
+    let totalCongestion = 0;
+    let busyRoads = 0;
+    for (const road of roads) {
+      road.congestion = Math.min(1, road.traffic / this.getCapacity(road));
+      if (road.traffic > 0) {
+        totalCongestion += road.congestion;
+        busyRoads++;
+      }
+    }
+    this.averageCongestion = busyRoads > 0 ? totalCongestion / busyRoads : 0;
+  }
+
+  /**
+   * Returns the number of commuters a road carries before it is fully congested
+   * @param {object} road
+   * @returns {number}
+   */
+  getCapacity(road) {
+    return INTERSECTION_STYLES.includes(road.style)
+      ? config.traffic.intersectionCapacity
+      : config.traffic.roadCapacity;
+  }
+
+  /**
+   * Returns the congestion (0-1) of the busiest road a location can use
+   * @param {object} city
+   * @param {number} x
+   * @param {number} y
+   * @returns {number}
+   */
+  getCongestionNear(city, x, y) {
+    let congestion = 0;
+    for (const road of getAccessRoads(city, { x, y })) {
+      congestion = Math.max(congestion, city.getTile(road.x, road.y).building.congestion);
+    }
+    return congestion;
+  }
+
+  /**
+   * Returns the roads at or above the jam threshold, most congested first
+   * @param {object} city
+   * @returns {object[]}
+   */
+  getJammedRoads(city) {
+    const jammed = [];
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const building = city.getTile(x, y).building;
+        if (building?.type === BuildingType.road &&
+            building.congestion >= config.traffic.jamThreshold) {
+          jammed.push(building);
+        }
+      }
+    }
+    return jammed.sort((a, b) => b.congestion - a.congestion || b.traffic - a.traffic);
+  }
+
+  /**
+   * Returns a plain object describing the traffic model for saving. The load
+   * of each road is saved with the road.
+   * @returns {object}
+   */
+  serialize() {
+    return {
+      commuters: this.commuters,
+      averageCongestion: this.averageCongestion,
+      ticks: this.#ticks,
+    };
+  }
+
+  /**
+   * Restores the traffic model from a saved object
+   * @param {object} data Object created by `serialize`
+   */
+  deserialize(data) {
+    this.commuters = data.commuters ?? 0;
+    this.averageCongestion = data.averageCongestion ?? 0;
+    this.#ticks = data.ticks ?? 0;
+  }
+}
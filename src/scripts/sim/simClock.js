@@ -0,0 +1,75 @@
+import config from '../config.js';
+
+/**
+ * Speeds the simulation can run at: paused (0), a multiple of normal speed,
+ * or `max` to run as many steps as the page can keep up with
+ */
+export const GAME_SPEEDS = [0, 1, 2, 4, 'max'];
+
+/**
+ * The simulation clock. Turns real time into simulation steps at the chosen
+ * speed, and scales animation time to match, so pausing or fast-forwarding
+ * affects the whole game alike. Anything that happens "after a while" should
+ * count steps (`city.simTime`) or sim time (`city.simTimeMs`) rather than
+ * reading the wall clock.
+ */
+export class SimClock {
+  /**
+   * Current speed, one of `GAME_SPEEDS`
+   * @type {number | 'max'}
+   */
+  speed = 1;
+  /**
+   * Real time (ms) multiplied by the speed that has not become a step yet
+   * @type {number}
+   */
+  #pending = 0;
+
+  /**
+   * True while the simulation is paused
+   * @type {boolean}
+   */
+  get paused() {
+    return this.speed === 0;
+  }
+
+  /**
+   * Changes the speed of the simulation
+   * @param {number | 'max'} speed One of `GAME_SPEEDS`
+   * @returns {boolean} False if the speed is not one of `GAME_SPEEDS`
+   */
+  setSpeed(speed) {
+    if (!GAME_SPEEDS.includes(speed)) return false;
+    this.speed = speed;
+    this.#pending = 0;
+    return true;
+  }
+
+  /**
+   * Moves the clock forward by an amount of real time
+   * @param {number} realDeltaMs Real time since the last call
+   * @returns {number} Number of simulation steps that are now due
+   */
+  advance(realDeltaMs) {
+    const { stepMs, maxStepsPerTick } = config.clock;
+    if (this.speed === 0) return 0;
+    if (this.speed === 'max') return maxStepsPerTick;
+
+    this.#pending += realDeltaMs * this.speed;
+    const steps = Math.floor(this.#pending / stepMs);
+    this.#pending -= steps * stepMs;
+    // Steps missed beyond the limit (e.g. while the page was hidden) are
+    // dropped rather than caught up in one burst
+    return Math.min(steps, maxStepsPerTick);
+  }
+
+  /**
+   * Converts real time into animation time at the current speed
+   * @param {number} realDeltaMs Real time since the last frame
+   * @returns {number} Time the animation should move forward by
+   */
+  scaleDelta(realDeltaMs) {
+    if (this.speed === 'max') return realDeltaMs * config.clock.maxAnimationSpeed;
+    return realDeltaMs * this.speed;
+  }
+}
@@ -1,107 +1,56 @@
-import * as THREE from 'three';
-import { SimModule } from './buildings/modules/simModule';
+/**
+ * Counter used to assign each simulation object a unique id
+ */
+let nextId = 0;
 
-const SELECTED_COLOR = 0xaaaa55;
-const HIGHLIGHTED_COLOR = 0x555555;
-
-export class SimObject extends THREE.Object3D {
+/**
+ * Base class for all objects in the simulation. Simulation objects hold
+ * state only and never touch the DOM or WebGL, so the simulation can run
+ * headless (e.g. under Node). Rendering lives in `src/scripts/view`.
+ */
+export class SimObject {
   /**
-   * @type {THREE.Mesh?}
+   * Unique identifier for this object
+   * @type {number}
    */
-  #mesh = null;
+  id = nextId++;
   /**
-   * World position of the object
-   * @type {THREE.Vector3}
+   * Display name of the object
+   * @type {string}
    */
-  #worldPos = new THREE.Vector3();
-
+  name = 'SimObject';
   /**
-   * @param {number} x The x-coordinate of the object 
-   * @param {number} y The y-coordinate of the object
+   * The x-coordinate of the object
+   * @type {number}
    */
-  constructor(x = 0, y = 0) {
-    super();
-    this.name = 'SimObject';
-    this.position.x = x;
-    this.position.z = y;
-  }
-
-  get x() {
-    this.getWorldPosition(this.#worldPos);
-    return Math.floor(this.#worldPos.x);
-  }
-
-  get y() {
-    this.getWorldPosition(this.#worldPos);
-    return Math.floor(this.#worldPos.z);
-  }
-
+  x = 0;
   /**
-   * @type {THREE.Mesh?}
+   * The y-coordinate of the object
+   * @type {number}
    */
-  get mesh() {
-    return this.#mesh;
-  } 
+  y = 0;
 
   /**
-   * @type {THREE.Mesh} value
+   * @param {number} x The x-coordinate of the object
+   * @param {number} y The y-coordinate of the object
    */
-  setMesh(value) {
-    // Remove resources for existing mesh
-    if (this.#mesh) {
-      this.dispose();
-      this.remove(this.#mesh);
-    }
-
-    this.#mesh = value;
-
-    // Add to scene graph
-    if (this.#mesh) {
-      this.add(this.#mesh);
-    }
+  constructor(x = 0, y = 0) {
+    this.x = x;
+    this.y = y;
   }
 
   /**
    * Updates the state of this object by one simulation step
-   * @param {City} city 
+   * @param {City} city
    */
   simulate(city) {
     // Override in subclass
   }
 
-  setSelected(value) {
-    if (value) {
-      this.#setMeshEmission(SELECTED_COLOR);
-    } else {
-      this.#setMeshEmission(0);
-    }
-  }
-
-  setFocused(value) {
-    if (value) {
-      this.#setMeshEmission(HIGHLIGHTED_COLOR);
-    } else {
-      this.#setMeshEmission(0);
-    }
-  }
-
-  /**
-   * Sets the emission color of the mesh 
-   * @param {number} color 
-   */
-  #setMeshEmission(color) {
-    if (!this.mesh) return;
-    this.mesh.traverse((obj) => obj.material?.emissive?.setHex(color));
-  }
-
   /**
    * Handles any clean up needed before an object is removed
    */
   dispose() {
-    this.#mesh.traverse((obj) => {
-      if (obj.material) {
-        obj.material?.dispose();
-      }
-    })
+    // Override in subclass
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,118 @@
+import config from '../config.js';
+import { BuildingType, PowerPlantTypes } from './buildings/buildingType.js';
+import { Random } from './random.js';
+
+export const TerrainType = {
+  water: 'water',
+  sand: 'sand',
+  grass: 'grass',
+  hill: 'hill',
+  mountain: 'mountain',
+};
+
+/**
+ * Building types allowed on each terrain type. Roads built on water
+ * become bridges. Zones are barred from steep (mountain) tiles and power
+ * plants need flat land. Trees grow anywhere but on water.
+ * @type {Record<string, string[]>}
+ */
+export const TerrainBuildRules = {
+  [TerrainType.water]: [BuildingType.road, BuildingType.powerLine],
+  [TerrainType.sand]: Object.values(BuildingType),
+  [TerrainType.grass]: Object.values(BuildingType),
+  [TerrainType.hill]: Object.values(BuildingType).filter((type) => !PowerPlantTypes.includes(type)),
+  [TerrainType.mountain]: [BuildingType.road, BuildingType.powerLine, BuildingType.tree],
+};
+
+/**
+ * Returns the reason a building type cannot be built on the terrain,
+ * or `null` if it is allowed
+ * @param {string} terrain
+ * @param {string} buildingType
+ * @returns {string | null}
+ */
+export function getTerrainRestriction(terrain, buildingType) {
+  const allowed = TerrainBuildRules[terrain];
+  if (!allowed || allowed.includes(buildingType)) return null;
+
+  const allowedNames = allowed.map((type) =>
+    (terrain === TerrainType.water && type === BuildingType.road) ? 'road (bridge)' : type);
+  return `${buildingType} cannot be built on ${terrain} (allowed: ${allowedNames.join(', ')})`;
+}
+
+/**
+ * Returns the terrain type for an elevation
+ * @param {number} elevation Value between 0 and 1
+ * @returns {string}
+ */
+export function terrainFromElevation(elevation) {
+  const cfg = config.terrain;
+  if (elevation < cfg.waterLevel) return TerrainType.water;
+  if (elevation < cfg.sandLevel) return TerrainType.sand;
+  if (elevation < cfg.hillLevel) return TerrainType.grass;
+  if (elevation < cfg.mountainLevel) return TerrainType.hill;
+  return TerrainType.mountain;
+}
+
+/**
+ * Sets the elevation and terrain of every tile in the city from seeded
+ * value noise. The terrain only depends on the city seed, so tiles keep
+ * their terrain when the map is resized.
+ * @param {object} city
+ */
+export function generateTerrain(city) {
+  const cfg = config.terrain;
+  const rng = city.rng.derive('terrain');
+  const octaves = [
+    { noise: createValueNoise(rng), scale: cfg.scale, weight: 0.75 },
+    { noise: createValueNoise(rng), scale: cfg.scale / 2, weight: 0.25 },
+  ];
+
+  for (let x = 0; x < city.width; x++) {
+    for (let y = 0; y < city.height; y++) {
+      const tile = city.getTile(x, y);
+      if (cfg.enabled) {
+        tile.elevation = octaves.reduce((sum, { noise, scale, weight }) =>
+          sum + weight * noise(x / scale, y / scale), 0);
+        tile.terrain = terrainFromElevation(tile.elevation);
+      } else {
+        tile.elevation = cfg.sandLevel;
+        tile.terrain = TerrainType.grass;
+      }
+    }
+  }
+}
+
+/**
+ * Creates a 2D value noise function returning values between 0 and 1.
+ * Lattice values are generated lazily so the noise is unbounded.
+ * @param {Random} rng
+ * @returns {(x: number, y: number) => number}
+ */
+function createValueNoise(rng) {
+  const offset = rng.next() * 1000;
+  const salt = rng.int(0, 0x7fffffff);
+
+  // Hash lattice coordinates to a value in [0, 1)
+  const lattice = (ix, iy) => {
+    let h = Math.imul(ix, 0x27d4eb2d) ^ Math.imul(iy, 0x165667b1) ^ salt;
+    h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return ((h ^ (h >>> 16)) >>> 0) / 0x100000000;
+  };
+  const smooth = (t) => t * t * (3 - 2 * t);
+  const lerp = (a, b, t) => a + (b - a) * t;
+
+  return (x, y) => {
+    x += offset;
+    y += offset;
+    const ix = Math.floor(x);
+    const iy = Math.floor(y);
+    const tx = smooth(x - ix);
+    const ty = smooth(y - iy);
+    return lerp(
+      lerp(lattice(ix, iy), lattice(ix + 1, iy), tx),
+      lerp(lattice(ix, iy + 1), lattice(ix + 1, iy + 1), tx),
+      ty);
+  };
+}
@@ -1,4 +1,3 @@
-import * as THREE from 'three';
 import { Building } from './buildings/building.js';
 import { SimObject } from './simObject.js';
 
@@ -8,6 +7,11 @@ export class Tile extends SimObject {
    * @type {string}
    */
   terrain = 'grass';
+  /**
+   * Height of the land from 0 (deep water) to 1 (mountain peak)
+   * @type {number}
+   */
+  elevation = 0.5;
   /**
    * The building on this tile
    * @type {Building?}
@@ -28,15 +32,10 @@ export class Tile extends SimObject {
    * @type {boolean}
    */
   activeRecovery = false;
-  /**
-   * Sprite for recovery icon (shown when activeRecovery is true)
-   * @type {THREE.Sprite?}
-   */
-  #recoveryIcon = null;
 
   constructor(x, y) {
     super(x, y);
-    this.name = `Tile-${this.x}-${this.y}`;
+    this.name = `Tile-${x}-${y}`;
   }
 
   /**
@@ -50,84 +49,29 @@ export class Tile extends SimObject {
    * @type {Building} value
    */
   setBuilding(value) {
-    // Remove and dispose resources for existing building
+    // Dispose resources for existing building
     if (this.#building) {
       this.#building.dispose();
-      this.remove(this.#building);
     }
 
     this.#building = value;
-
-    // Add to scene graph
-    if (value) {
-      this.add(this.#building);
-    }
   }
 
-  refreshView(city) {
-    this.building?.refreshView(city);
-    if (this.building?.hideTerrain) {
-      this.setMesh(null);
-    } else {
-      /**
-       * @type {THREE.Mesh}
-       */
-      const mesh = window.assetManager.getModel(this.terrain, this);
-      mesh.name = this.terrain;
-      this.setMesh(mesh);
-    }
-  }
-
-  applyDamageVisuals(city) {
-    // Tint terrain mesh red
-    if (this.mesh) {
-      this.mesh.traverse((obj) => {
-        if (obj.material) {
-          obj.material.color.setHex(0xff3333);
-        }
-      });
-    }
-  }
-
-  updateDamageVisuals(city) {
-    // Lerp terrain color from red to white based on recoveryProgress
-    if (this.mesh) {
-      const damagedColor = new THREE.Color(0xff3333);
-      const normalColor = new THREE.Color(0xffffff);
-      const lerpedColor = damagedColor.clone().lerp(normalColor, this.recoveryProgress);
-      this.mesh.traverse((obj) => {
-        if (obj.material) {
-          obj.material.color.copy(lerpedColor);
-        }
-      });
-    }
-  }
-
-  setActiveRecovery(active) {
-    this.activeRecovery = active;
-    if (active && !this.#recoveryIcon) {
-      const texture = window.assetManager.statusIcons['recovering'];
-      if (texture) {
-        const mat = new THREE.SpriteMaterial({ map: texture, depthTest: false });
-        const icon = new THREE.Sprite(mat);
-        icon.scale.set(0.4, 0.4, 0.4);
-        icon.position.set(0, 0.8, 0);
-        icon.layers.set(1);
-        this.#recoveryIcon = icon;
-        this.add(icon);
-      }
-    } else if (!active && this.#recoveryIcon) {
-      this.remove(this.#recoveryIcon);
-      this.#recoveryIcon.material?.dispose();
-      this.#recoveryIcon = null;
-    }
-  }
-
-  clearDamageVisuals(city) {
-    // Remove recovery icon if present
-    this.setActiveRecovery(false);
-    // Fully restore tile visuals
-    this.refreshView(city);
+  /**
+   * Returns a plain object describing this tile for saving
+   * @returns {object}
+   */
+  serialize() {
+    return {
+      x: this.x,
+      y: this.y,
+      terrain: this.terrain,
+      elevation: this.elevation,
+      damaged: this.damaged,
+      recoveryProgress: this.recoveryProgress,
+      activeRecovery: this.activeRecovery,
+      building: this.building?.serialize() ?? null,
+    };
   }
 
   simulate(city) {
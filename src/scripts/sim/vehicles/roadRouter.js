@@ -0,0 +1,197 @@
+import config from '../../config.js';
+import { BuildingType } from '../buildings/buildingType.js';
+import { VehicleGraphNode } from './vehicleGraphNode.js';
+
+/**
+ * Nodes sit within this distance of their tile's center. Used to keep the
+ * A* heuristic from overestimating the distance to a goal tile.
+ */
+const MAX_NODE_OFFSET = 0.5;
+
+/**
+ * @typedef {object} Route
+ * @property {{ x: number, y: number }} target The location the route leads to
+ * @property {VehicleGraphNode[]} nodes Lane nodes to drive through, in order
+ * @property {{ x: number, y: number }[]} tiles Road tiles along the route, in order
+ * @property {number} length Length of the route in tiles
+ */
+
+/**
+ * Returns the road tiles a location can drive from or to: every road
+ * within the road access search distance
+ * @param {object} city
+ * @param {{ x: number, y: number }} location
+ * @returns {{ x: number, y: number }[]}
+ */
+export function getAccessRoads(city, location) {
+  const distance = config.modules.roadAccess.searchDistance;
+  const roads = [];
+  for (let x = location.x - distance; x <= location.x + distance; x++) {
+    for (let y = location.y - distance; y <= location.y + distance; y++) {
+      if (Math.abs(x - location.x) + Math.abs(y - location.y) > distance) continue;
+      if (city.getTile(x, y)?.building?.type === BuildingType.road &&
+          city.vehicleGraph.getTile(x, y)) {
+        roads.push({ x, y });
+      }
+    }
+  }
+  return roads;
+}
+
+/**
+ * Finds the shortest route by road from a location to the nearest of the
+ * targets, using A* over the lane nodes of the vehicle graph
+ * @param {object} city
+ * @param {{ x: number, y: number }} from
+ * @param {{ x: number, y: number }[]} targets
+ * @param {number} maxLength Longest route (in tiles) worth finding. The
+ * search gives up once every remaining route would be longer
+ * @returns {Route | null} The route, or `null` if no target can be reached
+ */
+export function findRoute(city, from, targets, maxLength = Infinity) {
+  const graph = city.vehicleGraph;
+
+  // Road tiles next to each target, keyed by tile
+  /** @type {Map<string, { x: number, y: number }>} */
+  const goals = new Map();
+  for (const target of targets) {
+    for (const road of getAccessRoads(city, target)) {
+      const key = `${road.x},${road.y}`;
+      if (!goals.has(key)) goals.set(key, target);
+    }
+  }
+  if (goals.size === 0) return null;
+
+  // Distance to the box around every goal tile. Never more than the
+  // distance to the nearest goal, and cheap however many goals there are
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (const key of goals.keys()) {
+    const [x, y] = key.split(',').map(Number);
+    bounds.minX = Math.min(bounds.minX, x);
+    bounds.minY = Math.min(bounds.minY, y);
+    bounds.maxX = Math.max(bounds.maxX, x);
+    bounds.maxY = Math.max(bounds.maxY, y);
+  }
+  const heuristic = (node) => {
+    const dx = Math.max(bounds.minX - node.x, 0, node.x - bounds.maxX);
+    const dy = Math.max(bounds.minY - node.y, 0, node.y - bounds.maxY);
+    return Math.max(0, Math.hypot(dx, dy) - MAX_NODE_OFFSET);
+  };
+
+  /** @type {Map<VehicleGraphNode, number>} */
+  const cost = new Map();
+  /** @type {Map<VehicleGraphNode, VehicleGraphNode>} */
+  const cameFrom = new Map();
+  const open = new MinHeap();
+
+  for (const road of getAccessRoads(city, from)) {
+    for (const node of graph.getTile(road.x, road.y).nodes) {
+      cost.set(node, 0);
+      open.push(node, heuristic(node));
+    }
+  }
+
+  while (open.size > 0) {
+    const node = open.pop();
+    const tile = node.tile;
+    if (!tile) continue;
+    // Nodes come out in order of their shortest possible route length
+    if (cost.get(node) + heuristic(node) > maxLength) break;
+
+    const target = goals.get(`${tile.x},${tile.y}`);
+    if (target) {
+      return buildRoute(node, cameFrom, cost.get(node), target);
+    }
+
+    for (const next of node.next) {
+      const nextCost = cost.get(node) + Math.hypot(next.x - node.x, next.y - node.y);
+      if (nextCost < (cost.get(next) ?? Infinity)) {
+        cost.set(next, nextCost);
+        cameFrom.set(next, node);
+        open.push(next, nextCost + heuristic(next));
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Walks back from the goal node to build the route
+ * @param {VehicleGraphNode} goal
+ * @param {Map<VehicleGraphNode, VehicleGraphNode>} cameFrom
+ * @param {number} length
+ * @param {{ x: number, y: number }} target
+ * @returns {Route}
+ */
+function buildRoute(goal, cameFrom, length, target) {
+  const nodes = [goal];
+  while (cameFrom.has(nodes[0])) {
+    nodes.unshift(cameFrom.get(nodes[0]));
+  }
+
+  const tiles = [];
+  for (const node of nodes) {
+    const last = tiles[tiles.length - 1];
+    if (!last || last.x !== node.tile.x || last.y !== node.tile.y) {
+      tiles.push({ x: node.tile.x, y: node.tile.y });
+    }
+  }
+
+  return { target, nodes, tiles, length };
+}
+
+/**
+ * Binary min-heap of nodes ordered by priority
+ */
+class MinHeap {
+  /**
+   * @type {{ node: VehicleGraphNode, priority: number }[]}
+   */
+  #items = [];
+
+  get size() {
+    return this.#items.length;
+  }
+
+  /**
+   * @param {VehicleGraphNode} node
+   * @param {number} priority
+   */
+  push(node, priority) {
+    const items = this.#items;
+    items.push({ node, priority });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  /**
+   * Removes and returns the node with the lowest priority
+   * @returns {VehicleGraphNode}
+   */
+  pop() {
+    const items = this.#items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top.node;
+  }
+}
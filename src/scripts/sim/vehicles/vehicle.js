@@ -1,17 +1,54 @@
-import * as THREE from 'three';
 import { VehicleGraphNode } from './vehicleGraphNode.js';
 import config from '../../config.js';
-import { SimObject } from '../simObject.js';
 import models from '../../assets/models.js';
+import { Random } from '../random.js';
 
-const FORWARD = new THREE.Vector3(1, 0, 0);
+let nextVehicleId = 0;
 
-export class Vehicle extends SimObject {
-  constructor(origin, destination) {
-    super();
+export class Vehicle {
+  /**
+   * Lane nodes the vehicle drives through, from the start of its trip to the end
+   * @type {VehicleGraphNode[]}
+   */
+  #path;
+  /**
+   * Index in the path of the node the vehicle is driving towards
+   * @type {number}
+   */
+  #pathIndex = 1;
 
-    this.createdTime = Date.now();
-    this.cycleStartTime = this.createdTime;
+  /**
+   * @param {VehicleGraphNode[]} path Lane nodes to drive through (at least two)
+   * @param {Random} rng Random number generator used to pick the model
+   */
+  constructor(path, rng) {
+    this.#path = path;
+    const origin = path[0] ?? null;
+    const destination = path[1] ?? null;
+
+    /**
+     * Unique identifier for the vehicle
+     * @type {number}
+     */
+    this.id = nextVehicleId++;
+
+    /**
+     * Age of the vehicle in milliseconds
+     * @type {number}
+     */
+    this.age = 0;
+
+    /**
+     * Distance travelled along the current edge in tiles
+     * @type {number}
+     */
+    this.distance = 0;
+
+    /**
+     * True once the vehicle has reached the end of its life and should be removed
+     * @type {boolean}
+     */
+    this.disposed = false;
 
     /**
      * @type {VehicleGraphNode}
@@ -23,44 +60,71 @@ export class Vehicle extends SimObject {
      */
     this.destination = destination;
 
-    this.originWorldPosition = new THREE.Vector3();
-    this.destinationWorldPosition = new THREE.Vector3();
-    this.originToDestination = new THREE.Vector3();
-    this.orientation = new THREE.Vector3();
-
-    this.updateWorldPositions();
+    /**
+     * Current position of the vehicle in city coordinates
+     * @type {{ x: number, y: number }}
+     */
+    this.position = { x: origin?.x ?? 0, y: origin?.y ?? 0 };
 
     const types = Object.entries(models)
     .filter(x => x[1].type === 'vehicle')
     .map(x => x[0]);
 
-    const i = Math.floor(types.length * Math.random());
+    /**
+     * Name of the model used to render this vehicle
+     * @type {string}
+     */
+    this.model = rng.pick(types);
 
-    this.setMesh(window.assetManager.getModel(types[i], this, true));
+    // Join the back of the queue on the first edge
+    if (origin && destination) {
+      origin.getQueue(destination).push(this);
+    }
   }
 
   /**
-   * @returns {number} Returns cycle time between 0 and 1
+   * Length of the edge currently being travelled
+   * @returns {number}
    */
-  get cycleTime() {
-    const distance = this.originToDestination.length();
-    const cycleDuration = distance / config.vehicle.speed;
-    const value = (Date.now() - this.cycleStartTime) / cycleDuration;
+  get edgeLength() {
+    if (!this.origin || !this.destination) return 0;
+    return Math.hypot(
+      this.destination.x - this.origin.x,
+      this.destination.y - this.origin.y);
+  }
 
-    return Math.max(0, Math.min(value, 1));
+  /**
+   * Time in milliseconds until the vehicle reaches the end of its trip
+   * or its maximum lifetime, whichever comes first
+   * @returns {number}
+   */
+  get timeLeft() {
+    let distance = this.edgeLength * (1 - this.cycleTime);
+    for (let i = this.#pathIndex + 1; i < this.#path.length; i++) {
+      const a = this.#path[i - 1];
+      const b = this.#path[i];
+      distance += Math.hypot(b.x - a.x, b.y - a.y);
+    }
+    return Math.min(config.vehicle.maxLifetime - this.age, distance / config.vehicle.speed);
   }
 
   /**
-   * @returns {number} Age of the vehicle in milliseconds
+   * @returns {number} Returns cycle time between 0 and 1
    */
-  get age() {
-    return Date.now() - this.createdTime;
+  get cycleTime() {
+    if (this.edgeLength === 0) return 1;
+    const value = this.distance / this.edgeLength;
+
+    return Math.max(0, Math.min(value, 1));
   }
 
   /**
-   * Updates the vehicle position each render frame
+   * Moves the vehicle forward in time
+   * @param {number} deltaMs Elapsed time in milliseconds
    */
-  simulate() {
+  update(deltaMs) {
+    this.age += deltaMs;
+
     if (!this.origin || !this.destination) {
       this.dispose();
       return;
@@ -68,8 +132,8 @@ export class Vehicle extends SimObject {
 
     // If a road tile was removed, the vehicles will still maintain reference
     // to the nodes. Automatically remove vehicles when the destination node
-    // is no longer part of the scene
-    if (!this.destination.parent) {
+    // is no longer part of the graph or is no longer connected to the origin
+    if (!this.destination.tile || !this.origin.next.includes(this.destination)) {
       this.dispose();
       return;
     }
@@ -79,67 +143,76 @@ export class Vehicle extends SimObject {
       return;
     }
 
-    if (this.cycleTime === 1) {
+    // Drive forward, but wait in the queue if the vehicle ahead is too close
+    const travelled = this.distance + config.vehicle.speed * deltaMs;
+    this.distance = Math.max(this.distance, Math.min(travelled, this.#getMaxDistance()));
+
+    if (this.distance >= this.edgeLength) {
       this.pickNewDestination();
-    } else {
-      this.position.copy(this.originWorldPosition);
-      this.position.lerp(this.destinationWorldPosition, this.cycleTime);
     }
 
-    this.updateOpacity();
-  }
-
-  updateOpacity() {
-    const setOpacity = (opacity) => {
-      this.traverse(obj => {
-        if (obj.material) {
-          obj.material.opacity = Math.max(0, Math.min(opacity, 1))
-        }
-      });
+    if (!this.disposed) {
+      const t = this.cycleTime;
+      this.position.x = this.origin.x + (this.destination.x - this.origin.x) * t;
+      this.position.y = this.origin.y + (this.destination.y - this.origin.y) * t;
     }
+  }
 
-    if (this.age < config.vehicle.fadeTime) {
-      setOpacity(this.age / config.vehicle.fadeTime);
-    } else if ((config.vehicle.maxLifetime - this.age) < config.vehicle.fadeTime) {
-      setOpacity((config.vehicle.maxLifetime - this.age) / config.vehicle.fadeTime);
-    } else {
-      setOpacity(1);
-    }
+  /**
+   * Returns how far along the current edge the vehicle may drive while
+   * keeping its distance to the vehicle ahead. The vehicle ahead is either
+   * in front on the same edge or at the back of the queue on the next edge.
+   * @returns {number}
+   */
+  #getMaxDistance() {
+    const spacing = config.vehicle.spacing;
+    const queue = this.origin.getQueue(this.destination);
+    const ahead = queue[queue.indexOf(this) - 1];
+    if (ahead) return ahead.distance - spacing;
+
+    const next = this.#path[this.#pathIndex + 1];
+    if (!next) return Infinity;
+
+    const nextQueue = this.destination.getQueue(next);
+    const last = nextQueue[nextQueue.length - 1];
+    return last ? this.edgeLength + last.distance - spacing : Infinity;
   }
 
+  /**
+   * Moves on to the next edge of the trip, carrying over any distance
+   * driven past the end of the current edge. The vehicle is removed once it
+   * arrives at the end of its path.
+   */
   pickNewDestination() {
+    this.#leaveQueue();
+    this.distance = Math.max(0, this.distance - this.edgeLength);
+    this.#pathIndex++;
     this.origin = this.destination;
-    this.destination = this.origin?.getRandomNextNode();
-    this.updateWorldPositions();
-    this.cycleStartTime = Date.now();
+    this.destination = this.#path[this.#pathIndex] ?? null;
+
+    if (this.destination) {
+      this.origin.getQueue(this.destination).push(this);
+    } else {
+      this.dispose();
+    }
   }
 
   /**
-   * Updates the world positions each cycle start
+   * Removes the vehicle from the queue of the edge it is driving on
    */
-  updateWorldPositions() {
-    if (!this.origin || !this.destination) {
-      return;
-    }
-
-    this.origin.getWorldPosition(this.originWorldPosition);
-    this.destination.getWorldPosition(this.destinationWorldPosition);
-
-    this.originToDestination.copy(this.destinationWorldPosition);
-    this.originToDestination.sub(this.originWorldPosition);
-
-    this.orientation.copy(this.originToDestination);
-    this.orientation.normalize();
-
-    this.quaternion.setFromUnitVectors(FORWARD, this.orientation);
+  #leaveQueue() {
+    if (!this.origin || !this.destination) return;
+    const queue = this.origin.getQueue(this.destination);
+    const index = queue.indexOf(this);
+    if (index > -1) queue.splice(index, 1);
   }
 
   dispose() {
-    this.traverse((obj) => obj.material?.dispose());
-    this.removeFromParent();
+    this.#leaveQueue();
+    this.disposed = true;
   }
 
   toHTML() {
     return 'Car';
   }
-}
\ No newline at end of file
+}
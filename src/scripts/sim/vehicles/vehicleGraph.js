@@ -1,48 +1,75 @@
-import * as THREE from 'three';
 import { VehicleGraphTile } from './vehicleGraphTile.js';
-import { VehicleGraphHelper } from './vehicleGraphHelper.js';
 import config from '../../config.js';
 import { Vehicle } from './vehicle.js';
 import { Road } from '../buildings/transportation/road.js';
+import { Random } from '../random.js';
+import { VehicleGraphNode } from './vehicleGraphNode.js';
 
-export class VehicleGraph extends THREE.Group {
-  constructor(size) {
-    super();
+export class VehicleGraph {
+  /**
+   * @param {number} width The width of the city in tiles
+   * @param {number} height The height of the city in tiles
+   * @param {Random} rng Random number generator for vehicles. Vehicles move in
+   * real time, so they use their own stream separate from the simulation.
+   */
+  constructor(width, height, rng) {
+    this.width = width;
+    this.height = height;
 
-    this.size = size;
+    /**
+     * @type {Random}
+     */
+    this.rng = rng;
 
     /**
      * @type {VehicleGraphTile[][]}
      */
     this.tiles = [];
 
-    this.vehicles = new THREE.Group();
-    this.add(this.vehicles);
-  
     /**
-     * @type {VehicleGraphHelper}
+     * @type {Vehicle[]}
+     */
+    this.vehicles = [];
+
+    /**
+     * Commute time accumulated towards the next vehicle, in milliseconds
+     * per commuter. A vehicle spawns every `commuteInterval`.
+     * @type {number}
      */
-    this.helper = new VehicleGraphHelper();
-    this.add(this.helper);
+    this.spawnTimer = 0;
 
     // Initialize the vehicle graph tiles array
-    for (let x = 0; x < this.size; x++) {
+    for (let x = 0; x < this.width; x++) {
       const column = [];
-      for (let y = 0; y < this.size; y++) {
+      for (let y = 0; y < this.height; y++) {
         column.push(null);
       }
       this.tiles.push(column);
     }
-
-    this.helper.refreshView(this);
-
-    setInterval(this.spawnVehicle.bind(this), config.vehicle.spawnInterval);
   }
 
-  updateVehicles() {
-    for (const vehicle of this.vehicles.children) {
-      vehicle.simulate();
+  /**
+   * Spawns new vehicles and moves existing ones forward in time
+   * @param {number} deltaMs Elapsed time in milliseconds
+   * @param {number} commuters Number of citizens driving to work. Each one
+   * spawns a vehicle every `commuteInterval` on average.
+   * @param {() => (VehicleGraphNode[] | null)} pickTrip Returns the lane nodes
+   * of a trip for a new vehicle to drive, or `null` if nobody is travelling
+   */
+  updateVehicles(deltaMs, commuters, pickTrip) {
+    this.spawnTimer += deltaMs * commuters;
+    while (this.spawnTimer >= config.vehicle.commuteInterval) {
+      this.spawnTimer -= config.vehicle.commuteInterval;
+      if (this.vehicles.length < config.vehicle.maxVehicles) {
+        this.spawnVehicle(pickTrip());
+      }
+    }
+
+    for (const vehicle of this.vehicles) {
+      vehicle.update(deltaMs);
     }
+
+    this.vehicles = this.vehicles.filter((vehicle) => !vehicle.disposed);
   }
 
   /**
@@ -66,7 +93,7 @@ export class VehicleGraph extends THREE.Group {
     bottomTile?.getWorldTopSide()?.out?.disconnectAll();
     
     if (road) {
-      const tile = VehicleGraphTile.create(x, y, road.rotation.y, road.style);
+      const tile = VehicleGraphTile.create(x, y, road.rotation, road.style);
 
       // Connect tile to adjacent tiles
       if (leftTile) {
@@ -87,13 +114,9 @@ export class VehicleGraph extends THREE.Group {
       }
 
       this.tiles[x][y] = tile;
-      this.add(tile);      
     } else {
       this.tiles[x][y] = null;
     }
-
-    // Update the vehicle graph visualization
-    this.helper.refreshView(this);
   }
 
   /**
@@ -102,45 +125,25 @@ export class VehicleGraph extends THREE.Group {
    * @returns {VehicleGraphTile}
    */
   getTile(x, y) {
-    if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+    if (x >= 0 && x < this.width && y >= 0 && y < this.height) {
       return this.tiles[x][y];
     } else {
       return null;
     }
   }
 
-  spawnVehicle() {
-    const startingTile = this.getStartingTile();
-
-    if (startingTile != null) {
-      const origin = startingTile.getRandomNode();
-      const destination = origin?.getRandomNextNode();
-
-      if (origin && destination) {
-        const vehicle = new Vehicle(origin, destination);
-        this.vehicles.add(vehicle);
-      }
-    }
-  }
-
   /**
-   * Gets a random tile for a vehicle to spawn at
-   * @returns {VehicleGraphTile | null}
+   * Adds a vehicle that drives along the path. Nothing is spawned if the
+   * start of the path is backed up, so the queue never overlaps.
+   * @param {VehicleGraphNode[] | null} path
    */
-  getStartingTile() {
-    const tiles = [];
-    for (let x = 0; x < this.size; x++) {
-      for (let y = 0; y < this.size; y++) {
-        let tile = this.getTile(x, y);
-        if (tile) tiles.push(tile);
-      }
-    }
+  spawnVehicle(path) {
+    if (!path || path.length < 2) return;
 
-    if (tiles.length === 0) {
-      return null;
-    } else {
-      const i = Math.floor(tiles.length * Math.random());
-      return tiles[i];
-    }
+    const queue = path[0].getQueue(path[1]);
+    const last = queue[queue.length - 1];
+    if (last && last.distance < config.vehicle.spacing) return;
+
+    this.vehicles.push(new Vehicle(path, this.rng));
   }
-}
\ No newline at end of file
+}
@@ -1,15 +1,58 @@
-import * as THREE from 'three';
-
-export class VehicleGraphNode extends THREE.Object3D {
+export class VehicleGraphNode {
+  /**
+   * @param {number} x The x-offset of the node relative to the center of its tile
+   * @param {number} y The y-offset of the node relative to the center of its tile
+   */
   constructor(x, y) {
-    super();
+    /**
+     * Offset of the node relative to the center of its (unrotated) tile
+     * @type {{ x: number, y: number }}
+     */
+    this.offset = { x, y };
 
-    this.position.set(x, 0, y);
+    /**
+     * The x-coordinate of the node in city space. Set when added to a tile.
+     * @type {number}
+     */
+    this.x = x;
+
+    /**
+     * The y-coordinate of the node in city space. Set when added to a tile.
+     * @type {number}
+     */
+    this.y = y;
+
+    /**
+     * The tile this node belongs to. Null once the tile is removed from the graph.
+     * @type {import('./vehicleGraphTile.js').VehicleGraphTile | null}
+     */
+    this.tile = null;
 
     /**
      * @type {VehicleGraphNode[]}
      */
     this.next = [];
+
+    /**
+     * Vehicles on the edges leaving this node, keyed by the node at the end
+     * of the edge. Each queue is ordered from the front of the edge to the back.
+     * @type {Map<VehicleGraphNode, import('./vehicle.js').Vehicle[]>}
+     */
+    this.queues = new Map();
+  }
+
+  /**
+   * Returns the vehicles on the edge from this node to the next node
+   * @param {VehicleGraphNode} next
+   * @returns {import('./vehicle.js').Vehicle[]}
+   */
+  getQueue(next) {
+    let queue = this.queues.get(next);
+    if (!queue) {
+      queue = [];
+      this.queues.set(next, queue);
+    }
+    return queue;
   }
 
   connect(node) {
@@ -23,16 +66,4 @@ export class VehicleGraphNode extends THREE.Object3D {
   disconnectAll() {
     this.next = [];
   }
-
-  /**
-   * @returns {VehicleGraphNode | null}
-   */
-  getRandomNextNode() {
-    if (this.next.length === 0) {
-      return null;
-    } else {
-      const i = Math.floor(this.next.length * Math.random());
-      return this.next[i];
-    }
-  }
-}
\ No newline at end of file
+}
@@ -1,18 +1,25 @@
-import * as THREE from 'three';
 import { VehicleGraphNode } from './vehicleGraphNode.js';
-import { RAD2DEG } from 'three/src/math/MathUtils.js';
 
 const roadOffset = 0.05;
 const tileOffset = 0.25;
 
-export class VehicleGraphTile extends THREE.Group {
+export class VehicleGraphTile {
+  /**
+   * @param {number} x The x-coordinate of the tile
+   * @param {number} y The y-coordinate of the tile
+   * @param {number} rotation Rotation of the road in degrees
+   */
   constructor(x, y, rotation) {
-    super();
+    this.x = x;
+    this.y = y;
 
-    this.position.set(x, 0, y);
-    this.rotation.set(0, rotation, 0);
+    this.roadRotation = rotation;
 
-    this.roadRotation = Math.round(rotation * RAD2DEG);
+    /**
+     * Nodes that belong to this tile
+     * @type {VehicleGraphNode[]}
+     */
+    this.nodes = [];
 
     /**
      * @type {{ in: VehicleGraphNode, out: VehicleGraphNode }}
@@ -39,7 +46,7 @@ export class VehicleGraphTile extends THREE.Group {
    * Factory function for creating a road tile of a specified type
    * @param {number} x
    * @param {number} y
-   * @param {number} rotation
+   * @param {number} rotation Rotation of the road in degrees
    * @param {string} style 
    * @returns {VehicleGraphTile | null}
    */
@@ -61,33 +68,31 @@ export class VehicleGraphTile extends THREE.Group {
   }
 
   /**
-   * Disconnect the tile from the vehicle graph
+   * Adds a node to this tile, converting its tile offset into city coordinates
+   * @param {VehicleGraphNode} node
    */
-  disconnectAll() {
-    for (let node of this.children) {
-      node.disconnectAll();
-      node.removeFromParent();
-    }
+  add(node) {
+    const angle = this.roadRotation * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const { x, y } = node.offset;
+
+    node.x = this.x + x * cos + y * sin;
+    node.y = this.y - x * sin + y * cos;
+    node.tile = this;
+
+    this.nodes.push(node);
   }
 
   /**
-   * Get a random starting node for a vehicle
-   * @returns {VehicleGraphNode}
+   * Disconnect the tile from the vehicle graph
    */
-  getRandomNode() {
-    const nodes = [];
-
-    if (this.left.in) nodes.push(this.left.in);
-    if (this.right.in) nodes.push(this.right.in);
-    if (this.top.in) nodes.push(this.top.in);
-    if (this.bottom.in) nodes.push(this.bottom.in);
-
-    if (nodes.length > 0) {
-      const i = Math.floor(nodes.length * Math.random());
-      return nodes[i];
-    } else {
-      return null;
+  disconnectAll() {
+    for (let node of this.nodes) {
+      node.disconnectAll();
+      node.tile = null;
     }
+    this.nodes = [];
   }
 
   getWorldLeftSide() {
@@ -135,7 +140,7 @@ export class EndRoadTile extends VehicleGraphTile {
   constructor(x, y, rotation) {
     super(x, y, rotation);
 
-    this.name = `EndRoadTile (${this.position})`
+    this.name = `EndRoadTile (${this.x}, ${this.y})`
 
     this.bottom = {
       in: new VehicleGraphNode(roadOffset, tileOffset),
@@ -164,7 +169,7 @@ export class StraightRoadTile extends VehicleGraphTile {
   constructor(x, y, rotation) {
     super(x, y, rotation);
 
-    this.name = `StraightRoadTile (${this.position})`
+    this.name = `StraightRoadTile (${this.x}, ${this.y})`
 
     // Create nodes
     this.top = {
@@ -196,7 +201,7 @@ export class CornerRoadTile extends VehicleGraphTile {
   constructor(x, y, rotation) {
     super(x, y, rotation);
 
-    this.name = `CornerRoadTile (${this.position})`
+    this.name = `CornerRoadTile (${this.x}, ${this.y})`
 
     this.bottom = {
       in: new VehicleGraphNode(roadOffset, tileOffset + 0.1),
@@ -238,7 +243,7 @@ export class ThreeWayRoadTile extends VehicleGraphTile {
   constructor(x, y, rotation) {
     super(x, y, rotation);
 
-    this.name = `TeeRoadTile (${this.position})`
+    this.name = `TeeRoadTile (${this.x}, ${this.y})`
 
     // Create nodes
     this.left = {
@@ -295,7 +300,7 @@ export class FourWayRoadTile extends VehicleGraphTile {
   constructor(x, y, rotation) {
     super(x, y, rotation);
 
-    this.name = `IntersectionRoadTile (${this.position})`
+    this.name = `IntersectionRoadTile (${this.x}, ${this.y})`
 
     // Create nodes
     this.left = {
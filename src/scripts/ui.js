@@ -1,18 +1,71 @@
 import { Game } from './game';
 import { SimObject } from './sim/simObject';
 
+/**
+ * Formats an amount of money for display, e.g. $12,345
+ * @param {number} amount
+ * @returns {string}
+ */
+function formatMoney(amount) {
+  return `${amount < 0 ? '-' : ''}$${Math.floor(Math.abs(amount)).toLocaleString('en-US')}`;
+}
+
+/**
+ * Formats simulation steps (seconds at normal speed) as m:ss
+ * @param {number} steps
+ * @returns {string}
+ */
+function formatSteps(steps) {
+  return `${Math.floor(steps / 60)}:${String(Math.floor(steps % 60)).padStart(2, '0')}`;
+}
+
+/**
+ * Simulation steps of history shown by the status bar sparklines
+ * (5 minutes at normal speed)
+ */
+const SPARKLINE_STEPS = 300;
+
+/**
+ * Draws the recent history of a metric as a small line chart, scaled to
+ * fit between the lowest and highest value shown
+ * @param {string} id Id of the canvas
+ * @param {string} metric Metric recorded by the stats recorder
+ * @param {string} color Line colour
+ * @param {number} simTime Current simulation step
+ */
+function drawSparkline(id, metric, color, simTime) {
+  const canvas = document.getElementById(id);
+  if (!canvas) return;
+
+  const series = window.statsRecorder?.getSeries(metric, simTime - SPARKLINE_STEPS) ?? [];
+  const ctx = canvas.getContext('2d');
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  if (series.length < 2) return;
+
+  const values = series.map(([, value]) => value);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const start = series[0][0];
+  const span = series[series.length - 1][0] - start || 1;
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  series.forEach(([time, value], i) => {
+    const x = ((time - start) / span) * (canvas.width - 2) + 1;
+    const y = canvas.height - 2 - ((value - min) / range) * (canvas.height - 4);
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.stroke();
+}
+
 export class GameUI {
   /**
    * Currently selected tool (always 'select' — all building via AI)
    * @type {string}
    */
   activeToolId = 'select';
-  /**
-   * True if the game is currently paused
-   * @type {boolean}
-   */
-  isPaused = false;
-
   /**
    * The currently selected object (Tile)
    * @type {object | null}
@@ -32,7 +85,7 @@ export class GameUI {
   }
 
   /**
-   * Updates the status bar with population, happiness, and request count
+   * Updates the status bar with population, happiness, funds, and request count
    * @param {Game} game
    */
   updateStatusBar(game) {
@@ -49,12 +102,58 @@ export class GameUI {
       happinessValue.textContent = Math.round(happiness) + '%';
     }
 
+    const budget = game.city.budget;
+    const treasuryEl = document.getElementById('treasury-value');
+    if (treasuryEl) {
+      treasuryEl.textContent = formatMoney(budget.treasury);
+      treasuryEl.style.color = budget.treasury < 0 ? '#ef4444' : '';
+    }
+    const netEl = document.getElementById('budget-net');
+    if (netEl) {
+      // Show the last completed month, or the month in progress for new cities
+      const ledger = budget.history[budget.history.length - 1] ?? budget.ledger;
+      const income = Object.values(ledger.income).reduce((sum, value) => sum + value, 0);
+      const expenses = ledger.expenses.upkeep + ledger.expenses.construction;
+      const net = income - expenses;
+      netEl.textContent = `${net >= 0 ? '+' : '-'}${formatMoney(Math.abs(net))}/月`;
+      netEl.className = net >= 0 ? 'positive' : 'negative';
+      netEl.parentElement.title =
+        `${ledger.month + 1}ヶ月目\n` +
+        `税収: 住宅 ${formatMoney(ledger.income.residential)} / 商業 ${formatMoney(ledger.income.commercial)} / 工業 ${formatMoney(ledger.income.industrial)}\n` +
+        `維持費: ${formatMoney(ledger.expenses.upkeep)}\n` +
+        `建設費: ${formatMoney(ledger.expenses.construction)}`;
+    }
+
     const requestBadge = document.getElementById('request-badge');
     if (requestBadge) {
       const count = window.requestEngine?.getActiveRequests?.()?.length ?? 0;
       requestBadge.textContent = count;
     }
 
+    drawSparkline('population-sparkline', 'population', '#e0e6f0', game.city.simTime);
+    drawSparkline('happiness-sparkline', 'happiness', '#22c55e', game.city.simTime);
+    drawSparkline('treasury-sparkline', 'treasury', '#eab308', game.city.simTime);
+
+    const elapsedEl = document.getElementById('time-elapsed');
+    if (elapsedEl) elapsedEl.textContent = formatSteps(game.city.simTime);
+
+    // Objectives of the scenario being played
+    const objectiveEl = document.getElementById('objective-container');
+    if (objectiveEl) {
+      const scenario = window.scenarioRunner?.getStatus?.() ?? null;
+      objectiveEl.style.display = scenario ? '' : 'none';
+      if (scenario) {
+        const done = scenario.objectives.filter((o) => o.completed).length;
+        document.getElementById('objective-progress').textContent =
+          `${scenario.status === 'won' ? '🏆' : scenario.status === 'lost' ? '⌛' : '🎯'} ${done}/${scenario.objectives.length}`;
+        document.getElementById('objective-time').textContent =
+          scenario.status === 'playing' ? `残り ${formatSteps(scenario.remaining)}` : scenario.name;
+        objectiveEl.title = `${scenario.name}\n` + scenario.objectives
+          .map((o) => `${o.completed ? '✅' : '⬜'} ${o.label}（現在 ${o.current}）`)
+          .join('\n');
+      }
+    }
+
     // Disaster indicator
     const disaster = game.city.activeDisaster;
     let disasterEl = document.getElementById('disaster-indicator');
@@ -72,6 +171,34 @@ export class GameUI {
     }
   }
 
+  /**
+   * Shows the overlay being drawn in the map selector
+   * @param {Game} game
+   */
+  updateOverlayToggle(game) {
+    const select = document.getElementById('overlay-select');
+    if (!select) return;
+    select.value = game.overlay;
+    select.classList.toggle('active', game.overlay !== 'none');
+  }
+
+  /**
+   * Highlights the button of the current game speed and swaps the pause
+   * button between pause and play
+   * @param {Game} game
+   */
+  updateTimeControls(game) {
+    const { speed, paused } = game.city.clock;
+    const pauseEl = document.getElementById('time-pause');
+    if (pauseEl) {
+      pauseEl.classList.toggle('active', paused);
+      pauseEl.querySelector('img').src = paused ? '/icons/play-color.png' : '/icons/pause.png';
+    }
+    for (const button of document.querySelectorAll('.time-speed')) {
+      button.classList.toggle('active', button.dataset.speed === String(speed));
+    }
+  }
+
   /**
    * Updates the info panel with the information in the object
    * @param {SimObject} object
@@ -107,6 +234,42 @@ export class GameUI {
 
 window.ui = new GameUI();
 
+// Map overlay selector in the status bar
+document.getElementById('overlay-select')?.addEventListener('change', (e) => {
+  window.game?.setOverlay(e.target.value);
+});
+
+// Time controls in the status bar. Resuming goes back to the last speed
+(() => {
+  let resumeSpeed = 1;
+
+  document.getElementById('time-pause')?.addEventListener('click', () => {
+    const game = window.game;
+    if (!game) return;
+    if (game.city.clock.paused) {
+      game.setSpeed(resumeSpeed);
+    } else {
+      resumeSpeed = game.city.clock.speed;
+      game.setSpeed(0);
+    }
+  });
+
+  for (const button of document.querySelectorAll('.time-speed')) {
+    button.addEventListener('click', () => {
+      const speed = button.dataset.speed === 'max' ? 'max' : Number(button.dataset.speed);
+      resumeSpeed = speed;
+      window.game?.setSpeed(speed);
+    });
+  }
+
+  document.getElementById('time-step')?.addEventListener('click', () => {
+    const game = window.game;
+    if (!game) return;
+    if (!game.city.clock.paused) resumeSpeed = game.city.clock.speed;
+    game.step(1);
+  });
+})();
+
 // Resize handle for chat panel
 (() => {
   const handle = document.getElementById('resize-handle');
@@ -0,0 +1,66 @@
+import * as THREE from 'three';
+import { Building } from '../../sim/buildings/building.js';
+import { City } from '../../sim/city.js';
+import { ViewObject } from '../viewObject.js';
+
+export class BuildingView extends ViewObject {
+  /**
+   * True if the terrain should not be rendered with this building type
+   * @type {boolean}
+   */
+  hideTerrain = false;
+  /**
+   * Key describing the mesh that is currently displayed. The mesh is only
+   * rebuilt when the key changes.
+   * @type {string | null}
+   */
+  #meshKey = null;
+
+  /**
+   * @param {Building} building 
+   */
+  constructor(building) {
+    super(building);
+    this.name = `${building.type}View`;
+
+    /**
+     * @type {Building}
+     */
+    this.building = building;
+
+    // The building is a child of its tile view, so it sits at the tile origin
+    this.position.set(0, 0, 0);
+  }
+
+  /**
+   * Syncs the view with the state of the building
+   * @param {City} city 
+   */
+  refreshView(city) {
+    this.rotation.y = THREE.MathUtils.degToRad(this.building.rotation);
+
+    const key = this.getMeshKey(city);
+    if (key !== this.#meshKey) {
+      this.#meshKey = key;
+      this.setMesh(this.createMesh(city));
+    }
+  }
+
+  /**
+   * Returns a key that changes whenever the mesh needs to be rebuilt
+   * @param {City} city 
+   * @returns {string}
+   */
+  getMeshKey(city) {
+    return this.building.type;
+  }
+
+  /**
+   * Creates the mesh for the building
+   * @param {City} city 
+   * @returns {THREE.Object3D}
+   */
+  createMesh(city) {
+    return window.assetManager.getModel(this.building.type, this);
+  }
+}
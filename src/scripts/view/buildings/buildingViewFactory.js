@@ -0,0 +1,29 @@
+import { BuildingType } from '../../sim/buildings/buildingType.js';
+import { Building } from '../../sim/buildings/building.js';
+import { BuildingView } from './buildingView.js';
+import { ZoneView } from './zoneView.js';
+import { RoadView } from './roadView.js';
+import { PowerLineView } from './powerLineView.js';
+import { ParkView } from './parkView.js';
+
+/**
+ * Creates the view for a building
+ * @param {Building} building The building to render
+ * @returns {BuildingView} A new building view
+ */
+export function createBuildingView(building) {
+  switch (building.type) {
+    case BuildingType.residential:
+    case BuildingType.commercial:
+    case BuildingType.industrial:
+      return new ZoneView(building);
+    case BuildingType.road:
+      return new RoadView(building);
+    case BuildingType.powerLine:
+      return new PowerLineView(building);
+    case BuildingType.park:
+      return new ParkView(building);
+    default:
+      return new BuildingView(building);
+  }
+}
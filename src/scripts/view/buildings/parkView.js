@@ -0,0 +1,9 @@
+import { BuildingView } from './buildingView.js';
+
+/**
+ * A park covers the whole tile with its own ground, so the terrain
+ * underneath is hidden
+ */
+export class ParkView extends BuildingView {
+  hideTerrain = true;
+}
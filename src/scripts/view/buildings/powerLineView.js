@@ -0,0 +1,97 @@
+import * as THREE from 'three';
+import { City } from '../../sim/city.js';
+import { BuildingView } from './buildingView.js';
+
+const Side = {
+  Left: 'left',
+  Right: 'right',
+  Top: 'top',
+  Bottom: 'bottom'
+}
+
+const powerLineMaterial = new THREE.LineBasicMaterial({ color: 0 });
+
+export class PowerLineView extends BuildingView {
+  /**
+   * Check which adjacent tiles are powerlines
+   * @param {City} city 
+   */
+  #getConnections(city) {
+    const { x, y, type } = this.building;
+    return {
+      top: (city.getTile(x, y - 1)?.building?.type === type) ?? false,
+      bottom: (city.getTile(x, y + 1)?.building?.type === type) ?? false,
+      left: (city.getTile(x - 1, y)?.building?.type === type) ?? false,
+      right: (city.getTile(x + 1, y)?.building?.type === type) ?? false,
+    };
+  }
+
+  getMeshKey(city) {
+    const { top, bottom, left, right } = this.#getConnections(city);
+    return `${top}-${bottom}-${left}-${right}`;
+  }
+
+  createMesh(city) {
+    let group = new THREE.Group();
+    
+    // Merge two powerline models, offset by 90 degrees
+    let tower = window.assetManager.getModel(this.building.type, this);
+    tower.rotation.y = Math.PI / 4;
+    
+    const { top, bottom, left, right } = this.#getConnections(city);
+
+    group.add(tower);
+    
+    if (top) {
+      this.#addLines(group, Side.Top);
+    }
+    if (bottom) {
+      this.#addLines(group, Side.Bottom);
+    }
+    if (left) {
+      this.#addLines(group, Side.Left);
+    }
+    if (right) {
+      this.#addLines(group, Side.Right);
+    }
+
+    return group;
+  }
+
+  #addLines(group, side) {
+    switch (side) {
+      case Side.Left:
+        group.add(this.#createPowerLine(-0.09, 0.36, 0.09, -0.5, 0.36, 0.09));
+        group.add(this.#createPowerLine(-0.09, 0.36, -0.09, -0.5, 0.36, -0.09));
+        break;
+      case Side.Right:
+        group.add(this.#createPowerLine(0.09, 0.36, 0.09, 0.5, 0.36, 0.09));
+        group.add(this.#createPowerLine(0.09, 0.36, -0.09, 0.5, 0.36, -0.09));
+        break;
+      case Side.Top:
+        group.add(this.#createPowerLine(0.09, 0.36, -0.09, 0.09, 0.36, -0.5));
+        group.add(this.#createPowerLine(-0.09, 0.36, -0.09, -0.09, 0.36, -0.5));
+        break;
+      case Side.Bottom:
+        group.add(this.#createPowerLine(0.09, 0.36, 0.09, 0.09, 0.36, 0.5));
+        group.add(this.#createPowerLine(-0.09, 0.36, 0.09, -0.09, 0.36, 0.5));
+        break;
+    }
+  }
+  
+  /**
+   * Creates a new power line between the start/stop points
+   * @returns 
+   */
+  #createPowerLine(x1, y1, z1, x2, y2, z2) {
+    const points = [ 
+      new THREE.Vector3(x1, y1, z1), 
+      new THREE.Vector3(x2, y2, z2)
+    ];
+    const geometry = new THREE.BufferGeometry().setFromPoints(points);
+    const powerLine = new THREE.Line(geometry, powerLineMaterial);
+    // Put in layer 1 so it doesn't interact with raycaster
+    powerLine.layers.set(1);
+    return powerLine;
+  }
+}
@@ -0,0 +1,25 @@
+import { BuildingView } from './buildingView.js';
+
+/**
+ * Height of the bridge deck above the water
+ */
+const BRIDGE_HEIGHT = 0.1;
+
+export class RoadView extends BuildingView {
+  hideTerrain = true;
+
+  refreshView(city) {
+    // Bridges keep the water visible underneath the road
+    this.hideTerrain = !this.building.bridge;
+    this.position.y = this.building.bridge ? BRIDGE_HEIGHT : 0;
+    super.refreshView(city);
+  }
+
+  getMeshKey() {
+    return `road-${this.building.style}`;
+  }
+
+  createMesh() {
+    return window.assetManager.getModel(`road-${this.building.style}`, this);
+  }
+}
@@ -0,0 +1,31 @@
+import * as THREE from 'three';
+import { DevelopmentState } from '../../sim/buildings/modules/development.js';
+import { BuildingView } from './buildingView.js';
+
+/**
+ * Renders a zoned building such as residential, commercial or industrial
+ */
+export class ZoneView extends BuildingView {
+  getMeshKey() {
+    const zone = this.building;
+    return `${zone.type}-${zone.style}${zone.development.level}-${zone.development.state}`;
+  }
+
+  createMesh() {
+    const zone = this.building;
+    let modelName = `${zone.type}-${zone.style}${zone.development.level}`;
+
+    let mesh = window.assetManager.getModel(modelName, this);
+
+    // Tint building a dark color if it is abandoned
+    if (zone.development.state === DevelopmentState.abandoned) {
+      mesh.traverse((obj) => {
+        if (obj.material) {
+          obj.material.color = new THREE.Color(0x707070);
+        }
+      });
+    }
+
+    return mesh;
+  }
+}
@@ -0,0 +1,167 @@
+import * as THREE from 'three';
+import { City } from '../sim/city.js';
+import { TileView } from './tileView.js';
+import { OverlayView } from './overlayView.js';
+import { PlanView } from './planView.js';
+import { VehicleView } from './vehicles/vehicleView.js';
+import { VehicleGraphHelper } from './vehicles/vehicleGraphHelper.js';
+
+/**
+ * Renders a `City`. Subscribes to the city's events and keeps the scene
+ * graph in sync with the simulation state.
+ */
+export class CityView extends THREE.Group {
+  /**
+   * Separate group for organizing debug meshes so they aren't included
+   * in raycasting checks
+   * @type {THREE.Group}
+   */
+  debugMeshes = new THREE.Group();
+  /**
+   * Root node for all scene objects 
+   * @type {THREE.Group}
+   */
+  root = new THREE.Group();
+  /**
+   * Group containing the vehicle meshes
+   * @type {THREE.Group}
+   */
+  vehicles = new THREE.Group();
+  /**
+   * Colour-coded map layer (e.g. traffic) drawn over the city
+   * @type {OverlayView}
+   */
+  overlay = new OverlayView();
+  /**
+   * Ghost tiles of the construction plan awaiting approval
+   * @type {PlanView}
+   */
+  plan = new PlanView();
+  /**
+   * @type {VehicleGraphHelper}
+   */
+  vehicleGraphHelper = new VehicleGraphHelper();
+  /**
+   * 2D array of tile views
+   * @type {TileView[][]}
+   */
+  tiles = [];
+  /**
+   * Vehicle views keyed by vehicle id
+   * @type {Map<number, VehicleView>}
+   */
+  #vehicleViews = new Map();
+  /**
+   * Functions that unsubscribe from the city events
+   * @type {(() => void)[]}
+   */
+  #unsubscribe = [];
+
+  /**
+   * @param {City} city 
+   */
+  constructor(city) {
+    super();
+
+    /**
+     * @type {City}
+     */
+    this.city = city;
+
+    this.add(this.debugMeshes);
+    this.add(this.root);
+    this.add(this.overlay);
+    this.add(this.plan);
+    this.debugMeshes.add(this.vehicles);
+    this.debugMeshes.add(this.vehicleGraphHelper);
+
+    for (let x = 0; x < city.width; x++) {
+      const column = [];
+      for (let y = 0; y < city.height; y++) {
+        const tileView = new TileView(city.getTile(x, y));
+        tileView.refreshView(city);
+        this.root.add(tileView);
+        column.push(tileView);
+      }
+      this.tiles.push(column);
+    }
+
+    this.vehicleGraphHelper.refreshView(city.vehicleGraph);
+
+    this.#unsubscribe.push(
+      city.on('tile-changed', (x, y) => {
+        this.getTile(x, y)?.refreshView(city);
+        this.vehicleGraphHelper.refreshView(city.vehicleGraph);
+        this.overlay.refreshView(city);
+      }),
+      city.on('simulated', () => this.refreshView()),
+    );
+  }
+
+  /**
+   * @param {number} x 
+   * @param {number} y 
+   * @returns {TileView | null}
+   */
+  getTile(x, y) {
+    return this.tiles[x]?.[y] ?? null;
+  }
+
+  /**
+   * Syncs every tile with the simulation state
+   */
+  refreshView() {
+    for (const column of this.tiles) {
+      for (const tileView of column) {
+        tileView.refreshView(this.city);
+      }
+    }
+    this.overlay.refreshView(this.city);
+  }
+
+  /**
+   * Syncs the vehicle meshes with the simulated vehicles. Called every frame.
+   */
+  draw() {
+    const vehicles = this.city.vehicleGraph.vehicles;
+    const alive = new Set(vehicles.map((vehicle) => vehicle.id));
+
+    for (const [id, view] of this.#vehicleViews) {
+      if (!alive.has(id)) {
+        view.dispose();
+        this.vehicles.remove(view);
+        this.#vehicleViews.delete(id);
+      }
+    }
+
+    for (const vehicle of vehicles) {
+      let view = this.#vehicleViews.get(vehicle.id);
+      if (!view) {
+        view = new VehicleView(vehicle);
+        this.#vehicleViews.set(vehicle.id, view);
+        this.vehicles.add(view);
+      } else {
+        view.refreshView();
+      }
+    }
+  }
+
+  /**
+   * Unsubscribes from the city and releases all scene resources
+   */
+  dispose() {
+    this.#unsubscribe.forEach((unsubscribe) => unsubscribe());
+    this.#unsubscribe = [];
+
+    for (const column of this.tiles) {
+      for (const tileView of column) {
+        tileView.dispose();
+      }
+    }
+
+    for (const view of this.#vehicleViews.values()) {
+      view.dispose();
+    }
+    this.#vehicleViews.clear();
+  }
+}
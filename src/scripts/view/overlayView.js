@@ -0,0 +1,147 @@
+import * as THREE from 'three';
+import { City } from '../sim/city.js';
+import { BuildingType } from '../sim/buildings/buildingType.js';
+import { HeatmapType, getHeatmapValue } from '../sim/heatmaps.js';
+
+/**
+ * Map layers that can be drawn over the city
+ */
+export const OverlayType = {
+  none: 'none',
+  traffic: 'traffic',
+  ...HeatmapType,
+};
+
+/**
+ * Height of the overlay above the ground, so it draws on top of the roads
+ */
+const OVERLAY_HEIGHT = 0.05;
+/**
+ * Height of the bridge deck above the water (matches `RoadView`)
+ */
+const BRIDGE_HEIGHT = 0.1;
+
+const TILE_GEOMETRY = new THREE.PlaneGeometry(1, 1).rotateX(-Math.PI / 2);
+
+const LOW_COLOR = new THREE.Color(0xef4444);
+const MID_COLOR = new THREE.Color(0xeab308);
+const HIGH_COLOR = new THREE.Color(0x22c55e);
+
+/**
+ * Materials shared between tiles, keyed by value in steps of 10% and
+ * whether they draw over buildings
+ * @type {Map<string, THREE.MeshBasicMaterial>}
+ */
+const heatMaterials = new Map();
+
+/**
+ * Returns the material for a value on a red → yellow → green scale
+ * @param {number} value 0 (red) to 1 (green)
+ * @param {boolean} overBuildings Draw on top of the buildings standing on
+ * the tile instead of being hidden by them
+ * @returns {THREE.MeshBasicMaterial}
+ */
+function getHeatMaterial(value, overBuildings = false) {
+  const step = Math.round(value * 10);
+  const key = `${step}:${overBuildings}`;
+  if (!heatMaterials.has(key)) {
+    const t = step / 10;
+    const color = t < 0.5
+      ? LOW_COLOR.clone().lerp(MID_COLOR, t * 2)
+      : MID_COLOR.clone().lerp(HIGH_COLOR, (t - 0.5) * 2);
+    heatMaterials.set(key, new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity: 0.6,
+      depthWrite: false,
+      depthTest: !overBuildings,
+    }));
+  }
+  return heatMaterials.get(key);
+}
+
+/**
+ * Colour-coded layer drawn over the city, e.g. the congestion of each road
+ * or a heatmap such as land value.
+ * It is not part of `CityView.root`, so it is ignored when selecting tiles.
+ */
+export class OverlayView extends THREE.Group {
+  /**
+   * The layer being shown
+   * @type {string}
+   */
+  #type = OverlayType.none;
+
+  constructor() {
+    super();
+    this.name = 'Overlay';
+  }
+
+  /**
+   * @type {string}
+   */
+  get type() {
+    return this.#type;
+  }
+
+  /**
+   * Shows a different layer
+   * @param {string} type One of `OverlayType`
+   * @param {City} city
+   */
+  setType(type, city) {
+    this.#type = type;
+    this.refreshView(city);
+  }
+
+  /**
+   * Redraws the layer from the simulation state
+   * @param {City} city
+   */
+  refreshView(city) {
+    this.clear();
+
+    if (this.#type === OverlayType.traffic) {
+      this.#drawTraffic(city);
+    } else if (this.#type !== OverlayType.none) {
+      this.#drawHeatmap(city);
+    }
+  }
+
+  /**
+   * Tints every road by how congested it is
+   * @param {City} city
+   */
+  #drawTraffic(city) {
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const road = city.getTile(x, y).building;
+        if (road?.type !== BuildingType.road) continue;
+
+        // Free-flowing roads are green, jammed roads red
+        const mesh = new THREE.Mesh(TILE_GEOMETRY, getHeatMaterial(1 - road.congestion));
+        mesh.position.set(x, OVERLAY_HEIGHT + (road.bridge ? BRIDGE_HEIGHT : 0), y);
+        this.add(mesh);
+      }
+    }
+  }
+
+  /**
+   * Tints every tile the heatmap applies to by its value
+   * @param {City} city
+   */
+  #drawHeatmap(city) {
+    for (let x = 0; x < city.width; x++) {
+      for (let y = 0; y < city.height; y++) {
+        const tile = city.getTile(x, y);
+        const value = getHeatmapValue(city, tile, this.#type);
+        if (value === null) continue;
+
+        // Heatmaps mostly describe buildings, so they must not hide under them
+        const mesh = new THREE.Mesh(TILE_GEOMETRY, getHeatMaterial(value, true));
+        mesh.position.set(x, OVERLAY_HEIGHT + (tile.building?.bridge ? BRIDGE_HEIGHT : 0), y);
+        this.add(mesh);
+      }
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import * as THREE from 'three';
+import { BuildingType } from '../sim/buildings/buildingType.js';
+
+/**
+ * @typedef {object} PlanTile
+ * @property {number} x
+ * @property {number} y
+ * @property {string} type Building type to place
+ * @property {string} [error] Why the tile cannot be built, if it can't
+ */
+
+/**
+ * Colour of each building type's ghost
+ */
+const GHOST_COLORS = {
+  [BuildingType.residential]: 0x22c55e,
+  [BuildingType.commercial]: 0x3b82f6,
+  [BuildingType.industrial]: 0xeab308,
+  [BuildingType.road]: 0x9ca3af,
+  [BuildingType.powerPlant]: 0xf97316,
+  [BuildingType.solarPowerPlant]: 0xfacc15,
+  [BuildingType.nuclearPowerPlant]: 0xa855f7,
+  [BuildingType.powerLine]: 0xf5f5f4,
+  [BuildingType.school]: 0x14b8a6,
+  [BuildingType.hospital]: 0xec4899,
+  [BuildingType.policeStation]: 0x6366f1,
+  [BuildingType.fireStation]: 0x9a3412,
+  [BuildingType.park]: 0x4ade80,
+  [BuildingType.tree]: 0x15803d,
+  [BuildingType.fountain]: 0x38bdf8,
+  [BuildingType.ferrisWheel]: 0xf472b6,
+  [BuildingType.stadium]: 0xe5e7eb,
+  [BuildingType.statue]: 0xfbbf24,
+};
+const INVALID_COLOR = 0xef4444;
+
+/**
+ * Height of each ghost. Roads, power lines and parks lie flat, plants stand tall.
+ */
+const GHOST_HEIGHTS = {
+  [BuildingType.road]: 0.05,
+  [BuildingType.powerLine]: 0.05,
+  [BuildingType.park]: 0.05,
+  [BuildingType.powerPlant]: 0.8,
+  [BuildingType.solarPowerPlant]: 0.3,
+  [BuildingType.nuclearPowerPlant]: 1,
+};
+const DEFAULT_HEIGHT = 0.5;
+
+/**
+ * Ghosts are slightly smaller than a tile so neighbours stay distinct
+ */
+const GHOST_SIZE = 0.9;
+
+const GHOST_GEOMETRY = new THREE.BoxGeometry(1, 1, 1);
+
+/**
+ * Materials shared between ghosts, keyed by colour
+ * @type {Map<number, THREE.MeshBasicMaterial>}
+ */
+const ghostMaterials = new Map();
+
+/**
+ * @param {number} color
+ * @returns {THREE.MeshBasicMaterial}
+ */
+function getGhostMaterial(color) {
+  if (!ghostMaterials.has(color)) {
+    ghostMaterials.set(color, new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity: 0.45,
+      depthWrite: false,
+    }));
+  }
+  return ghostMaterials.get(color);
+}
+
+/**
+ * Translucent preview of a proposed construction plan. Buildable tiles are
+ * tinted by building type and tiles that cannot be built are red. Like the
+ * overlay it is not part of `CityView.root`, so it is ignored when selecting.
+ */
+export class PlanView extends THREE.Group {
+  constructor() {
+    super();
+    this.name = 'Plan';
+  }
+
+  /**
+   * Shows the tiles of a plan, replacing any previous plan
+   * @param {PlanTile[] | null} tiles The plan, or null to clear it
+   */
+  setPlan(tiles) {
+    this.clear();
+
+    for (const tile of tiles ?? []) {
+      const height = GHOST_HEIGHTS[tile.type] ?? DEFAULT_HEIGHT;
+      const color = tile.error ? INVALID_COLOR : GHOST_COLORS[tile.type] ?? INVALID_COLOR;
+
+      const mesh = new THREE.Mesh(GHOST_GEOMETRY, getGhostMaterial(color));
+      mesh.scale.set(GHOST_SIZE, height, GHOST_SIZE);
+      mesh.position.set(tile.x, height / 2, tile.y);
+      this.add(mesh);
+    }
+  }
+}
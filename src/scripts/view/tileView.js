@@ -0,0 +1,144 @@
+import * as THREE from 'three';
+import { City } from '../sim/city.js';
+import { Tile } from '../sim/tile.js';
+import { BuildingView } from './buildings/buildingView.js';
+import { createBuildingView } from './buildings/buildingViewFactory.js';
+import { ViewObject } from './viewObject.js';
+
+const DAMAGED_COLOR = new THREE.Color(0xff3333);
+const NORMAL_COLOR = new THREE.Color(0xffffff);
+
+export class TileView extends ViewObject {
+  /**
+   * View for the building on this tile
+   * @type {BuildingView?}
+   */
+  #buildingView = null;
+  /**
+   * True while the terrain mesh is tinted to show disaster damage
+   * @type {boolean}
+   */
+  #showingDamage = false;
+  /**
+   * Sprite for recovery icon (shown when activeRecovery is true)
+   * @type {THREE.Sprite?}
+   */
+  #recoveryIcon = null;
+
+  /**
+   * @param {Tile} tile 
+   */
+  constructor(tile) {
+    super(tile);
+    this.name = `TileView-${tile.x}-${tile.y}`;
+
+    /**
+     * @type {Tile}
+     */
+    this.tile = tile;
+  }
+
+  /**
+   * @type {BuildingView?}
+   */
+  get buildingView() {
+    return this.#buildingView;
+  }
+
+  /**
+   * Syncs the view with the state of the tile
+   * @param {City} city 
+   */
+  refreshView(city) {
+    this.#refreshBuilding(city);
+    this.#refreshTerrain();
+    this.#updateDamageVisuals();
+    this.#setRecoveryIcon(this.tile.damaged && this.tile.activeRecovery);
+  }
+
+  /**
+   * Creates or removes the building view if the building on the tile changed
+   * @param {City} city 
+   */
+  #refreshBuilding(city) {
+    const building = this.tile.building;
+
+    if (this.#buildingView?.building !== building) {
+      if (this.#buildingView) {
+        this.#buildingView.dispose();
+        this.remove(this.#buildingView);
+      }
+
+      this.#buildingView = building ? createBuildingView(building) : null;
+
+      if (this.#buildingView) {
+        this.add(this.#buildingView);
+      }
+    }
+
+    this.#buildingView?.refreshView(city);
+  }
+
+  #refreshTerrain() {
+    if (this.#buildingView?.hideTerrain) {
+      this.setMesh(null);
+    } else if (this.mesh?.name !== this.tile.terrain) {
+      /**
+       * @type {THREE.Mesh}
+       */
+      const mesh = window.assetManager.getModel(this.tile.terrain, this);
+      mesh.name = this.tile.terrain;
+      this.setMesh(mesh);
+      this.#showingDamage = false;
+    }
+  }
+
+  #updateDamageVisuals() {
+    if (this.tile.damaged) {
+      // Lerp terrain color from red to white based on recoveryProgress
+      const lerpedColor = DAMAGED_COLOR.clone().lerp(NORMAL_COLOR, this.tile.recoveryProgress);
+      this.#setTerrainColor(lerpedColor);
+      this.#showingDamage = true;
+    } else if (this.#showingDamage) {
+      // Fully restore tile visuals
+      this.#setTerrainColor(NORMAL_COLOR);
+      this.#showingDamage = false;
+    }
+  }
+
+  /**
+   * @param {THREE.Color} color 
+   */
+  #setTerrainColor(color) {
+    this.mesh?.traverse((obj) => {
+      if (obj.material) {
+        obj.material.color.copy(color);
+      }
+    });
+  }
+
+  #setRecoveryIcon(active) {
+    if (active && !this.#recoveryIcon) {
+      const texture = window.assetManager.statusIcons['recovering'];
+      if (texture) {
+        const mat = new THREE.SpriteMaterial({ map: texture, depthTest: false });
+        const icon = new THREE.Sprite(mat);
+        icon.scale.set(0.4, 0.4, 0.4);
+        icon.position.set(0, 0.8, 0);
+        icon.layers.set(1);
+        this.#recoveryIcon = icon;
+        this.add(icon);
+      }
+    } else if (!active && this.#recoveryIcon) {
+      this.remove(this.#recoveryIcon);
+      this.#recoveryIcon.material?.dispose();
+      this.#recoveryIcon = null;
+    }
+  }
+
+  dispose() {
+    this.#buildingView?.dispose();
+    this.#setRecoveryIcon(false);
+    super.dispose();
+  }
+}
@@ -1,6 +1,6 @@
 import * as THREE from 'three';
-import { VehicleGraph } from './vehicleGraph.js';
-import { VehicleGraphNode } from './vehicleGraphNode.js';
+import { VehicleGraph } from '../../sim/vehicles/vehicleGraph.js';
+import { VehicleGraphNode } from '../../sim/vehicles/vehicleGraphNode.js';
 
 const UP = new THREE.Vector3(0, 1, 0);
 
@@ -24,13 +24,13 @@ export class VehicleGraphHelper extends THREE.Group {
   refreshView(graph) {
     this.clear();
 
-    for (let x = 0; x < graph.size; x++) {
-      for (let y = 0; y < graph.size; y++) {
+    for (let x = 0; x < graph.width; x++) {
+      for (let y = 0; y < graph.height; y++) {
         const tile = graph.getTile(x, y);
 
         if (!tile) continue;
 
-        for (const node of tile.children) {
+        for (const node of tile.nodes) {
           this.createNodeVisualization(node);
         }
       }
@@ -47,8 +47,7 @@ export class VehicleGraphHelper extends THREE.Group {
       node.next.length > 0 ? CONNECTED_MATERIAL : DISCONNECTED_MATERIAL
     );
 
-    const nodeWorldPosition = new THREE.Vector3();
-    node.getWorldPosition(nodeWorldPosition);
+    const nodeWorldPosition = new THREE.Vector3(node.x, 0, node.y);
 
     nodeMesh.position.set(
       nodeWorldPosition.x,
@@ -60,8 +59,7 @@ export class VehicleGraphHelper extends THREE.Group {
     if(node.next.length > 0) {
       for (const next of node.next) {
         // Get world position of the next node
-        const nextWorldPosition = new THREE.Vector3();
-        next.getWorldPosition(nextWorldPosition);
+        const nextWorldPosition = new THREE.Vector3(next.x, 0, next.y);
 
         const edgeVector = new THREE.Vector3();
         edgeVector.copy(nextWorldPosition);
@@ -0,0 +1,66 @@
+import * as THREE from 'three';
+import config from '../../config.js';
+import { Vehicle } from '../../sim/vehicles/vehicle.js';
+import { ViewObject } from '../viewObject.js';
+
+const FORWARD = new THREE.Vector3(1, 0, 0);
+
+export class VehicleView extends ViewObject {
+  /**
+   * @param {Vehicle} vehicle 
+   */
+  constructor(vehicle) {
+    super(vehicle);
+    this.name = `Vehicle-${vehicle.id}`;
+
+    /**
+     * @type {Vehicle}
+     */
+    this.vehicle = vehicle;
+
+    this.orientation = new THREE.Vector3();
+
+    this.setMesh(window.assetManager.getModel(vehicle.model, this, true));
+    this.refreshView();
+  }
+
+  /**
+   * Updates the vehicle position each render frame
+   */
+  refreshView() {
+    const { origin, destination, position } = this.vehicle;
+
+    this.position.set(position.x, 0, position.y);
+
+    if (origin && destination) {
+      this.orientation.set(destination.x - origin.x, 0, destination.y - origin.y);
+      if (this.orientation.lengthSq() > 0) {
+        this.orientation.normalize();
+        this.quaternion.setFromUnitVectors(FORWARD, this.orientation);
+      }
+    }
+
+    this.updateOpacity();
+  }
+
+  updateOpacity() {
+    const age = this.vehicle.age;
+    const timeLeft = this.vehicle.timeLeft;
+
+    const setOpacity = (opacity) => {
+      this.traverse(obj => {
+        if (obj.material) {
+          obj.material.opacity = Math.max(0, Math.min(opacity, 1))
+        }
+      });
+    }
+
+    if (age < config.vehicle.fadeTime) {
+      setOpacity(age / config.vehicle.fadeTime);
+    } else if (timeLeft < config.vehicle.fadeTime) {
+      setOpacity(timeLeft / config.vehicle.fadeTime);
+    } else {
+      setOpacity(1);
+    }
+  }
+}
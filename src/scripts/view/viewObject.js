@@ -0,0 +1,93 @@
+import * as THREE from 'three';
+import { SimObject } from '../sim/simObject.js';
+
+const SELECTED_COLOR = 0xaaaa55;
+const HIGHLIGHTED_COLOR = 0x555555;
+
+/**
+ * Base class for the scene objects that render a `SimObject`
+ */
+export class ViewObject extends THREE.Object3D {
+  /**
+   * @type {THREE.Mesh?}
+   */
+  #mesh = null;
+
+  /**
+   * @param {SimObject} simObject The simulation object rendered by this view
+   */
+  constructor(simObject) {
+    super();
+    this.name = 'ViewObject';
+
+    /**
+     * The simulation object rendered by this view
+     * @type {SimObject}
+     */
+    this.simObject = simObject;
+
+    this.position.x = simObject?.x ?? 0;
+    this.position.z = simObject?.y ?? 0;
+  }
+
+  /**
+   * @type {THREE.Mesh?}
+   */
+  get mesh() {
+    return this.#mesh;
+  } 
+
+  /**
+   * @type {THREE.Mesh} value
+   */
+  setMesh(value) {
+    // Remove resources for existing mesh
+    if (this.#mesh) {
+      this.dispose();
+      this.remove(this.#mesh);
+    }
+
+    this.#mesh = value;
+
+    // Add to scene graph
+    if (this.#mesh) {
+      this.add(this.#mesh);
+    }
+  }
+
+  setSelected(value) {
+    if (value) {
+      this.#setMeshEmission(SELECTED_COLOR);
+    } else {
+      this.#setMeshEmission(0);
+    }
+  }
+
+  setFocused(value) {
+    if (value) {
+      this.#setMeshEmission(HIGHLIGHTED_COLOR);
+    } else {
+      this.#setMeshEmission(0);
+    }
+  }
+
+  /**
+   * Sets the emission color of the mesh 
+   * @param {number} color 
+   */
+  #setMeshEmission(color) {
+    if (!this.mesh) return;
+    this.mesh.traverse((obj) => obj.material?.emissive?.setHex(color));
+  }
+
+  /**
+   * Handles any clean up needed before an object is removed
+   */
+  dispose() {
+    this.#mesh?.traverse((obj) => {
+      if (obj.material) {
+        obj.material?.dispose();
+      }
+    })
+  }
+}
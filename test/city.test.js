@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import config from '../src/scripts/config.js';
+import { City } from '../src/scripts/sim/city.js';
+
+// A flat map, so the test town can be built whatever the seed
+config.terrain.enabled = false;
+
+/**
+ * Builds a small powered town with homes, shops and factories between two roads
+ * @param {number} seed
+ * @returns {City}
+ */
+function createTown(seed) {
+  const city = new City(16, 16, 'Test', seed);
+  city.budget.treasury = 1_000_000;
+  for (let x = 0; x < 16; x++) {
+    city.placeBuilding(x, 3, 'road');
+    city.placeBuilding(x, 6, 'road');
+  }
+  city.placeBuilding(2, 4, 'power-plant');
+  for (let x = 3; x < 13; x++) city.placeBuilding(x, 4, 'residential');
+  for (let x = 3; x < 8; x++) city.placeBuilding(x, 5, 'commercial');
+  for (let x = 8; x < 13; x++) city.placeBuilding(x, 5, 'industrial');
+  return city;
+}
+
+/**
+ * Returns the saved state of a city as a string, for comparing two cities
+ * @param {City} city
+ * @returns {string}
+ */
+function snapshot(city) {
+  return JSON.stringify(city.serialize());
+}
+
+test('the simulation runs without a browser', () => {
+  const city = createTown(1);
+  city.simulate(200);
+
+  assert.equal(city.simTime, 200);
+  assert.ok(city.population > 0, 'citizens move in');
+  assert.ok(city.happiness >= 0 && city.happiness <= 100);
+});
+
+test('the same seed and commands produce the same city', () => {
+  const a = createTown(42);
+  const b = createTown(42);
+  a.simulate(150);
+  b.simulate(150);
+
+  assert.equal(snapshot(a), snapshot(b));
+});
+
+test('a saved and loaded city continues exactly like the original', () => {
+  const original = createTown(7);
+  original.simulate(100);
+  const saved = snapshot(original);
+
+  const loaded = new City(8, 8, 'Other', 99);
+  loaded.deserialize(JSON.parse(saved));
+  assert.equal(snapshot(loaded), saved);
+
+  original.simulate(50);
+  loaded.simulate(50);
+  assert.equal(snapshot(loaded), snapshot(original));
+});
@@ -25,6 +25,32 @@ function parseBody(req: IncomingMessage): Promise<any> {
   });
 }
 
+/** Query parameters that carry numbers or booleans; all others stay strings */
+const NUMBER_PARAMS = new Set([
+  'x', 'y', 'x1', 'y1', 'x2', 'y2', 'from_x', 'from_y', 'to_x', 'to_y',
+  'width', 'height', 'seed', 'rate', 'steps', 'from', 'to',
+]);
+const BOOLEAN_PARAMS = new Set(['show_overlay']);
+
+/**
+ * Reads the query parameters into an object like a JSON body, turning
+ * number and boolean parameters into numbers and booleans. Values that do
+ * not parse are kept as strings so the handler reports them.
+ */
+function parseQuery(searchParams: URLSearchParams): Record<string, any> {
+  const query: Record<string, any> = {};
+  for (const [key, value] of searchParams) {
+    if (NUMBER_PARAMS.has(key) && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      query[key] = Number(value);
+    } else if (BOOLEAN_PARAMS.has(key) && ['true', 'false', '1', '0'].includes(value)) {
+      query[key] = value === 'true' || value === '1';
+    } else {
+      query[key] = value;
+    }
+  }
+  return query;
+}
+
 function sendJson(res: ServerResponse, status: number, data: any) {
   res.writeHead(status, {
     'Content-Type': 'application/json',
@@ -73,11 +99,14 @@ export function viteApiPlugin(): Plugin {
         }
 
         try {
-          const route = url.replace('/api/', '');
-          let body: any = {};
+          // Query parameters (e.g. GET /api/history?metric=happiness) are
+          // passed on like the fields of a JSON body
+          const { pathname, searchParams } = new URL(url, 'http://localhost');
+          const route = pathname.replace('/api/', '');
+          let body: any = parseQuery(searchParams);
 
           if (req.method === 'POST') {
-            body = await parseBody(req);
+            body = { ...body, ...(await parseBody(req)) };
           }
 
           const id = `req_${++requestId}`;